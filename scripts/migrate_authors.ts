@@ -0,0 +1,180 @@
+/**
+ * 著者の形式の移行スクリプト
+ *
+ * 以前は複数の著者をハイフン区切りの文字列で保存していたため、「Jean-Paul」のような
+ * ハイフンを含む名前と区別できなかった。役割つきの著者の一覧（contributors プロパティ）を
+ * 持たない書籍について、ISBN で取得した書誌情報の著者と一致すればそれを使い、
+ * 一致しなければ英字に挟まれたハイフンを名前の一部とみなして分割し直す。
+ *
+ * 使用方法:
+ *   deno task migrate:authors -- [--dry-run] [--limit=N]
+ *
+ * オプション:
+ *   --dry-run           実際の書き換えを行わず、処理内容のみ出力
+ *   --limit=N           処理件数をN冊に制限（テスト用）
+ */
+import { Contributor, DriveFile } from "../src/types.ts";
+import { BookService } from "../src/services/book.ts";
+import { CacheService } from "../src/services/cache.ts";
+import { formatContributors, splitLegacyAuthors } from "../src/services/contributors.ts";
+import {
+  MigrationDetail,
+  MigrationOptions,
+  MigrationResult,
+} from "../src/services/calibre.ts";
+
+// ─── AuthorMigrator ──────────────────────────────────────────────
+
+export class AuthorMigrator {
+  constructor(private bookService: BookService) {}
+
+  async migrate(options: MigrationOptions = {}): Promise<MigrationResult> {
+    const result: MigrationResult = {
+      total: 0,
+      succeeded: 0,
+      skipped: 0,
+      errors: 0,
+      details: [],
+    };
+
+    for (const book of await this.bookService.listAllBooks()) {
+      const p = book.properties;
+      if (p.contributors || !p.authors) continue;
+      if (options.limit !== undefined && result.total >= options.limit) break;
+
+      result.total++;
+
+      let detail: MigrationDetail;
+      try {
+        detail = await this.migrateBook(book, options);
+      } catch (e) {
+        detail = {
+          title: p.title || book.name,
+          status: "error",
+          reason: e instanceof Error ? e.message : String(e),
+        };
+      }
+
+      result.details.push(detail);
+      if (detail.status === "succeeded") result.succeeded++;
+      else if (detail.status === "skipped") result.skipped++;
+      else result.errors++;
+    }
+
+    return result;
+  }
+
+  private async migrateBook(
+    book: DriveFile,
+    options: MigrationOptions,
+  ): Promise<MigrationDetail> {
+    const p = book.properties;
+    const title = p.title || book.name;
+
+    let contributors: Contributor[] | null = null;
+    // ハイフンを含む場合だけ、区切りか名前の一部かを書誌情報で確かめる
+    if (p.authors.includes("-") && p.isbn) {
+      const fetched = await this.bookService.fetchMetadata(p.isbn);
+      const candidates = fetched?.contributors;
+      if (candidates && candidates.map((c) => c.name).join("-") === p.authors) {
+        contributors = candidates;
+      }
+    }
+    contributors ??= splitLegacyAuthors(p.authors);
+
+    if (!options.dryRun) {
+      await this.bookService.updateBook(book.id, { contributors });
+    }
+    return { title, status: "succeeded", reason: formatContributors(contributors) };
+  }
+}
+
+// ─── CLI エントリポイント ────────────────────────────────────────
+
+if (import.meta.main) {
+  const { loadClientSecretJson, AuthService } = await import(
+    "../src/services/auth.ts"
+  );
+  const { RealGoogleDriveService } = await import("../src/services/drive.ts");
+  const { AuthorNameService } = await import("../src/services/author_names.ts");
+  const { libraryLayoutFromEnv } = await import("../src/services/library_layout.ts");
+  const { CompositeMetadataService, GoogleBooksService, OpenBDService } = await import(
+    "../src/services/metadata.ts"
+  );
+  const { google } = await import("googleapis");
+
+  const args: Record<string, string | boolean> = {};
+  for (const arg of Deno.args) {
+    if (!arg.startsWith("--")) continue;
+    const [key, value] = arg.slice(2).split("=");
+    args[key] = value ?? true;
+  }
+
+  const PORT = parseInt(Deno.env.get("PORT") || "8000");
+  const config = await loadClientSecretJson(".");
+  if (!config) {
+    console.error(
+      "client_secret*.json が見つかりません。プロジェクトルートに配置してください。",
+    );
+    Deno.exit(1);
+  }
+
+  const redirectUri = config.redirectUri ||
+    `http://localhost:${PORT}/auth/callback`;
+  const authService = new AuthService({ ...config, redirectUri });
+  const token = await authService.loadToken();
+  if (!token) {
+    console.error(
+      "認証トークンが見つかりません。先にサーバーを起動してOAuth認証を完了してください。",
+    );
+    Deno.exit(1);
+  }
+
+  const oauth2Client = new google.auth.OAuth2(
+    config.clientId,
+    config.clientSecret,
+    redirectUri,
+  );
+  oauth2Client.setCredentials({
+    access_token: token.accessToken,
+    refresh_token: token.refreshToken,
+  });
+
+  const drive = google.drive({ version: "v3", auth: oauth2Client });
+  const driveService = new RealGoogleDriveService(drive);
+  const metadataService = new CompositeMetadataService([
+    new OpenBDService(),
+    new GoogleBooksService(),
+  ]);
+  // 別名表に登録済みの著者は正式な表記で保存する
+  const bookService = new BookService(driveService, metadataService, new CacheService(), {
+    authorNames: new AuthorNameService(driveService),
+    layout: libraryLayoutFromEnv(),
+  });
+  const migrator = new AuthorMigrator(bookService);
+
+  const dryRun = args["dry-run"] === true;
+  const limit = args["limit"] ? parseInt(args["limit"] as string) : undefined;
+
+  if (dryRun) console.log("ドライランモード: 実際の書き換えは行いません");
+  if (limit) console.log(`件数制限: ${limit} 冊`);
+  console.log("");
+
+  const result = await migrator.migrate({ dryRun, limit });
+
+  for (const d of result.details.filter((d) => d.status === "succeeded")) {
+    console.log(`  - ${d.title}: ${d.reason}`);
+  }
+
+  console.log("\n=== 移行結果 ===");
+  console.log(`処理対象: ${result.total} 冊`);
+  console.log(`成功:     ${result.succeeded} 冊`);
+  console.log(`エラー:   ${result.errors} 冊`);
+
+  if (result.errors > 0) {
+    console.log("\nエラー詳細:");
+    for (const d of result.details.filter((d) => d.status === "error")) {
+      console.log(`  - ${d.title}: ${d.reason}`);
+    }
+  }
+}
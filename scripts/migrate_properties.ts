@@ -0,0 +1,215 @@
+/**
+ * 切り詰められたプロパティの復元スクリプト
+ *
+ * 長い値を分割して保存するようになる前は、プロパティの値が124バイトで切り詰められていた。
+ * 切り詰められた可能性のある書籍の書誌情報を ISBN で取得し直し、分割保存で書き直す。
+ * プロパティに保存されていた概要はファイルの説明欄へ移す。
+ *
+ * 使用方法:
+ *   deno task migrate:properties -- [--dry-run] [--limit=N]
+ *
+ * オプション:
+ *   --dry-run           実際の書き換えを行わず、処理内容のみ出力
+ *   --limit=N           処理件数をN冊に制限（テスト用）
+ */
+import { BookMetadata, DriveFile } from "../src/types.ts";
+import { BookService } from "../src/services/book.ts";
+import { CacheService } from "../src/services/cache.ts";
+import { isPossiblyTruncated } from "../src/services/drive.ts";
+import {
+  MigrationDetail,
+  MigrationOptions,
+  MigrationResult,
+} from "../src/services/calibre.ts";
+
+/** 切り詰められている可能性があるプロパティと、対応する書誌情報の項目 */
+const TRUNCATABLE_FIELDS = [
+  ["title", "title"],
+  ["authors", "authors"],
+  ["publisher", "publisher"],
+  ["series", "series"],
+] as const;
+
+// ─── PropertyMigrator ────────────────────────────────────────────
+
+export class PropertyMigrator {
+  constructor(private bookService: BookService) {}
+
+  async migrate(options: MigrationOptions = {}): Promise<MigrationResult> {
+    const result: MigrationResult = {
+      total: 0,
+      succeeded: 0,
+      skipped: 0,
+      errors: 0,
+      details: [],
+    };
+
+    for (const book of await this.bookService.listAllBooks()) {
+      if (!needsMigration(book)) continue;
+      if (options.limit !== undefined && result.total >= options.limit) break;
+
+      result.total++;
+
+      let detail: MigrationDetail;
+      try {
+        detail = await this.migrateBook(book, options);
+      } catch (e) {
+        detail = {
+          title: book.properties.title || book.name,
+          status: "error",
+          reason: e instanceof Error ? e.message : String(e),
+        };
+      }
+
+      result.details.push(detail);
+      if (detail.status === "succeeded") result.succeeded++;
+      else if (detail.status === "skipped") result.skipped++;
+      else result.errors++;
+    }
+
+    return result;
+  }
+
+  private async migrateBook(
+    book: DriveFile,
+    options: MigrationOptions,
+  ): Promise<MigrationDetail> {
+    const p = book.properties;
+    const title = p.title || book.name;
+    const truncated = TRUNCATABLE_FIELDS.filter(([key]) => p[key] && isPossiblyTruncated(key, p[key]));
+    const descriptionTruncated = !!p.description && isPossiblyTruncated("description", p.description);
+
+    let fetched: BookMetadata | null = null;
+    if (truncated.length > 0 || descriptionTruncated) {
+      if (!p.isbn) {
+        return { title, status: "skipped", reason: "ISBNなし" };
+      }
+      fetched = await this.bookService.fetchMetadata(p.isbn);
+      if (!fetched) {
+        return { title, status: "skipped", reason: "書誌情報が見つかりません" };
+      }
+    }
+
+    // 取得した値が切り詰められた値で始まる場合だけ書き換える（編集済みの値を上書きしない）
+    const updates: Partial<BookMetadata> = {};
+    for (const [key, field] of truncated) {
+      const value = fetched?.[field];
+      if (value && value !== p[key] && value.startsWith(p[key])) {
+        updates[field] = value;
+      }
+    }
+    if (p.description) {
+      const value = fetched?.description;
+      updates.description = book.description ||
+        (value && value.startsWith(p.description) ? value : p.description);
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return { title, status: "skipped", reason: "元の値を確認できません" };
+    }
+
+    if (options.dryRun) {
+      return { title, status: "succeeded" };
+    }
+
+    await this.bookService.updateBook(book.id, updates);
+    return { title: updates.title || title, status: "succeeded" };
+  }
+}
+
+/** 切り詰められた可能性のある値か、プロパティに保存された概要がある */
+function needsMigration(book: DriveFile): boolean {
+  const p = book.properties;
+  return !!p.description ||
+    TRUNCATABLE_FIELDS.some(([key]) => p[key] && isPossiblyTruncated(key, p[key]));
+}
+
+// ─── CLI エントリポイント ────────────────────────────────────────
+
+if (import.meta.main) {
+  const { loadClientSecretJson, AuthService } = await import(
+    "../src/services/auth.ts"
+  );
+  const { RealGoogleDriveService } = await import("../src/services/drive.ts");
+  const { libraryLayoutFromEnv } = await import("../src/services/library_layout.ts");
+  const { CompositeMetadataService, GoogleBooksService, OpenBDService } = await import(
+    "../src/services/metadata.ts"
+  );
+  const { google } = await import("googleapis");
+
+  const args: Record<string, string | boolean> = {};
+  for (const arg of Deno.args) {
+    if (!arg.startsWith("--")) continue;
+    const [key, value] = arg.slice(2).split("=");
+    args[key] = value ?? true;
+  }
+
+  const PORT = parseInt(Deno.env.get("PORT") || "8000");
+  const config = await loadClientSecretJson(".");
+  if (!config) {
+    console.error(
+      "client_secret*.json が見つかりません。プロジェクトルートに配置してください。",
+    );
+    Deno.exit(1);
+  }
+
+  const redirectUri = config.redirectUri ||
+    `http://localhost:${PORT}/auth/callback`;
+  const authService = new AuthService({ ...config, redirectUri });
+  const token = await authService.loadToken();
+  if (!token) {
+    console.error(
+      "認証トークンが見つかりません。先にサーバーを起動してOAuth認証を完了してください。",
+    );
+    Deno.exit(1);
+  }
+
+  const oauth2Client = new google.auth.OAuth2(
+    config.clientId,
+    config.clientSecret,
+    redirectUri,
+  );
+  oauth2Client.setCredentials({
+    access_token: token.accessToken,
+    refresh_token: token.refreshToken,
+  });
+
+  const drive = google.drive({ version: "v3", auth: oauth2Client });
+  const driveService = new RealGoogleDriveService(drive);
+  const metadataService = new CompositeMetadataService([
+    new OpenBDService(),
+    new GoogleBooksService(),
+  ]);
+  const bookService = new BookService(driveService, metadataService, new CacheService(), {
+    layout: libraryLayoutFromEnv(),
+  });
+  const migrator = new PropertyMigrator(bookService);
+
+  const dryRun = args["dry-run"] === true;
+  const limit = args["limit"] ? parseInt(args["limit"] as string) : undefined;
+
+  if (dryRun) console.log("ドライランモード: 実際の書き換えは行いません");
+  if (limit) console.log(`件数制限: ${limit} 冊`);
+  console.log("");
+
+  const result = await migrator.migrate({ dryRun, limit });
+
+  console.log("=== 復元結果 ===");
+  console.log(`処理対象: ${result.total} 冊`);
+  console.log(`成功:     ${result.succeeded} 冊`);
+  console.log(`スキップ: ${result.skipped} 冊`);
+  console.log(`エラー:   ${result.errors} 冊`);
+
+  if (result.skipped > 0) {
+    console.log("\nスキップ詳細:");
+    for (const d of result.details.filter((d) => d.status === "skipped")) {
+      console.log(`  - ${d.title}: ${d.reason}`);
+    }
+  }
+  if (result.errors > 0) {
+    console.log("\nエラー詳細:");
+    for (const d of result.details.filter((d) => d.status === "error")) {
+      console.log(`  - ${d.title}: ${d.reason}`);
+    }
+  }
+}
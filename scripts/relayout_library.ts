@@ -0,0 +1,110 @@
+/**
+ * ライブラリの再配置スクリプト
+ *
+ * フォルダ構成・ファイル名のテンプレート（環境変数 FOLDER_TEMPLATE・FILE_NAME_TEMPLATE）を
+ * 変更したあと、登録済みの書籍をテンプレートに合わせてリネーム・移動する。
+ * 既定では変更内容の一覧を表示するだけで、--apply を付けたときに適用する。
+ *
+ * 使用方法:
+ *   deno task relayout -- [--apply] [--limit=N]
+ *
+ * オプション:
+ *   --apply             変更内容を Drive に適用する（省略時はプレビューのみ）
+ *   --limit=N           処理件数をN冊に制限（テスト用）
+ */
+import { BookService, RelayoutChange } from "../src/services/book.ts";
+import { CacheService } from "../src/services/cache.ts";
+import { libraryLayoutFromEnv } from "../src/services/library_layout.ts";
+
+/** 変更内容を1冊ずつ表示用の文字列にする */
+export function describeRelayoutChange(change: RelayoutChange): string {
+  const lines = [`- ${change.title}`];
+  if (change.fromName !== change.toName) {
+    lines.push(`    名前: ${change.fromName} → ${change.toName}`);
+  }
+  if (change.fromFolder !== change.toFolder) {
+    lines.push(`    場所: MyLibrary/${change.fromFolder} → MyLibrary/${change.toFolder}`);
+  }
+  return lines.join("\n");
+}
+
+// ─── CLI エントリポイント ────────────────────────────────────────
+
+if (import.meta.main) {
+  const { loadClientSecretJson, AuthService } = await import(
+    "../src/services/auth.ts"
+  );
+  const { RealGoogleDriveService } = await import("../src/services/drive.ts");
+  const { NoOpMetadataService } = await import("../src/services/calibre.ts");
+  const { google } = await import("googleapis");
+
+  const args: Record<string, string | boolean> = {};
+  for (const arg of Deno.args) {
+    if (!arg.startsWith("--")) continue;
+    const [key, value] = arg.slice(2).split("=");
+    args[key] = value ?? true;
+  }
+
+  const PORT = parseInt(Deno.env.get("PORT") || "8000");
+  const config = await loadClientSecretJson(".");
+  if (!config) {
+    console.error(
+      "client_secret*.json が見つかりません。プロジェクトルートに配置してください。",
+    );
+    Deno.exit(1);
+  }
+
+  const redirectUri = config.redirectUri ||
+    `http://localhost:${PORT}/auth/callback`;
+  const authService = new AuthService({ ...config, redirectUri });
+  const token = await authService.loadToken();
+  if (!token) {
+    console.error(
+      "認証トークンが見つかりません。先にサーバーを起動してOAuth認証を完了してください。",
+    );
+    Deno.exit(1);
+  }
+
+  const oauth2Client = new google.auth.OAuth2(
+    config.clientId,
+    config.clientSecret,
+    redirectUri,
+  );
+  oauth2Client.setCredentials({
+    access_token: token.accessToken,
+    refresh_token: token.refreshToken,
+  });
+
+  const layout = libraryLayoutFromEnv();
+  const drive = google.drive({ version: "v3", auth: oauth2Client });
+  const driveService = new RealGoogleDriveService(drive);
+  const bookService = new BookService(driveService, new NoOpMetadataService(), new CacheService(), {
+    layout,
+  });
+
+  const apply = args["apply"] === true;
+  const limit = args["limit"] ? parseInt(args["limit"] as string) : undefined;
+
+  console.log(`フォルダ: MyLibrary/${layout.folderTemplate}`);
+  console.log(`ファイル名: ${layout.fileNameTemplate}.<拡張子>`);
+  console.log("");
+
+  let changes = await bookService.planRelayout();
+  if (limit) changes = changes.slice(0, limit);
+
+  if (changes.length === 0) {
+    console.log("変更が必要な書籍はありません");
+    Deno.exit(0);
+  }
+
+  if (!apply) {
+    for (const change of changes) console.log(describeRelayoutChange(change));
+    console.log(`\n${changes.length} 冊が変更されます。適用するには --apply を付けて実行してください`);
+    Deno.exit(0);
+  }
+
+  const applied = await bookService.applyRelayout(changes, (change) => {
+    console.log(describeRelayoutChange(change));
+  });
+  console.log(`\n${applied} 冊をリネーム・移動しました`);
+}
@@ -2,35 +2,114 @@ import { Hono } from "hono";
 import { logger } from "hono/logger";
 import { BookService } from "./services/book.ts";
 import { BookMetadataService, GoogleDriveService } from "./types.ts";
+import { BulkImportService } from "./services/bulk.ts";
+import { BlobCache } from "./services/blob_cache.ts";
 import { CacheService } from "./services/cache.ts";
+import { JobQueue, JobQueueOptions } from "./services/jobs.ts";
+import { registerBookJobs } from "./services/book_jobs.ts";
+import { SearchIndex } from "./services/search_index.ts";
+import { SyncService, SyncServiceOptions } from "./services/sync.ts";
 import { createBookRoutes } from "./routes/books.tsx";
+import { createBulkRoutes } from "./routes/bulk.tsx";
 import { createOpdsRoutes } from "./routes/opds.ts";
+import { createOpds2Routes } from "./routes/opds2.ts";
+import { createSyncRoutes } from "./routes/sync.ts";
+import { createJobRoutes } from "./routes/jobs.tsx";
+import { createCacheRoutes } from "./routes/cache.ts";
+import { createAuthorRoutes } from "./routes/authors.tsx";
+import { AuthorNameService } from "./services/author_names.ts";
+import { LibraryLayout } from "./services/library_layout.ts";
+import { DeliveryOptions, DeliveryService } from "./services/delivery.ts";
+import { createDeliveryRoutes } from "./routes/delivery.tsx";
+import { KosyncOptions, ReadingProgressService } from "./services/kosync.ts";
+import { createKosyncRoutes } from "./routes/kosync.ts";
 
 export interface AppDependencies {
   driveService: GoogleDriveService;
   metadataService: BookMetadataService;
   cache?: CacheService;
+  searchIndex?: SearchIndex;
+  /** 指定すると書籍ファイルと表紙画像をディスクにキャッシュする */
+  blobCache?: BlobCache;
+  /** 指定すると Drive Changes API による差分同期を有効にする */
+  sync?: SyncServiceOptions;
+  /** 指定すると登録などの時間のかかる処理をバックグラウンドジョブとして実行する */
+  jobs?: JobQueueOptions;
+  /** フォルダ構成とファイル名のテンプレート */
+  layout?: LibraryLayout;
+  /** 端末へのメール送信の設定（未指定なら送信先の管理だけができる） */
+  delivery?: DeliveryOptions;
+  /** KOReader の読書位置の同期サーバー（/kosync）の設定 */
+  kosync?: KosyncOptions;
 }
 
-export function createApp(deps: AppDependencies): { app: Hono; bookService: BookService } {
+export function createApp(deps: AppDependencies): {
+  app: Hono;
+  bookService: BookService;
+  syncService?: SyncService;
+  jobQueue?: JobQueue;
+  readingProgress: ReadingProgressService;
+} {
   const cache = deps.cache || new CacheService();
+  const authorNames = new AuthorNameService(deps.driveService);
   const bookService = new BookService(
     deps.driveService,
     deps.metadataService,
     cache,
+    { searchIndex: deps.searchIndex, blobCache: deps.blobCache, authorNames, layout: deps.layout },
   );
 
   const app = new Hono();
 
   app.use("*", logger());
 
+  let jobQueue: JobQueue | undefined;
+  if (deps.jobs) {
+    jobQueue = new JobQueue(deps.jobs);
+    registerBookJobs(jobQueue, bookService, deps.driveService);
+  }
+
+  const readingProgress = new ReadingProgressService(deps.driveService, bookService, deps.kosync);
+
   // Mount book routes
-  const bookRoutes = createBookRoutes(bookService);
+  const bookRoutes = createBookRoutes(bookService, { jobQueue, readingProgress });
   app.route("/", bookRoutes);
 
-  // Mount OPDS routes
+  // Mount bulk registration routes
+  app.route("/", createBulkRoutes(new BulkImportService(bookService)));
+
+  // Mount author management routes
+  app.route("/", createAuthorRoutes(bookService, authorNames));
+
+  // Mount send-to-device routes
+  app.route("/", createDeliveryRoutes(new DeliveryService(deps.driveService, bookService, deps.delivery)));
+
+  // Mount KOReader progress sync routes
+  app.route("/", createKosyncRoutes(readingProgress));
+
+  // Mount OPDS routes (v2 first, so /opds/* does not shadow /opds/v2)
+  const opds2Routes = createOpds2Routes(bookService);
+  app.route("/", opds2Routes);
+
   const opdsRoutes = createOpdsRoutes(bookService);
   app.route("/", opdsRoutes);
 
-  return { app, bookService };
+  // Mount sync routes
+  let syncService: SyncService | undefined;
+  if (deps.sync) {
+    syncService = new SyncService(deps.driveService, bookService, deps.sync);
+    app.route("/", createSyncRoutes(syncService));
+  }
+
+  // Mount cache statistics routes
+  if (deps.blobCache) {
+    app.route("/", createCacheRoutes(deps.blobCache));
+  }
+
+  // Mount job routes
+  if (jobQueue) {
+    app.route("/", createJobRoutes(jobQueue));
+  }
+
+  return { app, bookService, syncService, jobQueue, readingProgress };
 }
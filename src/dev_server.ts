@@ -7,6 +7,8 @@ import { createApp } from "./app.ts";
 import { MockGoogleDriveService } from "./services/drive_mock.ts";
 import { CompositeMetadataService, OpenBDService, GoogleBooksService } from "./services/metadata.ts";
 import { CacheService } from "./services/cache.ts";
+import { SearchIndex } from "./services/search_index.ts";
+import { MockMailTransport } from "./services/mail_mock.ts";
 
 const PORT = parseInt(Deno.env.get("PORT") || "8000");
 
@@ -16,8 +18,17 @@ const metadataService = new CompositeMetadataService([
   new GoogleBooksService(),
 ]);
 const cache = new CacheService();
+const searchIndex = new SearchIndex();
 
-const { app, bookService } = createApp({ driveService, metadataService, cache });
+const { app, bookService, syncService, jobQueue } = createApp({
+  driveService,
+  metadataService,
+  cache,
+  searchIndex,
+  sync: { intervalMs: 10 * 1000 },
+  jobs: {},
+  delivery: { transport: new MockMailTransport(), from: "library@example.com" },
+});
 
 // サンプルデータを登録
 async function seedData() {
@@ -69,6 +80,9 @@ async function seedData() {
 }
 
 await seedData();
+await syncService!.initialize(false);
+await jobQueue!.start();
+syncService!.start();
 
 console.log(`開発サーバー起動: http://localhost:${PORT}`);
 console.log("（Google Drive APIモックを使用）");
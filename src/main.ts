@@ -7,9 +7,22 @@ import {
   OpenBDService,
 } from "./services/metadata.ts";
 import { CacheService } from "./services/cache.ts";
+import { SearchIndex } from "./services/search_index.ts";
+import { BlobCache } from "./services/blob_cache.ts";
 import { AuthService, loadClientSecretJson } from "./services/auth.ts";
+import { libraryLayoutFromEnv } from "./services/library_layout.ts";
+import { deliveryOptionsFromEnv } from "./services/delivery.ts";
 
 const PORT = parseInt(Deno.env.get("PORT") || "8000");
+const SEARCH_INDEX_PATH = Deno.env.get("SEARCH_INDEX_PATH") || "./search_index.json";
+const SYNC_STATE_PATH = Deno.env.get("SYNC_STATE_PATH") || "./sync_state.json";
+const SYNC_INTERVAL_SEC = parseInt(Deno.env.get("SYNC_INTERVAL_SEC") || "60");
+const JOBS_DIR = Deno.env.get("JOBS_DIR") || "./jobs";
+const DRIVE_MAX_CONCURRENCY = parseInt(Deno.env.get("DRIVE_MAX_CONCURRENCY") || "4");
+const DRIVE_TIMEOUT_SEC = parseInt(Deno.env.get("DRIVE_TIMEOUT_SEC") || "60");
+const BLOB_CACHE_DIR = Deno.env.get("BLOB_CACHE_DIR") || "./blob_cache";
+const BLOB_CACHE_MAX_MB = parseInt(Deno.env.get("BLOB_CACHE_MAX_MB") || "1024");
+const KOSYNC_REGISTRATION = Deno.env.get("KOSYNC_REGISTRATION") === "true";
 
 async function main() {
   // 1. client_secret*.json から認証情報を自動読み込み（環境変数より優先）
@@ -59,7 +72,11 @@ async function main() {
   }
 
   const drive = google.drive({ version: "v3", auth: oauth2Client });
-  const driveService = new RealGoogleDriveService(drive);
+  const driveService = new RealGoogleDriveService(drive, {
+    auth: oauth2Client,
+    maxConcurrency: DRIVE_MAX_CONCURRENCY,
+    timeoutMs: DRIVE_TIMEOUT_SEC * 1000,
+  });
 
   const metadataService = new CompositeMetadataService([
     new OpenBDService(),
@@ -68,12 +85,45 @@ async function main() {
 
   const cache = new CacheService();
 
-  const { app } = createApp({
+  // 前回保存した検索インデックスがあれば即座に使い、裏でDriveと同期する
+  const searchIndex = new SearchIndex({ path: SEARCH_INDEX_PATH });
+  const indexLoaded = await searchIndex.load();
+  if (indexLoaded) {
+    console.log(`検索インデックスを読み込みました（${searchIndex.size}冊）`);
+  }
+
+  const { app, syncService, jobQueue } = createApp({
     driveService,
     metadataService,
     cache,
+    searchIndex,
+    blobCache: new BlobCache({ dir: BLOB_CACHE_DIR, maxBytes: BLOB_CACHE_MAX_MB * 1024 * 1024 }),
+    sync: {
+      statePath: SYNC_STATE_PATH,
+      intervalMs: SYNC_INTERVAL_SEC * 1000,
+    },
+    jobs: { dir: JOBS_DIR },
+    layout: libraryLayoutFromEnv(),
+    delivery: deliveryOptionsFromEnv(),
+    kosync: { registration: KOSYNC_REGISTRATION },
   });
 
+  // 前回の終了時に残っていたジョブも再開する
+  await jobQueue!.start();
+
+  const startSync = () => {
+    syncService!.initialize(indexLoaded)
+      .then(() => {
+        console.log(`Driveとの同期を開始しました（${searchIndex.size}冊）`);
+        syncService!.start();
+      })
+      .catch((error) => console.error(`Driveとの同期開始に失敗しました: ${String(error)}`));
+  };
+
+  if (token) {
+    startSync();
+  }
+
   // Auth callback route
   app.get("/auth/callback", async (c) => {
     const code = c.req.query("code");
@@ -87,6 +137,9 @@ async function main() {
         access_token: tokenInfo.accessToken,
         refresh_token: tokenInfo.refreshToken,
       });
+      if (!syncService!.getStatus().polling) {
+        startSync();
+      }
       return c.redirect("/");
     } catch (error) {
       return c.text(`Authentication failed: ${String(error)}`, 500);
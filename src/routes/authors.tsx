@@ -0,0 +1,85 @@
+/** @jsxImportSource hono/jsx */
+
+import { Context, Hono } from "hono";
+import { BookService } from "../services/book.ts";
+import { AuthorNameService } from "../services/author_names.ts";
+import { Layout } from "../views/layout.tsx";
+import { AuthorAdmin, AuthorsPage } from "../views/authors.tsx";
+
+export function createAuthorRoutes(
+  bookService: BookService,
+  authorNames: AuthorNameService,
+): Hono {
+  const app = new Hono();
+
+  async function renderAdmin(
+    c: Context,
+    message?: { type: "success" | "error"; text: string },
+    status: 200 | 400 = 200,
+  ) {
+    return c.html(
+      <AuthorAdmin
+        authors={await bookService.listAuthors()}
+        aliases={await authorNames.listAliases()}
+        baseUrl=""
+        message={message}
+      />,
+      status,
+    );
+  }
+
+  // Author management page (Drive 上で編集された別名表も読み直す)
+  app.get("/authors", async (c) => {
+    let aliases;
+    try {
+      aliases = await authorNames.listAliases({ refresh: true });
+    } catch (e) {
+      return c.html(
+        <Layout title="著者の管理">
+          <div class="alert alert-error">
+            <span>{e instanceof Error ? e.message : String(e)}</span>
+          </div>
+        </Layout>,
+        500,
+      );
+    }
+    return c.html(
+      <Layout title="著者の管理">
+        <AuthorsPage authors={await bookService.listAuthors()} aliases={aliases} baseUrl="" />
+      </Layout>,
+    );
+  });
+
+  // Merge one author into another (htmx partial)
+  app.post("/authors/merge", async (c) => {
+    const body = await c.req.parseBody();
+    const source = String(body["source"] || "");
+    const target = String(body["target"] || "");
+    if (!source || !target) {
+      return renderAdmin(c, { type: "error", text: "統合元と統合先を選択してください" }, 400);
+    }
+    try {
+      const updated = await bookService.mergeAuthors(source, target);
+      return renderAdmin(c, { type: "success", text: `著者を統合しました（${updated}冊を更新）` });
+    } catch (e) {
+      return renderAdmin(c, { type: "error", text: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  app.post("/authors/aliases", async (c) => {
+    const body = await c.req.parseBody();
+    try {
+      await authorNames.setAlias(String(body["alias"] || ""), String(body["canonical"] || ""));
+      return renderAdmin(c, { type: "success", text: "別名を登録しました" });
+    } catch (e) {
+      return renderAdmin(c, { type: "error", text: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  app.delete("/authors/aliases", async (c) => {
+    await authorNames.removeAlias(c.req.query("alias") || "");
+    return renderAdmin(c, { type: "success", text: "別名を削除しました" });
+  });
+
+  return app;
+}
@@ -1,21 +1,165 @@
 /** @jsxImportSource hono/jsx */
 
-import { Hono } from "hono";
-import { BookService } from "../services/book.ts";
+import { Context, Hono } from "hono";
+import { BookService, getBookFormats, validateBookMetadata } from "../services/book.ts";
+import { JobQueue } from "../services/jobs.ts";
+import { JOB_TYPES, RegisterBookPayload } from "../services/book_jobs.ts";
+import {
+  getBoundary,
+  MultipartPart,
+  readMultipart,
+  resumeStream,
+} from "../services/multipart.ts";
+import { UploadProgressTracker } from "../services/upload_progress.ts";
+import { isCoverSize } from "../services/thumbnail.ts";
+import { detectImageType } from "../services/image.ts";
+import {
+  detectBookFormat,
+  FORMAT_SNIFF_LENGTH,
+  findFormatForFile,
+  SUPPORTED_FORMAT_LABELS,
+} from "../services/formats.ts";
+import { findConversionByKey } from "../services/conversion.ts";
+import {
+  getETag,
+  getLastModified,
+  isIfRangeFresh,
+  matchesIfNoneMatch,
+  parseRange,
+} from "../services/http_range.ts";
 import { Layout } from "../views/layout.tsx";
 import { LibraryPage, BookGrid } from "../views/library.tsx";
 import {
   RegisterPage,
   MetadataResult,
+  InspectionResult,
   RegisterSuccess,
+  RegisterQueued,
   RegisterError,
   DuplicateIsbnWarning,
+  UploadProgressBar,
 } from "../views/register.tsx";
-import { EditPage, EditSuccess, EditError } from "../views/edit.tsx";
-import { BookMetadata } from "../types.ts";
+import { BookFormatList, CoverEditor, EditPage, EditSuccess, EditError } from "../views/edit.tsx";
+import { SeriesPage } from "../views/series.tsx";
+import { ReadingProgressService } from "../services/kosync.ts";
+import { BookMetadata, DriveFile } from "../types.ts";
+
+interface UploadedFile {
+  name: string;
+  type: string;
+  body: ReadableStream<Uint8Array>;
+}
 
-export function createBookRoutes(bookService: BookService): Hono {
+const UPLOAD_ID_PATTERN = /^[\w-]{1,64}$/;
+/** 編集画面から更新できる書誌情報 */
+const EDITABLE_FIELDS = [
+  "title",
+  "authors",
+  "isbn",
+  "publisher",
+  "publishedDate",
+  "description",
+  "series",
+  "seriesIndex",
+] as const;
+
+/**
+ * フォームの各項目を送られてきた順に読む。
+ * multipart の場合はボディを先頭から読み進め、ファイルはストリームのまま渡す。
+ */
+async function* readFormParts(req: Request): AsyncGenerator<MultipartPart> {
+  const boundary = getBoundary(req.headers.get("Content-Type"));
+  if (boundary && req.body) {
+    yield* readMultipart(req.body, boundary);
+    return;
+  }
+
+  const formData = await req.formData();
+  for (const [name, value] of formData) {
+    if (typeof value === "string") {
+      yield {
+        name,
+        filename: null,
+        contentType: "text/plain",
+        body: new Response(value).body!,
+        text: () => Promise.resolve(value),
+      };
+    } else {
+      yield {
+        name,
+        filename: value.name,
+        contentType: value.type,
+        body: value.stream(),
+        text: () => value.text(),
+      };
+    }
+  }
+}
+
+/**
+ * 形式の判定のためにストリームの先頭を読む。読んだ部分はストリームに戻して返す。
+ * 中身が空なら null を返す
+ */
+async function peekStream(
+  stream: ReadableStream<Uint8Array>,
+  length: number,
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> } | null> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < length) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (value.length === 0) continue;
+    chunks.push(value);
+    size += value.length;
+  }
+  if (size === 0) return null;
+
+  const head = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    head.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { head, stream: resumeStream(chunks, reader) };
+}
+
+/** 通過したバイト数を数えて通知する */
+function countBytes(onProgress: (bytes: number) => void): TransformStream<Uint8Array, Uint8Array> {
+  let bytes = 0;
+  return new TransformStream({
+    transform(chunk, controller) {
+      bytes += chunk.length;
+      onProgress(bytes);
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+export interface BookRoutesOptions {
+  /** 指定すると書籍の登録をバックグラウンドジョブとして実行する */
+  jobQueue?: JobQueue;
+  /** 指定すると書籍カードに KOReader で同期した読書位置を表示する */
+  readingProgress?: ReadingProgressService;
+}
+
+export function createBookRoutes(
+  bookService: BookService,
+  options: BookRoutesOptions = {},
+): Hono {
   const app = new Hono();
+  const uploads = new UploadProgressTracker();
+
+  // 読書位置のファイルが読み込めなくても一覧は表示する
+  async function loadProgress(books: DriveFile[]) {
+    try {
+      return await options.readingProgress?.getBooksProgress(books);
+    } catch (error) {
+      console.error(`読書位置の読み込みに失敗しました: ${String(error)}`);
+      return undefined;
+    }
+  }
 
   // Library list page
   app.get("/", async (c) => {
@@ -28,6 +172,7 @@ export function createBookRoutes(bookService: BookService): Hono {
             books={result.files}
             nextPageToken={result.nextPageToken}
             baseUrl={baseUrl}
+            progress={await loadProgress(result.files)}
           />
         </Layout>,
       );
@@ -48,7 +193,12 @@ export function createBookRoutes(bookService: BookService): Hono {
     const pageToken = c.req.query("pageToken");
     const result = await bookService.listBooks(pageToken);
     return c.html(
-      <BookGrid books={result.files} nextPageToken={result.nextPageToken} baseUrl="" />,
+      <BookGrid
+        books={result.files}
+        nextPageToken={result.nextPageToken}
+        baseUrl=""
+        progress={await loadProgress(result.files)}
+      />,
     );
   });
 
@@ -58,15 +208,47 @@ export function createBookRoutes(bookService: BookService): Hono {
     if (!query.trim()) {
       const result = await bookService.listBooks();
       return c.html(
-        <BookGrid books={result.files} nextPageToken={result.nextPageToken} baseUrl="" />,
+        <BookGrid
+          books={result.files}
+          nextPageToken={result.nextPageToken}
+          baseUrl=""
+          progress={await loadProgress(result.files)}
+        />,
       );
     }
     const result = await bookService.searchBooks(query);
     return c.html(
-      <BookGrid books={result.files} nextPageToken={result.nextPageToken} baseUrl="" />,
+      <BookGrid
+        books={result.files}
+        nextPageToken={result.nextPageToken}
+        baseUrl=""
+        progress={await loadProgress(result.files)}
+      />,
     );
   });
 
+  // Series page
+  app.get("/series/:name", async (c) => {
+    try {
+      const name = c.req.param("name");
+      const books = await bookService.listSeries(name);
+      return c.html(
+        <Layout title={name}>
+          <SeriesPage series={name} books={books} baseUrl="" progress={await loadProgress(books)} />
+        </Layout>,
+      );
+    } catch (error) {
+      return c.html(
+        <Layout title="エラー">
+          <div class="alert alert-error">
+            <span>シリーズの読み込みに失敗しました: {String(error)}</span>
+          </div>
+        </Layout>,
+        500,
+      );
+    }
+  });
+
   // Registration page
   app.get("/books/new", (c) => {
     return c.html(
@@ -89,110 +271,186 @@ export function createBookRoutes(bookService: BookService): Hono {
     return c.html(<MetadataResult metadata={metadata} notFound={false} />);
   });
 
+  // Read metadata embedded in the selected file (htmx partial)
+  app.post("/api/inspect", async (c) => {
+    const formData = await c.req.formData();
+    const file = formData.get("file") as File | null;
+    if (!file || file.size === 0) {
+      return c.html(<div></div>);
+    }
+    const content = new Uint8Array(await file.arrayBuffer());
+    const format = detectBookFormat(content.subarray(0, FORMAT_SNIFF_LENGTH), file.name, file.type);
+    const inspection = format ? await bookService.inspectBookFile(content, format.mimeType) : null;
+    return c.html(<InspectionResult inspection={inspection} />);
+  });
+
   // Register a book
   app.post("/books", async (c) => {
     try {
-      const formData = await c.req.formData();
-      const title = formData.get("title") as string;
-      const authors = formData.get("authors") as string || "";
-      const publisher = formData.get("publisher") as string || "";
-      const publishedDate = formData.get("publishedDate") as string || "";
-      const description = formData.get("description") as string || "";
-      const isbn = formData.get("isbn") as string || "";
-      const coverImageUrl = formData.get("coverImageUrl") as string || "";
-      const file = formData.get("file") as File | null;
-      const overwrite = c.req.query("overwrite");
-
-      if (!title || !title.trim()) {
-        return c.html(
-          <RegisterError message="タイトルは必須です" />,
-          400,
-        );
-      }
+      const fields = new Map<string, string>();
+      let buffered: UploadedFile | null = null;
 
-      if (!file || file.size === 0) {
-        return c.html(
-          <RegisterError message="ファイルを選択してください" />,
-          400,
-        );
+      for await (const part of readFormParts(c.req.raw)) {
+        if (part.filename === null) {
+          fields.set(part.name, await part.text());
+          continue;
+        }
+        if (part.name !== "file") continue;
+
+        const file = { name: part.filename, type: part.contentType, body: part.body };
+        // ブラウザはファイルをフォームの最後に送るので、届いたらそのまま登録へ流す
+        if (fields.has("title")) return await registerUpload(c, fields, file);
+        // 他の項目より先にファイルが届いた場合だけメモリに読み込んでおく
+        const data = new Uint8Array(await new Response(part.body).arrayBuffer());
+        buffered = { ...file, body: new Response(data).body! };
       }
 
-      // Validate file type
-      const validTypes = ["application/epub+zip", "application/pdf"];
-      const fileName = file.name.toLowerCase();
-      const isValidType = validTypes.includes(file.type) ||
-        fileName.endsWith(".epub") || fileName.endsWith(".pdf");
+      return await registerUpload(c, fields, buffered);
+    } catch (error) {
+      return c.html(
+        <RegisterError message={`登録に失敗しました: ${String(error)}`} />,
+        500,
+      );
+    }
+  });
 
-      if (!isValidType) {
-        return c.html(
-          <RegisterError message="対応していないファイル形式です。EPUB または PDF ファイルのみ対応しています。" />,
-          400,
-        );
-      }
+  async function registerUpload(
+    c: Context,
+    fields: Map<string, string>,
+    file: UploadedFile | null,
+  ): Promise<Response> {
+    const field = (name: string) => fields.get(name) || "";
+    const title = field("title");
+    const isbn = field("isbn");
+    const overwrite = c.req.query("overwrite");
+
+    if (!title.trim()) {
+      return c.html(
+        <RegisterError message="タイトルは必須です" />,
+        400,
+      );
+    }
+
+    // ファイル未選択でも空のファイル名でパートが送られてくる
+    const peeked = file?.name ? await peekStream(file.body, FORMAT_SNIFF_LENGTH) : null;
+    if (!file || !peeked) {
+      return c.html(
+        <RegisterError message="ファイルを選択してください" />,
+        400,
+      );
+    }
 
-      // Determine MIME type from extension if type is generic
-      let mimeType = file.type;
-      if (!validTypes.includes(mimeType)) {
-        if (fileName.endsWith(".epub")) mimeType = "application/epub+zip";
-        else if (fileName.endsWith(".pdf")) mimeType = "application/pdf";
+    // 形式はファイルの先頭のバイト列で判定する（判定できない形式は拡張子で）
+    const content = peeked.stream;
+    const format = detectBookFormat(peeked.head, file.name, file.type);
+    if (!format) {
+      await content.cancel();
+      return c.html(
+        <RegisterError message={`対応していないファイル形式です。対応形式: ${SUPPORTED_FORMAT_LABELS}`} />,
+        400,
+      );
+    }
+    const mimeType = format.mimeType;
+
+    // If overwriting, delete the existing file of the same format first
+    if (overwrite) {
+      try {
+        // 上書きするのは別の形式のファイルのこともあるので、代表のファイルで形式の数を数える
+        const existing = await bookService.getPrimaryBook(overwrite);
+        if (getBookFormats(existing).length > 1) await bookService.removeFormat(overwrite);
+        else await bookService.deleteBook(overwrite);
+      } catch {
+        // Ignore if file doesn't exist
       }
+    }
 
-      // Check for duplicate ISBN
-      if (isbn && !overwrite) {
-        const existing = await bookService.findBookByIsbn(isbn);
-        if (existing) {
+    // 同じ ISBN の書籍があれば、その書籍の別の形式として追加する（同じ形式なら上書きを確認する）
+    let addToBookId: string | null = null;
+    if (isbn) {
+      const existing = await bookService.findBookByIsbn(isbn);
+      if (existing) {
+        const sameFormat = getBookFormats(existing).find((f) => f.key === format.key);
+        if (sameFormat && !overwrite) {
+          await content.cancel();
           return c.html(
             <DuplicateIsbnWarning
               isbn={isbn}
-              existingFileId={existing.id}
+              existingFileId={sameFormat.fileId}
               baseUrl=""
             />,
           );
         }
+        if (!sameFormat) addToBookId = existing.id;
       }
+    }
 
-      // If overwriting, delete existing file first
-      if (overwrite) {
-        try {
-          await bookService.deleteBook(overwrite);
-        } catch {
-          // Ignore if file doesn't exist
-        }
-      }
+    const metadata: BookMetadata = {
+      isbn,
+      title: title.trim(),
+      authors: field("authors").trim(),
+      publisher: field("publisher").trim(),
+      publishedDate: field("publishedDate").trim(),
+      description: field("description").trim(),
+      coverImageUrl: field("coverImageUrl").trim(),
+      series: field("series").trim(),
+      seriesIndex: field("seriesIndex").trim(),
+    };
 
-      const metadata: BookMetadata = {
-        isbn,
-        title: title.trim(),
-        authors: authors.trim(),
-        publisher: publisher.trim(),
-        publishedDate: publishedDate.trim(),
-        description: description.trim(),
-        coverImageUrl: coverImageUrl.trim(),
-      };
+    const uploadId = UPLOAD_ID_PATTERN.test(field("uploadId")) ? field("uploadId") : null;
+    const size = Number(field("fileSize")) || undefined;
+    const onProgress = (uploaded: number, total = size) => {
+      if (uploadId) uploads.update(uploadId, uploaded, total);
+    };
 
-      const content = new Uint8Array(await file.arrayBuffer());
-      await bookService.registerBook(metadata, content, mimeType);
+    try {
+      if (options.jobQueue) {
+        // 受信しながら添付データとして保存する。Drive へのアップロードはジョブで行う
+        await options.jobQueue.enqueue(JOB_TYPES.registerBook, {
+          metadata,
+          mimeType,
+          size,
+          ...(addToBookId ? { bookId: addToBookId } : {}),
+        } satisfies RegisterBookPayload, {
+          label: `${addToBookId ? `形式の追加(${format.label})` : "登録"}: ${metadata.title}`,
+          attachment: content.pipeThrough(countBytes(onProgress)),
+          // Drive に作成済みのまま失敗することがあり、再実行すると重複するため自動では再試行しない
+          maxAttempts: 1,
+        });
+        return c.html(<RegisterQueued />);
+      }
 
+      if (addToBookId) {
+        await bookService.addFormatStream(addToBookId, content, mimeType, { size, onProgress });
+        return c.html(
+          <RegisterSuccess message={`登録済みの書籍に${format.label}形式のファイルを追加しました`} />,
+        );
+      }
+      await bookService.registerBookStream(metadata, content, mimeType, { size, onProgress });
       return c.html(<RegisterSuccess />);
-    } catch (error) {
-      return c.html(
-        <RegisterError message={`登録に失敗しました: ${String(error)}`} />,
-        500,
-      );
+    } finally {
+      if (uploadId) uploads.finish(uploadId);
     }
+  }
+
+  // Upload progress partial (polled by the register page)
+  app.get("/api/uploads", (c) => {
+    const uploadId = c.req.query("uploadId") || "";
+    return c.html(<UploadProgressBar progress={uploads.get(uploadId)} />);
   });
 
   // Download a book
   app.get("/books/:id/download", async (c) => {
     try {
       const id = c.req.param("id");
-      const { stream, file } = await bookService.downloadBookStream(id);
+      // ?format= を指定すると書籍のその形式のファイルを返す（なければ変換する）
+      const format = c.req.query("format");
+      const file = format ? await bookService.getFormatFile(id, format) : await bookService.getBook(id);
+      if (!file) {
+        return c.text(`この書籍は ${format} 形式で配信できません`, 404);
+      }
 
-      const contentType = file.mimeType === "application/epub+zip"
-        ? "application/epub+zip"
-        : file.mimeType === "application/pdf"
-        ? "application/pdf"
-        : "application/octet-stream";
+      const contentType = findConversionByKey(file.properties?.conversion || "")?.mimeType ??
+        findFormatForFile(file)?.mimeType ?? "application/octet-stream";
 
       const disposition = contentType === "application/pdf" ? "inline" : "attachment";
 
@@ -200,11 +458,46 @@ export function createBookRoutes(bookService: BookService): Hono {
         "Content-Type": contentType,
         "Content-Disposition": `${disposition}; filename="${encodeURIComponent(file.name)}"`,
       };
-      if (file.size !== undefined) {
-        headers["Content-Length"] = file.size;
+      const etag = getETag(file);
+      const lastModified = getLastModified(file);
+      if (etag) headers["ETag"] = etag;
+      if (lastModified) headers["Last-Modified"] = lastModified;
+
+      if (matchesIfNoneMatch(c.req.header("If-None-Match"), etag)) {
+        return new Response(null, { status: 304, headers });
+      }
+
+      if (file.size === undefined) {
+        return new Response(await bookService.openBookStream(file), { headers });
       }
 
-      return new Response(stream, { headers });
+      // 途中から読み直すリーダーや中断したダウンロードのため、単一の Range に応じる
+      const size = Number(file.size);
+      headers["Accept-Ranges"] = "bytes";
+      const range = isIfRangeFresh(c.req.header("If-Range"), file)
+        ? parseRange(c.req.header("Range"), size)
+        : null;
+
+      if (range === "unsatisfiable") {
+        return new Response(null, {
+          status: 416,
+          headers: { ...headers, "Content-Range": `bytes */${size}` },
+        });
+      }
+      if (range) {
+        const stream = await bookService.openBookStream(file, range);
+        return new Response(stream, {
+          status: 206,
+          headers: {
+            ...headers,
+            "Content-Range": `bytes ${range.start}-${range.end}/${size}`,
+            "Content-Length": String(range.end - range.start + 1),
+          },
+        });
+      }
+
+      headers["Content-Length"] = file.size;
+      return new Response(await bookService.openBookStream(file), { headers });
     } catch (error) {
       return c.text(`ダウンロードに失敗しました: ${String(error)}`, 500);
     }
@@ -214,15 +507,17 @@ export function createBookRoutes(bookService: BookService): Hono {
   app.get("/books/:id/cover", async (c) => {
     try {
       const id = c.req.param("id");
-      const file = await bookService.getBook(id);
-      const coverFileId = file.properties?.cover_file_id;
-      if (!coverFileId) {
+      const size = c.req.query("size");
+      if (size !== undefined && !isCoverSize(size)) {
+        return c.text(`不明な表紙サイズです: ${size}`, 400);
+      }
+      const content = await bookService.getBookCover(id, size);
+      if (!content) {
         return c.notFound();
       }
-      const content = await bookService.getCoverImageContent(coverFileId);
       return new Response(content.buffer as ArrayBuffer, {
         headers: {
-          "Content-Type": "image/jpeg",
+          "Content-Type": detectImageType(content) || "image/jpeg",
           "Cache-Control": "public, max-age=86400",
         },
       });
@@ -231,6 +526,59 @@ export function createBookRoutes(bookService: BookService): Hono {
     }
   });
 
+  // Replace the cover with an uploaded image or an image URL (htmx partial)
+  app.post("/books/:id/cover", async (c) => {
+    try {
+      const id = c.req.param("id");
+      const body = await c.req.parseBody();
+      const cover = body.cover;
+      const coverUrl = typeof body.coverUrl === "string" ? body.coverUrl.trim() : "";
+      let book;
+      if (cover instanceof File && cover.size > 0) {
+        book = await bookService.setCover(id, new Uint8Array(await cover.arrayBuffer()));
+      } else if (coverUrl) {
+        if (!/^https?:\/\//.test(coverUrl)) {
+          return c.html(<EditError message="画像のURLは http:// または https:// で指定してください" />, 400);
+        }
+        book = await bookService.attachCoverFromUrl(id, coverUrl);
+      } else {
+        return c.html(<EditError message="画像ファイルかURLを指定してください" />, 400);
+      }
+      return c.html(<CoverEditor book={book} baseUrl="" message="表紙を差し替えました" />);
+    } catch (error) {
+      return c.html(
+        <EditError message={`表紙の差し替えに失敗しました: ${String(error)}`} />,
+        500,
+      );
+    }
+  });
+
+  // Re-fetch the cover from OpenBD / Google Books by ISBN (htmx partial)
+  app.post("/books/:id/cover/refetch", async (c) => {
+    try {
+      const book = await bookService.refetchCover(c.req.param("id"));
+      return c.html(<CoverEditor book={book} baseUrl="" message="表紙を再取得しました" />);
+    } catch (error) {
+      return c.html(
+        <EditError message={`表紙の再取得に失敗しました: ${String(error)}`} />,
+        500,
+      );
+    }
+  });
+
+  // Remove the cover (htmx partial)
+  app.delete("/books/:id/cover", async (c) => {
+    try {
+      const book = await bookService.removeCover(c.req.param("id"));
+      return c.html(<CoverEditor book={book} baseUrl="" message="表紙を削除しました" />);
+    } catch (error) {
+      return c.html(
+        <EditError message={`表紙の削除に失敗しました: ${String(error)}`} />,
+        500,
+      );
+    }
+  });
+
   // Edit page
   app.get("/books/:id/edit", async (c) => {
     try {
@@ -253,17 +601,78 @@ export function createBookRoutes(bookService: BookService): Hono {
     }
   });
 
+  // Add another format file to a book (htmx partial)
+  app.post("/books/:id/formats", async (c) => {
+    const id = c.req.param("id");
+    try {
+      for await (const part of readFormParts(c.req.raw)) {
+        if (part.name !== "file" || !part.filename) continue;
+        const peeked = await peekStream(part.body, FORMAT_SNIFF_LENGTH);
+        if (!peeked) break;
+        const format = detectBookFormat(peeked.head, part.filename, part.contentType);
+        if (!format) {
+          await peeked.stream.cancel();
+          throw new Error(`対応していないファイル形式です。対応形式: ${SUPPORTED_FORMAT_LABELS}`);
+        }
+        await bookService.addFormatStream(id, peeked.stream, format.mimeType);
+        return c.html(
+          <BookFormatList
+            book={await bookService.getBook(id)}
+            baseUrl=""
+            message={{ type: "success", text: `${format.label}形式のファイルを追加しました` }}
+          />,
+        );
+      }
+      throw new Error("ファイルを選択してください");
+    } catch (error) {
+      return c.html(
+        <BookFormatList
+          book={await bookService.getBook(id)}
+          baseUrl=""
+          message={{ type: "error", text: error instanceof Error ? error.message : String(error) }}
+        />,
+        400,
+      );
+    }
+  });
+
+  // Remove one format file from a book (htmx partial)
+  app.delete("/books/:id/formats/:fileId", async (c) => {
+    const id = c.req.param("id");
+    try {
+      const book = await bookService.removeFormat(c.req.param("fileId"));
+      // 代表のファイルを削除した場合は編集画面の URL が変わる
+      if (book.id !== id) c.header("HX-Redirect", `/books/${book.id}/edit`);
+      return c.html(
+        <BookFormatList book={book} baseUrl="" message={{ type: "success", text: "形式を削除しました" }} />,
+      );
+    } catch (error) {
+      return c.html(
+        <BookFormatList
+          book={await bookService.getBook(id)}
+          baseUrl=""
+          message={{ type: "error", text: error instanceof Error ? error.message : String(error) }}
+        />,
+        400,
+      );
+    }
+  });
+
   // Update a book
   app.put("/books/:id", async (c) => {
     try {
       const id = c.req.param("id");
       const body = await c.req.parseBody();
-      const metadata: Partial<BookMetadata> = {
-        title: body.title as string,
-        authors: body.authors as string,
-        publisher: body.publisher as string,
-        publishedDate: body.publishedDate as string,
-      };
+      // フォームに含まれていた項目だけを更新する
+      const metadata: Partial<BookMetadata> = {};
+      for (const key of EDITABLE_FIELDS) {
+        const value = body[key];
+        if (typeof value === "string") metadata[key] = value.trim();
+      }
+      const errors = validateBookMetadata(metadata);
+      if (errors.length > 0) {
+        return c.html(<EditError message={errors.join(" / ")} />, 400);
+      }
       await bookService.updateBook(id, metadata);
       return c.html(<EditSuccess />);
     } catch (error) {
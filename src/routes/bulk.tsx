@@ -0,0 +1,121 @@
+/** @jsxImportSource hono/jsx */
+
+import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
+import { BulkImportService, BulkUploadFile } from "../services/bulk.ts";
+import { Layout } from "../views/layout.tsx";
+import {
+  BulkDone,
+  BulkPage,
+  BulkProgress,
+  BulkProgressSummary,
+  BulkReviewTable,
+  BulkRowStatusBadge,
+} from "../views/bulk.tsx";
+import { RegisterError } from "../views/register.tsx";
+import { detectBookFormat, FORMAT_SNIFF_LENGTH, SUPPORTED_FORMAT_LABELS } from "../services/formats.ts";
+
+const EDITABLE_FIELDS = ["isbn", "title", "authors", "publisher"] as const;
+
+export function createBulkRoutes(bulkService: BulkImportService): Hono {
+  const app = new Hono();
+
+  // Bulk registration page
+  app.get("/books/bulk", (c) => {
+    return c.html(
+      <Layout title="一括登録">
+        <BulkPage baseUrl="" />
+      </Layout>,
+    );
+  });
+
+  // Stage uploaded files and show the review table
+  app.post("/books/bulk", async (c) => {
+    const formData = await c.req.formData();
+    const files = formData.getAll("files")
+      .filter((f): f is File => f instanceof File && f.size > 0);
+    if (files.length === 0) {
+      return c.html(<RegisterError message="ファイルを選択してください" />, 400);
+    }
+
+    const uploads: BulkUploadFile[] = [];
+    const rejected: string[] = [];
+    for (const file of files) {
+      const content = new Uint8Array(await file.arrayBuffer());
+      const format = detectBookFormat(content.subarray(0, FORMAT_SNIFF_LENGTH), file.name, file.type);
+      if (!format) {
+        rejected.push(file.name);
+        continue;
+      }
+      uploads.push({ name: file.name, mimeType: format.mimeType, content });
+    }
+    if (uploads.length === 0) {
+      return c.html(
+        <RegisterError message={`対応していないファイル形式です。対応形式: ${SUPPORTED_FORMAT_LABELS}`} />,
+        400,
+      );
+    }
+
+    const batch = await bulkService.stage(uploads);
+    return c.html(<BulkReviewTable batch={batch} rejected={rejected} baseUrl="" />);
+  });
+
+  // Apply edits from the review table and start registering
+  app.post("/books/bulk/:id/commit", async (c) => {
+    const batch = bulkService.getBatch(c.req.param("id"));
+    if (!batch) {
+      return c.html(<RegisterError message="一括登録のデータが見つかりません" />, 404);
+    }
+
+    const formData = await c.req.formData();
+    for (const row of batch.rows) {
+      const changes: Record<string, string> = {};
+      for (const field of EDITABLE_FIELDS) {
+        const value = formData.get(`${field}.${row.id}`);
+        if (typeof value === "string") changes[field] = value;
+      }
+      bulkService.updateRow(batch.id, row.id, {
+        ...changes,
+        skip: formData.has(`skip.${row.id}`),
+      });
+    }
+
+    bulkService.start(batch.id);
+    return c.html(<BulkProgress batch={batch} baseUrl="" />);
+  });
+
+  // Progress stream (htmx SSE extension)
+  app.get("/books/bulk/:id/events", (c) => {
+    const batch = bulkService.getBatch(c.req.param("id"));
+    if (!batch) return c.notFound();
+
+    return streamSSE(c, async (stream) => {
+      for await (const event of bulkService.watch(batch.id)) {
+        await stream.writeSSE({
+          event: `row-${event.row.id}`,
+          data: String(await (<BulkRowStatusBadge row={event.row} />).toString()),
+        });
+        await stream.writeSSE({
+          event: "progress",
+          data: String(
+            await (<BulkProgressSummary done={event.done} total={event.total} />).toString(),
+          ),
+        });
+      }
+      if (batch.state === "committed") {
+        await stream.writeSSE({
+          event: "done",
+          data: String(await (<BulkDone batch={batch} baseUrl="" />).toString()),
+        });
+      }
+    });
+  });
+
+  // Discard a staged batch
+  app.delete("/books/bulk/:id", async (c) => {
+    await bulkService.discard(c.req.param("id"));
+    return c.html(<div></div>);
+  });
+
+  return app;
+}
@@ -0,0 +1,18 @@
+import { Hono } from "hono";
+import { BlobCache } from "../services/blob_cache.ts";
+
+export function createCacheRoutes(blobCache: BlobCache): Hono {
+  const app = new Hono();
+
+  // Disk cache statistics
+  app.get("/api/cache/stats", (c) => {
+    const stats = blobCache.stats();
+    const lookups = stats.hits + stats.misses;
+    return c.json({
+      ...stats,
+      hitRate: lookups > 0 ? stats.hits / lookups : null,
+    });
+  });
+
+  return app;
+}
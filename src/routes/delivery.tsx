@@ -0,0 +1,111 @@
+/** @jsxImportSource hono/jsx */
+
+import { Context, Hono } from "hono";
+import { DeliveryService } from "../services/delivery.ts";
+import { Layout } from "../views/layout.tsx";
+import { DeviceAdmin, DevicesPage, SendForm } from "../views/delivery.tsx";
+
+export function createDeliveryRoutes(delivery: DeliveryService): Hono {
+  const app = new Hono();
+
+  async function renderAdmin(
+    c: Context,
+    message?: { type: "success" | "error"; text: string },
+    status: 200 | 400 = 200,
+  ) {
+    return c.html(
+      <DeviceAdmin devices={await delivery.listDevices()} baseUrl="" message={message} />,
+      status,
+    );
+  }
+
+  // Device management page (Drive 上で編集された送信先・送信履歴も読み直す)
+  app.get("/devices", async (c) => {
+    let devices, deliveries;
+    try {
+      devices = await delivery.listDevices({ refresh: true });
+      deliveries = await delivery.listDeliveries({ refresh: true });
+    } catch (e) {
+      return c.html(
+        <Layout title="送信先の管理">
+          <div class="alert alert-error">
+            <span>{e instanceof Error ? e.message : String(e)}</span>
+          </div>
+        </Layout>,
+        500,
+      );
+    }
+    return c.html(
+      <Layout title="送信先の管理">
+        <DevicesPage
+          devices={devices}
+          deliveries={deliveries}
+          enabled={delivery.enabled}
+          maxBytes={delivery.maxBytes}
+          maxFileBytes={delivery.maxFileBytes}
+          baseUrl=""
+        />
+      </Layout>,
+    );
+  });
+
+  app.post("/devices", async (c) => {
+    const body = await c.req.parseBody();
+    try {
+      const device = await delivery.addDevice({
+        user: String(body["user"] || ""),
+        name: String(body["name"] || ""),
+        email: String(body["email"] || ""),
+        format: String(body["format"] || ""),
+      });
+      return renderAdmin(c, { type: "success", text: `送信先「${device.name}」を追加しました` });
+    } catch (e) {
+      return renderAdmin(c, { type: "error", text: e instanceof Error ? e.message : String(e) }, 400);
+    }
+  });
+
+  app.delete("/devices/:id", async (c) => {
+    await delivery.removeDevice(c.req.param("id"));
+    return renderAdmin(c, { type: "success", text: "送信先を削除しました" });
+  });
+
+  // Device selector for a book card (htmx partial)
+  app.get("/books/:id/send", async (c) => {
+    return c.html(
+      <SendForm
+        bookId={c.req.param("id")}
+        devices={await delivery.listDevices()}
+        enabled={delivery.enabled}
+        baseUrl=""
+      />,
+    );
+  });
+
+  // Email the book file to a device (htmx partial)
+  app.post("/books/:id/send", async (c) => {
+    const bookId = c.req.param("id");
+    const body = await c.req.parseBody();
+    const render = async (message: { type: "success" | "error"; text: string }, status: 200 | 400 | 500) =>
+      c.html(
+        <SendForm
+          bookId={bookId}
+          devices={await delivery.listDevices()}
+          enabled={delivery.enabled}
+          baseUrl=""
+          message={message}
+        />,
+        status,
+      );
+
+    const deviceId = String(body["device"] || "");
+    if (!deviceId) return render({ type: "error", text: "送信先を選択してください" }, 400);
+    try {
+      const entry = await delivery.sendBook(bookId, deviceId);
+      return render({ type: "success", text: `「${entry.title}」を ${entry.device} に送信しました` }, 200);
+    } catch (e) {
+      return render({ type: "error", text: e instanceof Error ? e.message : String(e) }, 500);
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,104 @@
+/** @jsxImportSource hono/jsx */
+
+import { Hono } from "hono";
+import { JobQueue } from "../services/jobs.ts";
+import {
+  JOB_TYPES,
+  MigrateCalibrePayload,
+  UpdateBookPayload,
+} from "../services/book_jobs.ts";
+import { Layout } from "../views/layout.tsx";
+import { JobsPage, JobTable } from "../views/jobs.tsx";
+
+export function createJobRoutes(jobQueue: JobQueue): Hono {
+  const app = new Hono();
+
+  // Job list page
+  app.get("/jobs", (c) => {
+    return c.html(
+      <Layout title="ジョブ">
+        <JobsPage jobs={jobQueue.list()} baseUrl="" />
+      </Layout>,
+    );
+  });
+
+  // Job table partial (polled by htmx)
+  app.get("/jobs/table", (c) => {
+    return c.html(<JobTable jobs={jobQueue.list()} baseUrl="" />);
+  });
+
+  // Retry a failed job from the UI
+  app.post("/jobs/:id/retry", async (c) => {
+    await jobQueue.retry(c.req.param("id"));
+    return c.html(<JobTable jobs={jobQueue.list()} baseUrl="" />);
+  });
+
+  // Dismiss a finished or failed job (and its attachment) from the UI
+  app.delete("/jobs/:id", async (c) => {
+    await jobQueue.remove(c.req.param("id"));
+    return c.html(<JobTable jobs={jobQueue.list()} baseUrl="" />);
+  });
+
+  // Job status (JSON)
+  app.get("/api/jobs", (c) => {
+    return c.json({ jobs: jobQueue.list() });
+  });
+
+  app.get("/api/jobs/:id", (c) => {
+    const job = jobQueue.get(c.req.param("id"));
+    if (!job) return c.json({ error: "ジョブが見つかりません" }, 404);
+    return c.json(job);
+  });
+
+  app.post("/api/jobs/:id/retry", async (c) => {
+    const job = await jobQueue.retry(c.req.param("id"));
+    if (!job) return c.json({ error: "再試行できるジョブが見つかりません" }, 404);
+    return c.json(job);
+  });
+
+  app.delete("/api/jobs/:id", async (c) => {
+    if (!(await jobQueue.remove(c.req.param("id")))) {
+      return c.json({ error: "削除できるジョブが見つかりません" }, 404);
+    }
+    return c.body(null, 204);
+  });
+
+  // Bulk metadata edits: one update job per book
+  app.post("/api/jobs/update-books", async (c) => {
+    const body = await c.req.json<{ updates?: UpdateBookPayload[] }>().catch(() => null);
+    const updates = body?.updates?.filter((u) => u.fileId && u.metadata) || [];
+    if (updates.length === 0) {
+      return c.json({ error: "updates を指定してください" }, 400);
+    }
+
+    const jobs = [];
+    for (const update of updates) {
+      jobs.push(
+        await jobQueue.enqueue(JOB_TYPES.updateBook, update, {
+          label: `更新: ${update.metadata.title || update.fileId}`,
+        }),
+      );
+    }
+    return c.json({ jobs }, 202);
+  });
+
+  // Calibre library migration
+  app.post("/api/jobs/migrate-calibre", async (c) => {
+    const body = await c.req.json<MigrateCalibrePayload>().catch(() => null);
+    if (!body?.sourceFolderId) {
+      return c.json({ error: "sourceFolderId を指定してください" }, 400);
+    }
+
+    const job = await jobQueue.enqueue(JOB_TYPES.migrateCalibre, {
+      sourceFolderId: body.sourceFolderId,
+      options: body.options,
+    } satisfies MigrateCalibrePayload, {
+      label: `Calibre移管: ${body.sourceFolderId}`,
+      // ISBNのない書籍は再実行すると重複登録されるため自動では再試行しない
+      maxAttempts: 1,
+    });
+    return c.json(job, 202);
+  });
+
+  return app;
+}
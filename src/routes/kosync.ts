@@ -0,0 +1,83 @@
+import { Context, Hono } from "hono";
+import { ReadingProgressService } from "../services/kosync.ts";
+
+/** KOReader の同期サーバー API のエラー（コードと HTTP ステータスは koreader-sync-server に合わせる） */
+const KOSYNC_ERRORS = {
+  unauthorized: { code: 2001, message: "Unauthorized", status: 401 },
+  userExists: { code: 2002, message: "Username is already registered.", status: 402 },
+  invalidRequest: { code: 2003, message: "Invalid request", status: 403 },
+  documentMissing: { code: 2004, message: "Field 'document' not provided.", status: 403 },
+  registrationDisabled: { code: 2005, message: "User registration is disabled.", status: 402 },
+} as const;
+
+function kosyncError(c: Context, error: keyof typeof KOSYNC_ERRORS) {
+  const { code, message, status } = KOSYNC_ERRORS[error];
+  return c.json({ code, message }, status);
+}
+
+async function readJson(c: Context): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await c.req.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * KOReader の「進捗の同期」（kosync）のサーバー API。
+ * KOReader のカスタム同期サーバーに `http://<ホスト>/kosync` を指定する
+ */
+export function createKosyncRoutes(readingProgress: ReadingProgressService): Hono {
+  const app = new Hono();
+
+  app.get("/kosync/healthcheck", (c) => c.json({ state: "OK" }));
+
+  app.post("/kosync/users/create", async (c) => {
+    if (!readingProgress.registrationEnabled) return kosyncError(c, "registrationDisabled");
+    const body = await readJson(c);
+    const username = typeof body?.username === "string" ? body.username.trim() : "";
+    const password = typeof body?.password === "string" ? body.password : "";
+    if (!username || !password) return kosyncError(c, "invalidRequest");
+    if (!await readingProgress.createUser(username, password)) return kosyncError(c, "userExists");
+    return c.json({ username }, 201);
+  });
+
+  // 利用者名とパスワード（の MD5）は x-auth-user / x-auth-key ヘッダーで送られる
+  const authorize = async (c: Context) =>
+    await readingProgress.authorize(c.req.header("x-auth-user") || "", c.req.header("x-auth-key") || "");
+
+  app.get("/kosync/users/auth", async (c) => {
+    if (!await authorize(c)) return kosyncError(c, "unauthorized");
+    return c.json({ authorized: "OK" });
+  });
+
+  app.put("/kosync/syncs/progress", async (c) => {
+    if (!await authorize(c)) return kosyncError(c, "unauthorized");
+    const body = await readJson(c);
+    if (!body) return kosyncError(c, "invalidRequest");
+    const document = typeof body.document === "string" ? body.document : "";
+    if (!document) return kosyncError(c, "documentMissing");
+    const percentage = Number(body.percentage);
+    if (typeof body.progress !== "string" || !Number.isFinite(percentage) || typeof body.device !== "string") {
+      return kosyncError(c, "invalidRequest");
+    }
+    const timestamp = await readingProgress.updateProgress(c.req.header("x-auth-user")!, {
+      document,
+      progress: body.progress,
+      percentage,
+      device: body.device,
+      device_id: typeof body.device_id === "string" ? body.device_id : "",
+    });
+    return c.json({ document, timestamp });
+  });
+
+  app.get("/kosync/syncs/progress/:document", async (c) => {
+    if (!await authorize(c)) return kosyncError(c, "unauthorized");
+    const progress = await readingProgress.getProgress(c.req.header("x-auth-user")!, c.req.param("document"));
+    // 保存された位置がなければ空のオブジェクトを返す
+    return c.json(progress ?? {});
+  });
+
+  return app;
+}
@@ -1,7 +1,21 @@
-import { Hono } from "hono";
+import { Context, Hono } from "hono";
 import { BookService } from "../services/book.ts";
+import {
+  CatalogFeed,
+  CatalogNavigationItem,
+  CatalogPagination,
+  CatalogPublication,
+  CatalogService,
+  catalogPagePath,
+  toPublication,
+} from "../services/catalog.ts";
 import { DriveFile } from "../types.ts";
 
+const CATALOG_ROOT = "/opds";
+const OPDS2_ROOT = "/opds/v2";
+const ACQUISITION_TYPE = "application/atom+xml;profile=opds-catalog;kind=acquisition";
+const NAVIGATION_TYPE = "application/atom+xml;profile=opds-catalog;kind=navigation";
+
 function escapeXml(str: string): string {
   return str
     .replace(/&/g, "&amp;")
@@ -12,66 +26,141 @@ function escapeXml(str: string): string {
 }
 
 function generateEntry(book: DriveFile, baseUrl: string): string {
-  const title = book.properties?.title || book.name;
-  const authors = book.properties?.authors || "";
-  const publisher = book.properties?.publisher || "";
-  const publishedDate = book.properties?.published_date || "";
-  const isbn = book.properties?.isbn || "";
-  const coverFileId = book.properties?.cover_file_id;
-
-  const mimeType = book.mimeType === "application/epub+zip"
-    ? "application/epub+zip"
-    : book.mimeType === "application/pdf"
-    ? "application/pdf"
-    : "application/octet-stream";
-
-  const authorEntries = authors
-    ? authors.split("-").map((a) =>
-      `    <author><name>${escapeXml(a.trim())}</name></author>`
-    ).join("\n")
+  return renderAtomEntry(toPublication(book), baseUrl);
+}
+
+function renderAtomEntry(pub: CatalogPublication, baseUrl: string): string {
+  const authorEntries = pub.authors.map((a) =>
+    `    <author><name>${escapeXml(a)}</name></author>`
+  ).join("\n");
+  const contributorEntries = pub.contributors.map((c) =>
+    `    <contributor><name>${escapeXml(c.name)}</name></contributor>`
+  ).join("\n");
+
+  // KOReader などがシリーズ単位でまとめられるよう Calibre 互換のシリーズ情報を出力する
+  const seriesEntries = pub.series
+    ? `    <calibre:series>${escapeXml(pub.series)}</calibre:series>` +
+      (pub.seriesIndex
+        ? `\n    <calibre:series_index>${escapeXml(pub.seriesIndex)}</calibre:series_index>`
+        : "")
     : "";
 
-  const coverLink = coverFileId
-    ? `    <link rel="http://opds-spec.org/image" href="${baseUrl}/books/${book.id}/cover" type="image/jpeg"/>\n    <link rel="http://opds-spec.org/image/thumbnail" href="${baseUrl}/books/${book.id}/cover" type="image/jpeg"/>`
+  const coverLink = pub.cover
+    ? `    <link rel="http://opds-spec.org/image" href="${baseUrl}${pub.cover.href}" type="${pub.cover.type}"/>\n    <link rel="http://opds-spec.org/image/thumbnail" href="${baseUrl}${pub.cover.thumbnailHref}" type="${pub.cover.thumbnailType}"/>`
     : "";
 
+  // 形式ごとに取得リンクを出す
+  const acquisitionLinks = pub.acquisitions.map((a) =>
+    `    <link rel="http://opds-spec.org/acquisition" href="${baseUrl}${a.href}" type="${a.type}"/>`
+  ).join("\n");
+
   return `  <entry>
-    <title>${escapeXml(title)}</title>
-    <id>urn:isbn:${escapeXml(isbn || book.id)}</id>
-    <updated>${publishedDate || new Date().toISOString()}</updated>
+    <title>${escapeXml(pub.title)}</title>
+    <id>${escapeXml(pub.id)}</id>
+    <updated>${pub.publishedDate || new Date().toISOString()}</updated>
 ${authorEntries}
-${publisher ? `    <dc:publisher>${escapeXml(publisher)}</dc:publisher>` : ""}
+${contributorEntries}
+${pub.publisher ? `    <dc:publisher>${escapeXml(pub.publisher)}</dc:publisher>` : ""}
+${seriesEntries}
 ${coverLink}
-    <link rel="http://opds-spec.org/acquisition" href="${baseUrl}/books/${book.id}/download" type="${mimeType}"/>
+${acquisitionLinks}
   </entry>`;
 }
 
-function generateFeed(
-  books: DriveFile[],
-  baseUrl: string,
-  title: string = "蔵書管理",
-  searchQuery?: string,
-): string {
-  const entries = books.map((b) => generateEntry(b, baseUrl)).join("\n");
+function renderNavigationEntry(item: CatalogNavigationItem, catalogUrl: string): string {
+  return `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <id>${escapeXml(item.id)}</id>
+    <updated>${new Date().toISOString()}</updated>
+${item.content ? `    <content type="text">${escapeXml(item.content)}</content>\n` : ""}    <link rel="subsection" href="${catalogUrl}${escapeXml(item.path)}" type="${item.kind === "navigation" ? NAVIGATION_TYPE : ACQUISITION_TYPE}"/>
+  </entry>`;
+}
+
+/**
+ * カタログのフィードを Atom (OPDS 1.2) として描画する
+ */
+function renderAtomFeed(feed: CatalogFeed, baseUrl: string): string {
+  const catalogUrl = `${baseUrl}${CATALOG_ROOT}`;
+  const kindType = feed.kind === "navigation" ? NAVIGATION_TYPE : ACQUISITION_TYPE;
+  const page = feed.pagination?.page ?? 1;
+  const link = (rel: string, path: string, type: string) =>
+    `  <link rel="${rel}" href="${catalogUrl}${escapeXml(path)}" type="${type}"/>`;
+
+  const links = [
+    link("self", catalogPagePath(feed, page), kindType),
+    link("start", "", NAVIGATION_TYPE),
+  ];
+  if (feed.upPath !== undefined) {
+    links.push(link("up", feed.upPath, NAVIGATION_TYPE));
+  }
+  links.push(`  <link rel="search" href="${catalogUrl}/opensearch.xml" type="application/opensearchdescription+xml"/>`);
+  links.push(
+    `  <link rel="alternate" href="${baseUrl}${OPDS2_ROOT}${escapeXml(catalogPagePath(feed, page))}" type="application/opds+json"/>`,
+  );
+
+  for (const group of feed.facetGroups) {
+    for (const facet of group.facets) {
+      links.push(
+        `  <link rel="http://opds-spec.org/facet" href="${catalogUrl}${escapeXml(facet.path)}" type="${ACQUISITION_TYPE}" title="${escapeXml(facet.title)}" opds:facetGroup="${escapeXml(group.title)}"${facet.active ? ' opds:activeFacet="true"' : ""} thr:count="${facet.count}"/>`,
+      );
+    }
+  }
+
+  const paging = feed.pagination;
+  if (paging?.hasPrevious) links.push(link("previous", catalogPagePath(feed, page - 1), kindType));
+  if (paging?.hasNext) links.push(link("next", catalogPagePath(feed, page + 1), kindType));
+
+  const body = feed.kind === "navigation"
+    ? feed.navigation.map((item) => renderNavigationEntry(item, catalogUrl))
+    : [
+      `  <opensearch:totalResults>${paging?.totalResults ?? feed.publications.length}</opensearch:totalResults>`,
+      `  <opensearch:startIndex>${paging?.startIndex ?? 0}</opensearch:startIndex>`,
+      `  <opensearch:itemsPerPage>${paging?.itemsPerPage ?? feed.publications.length}</opensearch:itemsPerPage>`,
+      ...feed.publications.map((pub) => renderAtomEntry(pub, baseUrl)),
+    ];
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <feed xmlns="http://www.w3.org/2005/Atom"
       xmlns:dc="http://purl.org/dc/terms/"
       xmlns:opds="http://opds-spec.org/2010/catalog"
+      xmlns:calibre="http://calibre.kovidgoyal.net/2009/metadata"
+      xmlns:thr="http://purl.org/syndication/thread/1.0"
       xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">
-  <id>urn:uuid:gdrive-book-manager</id>
-  <title>${escapeXml(title)}</title>
+  <id>${escapeXml(feed.id)}</id>
+  <title>${escapeXml(feed.title)}</title>
   <updated>${new Date().toISOString()}</updated>
-  <link rel="self" href="${baseUrl}/opds${searchQuery ? `?q=${encodeURIComponent(searchQuery)}` : ""}" type="application/atom+xml;profile=opds-catalog;kind=acquisition"/>
-  <link rel="start" href="${baseUrl}/opds" type="application/atom+xml;profile=opds-catalog;kind=acquisition"/>
-  <link rel="search" href="${baseUrl}/opds/opensearch.xml" type="application/opensearchdescription+xml"/>
-  <opensearch:totalResults>${books.length}</opensearch:totalResults>
-  <opensearch:startIndex>0</opensearch:startIndex>
-  <opensearch:itemsPerPage>${books.length}</opensearch:itemsPerPage>
-${entries}
+${links.join("\n")}
+${body.join("\n")}
 </feed>`;
 }
 
+/**
+ * 書籍の配列から単独の取得フィードを生成する
+ */
+function generateFeed(
+  books: DriveFile[],
+  baseUrl: string,
+  paging: Partial<Pick<CatalogPagination, "startIndex" | "totalResults" | "itemsPerPage">> = {},
+): string {
+  return renderAtomFeed({
+    id: "urn:uuid:gdrive-book-manager",
+    title: "蔵書管理",
+    kind: "acquisition",
+    path: "",
+    navigation: [],
+    publications: books.map(toPublication),
+    facetGroups: [],
+    pagination: {
+      page: 1,
+      startIndex: paging.startIndex ?? 0,
+      totalResults: paging.totalResults ?? books.length,
+      itemsPerPage: paging.itemsPerPage ?? books.length,
+      hasPrevious: false,
+      hasNext: false,
+    },
+  }, baseUrl);
+}
+
 function generateOpenSearchDescription(baseUrl: string): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
 <OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/">
@@ -81,40 +170,24 @@ function generateOpenSearchDescription(baseUrl: string): string {
 </OpenSearchDescription>`;
 }
 
-export function createOpdsRoutes(bookService: BookService): Hono {
-  const app = new Hono();
-
-  app.get("/opds", async (c) => {
-    const query = c.req.query("q");
-    const baseUrl = `${c.req.header("x-forwarded-proto") || "http"}://${c.req.header("host") || "localhost:8000"}`;
-
-    let books;
-    if (query) {
-      const result = await bookService.searchBooks(query);
-      books = result.files;
-    } else {
-      // Get all books (iterate through pages)
-      const allBooks = [];
-      let pageToken: string | undefined;
-      do {
-        const result = await bookService.listBooks(pageToken, 100);
-        allBooks.push(...result.files);
-        pageToken = result.nextPageToken;
-      } while (pageToken);
-      books = allBooks;
-    }
+function getBaseUrl(c: Context): string {
+  return `${c.req.header("x-forwarded-proto") || "http"}://${c.req.header("host") || "localhost:8000"}`;
+}
 
-    const feed = generateFeed(books, baseUrl, "蔵書管理", query);
-    return new Response(feed, {
-      headers: {
-        "Content-Type": "application/atom+xml; charset=utf-8",
-      },
-    });
+function atomResponse(xml: string): Response {
+  return new Response(xml, {
+    headers: {
+      "Content-Type": "application/atom+xml; charset=utf-8",
+    },
   });
+}
+
+export function createOpdsRoutes(bookService: BookService): Hono {
+  const app = new Hono();
+  const catalog = new CatalogService(bookService);
 
   app.get("/opds/opensearch.xml", (c) => {
-    const baseUrl = `${c.req.header("x-forwarded-proto") || "http"}://${c.req.header("host") || "localhost:8000"}`;
-    const xml = generateOpenSearchDescription(baseUrl);
+    const xml = generateOpenSearchDescription(getBaseUrl(c));
     return new Response(xml, {
       headers: {
         "Content-Type": "application/opensearchdescription+xml; charset=utf-8",
@@ -122,7 +195,29 @@ export function createOpdsRoutes(bookService: BookService): Hono {
     });
   });
 
+  // Navigation root, facet feeds, and search results when q is given
+  const handler = async (c: Context) => {
+    const feed = await catalog.resolve(
+      new URL(c.req.url).pathname.slice(CATALOG_ROOT.length),
+      {
+        page: parseInt(c.req.query("page") || "1") || 1,
+        q: c.req.query("q"),
+      },
+    );
+    if (!feed) return c.notFound();
+    return atomResponse(renderAtomFeed(feed, getBaseUrl(c)));
+  };
+  app.get(CATALOG_ROOT, handler);
+  app.get(`${CATALOG_ROOT}/*`, handler);
+
   return app;
 }
 
-export { generateFeed, generateEntry, generateOpenSearchDescription, escapeXml };
+export {
+  escapeXml,
+  generateEntry,
+  generateFeed,
+  generateOpenSearchDescription,
+  getBaseUrl,
+  renderAtomFeed,
+};
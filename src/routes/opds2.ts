@@ -0,0 +1,194 @@
+import { Context, Hono } from "hono";
+import { BookService } from "../services/book.ts";
+import {
+  CatalogFeed,
+  CatalogPublication,
+  CatalogService,
+  catalogPagePath,
+} from "../services/catalog.ts";
+import { getBaseUrl } from "./opds.ts";
+
+const CATALOG_ROOT = "/opds/v2";
+const ATOM_ROOT = "/opds";
+const OPDS2_TYPE = "application/opds+json";
+const ATOM_TYPE = "application/atom+xml;profile=opds-catalog";
+
+export interface Opds2Link {
+  href: string;
+  type?: string;
+  rel?: string;
+  title?: string;
+  templated?: boolean;
+  properties?: Record<string, unknown>;
+}
+
+export interface Opds2Publication {
+  metadata: Record<string, unknown>;
+  links: Opds2Link[];
+  images?: Opds2Link[];
+}
+
+export interface Opds2Feed {
+  metadata: {
+    title: string;
+    identifier?: string;
+    numberOfItems?: number;
+    itemsPerPage?: number;
+    currentPage?: number;
+  };
+  links: Opds2Link[];
+  navigation?: Opds2Link[];
+  facets?: { metadata: { title: string }; links: Opds2Link[] }[];
+  publications?: Opds2Publication[];
+}
+
+function renderPublication(pub: CatalogPublication, baseUrl: string): Opds2Publication {
+  const metadata: Record<string, unknown> = {
+    "@type": "http://schema.org/Book",
+    identifier: pub.id,
+    title: pub.title,
+  };
+  if (pub.authors.length > 0) {
+    metadata.author = pub.authors.map((name) => ({ name }));
+  }
+  for (const { name, role } of pub.contributors) {
+    const people = (metadata[role] ??= []) as { name: string }[];
+    people.push({ name });
+  }
+  if (pub.publisher) metadata.publisher = { name: pub.publisher };
+  if (pub.publishedDate) metadata.published = pub.publishedDate;
+  if (pub.modified) metadata.modified = pub.modified;
+  if (pub.series) {
+    const position = Number(pub.seriesIndex);
+    metadata.belongsTo = {
+      series: [{
+        name: pub.series,
+        ...(pub.seriesIndex && !isNaN(position) ? { position } : {}),
+      }],
+    };
+  }
+
+  const publication: Opds2Publication = {
+    metadata,
+    links: pub.acquisitions.map((a) => ({
+      rel: "http://opds-spec.org/acquisition",
+      href: `${baseUrl}${a.href}`,
+      type: a.type,
+    })),
+  };
+  if (pub.cover) {
+    publication.images = [
+      { href: `${baseUrl}${pub.cover.href}`, type: pub.cover.type },
+      {
+        href: `${baseUrl}${pub.cover.thumbnailHref}`,
+        type: pub.cover.thumbnailType,
+        rel: "http://opds-spec.org/image/thumbnail",
+      },
+    ];
+  }
+  return publication;
+}
+
+/**
+ * カタログのフィードを OPDS 2.0 (JSON) として描画する
+ */
+function renderOpds2Feed(feed: CatalogFeed, baseUrl: string): Opds2Feed {
+  const catalogUrl = `${baseUrl}${CATALOG_ROOT}`;
+  const page = feed.pagination?.page ?? 1;
+  const link = (rel: string, path: string): Opds2Link => ({
+    rel,
+    href: `${catalogUrl}${path}`,
+    type: OPDS2_TYPE,
+  });
+
+  const links: Opds2Link[] = [
+    link("self", catalogPagePath(feed, page)),
+    link("start", ""),
+  ];
+  if (feed.upPath !== undefined) links.push(link("up", feed.upPath));
+  links.push({
+    rel: "search",
+    href: `${catalogUrl}/search{?q}`,
+    type: OPDS2_TYPE,
+    templated: true,
+  });
+  links.push({
+    rel: "alternate",
+    href: `${baseUrl}${ATOM_ROOT}${catalogPagePath(feed, page)}`,
+    type: `${ATOM_TYPE};kind=${feed.kind}`,
+  });
+
+  const paging = feed.pagination;
+  if (paging?.hasPrevious) links.push(link("previous", catalogPagePath(feed, page - 1)));
+  if (paging?.hasNext) links.push(link("next", catalogPagePath(feed, page + 1)));
+
+  const result: Opds2Feed = {
+    metadata: { title: feed.title, identifier: feed.id },
+    links,
+  };
+
+  if (feed.kind === "navigation") {
+    result.navigation = feed.navigation.map((item) => ({
+      href: `${catalogUrl}${item.path}`,
+      title: item.title,
+      type: OPDS2_TYPE,
+      rel: "subsection",
+      ...(item.content ? { properties: { description: item.content } } : {}),
+    }));
+    return result;
+  }
+
+  if (paging) {
+    result.metadata.numberOfItems = paging.totalResults;
+    result.metadata.itemsPerPage = paging.itemsPerPage;
+    result.metadata.currentPage = paging.page;
+  }
+  if (feed.facetGroups.length > 0) {
+    result.facets = feed.facetGroups.map((group) => ({
+      metadata: { title: group.title },
+      links: group.facets.map((facet) => ({
+        href: `${catalogUrl}${facet.path}`,
+        title: facet.title,
+        type: OPDS2_TYPE,
+        ...(facet.active ? { rel: "self" } : {}),
+        properties: { numberOfItems: facet.count },
+      })),
+    }));
+  }
+  result.publications = feed.publications.map((pub) => renderPublication(pub, baseUrl));
+  return result;
+}
+
+function opds2Response(feed: Opds2Feed): Response {
+  return new Response(JSON.stringify(feed), {
+    headers: {
+      "Content-Type": `${OPDS2_TYPE}; charset=utf-8`,
+    },
+  });
+}
+
+/**
+ * `/opds` と同じカタログを OPDS 2.0 (JSON) で配信する
+ */
+export function createOpds2Routes(bookService: BookService): Hono {
+  const app = new Hono();
+  const catalog = new CatalogService(bookService);
+
+  const handler = async (c: Context) => {
+    const feed = await catalog.resolve(
+      new URL(c.req.url).pathname.slice(CATALOG_ROOT.length),
+      {
+        page: parseInt(c.req.query("page") || "1") || 1,
+        q: c.req.query("q"),
+      },
+    );
+    if (!feed) return c.notFound();
+    return opds2Response(renderOpds2Feed(feed, getBaseUrl(c)));
+  };
+  app.get(CATALOG_ROOT, handler);
+  app.get(`${CATALOG_ROOT}/*`, handler);
+
+  return app;
+}
+
+export { renderOpds2Feed };
@@ -0,0 +1,23 @@
+import { Hono } from "hono";
+import { SyncService } from "../services/sync.ts";
+
+export function createSyncRoutes(syncService: SyncService): Hono {
+  const app = new Hono();
+
+  // Sync status
+  app.get("/api/sync/status", (c) => {
+    return c.json(syncService.getStatus());
+  });
+
+  // Trigger a sync immediately
+  app.post("/api/sync", async (c) => {
+    try {
+      const applied = await syncService.syncOnce();
+      return c.json({ applied, ...syncService.getStatus() });
+    } catch (error) {
+      return c.json({ error: String(error), ...syncService.getStatus() }, 500);
+    }
+  });
+
+  return app;
+}
@@ -0,0 +1,173 @@
+import { Contributor, GoogleDriveService } from "../types.ts";
+import { roleFromLabel } from "./contributors.ts";
+import { normalizeForSearch } from "./search_index.ts";
+
+/** MyLibrary 直下に置く著者の別名表のファイル名 */
+export const AUTHOR_ALIAS_FILE_NAME = "authors.json";
+
+const JSON_MIME_TYPE = "application/json";
+const JAPANESE_CHAR = "[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}ー々〆]";
+/** 漢字・かなに挟まれた空白（「太宰 治」の姓名の区切り） */
+const SPACE_BETWEEN_JAPANESE = new RegExp(`(?<=${JAPANESE_CHAR})\\s+(?=${JAPANESE_CHAR})`, "gu");
+/** 名前の後ろの「／著」「 訳」などの役割の表記 */
+const ROLE_MARK_PATTERN = /(?:\s*\/\s*|\s+)([^\s/]+)$/;
+
+export interface AuthorAlias {
+  /** 別表記 */
+  alias: string;
+  /** 正式な表記 */
+  canonical: string;
+}
+
+/**
+ * 著者名の表記を揃える。全角英数字・半角カナは NFKC で統一し、連続する空白は1つにまとめ、
+ * 漢字・かなの姓名の間の空白は取り除く（英字の名前の空白は残す）
+ */
+export function normalizeAuthorName(name: string): string {
+  return name
+    .normalize("NFKC")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(SPACE_BETWEEN_JAPANESE, "");
+}
+
+/**
+ * 著者の表記を揃え、openBD の「夏目漱石／著」のような名前の後ろの役割の表記を役割として読む
+ */
+export function normalizeContributor(contributor: Contributor): Contributor {
+  // 姓名の間の空白を詰める前に読む（「中島 敦 著」の「著」を名前とつなげない）
+  let name = contributor.name.normalize("NFKC").replace(/\s+/g, " ").trim();
+  let role = contributor.role;
+  const mark = name.match(ROLE_MARK_PATTERN);
+  const markedRole = mark ? roleFromLabel(mark[1]) : null;
+  if (markedRole && mark!.index! > 0) {
+    name = name.slice(0, mark!.index);
+    if (role === "author") role = markedRole;
+  }
+  return { name: normalizeAuthorName(name), role };
+}
+
+/** 別名表の照合に使うキー。かな・旧字体・記号の違いを無視する */
+export function authorKey(name: string): string {
+  return normalizeForSearch(normalizeAuthorName(name));
+}
+
+/**
+ * 著者名を正式な表記に揃えるサービス。
+ * 別名表は MyLibrary/authors.json（`{ "aliases": { "別表記": "正式な表記" } }`）として Drive に保存し、
+ * Drive 上で直接編集することもできる。
+ */
+export class AuthorNameService {
+  private aliases: Map<string, AuthorAlias> | null = null;
+  private fileId: string | null = null;
+
+  constructor(private driveService: GoogleDriveService) {}
+
+  /**
+   * 別名表を返す。2回目以降はメモリに読み込んだものを使う（refresh で Drive から読み直す）
+   */
+  async listAliases(options: { refresh?: boolean } = {}): Promise<AuthorAlias[]> {
+    const aliases = await this.load(options.refresh);
+    return [...aliases.values()].sort((a, b) =>
+      a.canonical.localeCompare(b.canonical) || a.alias.localeCompare(b.alias)
+    );
+  }
+
+  /** 著者名を表記を揃えたうえで正式な表記にする */
+  async canonicalize(name: string): Promise<string> {
+    const normalized = normalizeAuthorName(name);
+    const aliases = await this.load();
+    return aliases.get(authorKey(normalized))?.canonical ?? normalized;
+  }
+
+  /** 著者の一覧を正式な表記にする。同じ人が同じ役割で重複した場合は1人にまとめる */
+  async canonicalizeContributors(contributors: Contributor[]): Promise<Contributor[]> {
+    const result: Contributor[] = [];
+    for (const contributor of contributors) {
+      const normalized = normalizeContributor(contributor);
+      const name = await this.canonicalize(normalized.name);
+      if (!name) continue;
+      if (result.some((c) => c.name === name && c.role === normalized.role)) continue;
+      result.push({ name, role: normalized.role });
+    }
+    return result;
+  }
+
+  /**
+   * 別名を登録する。正式な表記が別名として登録済みなら、その正式な表記に付け替える。
+   * 別名に付けていた別名も新しい正式な表記に付け替える。
+   */
+  async setAlias(alias: string, canonical: string): Promise<void> {
+    const aliases = await this.load();
+    const target = await this.canonicalize(canonical);
+    const key = authorKey(alias);
+    if (!key || !target) throw new Error("別名と正式な表記を入力してください");
+    if (key === authorKey(target)) throw new Error("別名と正式な表記が同じです");
+
+    for (const [otherKey, entry] of aliases) {
+      if (authorKey(entry.canonical) === key) aliases.set(otherKey, { ...entry, canonical: target });
+    }
+    aliases.set(key, { alias: normalizeAuthorName(alias), canonical: target });
+    await this.save(aliases);
+  }
+
+  async removeAlias(alias: string): Promise<void> {
+    const aliases = await this.load();
+    if (aliases.delete(authorKey(alias))) await this.save(aliases);
+  }
+
+  private async load(refresh = false): Promise<Map<string, AuthorAlias>> {
+    if (this.aliases && !refresh) return this.aliases;
+
+    const aliases = new Map<string, AuthorAlias>();
+    const myLibraryId = await this.driveService.ensureMyLibraryFolder();
+    const file = (await this.driveService.findFilesByParent(myLibraryId))
+      .find((f) => f.name === AUTHOR_ALIAS_FILE_NAME);
+    this.fileId = file?.id ?? null;
+    if (file) {
+      const content = await this.driveService.getFileContent(file.id);
+      for (const [alias, canonical] of Object.entries(parseAliasFile(content))) {
+        const key = authorKey(alias);
+        if (key && canonical) aliases.set(key, { alias, canonical: normalizeAuthorName(canonical) });
+      }
+    }
+    this.aliases = aliases;
+    return aliases;
+  }
+
+  private async save(aliases: Map<string, AuthorAlias>): Promise<void> {
+    const table: Record<string, string> = {};
+    for (const { alias, canonical } of aliases.values()) table[alias] = canonical;
+    const content = new TextEncoder().encode(JSON.stringify({ aliases: table }, null, 2) + "\n");
+
+    if (this.fileId) {
+      await this.driveService.updateFileContent(this.fileId, content, JSON_MIME_TYPE);
+    } else {
+      const myLibraryId = await this.driveService.ensureMyLibraryFolder();
+      const file = await this.driveService.uploadFile(
+        myLibraryId,
+        AUTHOR_ALIAS_FILE_NAME,
+        content,
+        JSON_MIME_TYPE,
+        {},
+      );
+      this.fileId = file.id;
+    }
+    this.aliases = aliases;
+  }
+}
+
+/** 別名表のファイルを読む。手で編集して壊れている場合はエラーにする */
+function parseAliasFile(content: Uint8Array): Record<string, string> {
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder().decode(content));
+  } catch {
+    throw new Error(`${AUTHOR_ALIAS_FILE_NAME} を読み込めません（JSONの形式が正しくありません）`);
+  }
+  const aliases = (data as { aliases?: unknown })?.aliases;
+  if (!aliases || typeof aliases !== "object" || Array.isArray(aliases)) return {};
+  return Object.fromEntries(
+    Object.entries(aliases).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+  );
+}
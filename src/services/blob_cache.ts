@@ -0,0 +1,288 @@
+import { ByteRange } from "../types.ts";
+
+export interface BlobCacheOptions {
+  /** キャッシュファイルを置くディレクトリ */
+  dir: string;
+  /** キャッシュ全体の上限（バイト）。超えたら最後に使われたのが古いものから削除する */
+  maxBytes?: number;
+}
+
+export interface BlobCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+interface BlobEntry {
+  fileId: string;
+  version: string;
+  size: number;
+}
+
+const DEFAULT_MAX_BYTES = 1024 * 1024 * 1024; // 1GiB
+const TEMP_SUFFIX = ".tmp";
+
+function entryName(fileId: string, version: string): string {
+  return `${encodeURIComponent(fileId)}@${encodeURIComponent(version)}`;
+}
+
+function parseEntryName(name: string): { fileId: string; version: string } | null {
+  const [fileId, version, ...rest] = name.split("@");
+  if (!fileId || !version || rest.length > 0) return null;
+  try {
+    return { fileId: decodeURIComponent(fileId), version: decodeURIComponent(version) };
+  } catch {
+    return null;
+  }
+}
+
+async function writeAll(file: Deno.FsFile, data: Uint8Array): Promise<void> {
+  let offset = 0;
+  while (offset < data.length) {
+    offset += await file.write(data.subarray(offset));
+  }
+}
+
+/** 先頭から length バイトだけを通す */
+function limitBytes(length: number): TransformStream<Uint8Array, Uint8Array> {
+  let remaining = length;
+  return new TransformStream({
+    transform(chunk, controller) {
+      if (chunk.length >= remaining) {
+        controller.enqueue(chunk.subarray(0, remaining));
+        remaining = 0;
+        controller.terminate();
+      } else {
+        controller.enqueue(chunk);
+        remaining -= chunk.length;
+      }
+    },
+  });
+}
+
+/**
+ * Drive のファイル本体・表紙画像のディスクキャッシュ（LRU）
+ *
+ * Drive のファイルIDと版（md5Checksum など）の組をキーにするため、
+ * Drive 側で内容が変わった場合は版が変わり、古い内容を返すことはない。
+ * 一覧はメモリ上の Map の並び順で最近使った順を管理し、起動時はファイルの更新日時から復元する。
+ */
+export class BlobCache {
+  private entries = new Map<string, BlobEntry>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private loading: Promise<void> | null = null;
+  private dir: string;
+  private maxBytes: number;
+
+  constructor(options: BlobCacheOptions) {
+    this.dir = options.dir;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  async get(fileId: string, version: string): Promise<Uint8Array | null> {
+    const name = await this.lookup(fileId, version);
+    if (!name) return null;
+    try {
+      return await Deno.readFile(this.pathOf(name));
+    } catch {
+      this.forget(name);
+      return null;
+    }
+  }
+
+  /** キャッシュにあればファイル（range 指定時はその部分）をストリームで返す */
+  async open(
+    fileId: string,
+    version: string,
+    range?: ByteRange,
+  ): Promise<ReadableStream<Uint8Array> | null> {
+    const name = await this.lookup(fileId, version);
+    if (!name) return null;
+    let file: Deno.FsFile;
+    try {
+      file = await Deno.open(this.pathOf(name), { read: true });
+    } catch {
+      this.forget(name);
+      return null;
+    }
+    if (!range) return file.readable;
+    await file.seek(range.start, Deno.SeekMode.Start);
+    return file.readable.pipeThrough(limitBytes(range.end - range.start + 1));
+  }
+
+  async put(fileId: string, version: string, data: Uint8Array): Promise<void> {
+    if (data.length > this.maxBytes) return;
+    await this.ensureLoaded();
+    const name = entryName(fileId, version);
+    const temp = this.tempPathOf(name);
+    await Deno.mkdir(this.dir, { recursive: true });
+    await Deno.writeFile(temp, data);
+    await this.commit(name, temp, { fileId, version, size: data.length });
+  }
+
+  /**
+   * stream をそのまま流しつつディスクにも書き出す。
+   * 最後まで読まれ、長さが size と一致した場合だけキャッシュに加える。
+   */
+  store(
+    fileId: string,
+    version: string,
+    stream: ReadableStream<Uint8Array>,
+    size?: number,
+  ): ReadableStream<Uint8Array> {
+    if (size !== undefined && size > this.maxBytes) return stream;
+
+    const name = entryName(fileId, version);
+    const temp = this.tempPathOf(name);
+    let file: Deno.FsFile | null = null;
+    let written = 0;
+
+    const discard = () => {
+      file?.close();
+      file = null;
+      Deno.remove(temp).catch(() => {});
+    };
+
+    return stream.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        start: async () => {
+          try {
+            await this.ensureLoaded();
+            await Deno.mkdir(this.dir, { recursive: true });
+            file = await Deno.open(temp, { write: true, create: true, truncate: true });
+          } catch {
+            // 書き込めなくても配信は続ける
+            file = null;
+          }
+        },
+        transform: async (chunk, controller) => {
+          controller.enqueue(chunk);
+          if (!file) return;
+          try {
+            await writeAll(file, chunk);
+            written += chunk.length;
+          } catch {
+            discard();
+          }
+        },
+        flush: async () => {
+          if (!file) return;
+          file.close();
+          file = null;
+          if (size !== undefined && written !== size) {
+            await Deno.remove(temp).catch(() => {});
+            return;
+          }
+          await this.commit(name, temp, { fileId, version, size: written }).catch(() => {});
+        },
+        cancel: () => discard(),
+      }),
+    );
+  }
+
+  /** ファイルIDに対応するキャッシュをすべて削除する */
+  async invalidate(fileId: string): Promise<void> {
+    const names = [...this.entries]
+      .filter(([, entry]) => entry.fileId === fileId)
+      .map(([name]) => name);
+    for (const name of names) this.forget(name);
+    await Promise.all(names.map((name) => Deno.remove(this.pathOf(name)).catch(() => {})));
+  }
+
+  /** ヒット・ミスの件数は使用中の容量とあわせて返す */
+  stats(): BlobCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  /** 有効なエントリ名を返し、最近使ったものとして末尾に移す */
+  private async lookup(fileId: string, version: string): Promise<string | null> {
+    await this.ensureLoaded();
+    const name = entryName(fileId, version);
+    const entry = this.entries.get(name);
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+    this.hits++;
+    this.entries.delete(name);
+    this.entries.set(name, entry);
+    // 再起動後も使われた順を復元できるよう、更新日時を今にする
+    const now = new Date();
+    await Deno.utime(this.pathOf(name), now, now).catch(() => {});
+    return name;
+  }
+
+  private async commit(name: string, temp: string, entry: BlobEntry): Promise<void> {
+    await Deno.rename(temp, this.pathOf(name));
+    this.forget(name);
+    this.entries.set(name, entry);
+    this.bytes += entry.size;
+    await this.evict();
+  }
+
+  private forget(name: string): void {
+    const entry = this.entries.get(name);
+    if (!entry) return;
+    this.entries.delete(name);
+    this.bytes -= entry.size;
+  }
+
+  private async evict(): Promise<void> {
+    for (const name of this.entries.keys()) {
+      if (this.bytes <= this.maxBytes) break;
+      this.forget(name);
+      await Deno.remove(this.pathOf(name)).catch(() => {});
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) this.loading = this.load();
+    return this.loading;
+  }
+
+  /** ディレクトリ内のファイルから一覧を復元する。書きかけの一時ファイルは削除する */
+  private async load(): Promise<void> {
+    const found: (BlobEntry & { name: string; mtime: number })[] = [];
+    try {
+      for await (const item of Deno.readDir(this.dir)) {
+        if (!item.isFile) continue;
+        const path = this.pathOf(item.name);
+        if (item.name.endsWith(TEMP_SUFFIX)) {
+          await Deno.remove(path).catch(() => {});
+          continue;
+        }
+        const key = parseEntryName(item.name);
+        if (!key) continue;
+        const stat = await Deno.stat(path);
+        found.push({ ...key, name: item.name, size: stat.size, mtime: stat.mtime?.getTime() ?? 0 });
+      }
+    } catch {
+      // ディレクトリがなければ空のキャッシュから始める
+    }
+
+    found.sort((a, b) => a.mtime - b.mtime);
+    for (const { name, fileId, version, size } of found) {
+      this.entries.set(name, { fileId, version, size });
+      this.bytes += size;
+    }
+    await this.evict();
+  }
+
+  private pathOf(name: string): string {
+    return `${this.dir}/${name}`;
+  }
+
+  private tempPathOf(name: string): string {
+    return `${this.dir}/${name}.${crypto.randomUUID()}${TEMP_SUFFIX}`;
+  }
+}
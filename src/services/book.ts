@@ -1,98 +1,792 @@
-import { BookMetadata, BookMetadataService, DriveFile, DriveFileList, GoogleDriveService } from "../types.ts";
-import { formatFileName, getExtension, getFirstAuthor } from "./drive.ts";
+import {
+  BookFileInspection,
+  BookMetadata,
+  Contributor,
+  BookMetadataService,
+  ByteRange,
+  DriveChange,
+  DriveFile,
+  DriveFileList,
+  GoogleDriveService,
+  UploadStreamOptions,
+} from "../types.ts";
+import {
+  BOOK_FORMATS,
+  BookFileInspector,
+  findFormatByKey,
+  findFormatByMimeType,
+  findFormatForFile,
+  getExtension,
+} from "./formats.ts";
+import {
+  authorNames,
+  encodeContributors,
+  formatContributors,
+  getContributors,
+  parseContributors,
+} from "./contributors.ts";
 import { CacheService } from "./cache.ts";
+import { encodeProperties } from "./drive.ts";
+import { SearchIndex } from "./search_index.ts";
+import { resumeStream } from "./multipart.ts";
+import { BlobCache } from "./blob_cache.ts";
+import { CoverSize, createCoverRenditions } from "./thumbnail.ts";
+import { detectImageType } from "./image.ts";
+import { fetchRemoteImage } from "./remote_image.ts";
+import { isValidIsbn } from "./isbn.ts";
+import { AuthorNameService, authorKey, normalizeContributor } from "./author_names.ts";
+import { LibraryLayout } from "./library_layout.ts";
+import { BOOK_CONVERSIONS, BookConversion } from "./conversion.ts";
 
 const CACHE_KEY_LIST = "books:list";
 const CACHE_KEY_SEARCH_PREFIX = "books:search:";
+const CACHE_KEY_COVER_PREFIX = "books:cover:";
+/** 表紙の縮小版のファイルIDを保存するプロパティ */
+const COVER_RENDITION_PROPERTIES: Record<CoverSize, string> = {
+  thumb: "cover_thumb_file_id",
+  medium: "cover_medium_file_id",
+};
+/** 表紙を外すときに空にするプロパティ */
+const EMPTY_COVER_PROPERTIES: Record<string, string> = {
+  cover_file_id: "",
+  cover_mime_type: "",
+  ...Object.fromEntries(Object.values(COVER_RENDITION_PROPERTIES).map((key) => [key, ""])),
+};
+const APP_TYPE_VALUE = "my_library_book";
+/** 書籍の2つ目以降の形式のファイル。一覧・検索には出さず、代表のファイルの format_files から参照する */
+const FORMAT_APP_TYPE_VALUE = "my_library_book_format";
+/** ダウンロード時に変換した形式のファイル。代表のファイルの converted_files から参照する */
+const CONVERSION_APP_TYPE_VALUE = "my_library_book_conversion";
+/** 代表のファイルだけが持つプロパティ（別の形式のファイルには複製しない） */
+const PRIMARY_ONLY_PROPERTIES = ["format_files", "converted_files", ...Object.keys(EMPTY_COVER_PROPERTIES)];
+/** 変換したファイルに埋め込む書誌情報のプロパティ（変わったら変換し直す） */
+const CONVERTED_PROPERTIES = ["title", "contributors", "publisher", "published_date", "isbn", "cover_file_id"];
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+const INSPECTED_FIELDS = [
+  "title",
+  "authors",
+  "isbn",
+  "publisher",
+  "publishedDate",
+] as const;
+/** これより大きいファイルは中身を解析せずにストリームのままアップロードする */
+const DEFAULT_INSPECTION_LIMIT = 32 * 1024 * 1024;
+const COVER_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/**
+ * 巻数（series_index）の数値順に並べる。巻数が無いものは末尾にファイル名順で並べる。
+ */
+export function sortBySeriesIndex(files: DriveFile[]): DriveFile[] {
+  const indexOf = (f: DriveFile) => {
+    const n = parseFloat(f.properties?.series_index || "");
+    return isNaN(n) ? Number.POSITIVE_INFINITY : n;
+  };
+  return [...files].sort((a, b) =>
+    indexOf(a) - indexOf(b) || a.name.localeCompare(b.name)
+  );
+}
+
+/** 書籍の概要。以前はプロパティに（124バイトまでで切り詰めて）保存していた */
+export function getBookDescription(file: DriveFile): string {
+  return file.description || file.properties?.description || "";
+}
+
+/**
+ * 書誌情報の入力を検証し、問題があればその説明を返す（指定されていない項目は検証しない）
+ */
+export function validateBookMetadata(metadata: Partial<BookMetadata>): string[] {
+  const errors: string[] = [];
+  if (metadata.title !== undefined && !metadata.title.trim()) {
+    errors.push("タイトルは必須です");
+  }
+  if (metadata.isbn?.trim() && !isValidIsbn(metadata.isbn)) {
+    errors.push(`ISBNが正しくありません: ${metadata.isbn}`);
+  }
+  // OpenBD は "20060101" や "2006-01" の形式で返す
+  if (metadata.publishedDate?.trim() && !/^\d{4}(-?\d{2}){0,2}$/.test(metadata.publishedDate.trim())) {
+    errors.push("出版日は YYYY-MM-DD の形式で入力してください");
+  }
+  if (metadata.seriesIndex?.trim() && isNaN(Number(metadata.seriesIndex.trim()))) {
+    errors.push("巻数は数値で入力してください");
+  }
+  return errors;
+}
+
+/** 書籍に紐づく表紙（元画像と縮小版）のファイルID */
+function coverFileIdsOf(file: DriveFile): string[] {
+  return [
+    file.properties?.cover_file_id,
+    ...Object.values(COVER_RENDITION_PROPERTIES).map((key) => file.properties?.[key]),
+  ].filter((id): id is string => !!id);
+}
+
+/** 書籍の形式ごとのファイル */
+export interface BookFormatFile {
+  fileId: string;
+  key: string;
+  label: string;
+  mimeType: string;
+}
+
+/**
+ * 書籍のファイルを形式の順に返す。代表のファイル（一覧に出るファイル）と、
+ * その format_files（`形式:ファイルID` を `;` 区切り）に記録された別の形式のファイル
+ */
+export function getBookFormats(book: DriveFile): BookFormatFile[] {
+  const own = findFormatForFile(book);
+  const formats: BookFormatFile[] = [{
+    fileId: book.id,
+    key: own?.key ?? getExtension(book.mimeType),
+    label: own?.label ?? getExtension(book.mimeType).toUpperCase(),
+    mimeType: own?.mimeType ?? book.mimeType,
+  }];
+  for (const entry of (book.properties?.format_files || "").split(";")) {
+    const [key, fileId] = entry.split(":");
+    const format = findFormatByKey(key);
+    if (format && fileId) formats.push({ fileId, key, label: format.label, mimeType: format.mimeType });
+  }
+  const order = (f: BookFormatFile) => {
+    const index = BOOK_FORMATS.findIndex((format) => format.key === f.key);
+    return index < 0 ? BOOK_FORMATS.length : index;
+  };
+  return formats.sort((a, b) => order(a) - order(b));
+}
+
+function encodeFormatFiles(formats: BookFormatFile[]): string {
+  return formats.map((f) => `${f.key}:${f.fileId}`).join(";");
+}
+
+/** 代表のファイルの converted_files（`形式:ファイルID` を `;` 区切り） */
+export function getConvertedFiles(book: DriveFile): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const entry of (book.properties?.converted_files || "").split(";")) {
+    const [key, fileId] = entry.split(":");
+    if (key && fileId) files.set(key, fileId);
+  }
+  return files;
+}
+
+/** 変換したファイルの版。変換元のファイルと、埋め込む書誌情報・表紙が変わると変わる */
+async function conversionVersion(
+  source: DriveFile,
+  properties: Record<string, string>,
+  description: string,
+): Promise<string> {
+  const embedded = JSON.stringify([...CONVERTED_PROPERTIES.map((key) => properties[key] || ""), description]);
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(embedded));
+  const hash = [...new Uint8Array(digest).slice(0, 8)].map((b) => b.toString(16).padStart(2, "0")).join("");
+  return `${source.id}:${source.md5Checksum || source.modifiedTime || ""}:${hash}`;
+}
+
+/**
+ * 書籍をダウンロード時に変換して配信できる形式。変換元の形式がないものと、
+ * 同じ形式のファイルが既にあるものは除く
+ */
+export function getBookConversions(book: DriveFile): BookConversion[] {
+  const keys = getBookFormats(book).map((f) => f.key);
+  return BOOK_CONVERSIONS.filter((c) => !keys.includes(c.key) && c.from.some((key) => keys.includes(key)));
+}
+
+/** 別の形式のファイルに複製する書誌情報のプロパティ */
+function formatFileProperties(bookId: string, properties: Record<string, string>): Record<string, string> {
+  const copied: Record<string, string> = { ...properties, app_type: FORMAT_APP_TYPE_VALUE, book_id: bookId };
+  for (const key of PRIMARY_ONLY_PROPERTIES) delete copied[key];
+  return copied;
+}
+
+export interface BookServiceOptions {
+  /** 指定すると一覧・検索をDrive APIではなくローカルインデックスで行う */
+  searchIndex?: SearchIndex;
+  /** registerBookStream で中身を解析するファイルサイズの上限 */
+  inspectionLimit?: number;
+  /** 指定すると書籍ファイルと表紙画像をディスクにキャッシュする */
+  blobCache?: BlobCache;
+  /** 指定すると登録・編集時に著者名を別名表の正式な表記にする */
+  authorNames?: AuthorNameService;
+  /** フォルダ構成とファイル名のテンプレート。省略時は MyLibrary/<筆頭著者>/[著者] タイトル.ext */
+  layout?: LibraryLayout;
+  /** 形式（MIME タイプ）ごとの書誌情報の読み取り。指定した形式は既定の読み取りの代わりに使う */
+  inspectors?: Record<string, BookFileInspector>;
+}
+
+/** ライブラリの再配置で変わるファイル1つ分の内容 */
+export interface RelayoutChange {
+  fileId: string;
+  title: string;
+  fromName: string;
+  toName: string;
+  /** MyLibrary からのフォルダのパス（`/` 区切り）。MyLibrary の外にあれば空 */
+  fromFolder: string;
+  toFolder: string;
+}
+
+/** 書誌情報の著者1人分の冊数 */
+export interface AuthorSummary {
+  name: string;
+  bookCount: number;
+}
+
+export interface RegisterBookOptions {
+  /** 外部URLの表紙画像は登録後に attachCoverFromUrl で別途取得する */
+  deferCoverFetch?: boolean;
+}
 
 export class BookService {
+  private searchIndex?: SearchIndex;
+  private inspectionLimit: number;
+  private blobCache?: BlobCache;
+  private authorNames?: AuthorNameService;
+  private layout: LibraryLayout;
+  private inspectors: Record<string, BookFileInspector>;
+  /** 変換中のファイル（同じ書籍・形式への同時のリクエストで二重に変換しない） */
+  private pendingConversions = new Map<string, Promise<DriveFile>>();
+
   constructor(
     private driveService: GoogleDriveService,
     private metadataService: BookMetadataService,
     private cache: CacheService,
-  ) {}
+    options: BookServiceOptions = {},
+  ) {
+    this.searchIndex = options.searchIndex;
+    this.inspectionLimit = options.inspectionLimit ?? DEFAULT_INSPECTION_LIMIT;
+    this.blobCache = options.blobCache;
+    this.authorNames = options.authorNames;
+    this.layout = options.layout ?? new LibraryLayout();
+    this.inspectors = options.inspectors ?? {};
+  }
 
+  /** ISBN で書誌情報を取得する。著者名は登録時と同じく正式な表記にして返す */
   async fetchMetadata(isbn: string): Promise<BookMetadata | null> {
-    return await this.metadataService.fetchByIsbn(isbn);
+    const metadata = await this.metadataService.fetchByIsbn(isbn);
+    if (!metadata) return null;
+    const contributors = await this.canonicalContributors(
+      metadata.contributors ?? parseContributors(metadata.authors),
+    );
+    return { ...metadata, authors: formatContributors(contributors), contributors };
+  }
+
+  /** 著者名の表記を揃え、別名表に登録された別名を正式な表記にする */
+  private async canonicalContributors(contributors: Contributor[]): Promise<Contributor[]> {
+    if (this.authorNames) {
+      try {
+        return await this.authorNames.canonicalizeContributors(contributors);
+      } catch {
+        // 別名表を読めなくても登録・編集は止めない（表記を揃えるだけにする）
+      }
+    }
+    return contributors.map(normalizeContributor).filter((c) => c.name);
+  }
+
+  /**
+   * アップロードされた書籍ファイル自体から書誌情報と埋め込み表紙を読み取る。
+   * 解析できない形式やファイルでは null を返す。
+   */
+  async inspectBookFile(
+    fileContent: Uint8Array,
+    fileMimeType: string,
+  ): Promise<BookFileInspection | null> {
+    const inspect = this.inspectors[fileMimeType] ?? findFormatByMimeType(fileMimeType)?.inspect;
+    if (!inspect) return null;
+    try {
+      return await inspect(fileContent);
+    } catch {
+      // 壊れたファイルは解析できないだけで登録は妨げない
+    }
+    return null;
   }
 
   async registerBook(
     metadata: BookMetadata,
     fileContent: Uint8Array,
     fileMimeType: string,
+    options: RegisterBookOptions = {},
+  ): Promise<DriveFile> {
+    // 入力されなかった項目はファイル自体に埋め込まれた書誌情報で補う
+    const inspection = await this.inspectBookFile(fileContent, fileMimeType);
+    if (inspection) {
+      metadata = { ...metadata };
+      for (const key of INSPECTED_FIELDS) {
+        const value = inspection.metadata[key];
+        if (!metadata[key]?.trim() && value) metadata[key] = value;
+      }
+      if (metadata.authors === inspection.metadata.authors && inspection.metadata.contributors) {
+        metadata.contributors = inspection.metadata.contributors;
+      }
+    }
+
+    return await this.storeBook(
+      metadata,
+      fileMimeType,
+      inspection,
+      options,
+      (folderId, fileName, properties) =>
+        this.driveService.uploadFile(folderId, fileName, fileContent, fileMimeType, properties),
+    );
+  }
+
+  /**
+   * ストリームから書籍を登録する。
+   * inspectionLimit 以下のファイルは読み込んで registerBook と同じく中身の書誌情報も使う。
+   * それより大きいファイルは中身を解析せず、読みながら Drive へアップロードする。
+   */
+  async registerBookStream(
+    metadata: BookMetadata,
+    content: ReadableStream<Uint8Array>,
+    fileMimeType: string,
+    options: RegisterBookOptions & UploadStreamOptions = {},
+  ): Promise<DriveFile> {
+    const reader = content.getReader();
+    const head: Uint8Array[] = [];
+    let headLength = 0;
+    while (headLength <= this.inspectionLimit) {
+      const { done, value } = await reader.read();
+      if (done) {
+        reader.releaseLock();
+        const data = new Uint8Array(headLength);
+        let offset = 0;
+        for (const chunk of head) {
+          data.set(chunk, offset);
+          offset += chunk.length;
+        }
+        const file = await this.registerBook(metadata, data, fileMimeType, options);
+        options.onProgress?.(data.length, data.length);
+        return file;
+      }
+      head.push(value);
+      headLength += value.length;
+    }
+
+    // 読み込み済みの先頭部分に残りをつないで送る
+    const rest = resumeStream(head, reader);
+
+    return await this.storeBook(
+      metadata,
+      fileMimeType,
+      null,
+      options,
+      (folderId, fileName, properties) =>
+        this.driveService.uploadFileStream(folderId, fileName, rest, fileMimeType, properties, {
+          size: options.size,
+          onProgress: options.onProgress,
+        }),
+    );
+  }
+
+  /**
+   * 登録済みの書籍に別の形式のファイルを追加する。書誌情報と表紙は書籍のものを使い、
+   * ファイルは書籍と同じフォルダに置く。同じ形式のファイルが既にあればエラー
+   */
+  async addFormatStream(
+    bookFileId: string,
+    content: ReadableStream<Uint8Array>,
+    fileMimeType: string,
+    options: UploadStreamOptions = {},
   ): Promise<DriveFile> {
-    const myLibraryId = await this.driveService.ensureMyLibraryFolder();
+    const book = await this.resolvePrimary(await this.driveService.getFile(bookFileId));
+    const formats = getBookFormats(book);
+    const format = findFormatByMimeType(fileMimeType);
+    if (!format) throw new Error(`対応していないファイル形式です: ${fileMimeType}`);
+    if (formats.some((f) => f.key === format.key)) {
+      await content.cancel();
+      throw new Error(`この書籍には${format.label}形式のファイルが登録済みです`);
+    }
 
-    const firstAuthor = getFirstAuthor(metadata.authors);
-    const authorFolderId = await this.driveService.ensureAuthorFolder(
-      myLibraryId,
-      firstAuthor,
+    const properties = book.properties || {};
+    const folderId = book.parents?.[0] || await this.ensureFolderPath(this.layout.folderPath(properties));
+    let file = await this.driveService.uploadFileStream(
+      folderId,
+      this.layout.fileName(properties, getExtension(fileMimeType)),
+      content,
+      fileMimeType,
+      formatFileProperties(book.id, properties),
+      options,
     );
+    const description = getBookDescription(book);
+    if (description) {
+      try {
+        file = await this.driveService.updateFileDescription(file.id, description);
+      } catch {
+        // 概要は代表のファイルにあれば表示できる
+      }
+    }
+
+    // 同じ形式を変換したファイルは使わなくなる
+    if (getConvertedFiles(book).has(format.key)) await this.discardConversions(book);
+    const added = { fileId: file.id, key: format.key, label: format.label, mimeType: format.mimeType };
+    await this.saveFormatFiles(book, [...formats.filter((f) => f.fileId !== book.id), added]);
+    return file;
+  }
+
+  /**
+   * 書籍から1つの形式のファイルを削除する。代表のファイルを削除する場合は、残りの形式の先頭を
+   * 代表にして書誌情報・表紙を引き継ぐ。削除後の書籍の代表のファイルを返す。
+   * 最後の1つは削除できない（deleteBook で書籍ごと削除する）
+   */
+  async removeFormat(fileId: string): Promise<DriveFile> {
+    const file = await this.driveService.getFile(fileId);
+    const book = await this.resolvePrimary(file);
+    const others = getBookFormats(book).filter((f) => f.fileId !== book.id);
+    if (others.length === 0) {
+      throw new Error("最後の形式は削除できません。書籍ごと削除してください");
+    }
+    // 削除するファイルから変換していることがあるので、変換したファイルも作り直す
+    await this.discardConversions(book);
 
-    const extension = getExtension(fileMimeType);
-    const fileName = formatFileName(metadata.authors, metadata.title, extension);
+    if (file.id !== book.id) {
+      await this.driveService.deleteFile(file.id);
+      await this.saveFormatFiles(book, others.filter((f) => f.fileId !== file.id));
+      await this.invalidateFileCache(file.id);
+      return book;
+    }
+
+    // 代表のファイルを削除するときは、残りの形式の先頭を代表にする
+    const [next, ...rest] = others;
+    const properties = {
+      ...book.properties,
+      app_type: APP_TYPE_VALUE,
+      book_id: next.fileId,
+      format_files: encodeFormatFiles(rest),
+    };
+    let promoted = await this.driveService.updateFileProperties(next.fileId, properties);
+    for (const other of rest) {
+      const otherFile = await this.driveService.getFile(other.fileId);
+      await this.driveService.updateFileProperties(other.fileId, { ...otherFile.properties, book_id: next.fileId });
+    }
+    await this.driveService.deleteFile(book.id);
+    promoted = await this.driveService.getFile(promoted.id);
+
+    this.invalidateListCache();
+    await this.invalidateFileCache(book.id);
+    this.searchIndex?.remove(book.id);
+    this.searchIndex?.upsert(promoted);
+    return promoted;
+  }
 
+  /** 別の形式のファイルから、一覧に出る代表のファイルをたどる */
+  private async resolvePrimary(file: DriveFile): Promise<DriveFile> {
+    const bookId = file.properties?.book_id;
+    if (file.properties?.app_type !== FORMAT_APP_TYPE_VALUE || !bookId) return file;
+    return await this.driveService.getFile(bookId);
+  }
+
+  /**
+   * 書籍を指定した形式（formats.ts または conversion.ts の key）で返す。書籍にない形式は
+   * 変換元の形式から変換し、変換したファイルは書籍と同じフォルダに保存して次回から使う
+   * （変換元のファイルや書誌情報・表紙が変わっていれば変換し直す）。
+   * 書籍にその形式がなく、変換もできなければ null
+   */
+  async getFormatFile(fileId: string, key: string): Promise<DriveFile | null> {
+    const book = await this.resolvePrimary(await this.driveService.getFile(fileId));
+    const formats = getBookFormats(book);
+    const own = formats.find((f) => f.key === key);
+    if (own) return own.fileId === book.id ? book : await this.driveService.getFile(own.fileId);
+
+    const conversion = getBookConversions(book).find((c) => c.key === key);
+    const source = conversion && formats.find((f) => conversion.from.includes(f.key));
+    if (!conversion || !source) return null;
+
+    const pendingKey = `${book.id}:${key}`;
+    let pending = this.pendingConversions.get(pendingKey);
+    if (!pending) {
+      pending = this.convertBook(book, source, conversion)
+        .finally(() => this.pendingConversions.delete(pendingKey));
+      this.pendingConversions.set(pendingKey, pending);
+    }
+    return await pending;
+  }
+
+  private async convertBook(
+    book: DriveFile,
+    source: BookFormatFile,
+    conversion: BookConversion,
+  ): Promise<DriveFile> {
+    const sourceFile = source.fileId === book.id ? book : await this.driveService.getFile(source.fileId);
+    const properties = book.properties || {};
+    const version = await conversionVersion(sourceFile, properties, getBookDescription(book));
+
+    const convertedFiles = getConvertedFiles(book);
+    const cachedId = convertedFiles.get(conversion.key);
+    if (cachedId) {
+      try {
+        const cached = await this.driveService.getFile(cachedId);
+        if (cached.properties?.source_version === version) return cached;
+        await this.driveService.deleteFile(cachedId);
+      } catch {
+        // Drive 上で削除された変換済みのファイルは作り直す
+      }
+      await this.invalidateFileCache(cachedId);
+    }
+
+    const data = new Uint8Array(await new Response(await this.openBookStream(sourceFile)).arrayBuffer());
+    const coverData = await this.getBookCover(book.id);
+    const coverType = coverData && detectImageType(coverData);
+    const converted = await conversion.convert(data, {
+      metadata: {
+        title: properties.title || "",
+        authors: properties.authors || "",
+        contributors: getContributors(properties),
+        publisher: properties.publisher || "",
+        publishedDate: properties.published_date || "",
+        isbn: properties.isbn || "",
+        description: getBookDescription(book),
+      },
+      cover: coverData && coverType ? { data: coverData, mimeType: coverType } : undefined,
+    });
+
+    const folderId = book.parents?.[0] || await this.ensureFolderPath(this.layout.folderPath(properties));
+    const file = await this.driveService.uploadFile(
+      folderId,
+      this.layout.fileName(properties, conversion.extension),
+      converted,
+      conversion.mimeType,
+      {
+        app_type: CONVERSION_APP_TYPE_VALUE,
+        book_id: book.id,
+        conversion: conversion.key,
+        source_version: version,
+      },
+    );
+    convertedFiles.set(conversion.key, file.id);
+    const updated = {
+      ...properties,
+      converted_files: [...convertedFiles].map(([key, id]) => `${key}:${id}`).join(";"),
+    };
+    await this.driveService.updateFileProperties(book.id, updated);
+    book.properties = updated;
+    this.invalidateListCache();
+    this.searchIndex?.upsert(book);
+    return file;
+  }
+
+  /** 書籍を変換したファイルを削除する（次にダウンロードされたときに変換し直す） */
+  private async discardConversions(book: DriveFile): Promise<void> {
+    const convertedFiles = getConvertedFiles(book);
+    if (convertedFiles.size === 0) return;
+    for (const fileId of convertedFiles.values()) {
+      try {
+        await this.driveService.deleteFile(fileId);
+      } catch {
+        // Drive 上で削除済みのファイルは無視する
+      }
+      await this.invalidateFileCache(fileId);
+    }
+    const properties = { ...book.properties, converted_files: "" };
+    await this.driveService.updateFileProperties(book.id, properties);
+    book.properties = properties;
+  }
+
+  /** 代表のファイルに別の形式のファイルの一覧を保存する */
+  private async saveFormatFiles(book: DriveFile, others: BookFormatFile[]): Promise<void> {
+    const properties = {
+      ...book.properties,
+      book_id: others.length > 0 ? book.id : "",
+      format_files: encodeFormatFiles(others),
+    };
+    await this.driveService.updateFileProperties(book.id, properties);
+    book.properties = properties;
+    this.invalidateListCache();
+    this.searchIndex?.upsert(book);
+  }
+
+  /** 著者フォルダへファイルをアップロードし、プロパティと表紙を設定する */
+  private async storeBook(
+    metadata: BookMetadata,
+    fileMimeType: string,
+    inspection: BookFileInspection | null,
+    options: RegisterBookOptions,
+    upload: (
+      folderId: string,
+      fileName: string,
+      properties: Record<string, string>,
+    ) => Promise<DriveFile>,
+  ): Promise<DriveFile> {
+    const contributors = await this.canonicalContributors(
+      metadata.contributors ?? parseContributors(metadata.authors),
+    );
     const properties: Record<string, string> = {
-      app_type: "my_library_book",
+      app_type: APP_TYPE_VALUE,
       isbn: metadata.isbn || "",
       title: metadata.title,
-      authors: metadata.authors,
+      authors: formatContributors(contributors),
+      contributors: encodeContributors(contributors),
       publisher: metadata.publisher || "",
       published_date: metadata.publishedDate || "",
     };
 
-    if (metadata.description) {
-      properties.description = metadata.description;
+    if (metadata.series) {
+      properties.series = metadata.series;
+      properties.series_index = metadata.seriesIndex || "";
     }
 
-    const file = await this.driveService.uploadFile(
-      authorFolderId,
-      fileName,
-      fileContent,
-      fileMimeType,
-      properties,
-    );
+    const authorFolderId = await this.ensureFolderPath(this.layout.folderPath(properties));
+    const fileName = this.layout.fileName(properties, getExtension(fileMimeType));
+    let file = await upload(authorFolderId, fileName, properties);
 
-    // Upload cover image if available
-    if (metadata.coverImageUrl) {
+    // 概要は長くなるためプロパティではなくファイルの説明欄に保存する
+    if (metadata.description) {
       try {
-        const coverData = await this.fetchCoverImage(metadata.coverImageUrl);
-        if (coverData) {
-          const coverFileName = `cover_${file.id}.jpg`;
-          const coverFile = await this.driveService.uploadCoverImage(
-            authorFolderId,
-            coverFileName,
-            coverData,
-            "image/jpeg",
-          );
-          // Store cover file ID in properties for later reference
-          await this.driveService.updateFileProperties(file.id, {
-            ...properties,
-            cover_file_id: coverFile.id,
-          });
-          file.properties.cover_file_id = coverFile.id;
-        }
+        file = await this.driveService.updateFileDescription(file.id, metadata.description);
       } catch {
-        // Cover image upload failure should not fail the registration
+        // 概要の保存に失敗しても登録は失敗させない（編集画面から入力し直せる）
+      }
+    }
+
+    // Upload cover image: external URL first, then the one embedded in the file
+    try {
+      let cover: { data: Uint8Array; mimeType: string } | null = null;
+      if (metadata.coverImageUrl) {
+        if (!options.deferCoverFetch) {
+          cover = await fetchRemoteImage(metadata.coverImageUrl);
+        }
+      } else {
+        cover = inspection?.cover || null;
+      }
+
+      if (cover) {
+        await this.uploadCover(file, authorFolderId, cover);
       }
+    } catch {
+      // Cover image upload failure should not fail the registration
+    }
+
+    this.invalidateListCache();
+    this.searchIndex?.upsert(file);
+    return file;
+  }
+
+  /**
+   * 外部URLの表紙画像を取得して登録済みの書籍に設定する。
+   * 取得できなかった場合（内部のアドレス・画像でない応答・大きすぎる画像を含む）は
+   * 例外を投げる（ジョブとして再試行できるように）。
+   */
+  async attachCoverFromUrl(fileId: string, url: string): Promise<DriveFile> {
+    const cover = await fetchRemoteImage(url);
+    return await this.setCover(fileId, cover.data);
+  }
+
+  /**
+   * 書籍の表紙を差し替える（JPEG・PNG・WebP・GIF）。
+   * 新しい表紙を保存してから、それまでの表紙と縮小版を Drive から削除する。
+   */
+  async setCover(fileId: string, data: Uint8Array): Promise<DriveFile> {
+    const mimeType = detectImageType(data);
+    if (!mimeType) {
+      throw new Error("対応していない画像形式です（JPEG・PNG・WebP・GIF のみ）");
     }
+    const file = await this.driveService.getFile(fileId);
+    const folderId = file.parents?.[0] || await this.driveService.ensureMyLibraryFolder();
+    await this.uploadCover(file, folderId, { data, mimeType });
 
     this.invalidateListCache();
+    this.searchIndex?.upsert(file);
     return file;
   }
 
-  private async fetchCoverImage(url: string): Promise<Uint8Array | null> {
+  /**
+   * 書籍の ISBN で書誌情報（OpenBD / Google Books）を引き直し、その表紙に差し替える
+   */
+  async refetchCover(fileId: string): Promise<DriveFile> {
+    const file = await this.driveService.getFile(fileId);
+    const isbn = file.properties?.isbn;
+    if (!isbn) throw new Error("ISBNが登録されていないため表紙を取得できません");
+    const metadata = await this.metadataService.fetchByIsbn(isbn);
+    if (!metadata?.coverImageUrl) {
+      throw new Error(`ISBN ${isbn} の表紙画像が見つかりませんでした`);
+    }
+    return await this.attachCoverFromUrl(fileId, metadata.coverImageUrl);
+  }
+
+  /** 書籍の表紙と縮小版を削除する */
+  async removeCover(fileId: string): Promise<DriveFile> {
+    const file = await this.driveService.getFile(fileId);
+    const oldCoverFileIds = coverFileIdsOf(file);
+    const properties = { ...file.properties, ...EMPTY_COVER_PROPERTIES };
+    await this.driveService.updateFileProperties(file.id, properties);
+    file.properties = properties;
+    await this.deleteCoverFiles(oldCoverFileIds);
+
+    this.invalidateListCache();
+    await this.invalidateFileCache(file.id);
+    this.searchIndex?.upsert(file);
+    return file;
+  }
+
+  private async uploadCover(
+    file: DriveFile,
+    folderId: string,
+    cover: { data: Uint8Array; mimeType: string },
+  ): Promise<void> {
+    const oldCoverFileIds = coverFileIdsOf(file);
+    const coverFileName = `cover_${file.id}.${COVER_EXTENSIONS[cover.mimeType] || "jpg"}`;
+    const coverFile = await this.driveService.uploadCoverImage(
+      folderId,
+      coverFileName,
+      cover.data,
+      cover.mimeType,
+    );
+    const renditions = await this.uploadCoverRenditions(file, folderId, cover.data);
+    // Store cover file ID in properties for later reference
+    const properties = {
+      ...file.properties,
+      ...EMPTY_COVER_PROPERTIES,
+      cover_file_id: coverFile.id,
+      cover_mime_type: cover.mimeType,
+      ...renditions,
+    };
+    await this.driveService.updateFileProperties(file.id, properties);
+    file.properties = properties;
+    // 新しい表紙を参照するようにしてから古い表紙を消す
+    await this.deleteCoverFiles(oldCoverFileIds);
+    await this.invalidateFileCache(file.id);
+  }
+
+  private async deleteCoverFiles(coverFileIds: string[]): Promise<void> {
+    for (const coverFileId of coverFileIds) {
+      try {
+        await this.driveService.deleteFile(coverFileId);
+      } catch {
+        // Cover image may already be deleted
+      }
+    }
+  }
+
+  /**
+   * 表紙の縮小版を作って Drive に保存し、そのファイルIDのプロパティを返す。
+   * 画像を読めない場合や保存に失敗した場合は空で、表示時に元画像から作り直す。
+   */
+  private async uploadCoverRenditions(
+    file: DriveFile,
+    folderId: string,
+    data: Uint8Array,
+  ): Promise<Record<string, string>> {
+    const properties: Record<string, string> = {};
     try {
-      const res = await fetch(url);
-      if (!res.ok) return null;
-      const buffer = await res.arrayBuffer();
-      return new Uint8Array(buffer);
+      const renditions = await createCoverRenditions(data);
+      for (const [size, rendition] of Object.entries(renditions || {})) {
+        const uploaded = await this.driveService.uploadCoverImage(
+          folderId,
+          `cover_${file.id}_${size}.jpg`,
+          rendition,
+          "image/jpeg",
+        );
+        properties[COVER_RENDITION_PROPERTIES[size as CoverSize]] = uploaded.id;
+      }
     } catch {
-      return null;
+      // 縮小版がなくても書籍の登録は続ける
     }
+    return properties;
   }
 
   async listBooks(pageToken?: string, pageSize?: number): Promise<DriveFileList> {
+    if (this.searchIndex?.isReady) {
+      return this.searchIndex.list(pageToken, pageSize);
+    }
+
     const cacheKey = `${CACHE_KEY_LIST}:${pageToken || ""}:${pageSize || 20}`;
     const cached = this.cache.get<DriveFileList>(cacheKey);
     if (cached) return cached;
@@ -102,7 +796,224 @@ export class BookService {
     return result;
   }
 
+  /**
+   * 全書籍をファイル名順に返す（ページを辿って全件取得する）
+   */
+  async listAllBooks(): Promise<DriveFile[]> {
+    if (this.searchIndex?.isReady) {
+      return this.searchIndex.list(undefined, Number.MAX_SAFE_INTEGER).files;
+    }
+
+    const allBooks: DriveFile[] = [];
+    let pageToken: string | undefined;
+    do {
+      const result = await this.listBooks(pageToken, 100);
+      allBooks.push(...result.files);
+      pageToken = result.nextPageToken;
+    } while (pageToken);
+    return allBooks;
+  }
+
+  /**
+   * 書誌情報の著者（役割が著者の人）ごとの冊数を名前順に返す。
+   * フォルダ構成のテンプレート（{publisher}/{author} など）によらず、書籍のプロパティから数える
+   */
+  async listAuthors(): Promise<AuthorSummary[]> {
+    const authors = new Map<string, AuthorSummary>();
+    for (const book of await this.listAllBooks()) {
+      const keys = new Set<string>();
+      for (const name of authorNames(getContributors(book.properties))) {
+        const key = authorKey(name);
+        if (keys.has(key)) continue;
+        keys.add(key);
+        const summary = authors.get(key) || { name, bookCount: 0 };
+        summary.bookCount++;
+        authors.set(key, summary);
+      }
+    }
+    return [...authors.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * 現在のテンプレートに合わせたときにリネーム・移動が必要な書籍を返す（Drive は変更しない）
+   */
+  async planRelayout(): Promise<RelayoutChange[]> {
+    const folderPaths = await this.listFolderPaths();
+    const changes: RelayoutChange[] = [];
+    for (const book of await this.listAllBooks()) {
+      const properties = book.properties || {};
+      const toFolder = this.layout.folderPath(properties).join("/");
+      // 別の形式のファイルも書籍と同じ名前・フォルダにそろえる
+      const files = [book];
+      for (const format of getBookFormats(book)) {
+        if (format.fileId === book.id) continue;
+        try {
+          files.push(await this.driveService.getFile(format.fileId));
+        } catch {
+          // Drive 上で削除された形式は飛ばす
+        }
+      }
+      for (const file of files) {
+        const extension = file.name.includes(".") ? file.name.split(".").pop()! : getExtension(file.mimeType);
+        const toName = this.layout.fileName(properties, extension);
+        const fromFolder = folderPaths.get(file.parents?.[0] || "") ?? "";
+        if (toName === file.name && toFolder === fromFolder) continue;
+        changes.push({
+          fileId: file.id,
+          title: properties.title || file.name,
+          fromName: file.name,
+          toName,
+          fromFolder,
+          toFolder,
+        });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * planRelayout の内容を適用する。移動する書籍の表紙も同じフォルダへ移し、
+   * 空になった移動元のフォルダは削除する。適用した冊数を返す。
+   */
+  async applyRelayout(
+    changes: RelayoutChange[],
+    onProgress?: (change: RelayoutChange) => void,
+  ): Promise<number> {
+    const folderPaths = await this.listFolderPaths();
+    const emptiedFolders = new Set<string>();
+    let applied = 0;
+    for (const change of changes) {
+      const book = await this.driveService.getFile(change.fileId);
+      // 変換したファイルは移動せず、次のダウンロードで新しい名前・フォルダに作り直す
+      if (book.properties?.app_type === APP_TYPE_VALUE) await this.discardConversions(book);
+      if (change.toName !== book.name) {
+        await this.driveService.renameFile(book.id, change.toName);
+      }
+      const oldFolderId = book.parents?.[0];
+      const newFolderId = await this.ensureFolderPath(change.toFolder.split("/"));
+      if (oldFolderId && oldFolderId !== newFolderId) {
+        await this.driveService.moveFile(book.id, newFolderId, oldFolderId);
+        for (const coverFileId of coverFileIdsOf(book)) {
+          try {
+            const cover = await this.driveService.getFile(coverFileId);
+            if (cover.parents?.includes(oldFolderId)) {
+              await this.driveService.moveFile(coverFileId, newFolderId, oldFolderId);
+            }
+          } catch {
+            // 表紙が見つからなくても書籍の移動は続ける
+          }
+        }
+        if (folderPaths.has(oldFolderId)) emptiedFolders.add(oldFolderId);
+      }
+      const moved = await this.driveService.getFile(book.id);
+      if (moved.properties?.app_type === APP_TYPE_VALUE) this.searchIndex?.upsert(moved);
+      applied++;
+      onProgress?.(change);
+    }
+
+    await this.removeEmptyFolders(emptiedFolders, folderPaths);
+    this.invalidateListCache();
+    return applied;
+  }
+
+  /** MyLibrary からのパスのフォルダを、なければ作りながらたどって ID を返す */
+  private async ensureFolderPath(segments: string[]): Promise<string> {
+    let folderId = await this.driveService.ensureMyLibraryFolder();
+    for (const segment of segments) {
+      folderId = await this.driveService.ensureAuthorFolder(folderId, segment);
+    }
+    return folderId;
+  }
+
+  /** MyLibrary 以下のフォルダの ID と MyLibrary からのパス */
+  private async listFolderPaths(): Promise<Map<string, string>> {
+    const paths = new Map<string, string>();
+    const queue: { id: string; path: string }[] = [
+      { id: await this.driveService.ensureMyLibraryFolder(), path: "" },
+    ];
+    while (queue.length > 0) {
+      const { id, path } = queue.shift()!;
+      for (const child of await this.driveService.findFilesByParent(id)) {
+        if (child.mimeType !== FOLDER_MIME_TYPE) continue;
+        const childPath = path ? `${path}/${child.name}` : child.name;
+        paths.set(child.id, childPath);
+        queue.push({ id: child.id, path: childPath });
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * 空になったフォルダを削除する。親フォルダも空になれば MyLibrary の手前までさかのぼって削除する。
+   * MyLibrary の外のフォルダ（folderPaths にないもの）は削除しない
+   */
+  private async removeEmptyFolders(
+    folderIds: Set<string>,
+    folderPaths: Map<string, string>,
+  ): Promise<void> {
+    const pending = [...folderIds];
+    while (pending.length > 0) {
+      const folderId = pending.pop()!;
+      if (!folderPaths.has(folderId)) continue;
+      try {
+        const folder = await this.driveService.getFile(folderId);
+        if (folder.mimeType !== FOLDER_MIME_TYPE) continue;
+        if ((await this.driveService.findFilesByParent(folderId)).length > 0) continue;
+        await this.driveService.deleteFile(folderId);
+        pending.push(...(folder.parents || []));
+      } catch {
+        // 削除済みのフォルダは無視する
+      }
+    }
+  }
+
+  /**
+   * 著者 source を target に統合する。source を著者に含む書籍は target の名前に書き換え、
+   * テンプレートでフォルダが変われば表紙ごと移して、空になった移動元のフォルダを削除する。
+   * source は別名表に登録し、以後の登録にも適用する。書き換えた書籍の数を返す。
+   */
+  async mergeAuthors(source: string, target: string): Promise<number> {
+    const sourceKey = authorKey(source);
+    if (sourceKey === authorKey(target)) throw new Error("統合元と統合先が同じ著者です");
+    const books = (await this.listAllBooks())
+      .filter((b) => getContributors(b.properties).some((c) => authorKey(c.name) === sourceKey));
+    if (books.length === 0) throw new Error("著者が見つかりません");
+
+    await this.authorNames?.setAlias(source, target);
+
+    const folderPaths = await this.listFolderPaths();
+    const emptiedFolders = new Set<string>();
+    for (const book of books) {
+      const contributors = getContributors(book.properties);
+      await this.updateBook(book.id, {
+        contributors: contributors.map((c) => authorKey(c.name) === sourceKey ? { ...c, name: target } : c),
+      });
+      const oldFolderId = book.parents?.[0];
+      const newFolderId = (await this.driveService.getFile(book.id)).parents?.[0];
+      if (!oldFolderId || !newFolderId || oldFolderId === newFolderId) continue;
+      for (const coverFileId of coverFileIdsOf(book)) {
+        try {
+          const cover = await this.driveService.getFile(coverFileId);
+          if (cover.parents?.includes(oldFolderId)) {
+            await this.driveService.moveFile(coverFileId, newFolderId, oldFolderId);
+          }
+        } catch {
+          // 表紙が見つからなくても統合は続ける
+        }
+      }
+      emptiedFolders.add(oldFolderId);
+    }
+
+    await this.removeEmptyFolders(emptiedFolders, folderPaths);
+    this.invalidateListCache();
+    return books.length;
+  }
+
   async searchBooks(query: string, pageToken?: string): Promise<DriveFileList> {
+    if (this.searchIndex?.isReady) {
+      return this.searchIndex.search(query, pageToken);
+    }
+
     const cacheKey = `${CACHE_KEY_SEARCH_PREFIX}${query}:${pageToken || ""}`;
     const cached = this.cache.get<DriveFileList>(cacheKey);
     if (cached) return cached;
@@ -116,6 +1027,11 @@ export class BookService {
     return await this.driveService.getFile(fileId);
   }
 
+  /** 別の形式のファイルの ID からでも、その書籍の代表のファイルを返す */
+  async getPrimaryBook(fileId: string): Promise<DriveFile> {
+    return await this.resolvePrimary(await this.driveService.getFile(fileId));
+  }
+
   async downloadBook(fileId: string): Promise<{ content: Uint8Array; file: DriveFile }> {
     const file = await this.driveService.getFile(fileId);
     const content = await this.driveService.getFileContent(fileId);
@@ -128,69 +1044,146 @@ export class BookService {
     return { stream, file };
   }
 
+  /**
+   * 書籍ファイルをストリームで返す。range を指定するとその部分だけを返す。
+   * ディスクキャッシュにあればそこから返し、なければ Drive から取得しながらキャッシュする。
+   */
+  async openBookStream(file: DriveFile, range?: ByteRange): Promise<ReadableStream> {
+    const version = file.md5Checksum || file.modifiedTime;
+    if (this.blobCache && version) {
+      const cached = await this.blobCache.open(file.id, version, range);
+      if (cached) return cached;
+      // 部分取得の内容はキャッシュせず、全体を取得したときに保存する
+      if (!range) {
+        const stream = await this.driveService.getFileStream(file.id);
+        const size = file.size !== undefined ? Number(file.size) : undefined;
+        return this.blobCache.store(file.id, version, stream, size);
+      }
+    }
+    return range
+      ? await this.driveService.getFileRangeStream(file.id, range)
+      : await this.driveService.getFileStream(file.id);
+  }
+
+  /** 書籍をすべての形式のファイルと表紙ごと削除する */
   async deleteBook(fileId: string): Promise<void> {
-    // Also delete cover image if exists
-    const file = await this.driveService.getFile(fileId);
-    if (file.properties?.cover_file_id) {
+    const file = await this.resolvePrimary(await this.driveService.getFile(fileId));
+    for (const format of getBookFormats(file)) {
+      if (format.fileId === file.id) continue;
       try {
-        await this.driveService.deleteFile(file.properties.cover_file_id);
+        await this.driveService.deleteFile(format.fileId);
       } catch {
-        // Cover image may already be deleted
+        // Drive 上で削除済みの形式は無視する
       }
+      await this.invalidateFileCache(format.fileId);
     }
-    await this.driveService.deleteFile(fileId);
+    await this.discardConversions(file);
+    // Also delete cover image if exists
+    await this.deleteCoverFiles(coverFileIdsOf(file));
+    await this.driveService.deleteFile(file.id);
     this.invalidateListCache();
+    await this.invalidateFileCache(file.id);
+    this.searchIndex?.remove(file.id);
   }
 
   async updateBook(
     fileId: string,
     metadata: Partial<BookMetadata>,
   ): Promise<DriveFile> {
-    const existingFile = await this.driveService.getFile(fileId);
+    const errors = validateBookMetadata(metadata);
+    if (errors.length > 0) throw new Error(errors.join("\n"));
+
+    // 別の形式のファイルを指定された場合も書籍全体を更新する
+    const existingFile = await this.resolvePrimary(await this.driveService.getFile(fileId));
+    fileId = existingFile.id;
 
     const properties: Record<string, string> = { ...existingFile.properties };
     if (metadata.title !== undefined) properties.title = metadata.title;
-    if (metadata.authors !== undefined) properties.authors = metadata.authors;
+    // 著者を変えていない場合は、保存済みの役割を残す
+    let contributors = metadata.contributors &&
+      await this.canonicalContributors(metadata.contributors);
+    if (!contributors && metadata.authors !== undefined) {
+      contributors = metadata.authors === existingFile.properties?.authors
+        ? getContributors(existingFile.properties)
+        : await this.canonicalContributors(parseContributors(metadata.authors));
+    }
+    if (contributors) {
+      properties.authors = formatContributors(contributors);
+      properties.contributors = encodeContributors(contributors);
+    }
+    if (metadata.isbn !== undefined) {
+      properties.isbn = metadata.isbn.replace(/[-\s]/g, "").toUpperCase();
+    }
     if (metadata.publisher !== undefined) {
       properties.publisher = metadata.publisher;
     }
     if (metadata.publishedDate !== undefined) {
       properties.published_date = metadata.publishedDate;
     }
+    if (metadata.series !== undefined) properties.series = metadata.series;
+    if (metadata.seriesIndex !== undefined) {
+      properties.series_index = metadata.seriesIndex;
+    }
+    // 切り詰められて保存されていた以前の概要は空にする
+    if (metadata.description !== undefined && properties.description) properties.description = "";
+    if (properties.converted_files) properties.converted_files = "";
+    // Drive のプロパティの上限を超える編集は、何も書き込まないうちに断る
+    encodeProperties(properties);
 
-    const updatedFile = await this.driveService.updateFileProperties(
+    // 変換したファイルは名前・フォルダをそろえずに削除し、次のダウンロードで作り直す
+    if (existingFile.properties?.converted_files) {
+      await this.discardConversions(existingFile);
+    }
+
+    let updatedFile = await this.driveService.updateFileProperties(
       fileId,
       properties,
     );
+    if (metadata.description !== undefined) {
+      updatedFile = await this.driveService.updateFileDescription(fileId, metadata.description);
+    }
 
-    // Rename file if title or authors changed
-    const title = metadata.title || existingFile.properties?.title || "";
-    const authors = metadata.authors || existingFile.properties?.authors || "";
+    // ファイル名・フォルダに使う項目が変わったらリネーム・移動する
     const extension = existingFile.name.split(".").pop() || "epub";
-    const newFileName = formatFileName(authors, title, extension);
+    const newFileName = this.layout.fileName(properties, extension);
 
     if (newFileName !== existingFile.name) {
       await this.driveService.renameFile(fileId, newFileName);
     }
 
-    // Move to new author folder if authors changed
-    if (
-      metadata.authors &&
-      metadata.authors !== existingFile.properties?.authors
-    ) {
-      const myLibraryId = await this.driveService.ensureMyLibraryFolder();
-      const newFirstAuthor = getFirstAuthor(metadata.authors);
-      const newFolderId = await this.driveService.ensureAuthorFolder(
-        myLibraryId,
-        newFirstAuthor,
-      );
+    let folderId = existingFile.parents?.[0];
+    const newFolderPath = this.layout.folderPath(properties);
+    if (newFolderPath.join("/") !== this.layout.folderPath(existingFile.properties || {}).join("/")) {
+      const newFolderId = await this.ensureFolderPath(newFolderPath);
       const oldFolderId = existingFile.parents?.[0];
       if (oldFolderId && oldFolderId !== newFolderId) {
         await this.driveService.moveFile(fileId, newFolderId, oldFolderId);
+        folderId = newFolderId;
+      }
+    }
+
+    // 別の形式のファイルにも同じ書誌情報・名前・フォルダを反映する
+    for (const format of getBookFormats({ ...existingFile, properties })) {
+      if (format.fileId === fileId) continue;
+      const formatFile = await this.driveService.getFile(format.fileId);
+      await this.driveService.updateFileProperties(formatFile.id, formatFileProperties(fileId, properties));
+      if (metadata.description !== undefined) {
+        await this.driveService.updateFileDescription(formatFile.id, metadata.description);
+      }
+      const formatName = this.layout.fileName(properties, formatFile.name.split(".").pop() || format.key);
+      if (formatName !== formatFile.name) await this.driveService.renameFile(formatFile.id, formatName);
+      const formatFolderId = formatFile.parents?.[0];
+      if (folderId && formatFolderId && formatFolderId !== folderId) {
+        await this.driveService.moveFile(formatFile.id, folderId, formatFolderId);
       }
     }
 
     this.invalidateListCache();
+    await this.invalidateFileCache(fileId);
+    if (this.searchIndex) {
+      // リネーム・移動後の状態をインデックスに反映する
+      this.searchIndex.upsert(await this.driveService.getFile(fileId));
+    }
     return updatedFile;
   }
 
@@ -198,8 +1191,101 @@ export class BookService {
     return await this.driveService.findBookByIsbn(isbn);
   }
 
-  async getCoverImageContent(fileId: string): Promise<Uint8Array> {
-    return await this.driveService.getFileContent(fileId);
+  /**
+   * シリーズに属する書籍を巻数順に返す
+   */
+  async listSeries(series: string): Promise<DriveFile[]> {
+    let files: DriveFile[];
+    if (this.searchIndex?.isReady) {
+      files = (await this.listAllBooks())
+        .filter((f) => f.properties?.series === series);
+    } else {
+      files = await this.driveService.findBooksBySeries(series);
+    }
+    return sortBySeriesIndex(files);
+  }
+
+  /**
+   * 書籍の表紙画像を返す（表紙がなければ null）。
+   * 表紙のファイルIDはメモリに、画像はディスクにキャッシュするため、2回目以降は Drive を呼ばない。
+   */
+  async getBookCover(fileId: string, size?: CoverSize): Promise<Uint8Array | null> {
+    const cacheKey = `${CACHE_KEY_COVER_PREFIX}${fileId}`;
+    let coverFileIds = this.cache.get<Record<string, string>>(cacheKey);
+    if (coverFileIds === null) {
+      const properties = (await this.driveService.getFile(fileId)).properties || {};
+      coverFileIds = { original: properties.cover_file_id || "" };
+      for (const [name, key] of Object.entries(COVER_RENDITION_PROPERTIES)) {
+        if (properties[key]) coverFileIds[name] = properties[key];
+      }
+      this.cache.set(cacheKey, coverFileIds);
+    }
+    if (!coverFileIds.original) return null;
+
+    if (size && coverFileIds[size]) return await this.getCoverFile(fileId, coverFileIds[size]);
+    const original = await this.getCoverFile(fileId, coverFileIds.original);
+    if (!size) return original;
+
+    // 縮小版を保存していない書籍は、その場で作ってキャッシュする
+    const version = `cover-${coverFileIds.original}-${size}`;
+    const cached = await this.blobCache?.get(fileId, version);
+    if (cached) return cached;
+    const rendition = (await createCoverRenditions(original, [size]))?.[size];
+    if (!rendition) return original;
+    await this.blobCache?.put(fileId, version, rendition);
+    return rendition;
+  }
+
+  /** 表紙を差し替えると表紙のファイルIDが変わるので、それを版として書籍IDに紐づける */
+  private async getCoverFile(fileId: string, coverFileId: string): Promise<Uint8Array> {
+    const version = `cover-${coverFileId}`;
+    const cached = await this.blobCache?.get(fileId, version);
+    if (cached) return cached;
+    const content = await this.driveService.getFileContent(coverFileId);
+    await this.blobCache?.put(fileId, version, content);
+    return content;
+  }
+
+  /**
+   * 検索インデックスをDriveの内容から再構築する（インデックス未設定時は何もしない）
+   */
+  async rebuildSearchIndex(): Promise<void> {
+    await this.searchIndex?.rebuild(this.driveService);
+  }
+
+  /**
+   * Drive Changes API で検出した変更をカタログ（検索インデックス）に反映する。
+   * 書籍に関係する変更があった場合のみ一覧キャッシュを破棄し、反映した件数を返す。
+   */
+  applyDriveChanges(changes: DriveChange[]): number {
+    let applied = 0;
+    for (const change of changes) {
+      const isBook = change.file?.properties?.app_type === APP_TYPE_VALUE;
+      if (!change.removed && change.file && isBook) {
+        this.searchIndex?.upsert(change.file);
+        applied++;
+      } else if (this.searchIndex?.get(change.fileId)) {
+        // 削除された、または app_type が外された書籍
+        this.searchIndex.remove(change.fileId);
+        applied++;
+      } else if (change.removed && !this.searchIndex) {
+        // インデックスが無いと削除されたのが書籍か判別できないため、安全側に倒す
+        applied++;
+      }
+    }
+    if (applied > 0) {
+      this.invalidateListCache();
+    }
+    // Drive 上で変更されたファイルは表紙などのキャッシュも破棄する
+    for (const change of changes) {
+      this.invalidateFileCache(change.fileId).catch(() => {});
+    }
+    return applied;
+  }
+
+  private async invalidateFileCache(fileId: string): Promise<void> {
+    this.cache.invalidate(`${CACHE_KEY_COVER_PREFIX}${fileId}`);
+    await this.blobCache?.invalidate(fileId);
   }
 
   private invalidateListCache(): void {
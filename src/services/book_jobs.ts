@@ -0,0 +1,91 @@
+import { BookMetadata, GoogleDriveService } from "../types.ts";
+import { BookService } from "./book.ts";
+import { JobQueue } from "./jobs.ts";
+import { CalibreMigrator, MigrationOptions } from "./calibre.ts";
+
+export const JOB_TYPES = {
+  registerBook: "register-book",
+  fetchCover: "fetch-cover",
+  updateBook: "update-book",
+  migrateCalibre: "migrate-calibre",
+} as const;
+
+/** ファイル本体はジョブの添付データとして渡す */
+export interface RegisterBookPayload {
+  metadata: BookMetadata;
+  mimeType: string;
+  /** 添付データのバイト数（進捗表示用） */
+  size?: number;
+  /** 指定すると新しい書籍ではなく、この書籍の別の形式として追加する */
+  bookId?: string;
+}
+
+export interface FetchCoverPayload {
+  fileId: string;
+  url: string;
+}
+
+export interface UpdateBookPayload {
+  fileId: string;
+  metadata: Partial<BookMetadata>;
+}
+
+export interface MigrateCalibrePayload {
+  sourceFolderId: string;
+  options?: MigrationOptions;
+}
+
+/**
+ * 書籍の登録・表紙取得・メタデータ更新・Calibre移管をジョブとして実行できるようにする
+ */
+export function registerBookJobs(
+  queue: JobQueue,
+  bookService: BookService,
+  driveService: GoogleDriveService,
+): void {
+  queue.register<RegisterBookPayload>(JOB_TYPES.registerBook, async (payload, context) => {
+    const content = await context.attachmentStream();
+    if (payload.bookId) {
+      const file = await bookService.addFormatStream(payload.bookId, content, payload.mimeType, {
+        size: payload.size,
+        onProgress: (uploaded, total) => context.reportProgress(uploaded, total),
+      });
+      return { fileId: file.id };
+    }
+    const file = await bookService.registerBookStream(payload.metadata, content, payload.mimeType, {
+      deferCoverFetch: true,
+      size: payload.size,
+      onProgress: (uploaded, total) => context.reportProgress(uploaded, total),
+    });
+
+    // 表紙の取得は失敗しても書籍の登録をやり直さないよう別のジョブにする
+    if (payload.metadata.coverImageUrl) {
+      await context.enqueue(JOB_TYPES.fetchCover, {
+        fileId: file.id,
+        url: payload.metadata.coverImageUrl,
+      } satisfies FetchCoverPayload, { label: `表紙取得: ${payload.metadata.title}` });
+    }
+    return { fileId: file.id };
+  });
+
+  queue.register<FetchCoverPayload>(JOB_TYPES.fetchCover, async (payload) => {
+    const file = await bookService.attachCoverFromUrl(payload.fileId, payload.url);
+    return { fileId: file.id, coverFileId: file.properties.cover_file_id };
+  });
+
+  queue.register<UpdateBookPayload>(JOB_TYPES.updateBook, async (payload) => {
+    const file = await bookService.updateBook(payload.fileId, payload.metadata);
+    return { fileId: file.id };
+  });
+
+  queue.register<MigrateCalibrePayload>(JOB_TYPES.migrateCalibre, async (payload) => {
+    const migrator = new CalibreMigrator(driveService, bookService);
+    const result = await migrator.migrate(payload.sourceFolderId, payload.options);
+    return {
+      total: result.total,
+      succeeded: result.succeeded,
+      skipped: result.skipped,
+      errors: result.errors,
+    };
+  });
+}
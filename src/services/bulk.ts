@@ -0,0 +1,296 @@
+import { BookMetadata } from "../types.ts";
+import { BookService } from "./book.ts";
+import { findIsbn } from "./isbn.ts";
+
+export type BulkRowStatus =
+  | "pending"
+  | "registering"
+  | "registered"
+  | "skipped"
+  | "error";
+
+export interface BulkRow {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  metadata: BookMetadata;
+  /** ISBNをどこから見つけたか */
+  isbnSource: "embedded" | "filename" | null;
+  /** 書誌情報APIで情報が見つかった */
+  metadataFound: boolean;
+  /** 登録済み書籍（または同じバッチ内の先行行）とISBNが重複している */
+  duplicate?: { fileId?: string; rowId?: string; title: string };
+  skip: boolean;
+  status: BulkRowStatus;
+  error?: string;
+  fileId?: string;
+}
+
+export interface BulkBatch {
+  id: string;
+  createdAt: string;
+  state: "staged" | "committing" | "committed";
+  rows: BulkRow[];
+}
+
+export interface BulkUploadFile {
+  name: string;
+  mimeType: string;
+  content: Uint8Array;
+}
+
+export interface BulkProgressEvent {
+  row: BulkRow;
+  done: number;
+  total: number;
+}
+
+export interface BulkRowChanges extends Partial<Omit<BookMetadata, "contributors">> {
+  skip?: boolean;
+}
+
+/** 確認画面のまま放置されたバッチを破棄するまでの時間 */
+const BATCH_TTL = 24 * 60 * 60 * 1000;
+
+interface StagedBatch extends BulkBatch {
+  dir: string;
+}
+
+/**
+ * 複数ファイルの一括登録
+ *
+ * アップロードされたファイルは一時ディレクトリに置き（ステージング）、ISBN検出・書誌情報取得・
+ * 重複チェックの結果を確認・修正してから1冊ずつ registerBook で登録する。
+ */
+export class BulkImportService {
+  private batches = new Map<string, StagedBatch>();
+  private runs = new Map<string, Promise<void>>();
+  private listeners = new Map<string, Set<(event: BulkProgressEvent | null) => void>>();
+
+  constructor(private bookService: BookService) {}
+
+  async stage(files: BulkUploadFile[]): Promise<BulkBatch> {
+    await this.discardExpired();
+
+    const dir = await Deno.makeTempDir({ prefix: "bulk_" });
+    const batch: StagedBatch = {
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      state: "staged",
+      rows: [],
+      dir,
+    };
+
+    for (const file of files) {
+      const row = await this.analyze(file, batch.rows);
+      await Deno.writeFile(`${dir}/${row.id}`, file.content);
+      batch.rows.push(row);
+    }
+
+    this.batches.set(batch.id, batch);
+    return batch;
+  }
+
+  getBatch(batchId: string): BulkBatch | null {
+    return this.batches.get(batchId) || null;
+  }
+
+  /**
+   * 確認画面での修正を反映する。登録開始後は変更できない。
+   */
+  updateRow(batchId: string, rowId: string, changes: BulkRowChanges): BulkRow | null {
+    const batch = this.batches.get(batchId);
+    const row = batch?.rows.find((r) => r.id === rowId);
+    if (!batch || !row || batch.state !== "staged") return null;
+
+    const { skip, ...metadata } = changes;
+    for (const [key, value] of Object.entries(metadata)) {
+      if (value !== undefined) {
+        (row.metadata as unknown as Record<string, string>)[key] = value.trim();
+      }
+    }
+    // 著者を書き換えたら、書誌情報から取得した役割は使わない
+    if (metadata.authors !== undefined) delete row.metadata.contributors;
+    if (skip !== undefined) row.skip = skip;
+    return row;
+  }
+
+  /**
+   * ステージングした行の登録をバックグラウンドで開始する。
+   * 進捗は watch で購読する（接続が切れても登録は続く）。
+   */
+  start(batchId: string): boolean {
+    const batch = this.batches.get(batchId);
+    if (!batch || batch.state !== "staged") return false;
+
+    batch.state = "committing";
+    this.runs.set(batchId, this.run(batch));
+    return true;
+  }
+
+  /** 登録の完了を待つ */
+  async waitForCompletion(batchId: string): Promise<void> {
+    await this.runs.get(batchId);
+  }
+
+  /**
+   * 各行の現在の状態を返したあと、登録が終わるまで行ごとの進捗を返し続ける
+   */
+  async *watch(batchId: string): AsyncGenerator<BulkProgressEvent> {
+    const batch = this.batches.get(batchId);
+    if (!batch) return;
+
+    const queue: BulkProgressEvent[] = [];
+    let wake: (() => void) | null = null;
+    const listener = (event: BulkProgressEvent | null) => {
+      if (event) queue.push(event);
+      wake?.();
+    };
+    const listeners = this.listeners.get(batchId) || new Set();
+    listeners.add(listener);
+    this.listeners.set(batchId, listeners);
+
+    try {
+      for (const row of batch.rows) yield this.progress(batch, row);
+
+      while (batch.state === "committing" || queue.length > 0) {
+        if (queue.length === 0) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = null;
+          continue;
+        }
+        yield queue.shift()!;
+      }
+    } finally {
+      listeners.delete(listener);
+    }
+  }
+
+  private async run(batch: StagedBatch): Promise<void> {
+    try {
+      for (const row of batch.rows) {
+        if (row.skip) {
+          row.status = "skipped";
+          this.emit(batch, row);
+          continue;
+        }
+
+        row.status = "registering";
+        this.emit(batch, row);
+
+        try {
+          if (!row.metadata.title) throw new Error("タイトルは必須です");
+          const content = await Deno.readFile(`${batch.dir}/${row.id}`);
+          const file = await this.bookService.registerBook(row.metadata, content, row.mimeType);
+          row.status = "registered";
+          row.fileId = file.id;
+        } catch (error) {
+          row.status = "error";
+          row.error = error instanceof Error ? error.message : String(error);
+        }
+        this.emit(batch, row);
+      }
+    } finally {
+      batch.state = "committed";
+      this.runs.delete(batch.id);
+      await Deno.remove(batch.dir, { recursive: true }).catch(() => {});
+      for (const listener of this.listeners.get(batch.id) || []) listener(null);
+    }
+  }
+
+  private emit(batch: BulkBatch, row: BulkRow): void {
+    const event = this.progress(batch, row);
+    for (const listener of this.listeners.get(batch.id) || []) listener(event);
+  }
+
+  private progress(batch: BulkBatch, row: BulkRow): BulkProgressEvent {
+    const done = batch.rows.filter((r) =>
+      r.status === "registered" || r.status === "skipped" || r.status === "error"
+    ).length;
+    return { row: { ...row }, done, total: batch.rows.length };
+  }
+
+  async discard(batchId: string): Promise<void> {
+    const batch = this.batches.get(batchId);
+    if (!batch || batch.state === "committing") return;
+    this.batches.delete(batchId);
+    this.listeners.delete(batchId);
+    await Deno.remove(batch.dir, { recursive: true }).catch(() => {});
+  }
+
+  private async discardExpired(): Promise<void> {
+    const threshold = Date.now() - BATCH_TTL;
+    for (const batch of [...this.batches.values()]) {
+      if (batch.state !== "committing" && Date.parse(batch.createdAt) < threshold) {
+        await this.discard(batch.id);
+      }
+    }
+  }
+
+  private async analyze(file: BulkUploadFile, previous: BulkRow[]): Promise<BulkRow> {
+    const inspection = await this.bookService.inspectBookFile(file.content, file.mimeType);
+    const embedded = inspection?.metadata || {};
+
+    let isbn = embedded.isbn || "";
+    let isbnSource: BulkRow["isbnSource"] = isbn ? "embedded" : null;
+    if (!isbn) {
+      isbn = findIsbn(file.name);
+      if (isbn) isbnSource = "filename";
+    }
+
+    let fetched: BookMetadata | null = null;
+    if (isbn) {
+      try {
+        fetched = await this.bookService.fetchMetadata(isbn);
+      } catch {
+        // 書誌情報APIの失敗は手動入力で補う
+      }
+    }
+
+    const pick = (key: Exclude<keyof BookMetadata, "contributors">): string =>
+      (fetched?.[key] || embedded[key] || "").trim();
+    const authorSource = fetched?.authors ? fetched : embedded;
+    const metadata: BookMetadata = {
+      isbn,
+      title: pick("title") || file.name.replace(/\.[^.]+$/, ""),
+      authors: pick("authors"),
+      ...(authorSource.contributors ? { contributors: authorSource.contributors } : {}),
+      publisher: pick("publisher"),
+      publishedDate: pick("publishedDate"),
+      description: pick("description"),
+      coverImageUrl: fetched?.coverImageUrl || "",
+      series: pick("series"),
+      seriesIndex: pick("seriesIndex"),
+    };
+
+    const row: BulkRow = {
+      id: crypto.randomUUID(),
+      fileName: file.name,
+      mimeType: file.mimeType,
+      size: file.content.length,
+      metadata,
+      isbnSource,
+      metadataFound: fetched !== null,
+      skip: false,
+      status: "pending",
+    };
+
+    // findBookByIsbn と同じ重複チェックに加え、同じバッチ内の重複も検出する
+    if (isbn) {
+      const sameBatch = previous.find((r) => r.metadata.isbn === isbn);
+      const existing = sameBatch ? null : await this.bookService.findBookByIsbn(isbn);
+      if (sameBatch) {
+        row.duplicate = { rowId: sameBatch.id, title: sameBatch.metadata.title };
+      } else if (existing) {
+        row.duplicate = {
+          fileId: existing.id,
+          title: existing.properties?.title || existing.name,
+        };
+      }
+      row.skip = row.duplicate !== undefined;
+    }
+
+    return row;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Calibreライブラリ（<著者>/<書籍>/ のフォルダ構成と metadata.opf・cover.jpg）を MyLibrary に移管する。
+ * `deno task migrate` のスクリプトと、バックグラウンドジョブの移管の両方から使う
+ */
+import {
+  BookMetadata,
+  BookMetadataService,
+  DriveFile,
+  GoogleDriveService,
+} from "../types.ts";
+import { BookService } from "./book.ts";
+import { parseMetadataOpf } from "./epub.ts";
+import { findFormatByFileName } from "./formats.ts";
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+  limit?: number;
+}
+
+export interface MigrationDetail {
+  title: string;
+  status: "succeeded" | "skipped" | "error";
+  reason?: string;
+}
+
+export interface MigrationResult {
+  total: number;
+  succeeded: number;
+  skipped: number;
+  errors: number;
+  details: MigrationDetail[];
+}
+
+const FOLDER_MIME = "application/vnd.google-apps.folder";
+const EXTENSION_PRIORITY = [
+  ".epub",
+  ".pdf",
+  ".mobi",
+  ".azw3",
+  ".azw",
+  ".cbz",
+  ".cbr",
+  ".cb7",
+  ".djvu",
+  ".txt",
+];
+
+// ─── 公開ユーティリティ関数 ──────────────────────────────────────
+
+/**
+ * ファイルリストから書籍ファイルを優先順位で選択する。
+ * 優先順位: epub > pdf > mobi > azw3 > azw > cbz > cbr > cb7 > djvu > txt
+ */
+export function selectBookFile(files: DriveFile[]): DriveFile | null {
+  return selectBookFiles(files)[0] ?? null;
+}
+
+/**
+ * ファイルリストから対応形式の書籍ファイルを優先順位の順にすべて選択する（同じ形式は1つだけ）。
+ * 先頭のファイルで書籍を登録し、残りはその書籍の別の形式として追加する
+ */
+export function selectBookFiles(files: DriveFile[]): DriveFile[] {
+  const selected: DriveFile[] = [];
+  const formats = new Set<string>();
+  for (const ext of EXTENSION_PRIORITY) {
+    const file = files.find((f) => f.name.toLowerCase().endsWith(ext));
+    const format = file && findFormatByFileName(file.name);
+    if (!file || !format || formats.has(format.key)) continue;
+    formats.add(format.key);
+    selected.push(file);
+  }
+  return selected;
+}
+
+/** BookMetadataService の何もしない実装（移管時はメタデータAPI不要） */
+export class NoOpMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+// ─── CalibreMigrator ─────────────────────────────────────────────
+
+export class CalibreMigrator {
+  constructor(
+    private driveService: GoogleDriveService,
+    private bookService: BookService,
+  ) {}
+
+  async migrate(
+    sourceFolderId: string,
+    options: MigrationOptions = {},
+  ): Promise<MigrationResult> {
+    const result: MigrationResult = {
+      total: 0,
+      succeeded: 0,
+      skipped: 0,
+      errors: 0,
+      details: [],
+    };
+
+    const authorFolders = await this.driveService.findFilesByParent(
+      sourceFolderId,
+    );
+
+    outer:
+    for (const authorFolder of authorFolders) {
+      if (authorFolder.mimeType !== FOLDER_MIME) continue;
+
+      const bookFolders = await this.driveService.findFilesByParent(
+        authorFolder.id,
+      );
+
+      for (const bookFolder of bookFolders) {
+        if (bookFolder.mimeType !== FOLDER_MIME) continue;
+
+        if (options.limit !== undefined && result.total >= options.limit) {
+          break outer;
+        }
+
+        result.total++;
+
+        let detail: MigrationDetail;
+        try {
+          detail = await this.migrateBook(
+            bookFolder.id,
+            bookFolder.name,
+            options,
+          );
+        } catch (e) {
+          detail = {
+            title: bookFolder.name,
+            status: "error",
+            reason: e instanceof Error ? e.message : String(e),
+          };
+        }
+
+        result.details.push(detail);
+        if (detail.status === "succeeded") result.succeeded++;
+        else if (detail.status === "skipped") result.skipped++;
+        else result.errors++;
+      }
+    }
+
+    return result;
+  }
+
+  private async migrateBook(
+    bookFolderId: string,
+    bookFolderName: string,
+    options: MigrationOptions,
+  ): Promise<MigrationDetail> {
+    const files = await this.driveService.findFilesByParent(bookFolderId);
+
+    // metadata.opf をパース
+    let metadata: Partial<BookMetadata> = {};
+    const opfFile = files.find((f) => f.name === "metadata.opf");
+    if (opfFile) {
+      const content = await this.driveService.getFileContent(opfFile.id);
+      metadata = parseMetadataOpf(new TextDecoder().decode(content));
+    }
+
+    const title = metadata.title || bookFolderName;
+
+    // ISBNによる重複チェック
+    if (metadata.isbn) {
+      const existing = await this.bookService.findBookByIsbn(metadata.isbn);
+      if (existing) {
+        return { title, status: "skipped", reason: "ISBN重複" };
+      }
+    }
+
+    // 書籍ファイル選択
+    const [bookFile, ...otherFormatFiles] = selectBookFiles(files);
+    if (!bookFile) {
+      return { title, status: "skipped", reason: "対応形式の書籍ファイルなし" };
+    }
+
+    if (options.dryRun) {
+      return { title, status: "succeeded" };
+    }
+
+    // 書籍ファイルをダウンロードして登録
+    const bookContent = await this.driveService.getFileContent(bookFile.id);
+    const bookMimeType = getMimeType(bookFile.name);
+
+    const fullMetadata: BookMetadata = {
+      isbn: metadata.isbn || "",
+      title,
+      authors: metadata.authors || "",
+      publisher: metadata.publisher || "",
+      publishedDate: metadata.publishedDate || "",
+      description: metadata.description || "",
+      coverImageUrl: "",
+      series: metadata.series || "",
+      seriesIndex: metadata.seriesIndex || "",
+    };
+
+    const registeredFile = await this.bookService.registerBook(
+      fullMetadata,
+      bookContent,
+      bookMimeType,
+    );
+
+    // cover.jpg が存在する場合はDriveからダウンロードして登録
+    const coverFile = files.find((f) => f.name === "cover.jpg");
+    if (coverFile) {
+      try {
+        const coverData = await this.driveService.getFileContent(coverFile.id);
+        const authorFolderId = registeredFile.parents[0];
+        const coverFileName = `cover_${registeredFile.id}.jpg`;
+        const coverDriveFile = await this.driveService.uploadCoverImage(
+          authorFolderId,
+          coverFileName,
+          coverData,
+          "image/jpeg",
+        );
+        await this.driveService.updateFileProperties(registeredFile.id, {
+          ...registeredFile.properties,
+          cover_file_id: coverDriveFile.id,
+        });
+      } catch {
+        // カバー画像登録失敗は非致命的エラーとして継続
+      }
+    }
+
+    // 同じフォルダにある別の形式は、登録した書籍の形式として追加する
+    for (const formatFile of otherFormatFiles) {
+      const content = await this.driveService.getFileContent(formatFile.id);
+      await this.bookService.addFormatStream(
+        registeredFile.id,
+        ReadableStream.from([content]),
+        getMimeType(formatFile.name),
+      );
+    }
+
+    return { title, status: "succeeded" };
+  }
+}
+
+// ─── ヘルパー ────────────────────────────────────────────────────
+
+function getMimeType(filename: string): string {
+  return findFormatByFileName(filename)?.mimeType ?? "application/octet-stream";
+}
@@ -0,0 +1,396 @@
+import { Contributor, DriveFile } from "../types.ts";
+import { BookService, getBookConversions, getBookFormats } from "./book.ts";
+import { authorNames, getContributors } from "./contributors.ts";
+import { authorKey } from "./author_names.ts";
+import { BOOK_FORMATS, findFormatByKey } from "./formats.ts";
+
+export const CATALOG_PAGE_SIZE = 50;
+const RECENT_LIMIT = 100;
+
+export interface CatalogPublication {
+  id: string;
+  bookId: string;
+  title: string;
+  authors: string[];
+  /** 著者以外の役割の人（訳者・イラストレーター・編者） */
+  contributors: Contributor[];
+  publisher: string;
+  publishedDate: string;
+  isbn: string;
+  series: string;
+  seriesIndex: string;
+  modified?: string;
+  /** 形式ごとの取得リンク（href はアプリのルートからのパス） */
+  acquisitions: { href: string; type: string }[];
+  cover?: { href: string; thumbnailHref: string; type: string; thumbnailType: string };
+}
+
+export interface CatalogNavigationItem {
+  id: string;
+  title: string;
+  content?: string;
+  /** カタログのルートからのパス */
+  path: string;
+  /** リンク先フィードの種類 */
+  kind: "navigation" | "acquisition";
+}
+
+export interface CatalogFacet {
+  title: string;
+  path: string;
+  count: number;
+  active: boolean;
+}
+
+export interface CatalogFacetGroup {
+  title: string;
+  facets: CatalogFacet[];
+}
+
+export interface CatalogPagination {
+  /** 1始まりのページ番号 */
+  page: number;
+  /** 全件を通した先頭からの位置（0始まり） */
+  startIndex: number;
+  totalResults: number;
+  itemsPerPage: number;
+  hasPrevious: boolean;
+  hasNext: boolean;
+}
+
+/**
+ * Atom (OPDS 1.2) と JSON (OPDS 2.0) の両方が描画に使う、フォーマット非依存のフィード
+ *
+ * パスはすべてカタログのルート（`/opds` や `/opds/v2`）からの相対パスで、
+ * 実際のURLへの変換は各フォーマットの描画側で行う。
+ */
+export interface CatalogFeed {
+  id: string;
+  title: string;
+  kind: "navigation" | "acquisition";
+  path: string;
+  /** ページ番号以外に引き継ぐクエリ（検索語など） */
+  query?: Record<string, string>;
+  upPath?: string;
+  navigation: CatalogNavigationItem[];
+  publications: CatalogPublication[];
+  facetGroups: CatalogFacetGroup[];
+  pagination?: CatalogPagination;
+}
+
+/**
+ * フィードの指定ページを指すパス（クエリ文字列付き）を返す
+ */
+export function catalogPagePath(feed: CatalogFeed, page: number): string {
+  const params = new URLSearchParams(feed.query);
+  if (page > 1) params.set("page", String(page));
+  const qs = params.toString();
+  return qs ? `${feed.path}?${qs}` : feed.path;
+}
+
+export function toPublication(book: DriveFile): CatalogPublication {
+  const p = book.properties || {};
+  const contributors = getContributors(p);
+  const coverType = p.cover_mime_type || "image/jpeg";
+
+  return {
+    id: `urn:isbn:${p.isbn || book.id}`,
+    bookId: book.id,
+    title: p.title || book.name,
+    authors: contributors.filter((c) => c.role === "author").map((c) => c.name),
+    contributors: contributors.filter((c) => c.role !== "author"),
+    publisher: p.publisher || "",
+    publishedDate: p.published_date || "",
+    isbn: p.isbn || "",
+    series: p.series || "",
+    seriesIndex: p.series_index || "",
+    modified: book.modifiedTime,
+    acquisitions: [
+      ...getBookFormats(book).map((format) => ({
+        href: `/books/${format.fileId}/download`,
+        type: findFormatByKey(format.key) ? format.mimeType : "application/octet-stream",
+      })),
+      // ダウンロード時に変換する形式（Kobo の KEPUB・Kindle の MOBI）
+      ...getBookConversions(book).map((conversion) => ({
+        href: `/books/${book.id}/download?format=${conversion.key}`,
+        type: conversion.mimeType,
+      })),
+    ],
+    cover: p.cover_file_id
+      ? {
+        href: `/books/${book.id}/cover`,
+        thumbnailHref: `/books/${book.id}/cover?size=thumb`,
+        type: coverType,
+        // 縮小版は JPEG。展開できない形式（WebP・GIF）は元画像のまま返る
+        thumbnailType: coverType === "image/png" ? "image/jpeg" : coverType,
+      }
+      : undefined,
+  };
+}
+
+function byCreatedTimeDesc(a: DriveFile, b: DriveFile): number {
+  return (b.createdTime || "").localeCompare(a.createdTime || "");
+}
+
+/**
+ * OPDSカタログの各フィードを組み立てる
+ */
+export class CatalogService {
+  constructor(private bookService: BookService) {}
+
+  /**
+   * カタログ内のパスをフィードに解決する。存在しないパスでは null を返す。
+   */
+  async resolve(
+    path: string,
+    params: { page?: number; q?: string } = {},
+  ): Promise<CatalogFeed | null> {
+    const page = Math.max(1, params.page || 1);
+    const segments = path.split("/").filter((s) => s).map(decodeURIComponent);
+
+    if (segments.length === 0) {
+      return params.q ? await this.search(params.q, page, "") : this.root();
+    }
+
+    const [section, arg] = segments;
+    if (segments.length === 1) {
+      switch (section) {
+        case "search":
+          return params.q ? await this.search(params.q, page, "/search") : null;
+        case "all":
+          return await this.all(page);
+        case "recent":
+          return await this.recent(page);
+        case "authors":
+          return await this.authors();
+        case "publishers":
+          return await this.publishers();
+      }
+    } else if (segments.length === 2) {
+      switch (section) {
+        case "authors":
+          return await this.author(arg, page);
+        case "publishers":
+          return await this.publisher(arg, page);
+        case "formats":
+          return await this.format(arg, page);
+      }
+    }
+    return null;
+  }
+
+  root(): CatalogFeed {
+    return {
+      id: "urn:uuid:gdrive-book-manager",
+      title: "蔵書管理",
+      kind: "navigation",
+      path: "",
+      navigation: [
+        {
+          id: "urn:gdrive-book-manager:recent",
+          title: "新着",
+          content: `最近追加された${RECENT_LIMIT}冊`,
+          path: "/recent",
+          kind: "acquisition",
+        },
+        {
+          id: "urn:gdrive-book-manager:authors",
+          title: "著者別",
+          path: "/authors",
+          kind: "navigation",
+        },
+        {
+          id: "urn:gdrive-book-manager:publishers",
+          title: "出版社別",
+          path: "/publishers",
+          kind: "navigation",
+        },
+        ...BOOK_FORMATS.map((format) => ({
+          id: `urn:gdrive-book-manager:format:${format.key}`,
+          title: format.label,
+          content: `${format.label}形式の書籍`,
+          path: `/formats/${format.key}`,
+          kind: "acquisition" as const,
+        })),
+        {
+          id: "urn:gdrive-book-manager:all",
+          title: "すべての書籍",
+          path: "/all",
+          kind: "acquisition",
+        },
+      ],
+      publications: [],
+      facetGroups: [],
+    };
+  }
+
+  async all(page: number): Promise<CatalogFeed> {
+    const books = await this.bookService.listAllBooks();
+    return this.acquisitionFeed(books, page, {
+      id: "urn:gdrive-book-manager:all",
+      title: "すべての書籍",
+      path: "/all",
+      upPath: "",
+    });
+  }
+
+  async recent(page: number): Promise<CatalogFeed> {
+    const books = (await this.bookService.listAllBooks())
+      .sort(byCreatedTimeDesc)
+      .slice(0, RECENT_LIMIT);
+    return this.acquisitionFeed(books, page, {
+      id: "urn:gdrive-book-manager:recent",
+      title: "新着",
+      path: "/recent",
+      upPath: "",
+    });
+  }
+
+  async search(query: string, page: number, path: string): Promise<CatalogFeed> {
+    const books: DriveFile[] = [];
+    let pageToken: string | undefined;
+    do {
+      const result = await this.bookService.searchBooks(query, pageToken);
+      books.push(...result.files);
+      pageToken = result.nextPageToken;
+    } while (pageToken);
+
+    return this.acquisitionFeed(books, page, {
+      id: `urn:gdrive-book-manager:search:${query}`,
+      title: `検索: ${query}`,
+      path,
+      query: { q: query },
+      upPath: "",
+    });
+  }
+
+  /** 著者別（書誌情報の著者ごと。フォルダ構成のテンプレートによらない） */
+  async authors(): Promise<CatalogFeed> {
+    const authors = await this.bookService.listAuthors();
+    return {
+      id: "urn:gdrive-book-manager:authors",
+      title: "著者別",
+      kind: "navigation",
+      path: "/authors",
+      upPath: "",
+      navigation: authors.map((author) => ({
+        id: `urn:gdrive-book-manager:author:${author.name}`,
+        title: author.name,
+        content: `${author.bookCount}冊`,
+        path: `/authors/${encodeURIComponent(author.name)}`,
+        kind: "acquisition",
+      })),
+      publications: [],
+      facetGroups: [],
+    };
+  }
+
+  async author(name: string, page: number): Promise<CatalogFeed | null> {
+    const key = authorKey(name);
+    const books = (await this.bookService.listAllBooks())
+      .filter((b) => authorNames(getContributors(b.properties)).some((author) => authorKey(author) === key));
+    if (books.length === 0) return null;
+
+    return this.acquisitionFeed(books, page, {
+      id: `urn:gdrive-book-manager:author:${name}`,
+      title: name,
+      path: `/authors/${encodeURIComponent(name)}`,
+      upPath: "/authors",
+    });
+  }
+
+  async publishers(): Promise<CatalogFeed> {
+    const counts = new Map<string, number>();
+    for (const book of await this.bookService.listAllBooks()) {
+      const publisher = book.properties?.publisher;
+      if (publisher) counts.set(publisher, (counts.get(publisher) || 0) + 1);
+    }
+    return {
+      id: "urn:gdrive-book-manager:publishers",
+      title: "出版社別",
+      kind: "navigation",
+      path: "/publishers",
+      upPath: "",
+      navigation: [...counts.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([publisher, count]) => ({
+          id: `urn:gdrive-book-manager:publisher:${publisher}`,
+          title: publisher,
+          content: `${count}冊`,
+          path: `/publishers/${encodeURIComponent(publisher)}`,
+          kind: "acquisition",
+        })),
+      publications: [],
+      facetGroups: [],
+    };
+  }
+
+  async publisher(publisher: string, page: number): Promise<CatalogFeed> {
+    const books = (await this.bookService.listAllBooks())
+      .filter((b) => b.properties?.publisher === publisher);
+    return this.acquisitionFeed(books, page, {
+      id: `urn:gdrive-book-manager:publisher:${publisher}`,
+      title: publisher,
+      path: `/publishers/${encodeURIComponent(publisher)}`,
+      upPath: "/publishers",
+    });
+  }
+
+  async format(format: string, page: number): Promise<CatalogFeed | null> {
+    const facet = findFormatByKey(format);
+    if (!facet) return null;
+
+    const books = (await this.bookService.listAllBooks())
+      .filter((b) => getBookFormats(b).some((f) => f.key === facet.key));
+    return this.acquisitionFeed(books, page, {
+      id: `urn:gdrive-book-manager:format:${format}`,
+      title: facet.label,
+      path: `/formats/${format}`,
+      upPath: "",
+    });
+  }
+
+  /**
+   * 書籍一覧を1ページ分に切り出し、ページング情報と形式ファセット付きの取得フィードにする
+   */
+  private async acquisitionFeed(
+    books: DriveFile[],
+    page: number,
+    base: Pick<CatalogFeed, "id" | "title" | "path" | "query" | "upPath">,
+  ): Promise<CatalogFeed> {
+    const startIndex = (page - 1) * CATALOG_PAGE_SIZE;
+    const pageBooks = books.slice(startIndex, startIndex + CATALOG_PAGE_SIZE);
+
+    return {
+      ...base,
+      kind: "acquisition",
+      navigation: [],
+      publications: pageBooks.map(toPublication),
+      facetGroups: [await this.formatFacetGroup(base.path)],
+      pagination: {
+        page,
+        startIndex,
+        totalResults: books.length,
+        itemsPerPage: CATALOG_PAGE_SIZE,
+        hasPrevious: page > 1,
+        hasNext: startIndex + CATALOG_PAGE_SIZE < books.length,
+      },
+    };
+  }
+
+  private async formatFacetGroup(activePath: string): Promise<CatalogFacetGroup> {
+    const counts = new Map<string, number>();
+    for (const book of await this.bookService.listAllBooks()) {
+      for (const { key } of getBookFormats(book)) counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    return {
+      title: "形式",
+      facets: BOOK_FORMATS.map((format) => ({
+        title: format.label,
+        path: `/formats/${format.key}`,
+        count: counts.get(format.key) || 0,
+        active: activePath === `/formats/${format.key}`,
+      })),
+    };
+  }
+}
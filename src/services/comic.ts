@@ -0,0 +1,85 @@
+import { BookFileInspection, BookMetadata, Contributor, ContributorRole } from "../types.ts";
+import { ZipReader } from "./zip.ts";
+import { decodeXmlEntities } from "./epub.ts";
+import { formatContributors } from "./contributors.ts";
+import { detectImageType } from "./image.ts";
+
+const COMIC_INFO_PATH = "ComicInfo.xml";
+const IMAGE_EXTENSION = /\.(jpe?g|png|webp|gif)$/i;
+
+/** ComicInfo.xml の人物の項目と役割 */
+const COMIC_INFO_ROLES: [string, ContributorRole][] = [
+  ["Writer", "author"],
+  ["Penciller", "illustrator"],
+  ["Translator", "translator"],
+  ["Editor", "editor"],
+];
+
+/** コミックのページとして扱う画像のエントリか（macOS が付ける __MACOSX/ は除く） */
+export function isComicPageName(name: string): boolean {
+  return IMAGE_EXTENSION.test(name) && !name.startsWith("__MACOSX/");
+}
+
+/**
+ * ComicInfo.xml（ComicRack 形式）を BookMetadata にする
+ */
+export function parseComicInfo(xml: string): Partial<BookMetadata> {
+  const get = (tag: string): string => {
+    const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "i"));
+    return match ? decodeXmlEntities(match[1].trim()) : "";
+  };
+
+  const contributors: Contributor[] = [];
+  for (const [tag, role] of COMIC_INFO_ROLES) {
+    for (const name of get(tag).split(",").map((n) => n.trim()).filter((n) => n)) {
+      if (!contributors.some((c) => c.name === name && c.role === role)) {
+        contributors.push({ name, role });
+      }
+    }
+  }
+
+  const pad = (value: string) => value ? value.padStart(2, "0") : "";
+  const date = [get("Year"), pad(get("Month")), pad(get("Day"))].filter((v) => v).join("-");
+  const series = get("Series");
+  const number = get("Number");
+
+  return {
+    title: get("Title") || (series && number ? `${series} ${number}` : series),
+    authors: formatContributors(contributors),
+    contributors,
+    publisher: get("Publisher"),
+    publishedDate: get("Year") ? date : "",
+    description: get("Summary"),
+    isbn: get("GTIN").replace(/[^0-9Xx]/g, ""),
+    series,
+    seriesIndex: series ? number : "",
+  };
+}
+
+/**
+ * CBZ（画像を ZIP にまとめたコミック）から ComicInfo.xml の書誌情報と、
+ * ファイル名順で最初の画像（表紙）を取り出す。ZIP として読めない場合は null を返す。
+ */
+export async function inspectComicArchive(data: Uint8Array): Promise<BookFileInspection | null> {
+  let zip: ZipReader;
+  try {
+    zip = new ZipReader(data);
+  } catch {
+    return null;
+  }
+
+  const infoPath = zip.names.find((n) => n.toLowerCase() === COMIC_INFO_PATH.toLowerCase());
+  const info = infoPath ? await zip.readText(infoPath) : null;
+  const inspection: BookFileInspection = { metadata: info ? parseComicInfo(info) : {} };
+
+  // 「page2.jpg」より「page10.jpg」が後になるよう数字を数値として並べる
+  const firstPage = zip.names
+    .filter(isComicPageName)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))[0];
+  if (firstPage) {
+    const image = await zip.read(firstPage);
+    const mimeType = image && detectImageType(image);
+    if (image && mimeType) inspection.cover = { data: image, mimeType };
+  }
+  return inspection;
+}
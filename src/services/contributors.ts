@@ -0,0 +1,154 @@
+import { Contributor, ContributorRole } from "../types.ts";
+
+/** 表示・入力で名前の後ろに付ける役割の表記（著者は付けない） */
+const ROLE_LABELS: Record<ContributorRole, string> = {
+  author: "著",
+  translator: "訳",
+  illustrator: "絵",
+  editor: "編",
+};
+
+/** 入力で受け付ける役割の表記 */
+const ROLE_ALIASES: Record<string, ContributorRole> = {
+  "著": "author",
+  "著者": "author",
+  "作": "author",
+  "文": "author",
+  "訳": "translator",
+  "翻訳": "translator",
+  "訳者": "translator",
+  "絵": "illustrator",
+  "画": "illustrator",
+  "イラスト": "illustrator",
+  "編": "editor",
+  "編集": "editor",
+  "編者": "editor",
+  "編著": "editor",
+};
+
+/** プロパティに保存するときの役割のコード（OPF の opf:role と同じ MARC のコード） */
+const ROLE_CODES: Record<ContributorRole, string> = {
+  author: "aut",
+  translator: "trl",
+  illustrator: "ill",
+  editor: "edt",
+};
+
+/** OPF の opf:role・ONIX の ContributorRole から役割を決める */
+const EXTERNAL_ROLE_CODES: Record<string, ContributorRole> = {
+  aut: "author",
+  trl: "translator",
+  ill: "illustrator",
+  edt: "editor",
+  A01: "author",
+  B06: "translator",
+  A12: "illustrator",
+  B01: "editor",
+};
+
+/** 入力欄で複数人を区切る文字（ハイフンは名前に含まれるため区切りにしない） */
+const SEPARATOR = "、";
+const SEPARATOR_PATTERN = /[、;；\n]/;
+const ROLE_SUFFIX_PATTERN = /\s*[（(]\s*([^()（）]+?)\s*[)）]$/;
+
+/** OPF・ONIX の役割のコードを役割に変換する。不明なコードは null */
+export function roleFromCode(code: string | undefined): ContributorRole | null {
+  if (!code) return null;
+  return EXTERNAL_ROLE_CODES[code.trim()] ?? EXTERNAL_ROLE_CODES[code.trim().toLowerCase()] ?? null;
+}
+
+/** 「訳」「イラスト」などの役割の表記を役割に変換する。不明な表記は null */
+export function roleFromLabel(label: string): ContributorRole | null {
+  return Object.hasOwn(ROLE_ALIASES, label) ? ROLE_ALIASES[label] : null;
+}
+
+/**
+ * 入力欄の文字列（「J.D.サリンジャー、村上春樹（訳）」の形式）を著者の一覧にする
+ */
+export function parseContributors(text: string): Contributor[] {
+  const contributors: Contributor[] = [];
+  for (const part of text.split(SEPARATOR_PATTERN)) {
+    let name = part.trim();
+    const suffix = name.match(ROLE_SUFFIX_PATTERN);
+    const role = suffix ? roleFromLabel(suffix[1]) : null;
+    if (role) name = name.slice(0, suffix!.index).trim();
+    if (name) contributors.push({ name, role: role ?? "author" });
+  }
+  return contributors;
+}
+
+/** 著者の一覧を入力欄・表示用の文字列にする（parseContributors で元に戻せる） */
+export function formatContributors(contributors: Contributor[]): string {
+  return contributors
+    .map(({ name, role }) => role === "author" ? name : `${name}（${ROLE_LABELS[role]}）`)
+    .join(SEPARATOR);
+}
+
+/** 役割が著者の人の名前。著者がいなければ全員の名前 */
+export function authorNames(contributors: Contributor[]): string[] {
+  const authors = contributors.filter((c) => c.role === "author");
+  return (authors.length > 0 ? authors : contributors).map((c) => c.name);
+}
+
+/** 著者フォルダに使う筆頭著者 */
+export function getPrimaryAuthor(contributors: Contributor[]): string {
+  return authorNames(contributors)[0] || "";
+}
+
+function escapeName(name: string): string {
+  return name.replace(/[\\;]/g, (c) => `\\${c}`);
+}
+
+/**
+ * 著者の一覧をプロパティに保存する文字列にする。
+ * `aut:名前;trl:名前` の形式で、名前の中の `\` と `;` はバックスラッシュでエスケープする
+ */
+export function encodeContributors(contributors: Contributor[]): string {
+  return contributors.map(({ name, role }) => `${ROLE_CODES[role]}:${escapeName(name)}`).join(";");
+}
+
+/** encodeContributors の逆変換 */
+export function decodeContributors(value: string): Contributor[] {
+  const contributors: Contributor[] = [];
+  let current = "";
+  const flush = () => {
+    const colon = current.indexOf(":");
+    const role = roleFromCode(current.slice(0, colon)) ?? "author";
+    const name = current.slice(colon + 1);
+    if (name) contributors.push({ name, role });
+    current = "";
+  };
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    if (c === "\\" && i + 1 < value.length) {
+      current += value[++i];
+    } else if (c === ";") {
+      flush();
+    } else {
+      current += c;
+    }
+  }
+  if (current) flush();
+  return contributors;
+}
+
+/**
+ * 以前の形式（ハイフン区切り）の著者名を分ける。
+ * 「Jean-Paul」のように英字に挟まれたハイフンは名前の一部とみなす
+ */
+export function splitLegacyAuthors(authors: string): Contributor[] {
+  return authors
+    .split(/(?<![A-Za-zÀ-ɏ])-|-(?![A-Za-zÀ-ɏ])/)
+    .map((name) => name.trim())
+    .filter((name) => name)
+    .map((name) => ({ name, role: "author" as const }));
+}
+
+/**
+ * 書籍のプロパティから著者の一覧を読む。
+ * contributors プロパティがない書籍（以前の形式）はハイフン区切りの authors から推測する
+ */
+export function getContributors(properties: Record<string, string> | undefined): Contributor[] {
+  if (properties?.contributors) return decodeContributors(properties.contributors);
+  return splitLegacyAuthors(properties?.authors || "");
+}
@@ -0,0 +1,43 @@
+import { BookFileInspection } from "../types.ts";
+import { convertToKepub } from "./kepub.ts";
+import { convertEpubToMobi } from "./mobi_writer.ts";
+
+/** 書籍ファイルを別の形式に変換する。book は書籍の書誌情報と表紙 */
+export type BookConverter = (data: Uint8Array, book: BookFileInspection) => Promise<Uint8Array>;
+
+/** ダウンロード時に変換して配信できる形式 */
+export interface BookConversion {
+  /** `/books/:id/download?format=` に指定する識別子 */
+  key: string;
+  label: string;
+  mimeType: string;
+  /** 変換したファイルの拡張子（Kobo は `.kepub.epub` で KEPUB と判定する） */
+  extension: string;
+  /** 変換元にできる形式（formats.ts の key） */
+  from: string[];
+  convert: BookConverter;
+}
+
+export const BOOK_CONVERSIONS: BookConversion[] = [
+  {
+    key: "kepub",
+    label: "KEPUB（Kobo）",
+    mimeType: "application/kepub+zip",
+    extension: "kepub.epub",
+    from: ["epub"],
+    convert: (data) => convertToKepub(data),
+  },
+  {
+    // 書籍に MOBI の形式があれば変換せずにそれを配信する
+    key: "mobi",
+    label: "MOBI（Kindle）",
+    mimeType: "application/x-mobipocket-ebook",
+    extension: "mobi",
+    from: ["epub"],
+    convert: convertEpubToMobi,
+  },
+];
+
+export function findConversionByKey(key: string): BookConversion | null {
+  return BOOK_CONVERSIONS.find((c) => c.key === key) ?? null;
+}
@@ -0,0 +1,286 @@
+import { DriveFile, GoogleDriveService } from "../types.ts";
+import { BookService } from "./book.ts";
+import { DriveJsonFile, isRecord } from "./drive_json_file.ts";
+import { BOOK_CONVERSIONS } from "./conversion.ts";
+import { BOOK_FORMATS, findFormatForFile } from "./formats.ts";
+import {
+  estimateMessageSize,
+  isValidMailAddress,
+  MailTransport,
+  maxAttachmentSize,
+  smtpTransportFromEnv,
+} from "./mail.ts";
+
+/** MyLibrary 直下に置く送信先の一覧のファイル名 */
+export const DEVICE_FILE_NAME = "devices.json";
+/** MyLibrary 直下に置く送信履歴のファイル名 */
+export const DELIVERY_LOG_FILE_NAME = "deliveries.json";
+/**
+ * メール全体（Base64 にした添付ファイルを含む）の大きさの既定の上限。
+ * Gmail などの SMTP サーバーの上限に合わせる
+ */
+export const DEFAULT_MAIL_MAX_BYTES = 25 * 1024 * 1024;
+
+/** Send to Kindle のメールアドレス */
+const KINDLE_ADDRESS_PATTERN = /@(free\.)?kindle\.com$/i;
+/** Send to Kindle がメールで受け付けない形式 */
+const KINDLE_UNSUPPORTED_FORMATS = ["mobi", "azw3"];
+
+/** 送信履歴に残す件数 */
+const MAX_LOG_ENTRIES = 200;
+
+/** 送信先に指定できる形式（登録した形式と、ダウンロード時に変換できる形式） */
+export const DELIVERY_FORMATS: { key: string; label: string }[] = [
+  ...BOOK_FORMATS.map((f) => ({ key: f.key, label: f.label })),
+  ...BOOK_CONVERSIONS
+    .filter((c) => !BOOK_FORMATS.some((f) => f.key === c.key))
+    .map((c) => ({ key: c.key, label: c.label })),
+];
+
+/** 電子書籍リーダーのメールアドレス（Kindle の Send to Kindle、PocketBook の Send-to-PocketBook など） */
+export interface Device {
+  id: string;
+  /** 端末の持ち主。送信先は利用者ごとにまとめて表示する */
+  user: string;
+  name: string;
+  email: string;
+  /** 送信する形式（DELIVERY_FORMATS の key）。省略時は登録した形式のまま送る */
+  format?: string;
+}
+
+export interface DeliveryLogEntry {
+  time: string;
+  bookId: string;
+  title: string;
+  deviceId: string;
+  user: string;
+  device: string;
+  email: string;
+  fileName: string;
+  size: number;
+  status: "sent" | "failed";
+  error?: string;
+}
+
+export interface DeliveryOptions {
+  /** 未指定ならメールは送れず、送信先の管理だけができる */
+  transport?: MailTransport;
+  /** 送信元のメールアドレス（Kindle では承認済みのアドレスにする） */
+  from?: string;
+  /** メール全体（Base64 にした添付ファイルを含む）の大きさの上限（バイト） */
+  maxBytes?: number;
+}
+
+function isKindleAddress(email: string): boolean {
+  return KINDLE_ADDRESS_PATTERN.test(email);
+}
+
+function formatLabelOf(key: string): string {
+  return DELIVERY_FORMATS.find((f) => f.key === key)?.label ?? key;
+}
+
+/** Kindle に送れない形式なら、その理由のメッセージ */
+function kindleFormatError(email: string, key: string | undefined): string | null {
+  if (!key || !isKindleAddress(email) || !KINDLE_UNSUPPORTED_FORMATS.includes(key)) return null;
+  return `Kindle にはメールで ${formatLabelOf(key)} 形式を送れません（EPUB か PDF を指定してください）`;
+}
+
+/**
+ * 書籍ファイルを端末のメールアドレスに送るサービス。
+ * 送信先は MyLibrary/devices.json（`{ "devices": [...] }`）、送信履歴は MyLibrary/deliveries.json に
+ * 新しい順に保存する。どちらも Drive 上で直接編集できる。
+ */
+export class DeliveryService {
+  private devices: DriveJsonFile<Device[]>;
+  private log: DriveJsonFile<DeliveryLogEntry[]>;
+  /** 送信履歴の書き込みを1つずつ行う */
+  private logWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    driveService: GoogleDriveService,
+    private bookService: BookService,
+    private options: DeliveryOptions = {},
+  ) {
+    this.devices = new DriveJsonFile(
+      driveService,
+      DEVICE_FILE_NAME,
+      (data) => parseDevices(isRecord(data) ? data.devices : null),
+      (devices) => ({ devices }),
+    );
+    this.log = new DriveJsonFile(
+      driveService,
+      DELIVERY_LOG_FILE_NAME,
+      (data) => parseDeliveries(isRecord(data) ? data.deliveries : null),
+      (deliveries) => ({ deliveries }),
+    );
+  }
+
+  /** メールの送信が設定されているか */
+  get enabled(): boolean {
+    return !!this.options.transport && !!this.options.from;
+  }
+
+  get maxBytes(): number {
+    return this.options.maxBytes ?? DEFAULT_MAIL_MAX_BYTES;
+  }
+
+  /** 添付して maxBytes に収まるファイルのおよその大きさの上限 */
+  get maxFileBytes(): number {
+    return maxAttachmentSize(this.maxBytes);
+  }
+
+  /** 送信先を利用者・名前の順に返す（refresh で Drive から読み直す） */
+  async listDevices(options: { refresh?: boolean } = {}): Promise<Device[]> {
+    const devices = await this.devices.load(options.refresh);
+    return [...devices].sort((a, b) => a.user.localeCompare(b.user) || a.name.localeCompare(b.name));
+  }
+
+  async addDevice(input: Omit<Device, "id">): Promise<Device> {
+    const device: Device = {
+      id: crypto.randomUUID(),
+      user: input.user.trim(),
+      name: input.name.trim(),
+      email: input.email.trim(),
+    };
+    if (!device.user || !device.name) throw new Error("利用者と端末の名前を入力してください");
+    if (!isValidMailAddress(device.email)) throw new Error(`メールアドレスが正しくありません: ${device.email}`);
+    if (input.format) {
+      if (!DELIVERY_FORMATS.some((f) => f.key === input.format)) {
+        throw new Error(`対応していない形式です: ${input.format}`);
+      }
+      device.format = input.format;
+    }
+    const formatError = kindleFormatError(device.email, device.format);
+    if (formatError) throw new Error(formatError);
+
+    const devices = await this.devices.load();
+    await this.devices.save([...devices, device]);
+    return device;
+  }
+
+  async removeDevice(id: string): Promise<void> {
+    const devices = await this.devices.load();
+    const rest = devices.filter((d) => d.id !== id);
+    if (rest.length !== devices.length) await this.devices.save(rest);
+  }
+
+  /** 送信履歴を新しい順に返す */
+  async listDeliveries(options: { refresh?: boolean } = {}): Promise<DeliveryLogEntry[]> {
+    return [...await this.log.load(options.refresh)];
+  }
+
+  /**
+   * 書籍を端末に送る。端末に形式が指定されていればその形式のファイル（必要なら変換したもの）を送る。
+   * 大きさの上限を超える場合とメールの送信に失敗した場合も送信履歴に残してエラーにする
+   */
+  async sendBook(bookId: string, deviceId: string): Promise<DeliveryLogEntry> {
+    const { transport, from } = this.options;
+    if (!transport || !from) {
+      throw new Error("メールの送信が設定されていません（環境変数 SMTP_HOST・MAIL_FROM を設定してください）");
+    }
+    const device = (await this.devices.load()).find((d) => d.id === deviceId);
+    if (!device) throw new Error("送信先が見つかりません");
+
+    const book = await this.bookService.getBook(bookId);
+    const title = book.properties?.title || book.name;
+    let file: DriveFile | null = book;
+    if (device.format) {
+      file = await this.bookService.getFormatFile(bookId, device.format);
+      if (!file) throw new Error(`この書籍は ${formatLabelOf(device.format)} 形式で送信できません`);
+    }
+    // 形式を指定していない Kindle に MOBI で登録した書籍を送ろうとした場合
+    const formatError = kindleFormatError(device.email, findFormatForFile(file)?.key);
+    if (formatError) throw new Error(formatError);
+
+    const entry: DeliveryLogEntry = {
+      time: new Date().toISOString(),
+      bookId: book.id,
+      title,
+      deviceId: device.id,
+      user: device.user,
+      device: device.name,
+      email: device.email,
+      fileName: file.name,
+      size: Number(file.size ?? 0),
+      status: "sent",
+    };
+    try {
+      // ダウンロードする前に Drive のファイルの大きさで確かめる
+      this.checkSize(entry.size);
+      const { content } = await this.bookService.downloadBook(file.id);
+      entry.size = content.length;
+      this.checkSize(entry.size);
+      await transport.send({
+        from,
+        to: device.email,
+        subject: title,
+        text: `「${title}」を ${device.name} に送信します。\n`,
+        attachments: [{ filename: file.name, content, contentType: file.mimeType }],
+      });
+    } catch (e) {
+      entry.status = "failed";
+      entry.error = e instanceof Error ? e.message : String(e);
+      await this.record(entry);
+      throw e;
+    }
+    await this.record(entry);
+    return entry;
+  }
+
+  /** 添付したメール全体の大きさで上限と比べる（Base64 で約4/3倍になる） */
+  private checkSize(size: number): void {
+    const messageSize = estimateMessageSize(size);
+    if (messageSize > this.maxBytes) {
+      throw new Error(
+        `ファイルが大きすぎるためメールで送信できません（${formatMegabytes(size)}、添付すると約${
+          formatMegabytes(messageSize)
+        }。メールの上限は${formatMegabytes(this.maxBytes)}）`,
+      );
+    }
+  }
+
+  private record(entry: DeliveryLogEntry): Promise<void> {
+    this.logWrite = this.logWrite
+      .catch(() => {})
+      .then(async () => {
+        const entries = await this.log.load();
+        await this.log.save([entry, ...entries].slice(0, MAX_LOG_ENTRIES));
+      });
+    return this.logWrite;
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+/** 送信先の一覧を読む。手で編集して必要な項目が欠けたものは読み飛ばす */
+function parseDevices(data: unknown): Device[] {
+  if (!Array.isArray(data)) return [];
+  return data.filter(isRecord).flatMap((d) => {
+    if (typeof d.id !== "string" || typeof d.email !== "string") return [];
+    const device: Device = {
+      id: d.id,
+      user: typeof d.user === "string" ? d.user : "",
+      name: typeof d.name === "string" ? d.name : d.email,
+      email: d.email,
+    };
+    if (typeof d.format === "string" && d.format) device.format = d.format;
+    return [device];
+  });
+}
+
+function parseDeliveries(data: unknown): DeliveryLogEntry[] {
+  if (!Array.isArray(data)) return [];
+  return data.filter((e): e is DeliveryLogEntry => isRecord(e) && typeof e.time === "string");
+}
+
+/** 環境変数 SMTP_*・MAIL_FROM・MAIL_MAX_SIZE_MB からメール送信の設定を読む */
+export function deliveryOptionsFromEnv(): DeliveryOptions {
+  const maxSize = Deno.env.get("MAIL_MAX_SIZE_MB");
+  return {
+    transport: smtpTransportFromEnv() ?? undefined,
+    from: Deno.env.get("MAIL_FROM") || Deno.env.get("SMTP_USER") || undefined,
+    maxBytes: maxSize ? parseFloat(maxSize) * 1024 * 1024 : undefined,
+  };
+}
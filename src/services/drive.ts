@@ -1,10 +1,42 @@
 import { Readable } from "node:stream";
 import { Buffer } from "node:buffer";
-import { DriveFile, DriveFileList, GoogleDriveService } from "../types.ts";
+import {
+  ByteRange,
+  DriveChange,
+  DriveChangeList,
+  DriveFile,
+  DriveFileList,
+  GoogleDriveService,
+  UploadStreamOptions,
+} from "../types.ts";
+import {
+  DriveCallExecutor,
+  DriveCallOptions,
+  DriveResilienceOptions,
+} from "./drive_resilience.ts";
+import { ResumableUpload, ResumableUploadOptions } from "./resumable_upload.ts";
+import {
+  decodeContributors,
+  encodeContributors,
+  formatContributors,
+  getPrimaryAuthor,
+  parseContributors,
+} from "./contributors.ts";
 
 const MY_LIBRARY_FOLDER_NAME = "MyLibrary";
 const APP_TYPE_VALUE = "my_library_book";
 const PROPERTY_MAX_BYTES = 124;
+/** Drive の公開プロパティは1ファイル30個まで（分割したキーも1個と数える） */
+const MAX_FILE_PROPERTIES = 30;
+/** MyLibrary 配下のフォルダをたどるとき、1回のクエリで問い合わせる親フォルダの数 */
+const FOLDER_QUERY_BATCH = 40;
+/** 書籍ファイルの取得時に要求するフィールド */
+const FILE_FIELDS =
+  "id, name, mimeType, properties, parents, webContentLink, thumbnailLink, size, createdTime, modifiedTime, md5Checksum, description";
+
+/** googleapis のレスポンス（data の型は呼び出すAPIによる） */
+// deno-lint-ignore no-explicit-any
+type DriveResponse = { data: any };
 
 function truncateToBytes(str: string, maxBytes: number): string {
   const encoder = new TextEncoder();
@@ -34,6 +66,99 @@ export function sanitizeProperties(
   return result;
 }
 
+function byteLength(str: string): number {
+  return new TextEncoder().encode(str).length;
+}
+
+function chunkKey(key: string, index: number): string {
+  return `${key}_${index}`;
+}
+
+/**
+ * プロパティを Drive に保存できる形にする。
+ * キーと値で124バイトに収まらない値は `<key>_0`, `<key>_1`, ... に分割して保存し、
+ * 元のキーには検索用に先頭部分（収まるところまで）を残す。
+ * current（保存済みのプロパティ。分割したキーもそのまま）にある分割のうち使わなくなったものは
+ * null（削除）にする。保存後のプロパティが Drive の上限の30個を超える場合は、値を切り詰めずにエラーにする。
+ * contributors があれば authors は同じ名前の繰り返しになるので保存せず、読み込み時に contributors から作る
+ */
+export function encodeProperties(
+  properties: Record<string, string>,
+  current: Record<string, string> = {},
+): Record<string, string | null> {
+  const result: Record<string, string | null> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (key === "authors" && properties.contributors) {
+      result[key] = null;
+      continue;
+    }
+    result[key] = searchablePropertyValue(key, value);
+    if (byteLength(key) + byteLength(value) <= PROPERTY_MAX_BYTES) continue;
+    let rest = value;
+    for (let i = 0; rest; i++) {
+      const chunk = truncateToBytes(rest, PROPERTY_MAX_BYTES - byteLength(chunkKey(key, i)));
+      if (!chunk) break;
+      result[chunkKey(key, i)] = chunk;
+      rest = rest.slice(chunk.length);
+    }
+  }
+  for (const key of Object.keys(current)) {
+    const match = key.match(/^(.+)_\d+$/);
+    if (match && properties[match[1]] !== undefined && !(key in result)) result[key] = null;
+  }
+
+  const stored = new Set(Object.keys(current));
+  for (const [key, value] of Object.entries(result)) {
+    if (value === null) stored.delete(key);
+    else stored.add(key);
+  }
+  if (stored.size > MAX_FILE_PROPERTIES) {
+    throw new Error(
+      `書誌情報が長すぎるため Drive に保存できません（プロパティ ${stored.size} 個、上限 ${MAX_FILE_PROPERTIES} 個）。` +
+        "タイトル・著者名・出版社などを短くしてください",
+    );
+  }
+  return result;
+}
+
+/** encodeProperties で分割して保存した値をつなぎ直す（authors は contributors から作り直す） */
+export function decodeProperties(
+  properties: Record<string, string> | undefined,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties || {})) {
+    const match = key.match(/^(.+)_\d+$/);
+    if (match && properties![match[1]] !== undefined) continue;
+    const chunks: string[] = [];
+    for (let i = 0; properties![chunkKey(key, i)] !== undefined; i++) {
+      chunks.push(properties![chunkKey(key, i)]);
+    }
+    result[key] = chunks.length > 0 ? chunks.join("") : value;
+  }
+  if (result.contributors) result.authors = formatContributors(decodeContributors(result.contributors));
+  return result;
+}
+
+/** 検索条件に使う、元のキーに保存される値（長い値は先頭部分） */
+export function searchablePropertyValue(key: string, value: string): string {
+  return truncateToBytes(value, Math.max(0, PROPERTY_MAX_BYTES - byteLength(key)));
+}
+
+/**
+ * 分割保存に対応する前に124バイトで切り詰められた可能性がある値か。
+ * マルチバイト文字の途中で切らないよう最大3バイト手前で切っているため、上限の3バイト手前から上限までを対象にする。
+ */
+export function isPossiblyTruncated(key: string, value: string): boolean {
+  const bytes = byteLength(key) + byteLength(value);
+  return bytes >= PROPERTY_MAX_BYTES - 3 && bytes <= PROPERTY_MAX_BYTES;
+}
+
+/** API のレスポンスのファイルの、分割保存されたプロパティを元に戻す */
+// deno-lint-ignore no-explicit-any
+function toDriveFile(data: any): DriveFile {
+  return { ...data, properties: decodeProperties(data.properties) };
+}
+
 export function formatFileName(
   authors: string,
   title: string,
@@ -42,45 +167,80 @@ export function formatFileName(
   return `[${authors}] ${title}.${extension}`;
 }
 
+/** Drive の検索クエリの文字列リテラルに埋め込めるようにエスケープする */
+function escapeQueryValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+}
+
 export function getFirstAuthor(authors: string): string {
-  // Authors are separated by hyphens
-  const parts = authors.split("-");
-  return parts[0].trim();
+  return getPrimaryAuthor(parseContributors(authors));
 }
 
-export function getExtension(mimeType: string): string {
-  if (mimeType === "application/epub+zip") return "epub";
-  if (mimeType === "application/pdf") return "pdf";
-  const parts = mimeType.split("/");
-  return parts[parts.length - 1];
+interface AccessTokenProvider {
+  getAccessToken(): Promise<{ token?: string | null }>;
+}
+
+export interface RealGoogleDriveServiceOptions extends DriveResilienceOptions {
+  /** 再開可能なアップロードで使う認証クライアント。省略時は Drive クライアントに設定されたものを使う */
+  auth?: AccessTokenProvider;
+  /** 再開可能なアップロードの設定（チャンクサイズなど） */
+  upload?: Omit<ResumableUploadOptions, "accessToken" | "onProgress">;
 }
 
 export class RealGoogleDriveService implements GoogleDriveService {
   // deno-lint-ignore no-explicit-any
   private drive: any;
+  private executor: DriveCallExecutor;
+  private auth?: AccessTokenProvider;
+  private uploadOptions: Omit<ResumableUploadOptions, "accessToken" | "onProgress">;
 
   // deno-lint-ignore no-explicit-any
-  constructor(driveClient: any) {
+  constructor(driveClient: any, options: RealGoogleDriveServiceOptions = {}) {
     this.drive = driveClient;
+    this.executor = new DriveCallExecutor(options);
+    this.auth = options.auth ?? driveClient?.context?._options?.auth;
+    this.uploadOptions = options.upload ?? {};
+  }
+
+  /**
+   * Drive API を同時実行数の制限・タイムアウト・再試行付きで呼び出す。
+   * 再試行時はリクエストを作り直すため、アップロードのストリームも operation 内で作る。
+   */
+  private call(
+    operation: (options: DriveCallOptions) => Promise<DriveResponse>,
+    timeoutMs?: number,
+  ): Promise<DriveResponse> {
+    return this.executor.run(operation, timeoutMs);
+  }
+
+  /**
+   * files.create を呼び出す。同じリクエストを繰り返すとファイルが重複するため、
+   * タイムアウトや 5xx のように Drive 側で作成済みかもしれないエラーでは再試行しない。
+   */
+  private create(
+    operation: (options: DriveCallOptions) => Promise<DriveResponse>,
+    timeoutMs?: number,
+  ): Promise<DriveResponse> {
+    return this.executor.run(operation, timeoutMs, { idempotent: false });
   }
 
   async ensureMyLibraryFolder(): Promise<string> {
-    const res = await this.drive.files.list({
+    const res = await this.call((options) => this.drive.files.list({
       q: `name='${MY_LIBRARY_FOLDER_NAME}' and mimeType='application/vnd.google-apps.folder' and trashed=false`,
       fields: "files(id, name)",
-    });
+    }, options));
 
     if (res.data.files && res.data.files.length > 0) {
       return res.data.files[0].id;
     }
 
-    const folder = await this.drive.files.create({
+    const folder = await this.create((options) => this.drive.files.create({
       requestBody: {
         name: MY_LIBRARY_FOLDER_NAME,
         mimeType: "application/vnd.google-apps.folder",
       },
       fields: "id",
-    });
+    }, options));
 
     return folder.data.id;
   }
@@ -89,23 +249,23 @@ export class RealGoogleDriveService implements GoogleDriveService {
     myLibraryFolderId: string,
     authorName: string,
   ): Promise<string> {
-    const res = await this.drive.files.list({
-      q: `name='${authorName}' and '${myLibraryFolderId}' in parents and mimeType='application/vnd.google-apps.folder' and trashed=false`,
+    const res = await this.call((options) => this.drive.files.list({
+      q: `name='${escapeQueryValue(authorName)}' and '${myLibraryFolderId}' in parents and mimeType='application/vnd.google-apps.folder' and trashed=false`,
       fields: "files(id, name)",
-    });
+    }, options));
 
     if (res.data.files && res.data.files.length > 0) {
       return res.data.files[0].id;
     }
 
-    const folder = await this.drive.files.create({
+    const folder = await this.create((options) => this.drive.files.create({
       requestBody: {
         name: authorName,
         mimeType: "application/vnd.google-apps.folder",
         parents: [myLibraryFolderId],
       },
       fields: "id",
-    });
+    }, options));
 
     return folder.data.id;
   }
@@ -117,20 +277,52 @@ export class RealGoogleDriveService implements GoogleDriveService {
     mimeType: string,
     properties: Record<string, string>,
   ): Promise<DriveFile> {
-    const res = await this.drive.files.create({
+    const res = await this.create((options) => this.drive.files.create({
       requestBody: {
         name: fileName,
         parents: [folderId],
-        properties: sanitizeProperties(properties),
+        properties: encodeProperties(properties),
       },
       media: {
         mimeType,
         body: Readable.from(Buffer.from(content)),
       },
-      fields: "id, name, mimeType, properties, parents, webContentLink, size",
+      fields: FILE_FIELDS,
+    }, options), this.executor.transferTimeoutMs);
+
+    return toDriveFile(res.data);
+  }
+
+  async uploadFileStream(
+    folderId: string,
+    fileName: string,
+    content: ReadableStream<Uint8Array>,
+    mimeType: string,
+    properties: Record<string, string>,
+    options: UploadStreamOptions = {},
+  ): Promise<DriveFile> {
+    const upload = new ResumableUpload({
+      ...this.uploadOptions,
+      accessToken: () => this.getAccessToken(),
+      withSlot: (task) => this.executor.withSlot(task),
+      onProgress: (uploaded) => options.onProgress?.(uploaded, options.size),
     });
+    return toDriveFile(await upload.upload({
+      metadata: {
+        name: fileName,
+        parents: [folderId],
+        properties: encodeProperties(properties),
+      },
+      mimeType,
+      content,
+      fields: FILE_FIELDS,
+    }));
+  }
 
-    return res.data;
+  private async getAccessToken(): Promise<string> {
+    const token = this.auth ? (await this.auth.getAccessToken()).token : null;
+    if (!token) throw new Error("Google Drive の認証が必要です");
+    return token;
   }
 
   async uploadCoverImage(
@@ -139,7 +331,7 @@ export class RealGoogleDriveService implements GoogleDriveService {
     imageData: Uint8Array,
     mimeType: string,
   ): Promise<DriveFile> {
-    const res = await this.drive.files.create({
+    const res = await this.create((options) => this.drive.files.create({
       requestBody: {
         name: fileName,
         parents: [folderId],
@@ -149,33 +341,59 @@ export class RealGoogleDriveService implements GoogleDriveService {
         body: Readable.from(Buffer.from(imageData)),
       },
       fields: "id, name, mimeType, parents, webContentLink",
-    });
+    }, options), this.executor.transferTimeoutMs);
 
-    return res.data;
+    return toDriveFile(res.data);
   }
 
   async updateFileProperties(
     fileId: string,
     properties: Record<string, string>,
   ): Promise<DriveFile> {
-    const res = await this.drive.files.update({
+    // 使わなくなった分割キーを削除し、上限を数えるため、保存済みのプロパティを読んでおく
+    const current = await this.call((options) => this.drive.files.get({
+      fileId,
+      fields: "properties",
+    }, options));
+    const res = await this.call((options) => this.drive.files.update({
       fileId,
       requestBody: {
-        properties: sanitizeProperties(properties),
+        properties: encodeProperties(properties, current.data.properties || {}),
       },
-      fields: "id, name, mimeType, properties, parents, webContentLink, size",
-    });
+      fields: FILE_FIELDS,
+    }, options));
 
-    return res.data;
+    return toDriveFile(res.data);
+  }
+
+  async updateFileDescription(fileId: string, description: string): Promise<DriveFile> {
+    const res = await this.call((options) => this.drive.files.update({
+      fileId,
+      requestBody: { description },
+      fields: FILE_FIELDS,
+    }, options));
+    return toDriveFile(res.data);
+  }
+
+  async updateFileContent(fileId: string, content: Uint8Array, mimeType: string): Promise<DriveFile> {
+    const res = await this.call((options) => this.drive.files.update({
+      fileId,
+      media: {
+        mimeType,
+        body: Readable.from(Buffer.from(content)),
+      },
+      fields: FILE_FIELDS,
+    }, options), this.executor.transferTimeoutMs);
+    return toDriveFile(res.data);
   }
 
   async renameFile(fileId: string, newName: string): Promise<DriveFile> {
-    const res = await this.drive.files.update({
+    const res = await this.call((options) => this.drive.files.update({
       fileId,
       requestBody: { name: newName },
-      fields: "id, name, mimeType, properties, parents, webContentLink, size",
-    });
-    return res.data;
+      fields: FILE_FIELDS,
+    }, options));
+    return toDriveFile(res.data);
   }
 
   async moveFile(
@@ -183,29 +401,46 @@ export class RealGoogleDriveService implements GoogleDriveService {
     newFolderId: string,
     oldFolderId: string,
   ): Promise<DriveFile> {
-    const res = await this.drive.files.update({
+    const res = await this.call((options) => this.drive.files.update({
       fileId,
       addParents: newFolderId,
       removeParents: oldFolderId,
-      fields: "id, name, mimeType, properties, parents, webContentLink, size",
-    });
-    return res.data;
+      fields: FILE_FIELDS,
+    }, options));
+    return toDriveFile(res.data);
   }
 
   /**
-   * MyLibrary配下の有効なフォルダIDセットを返す（MyLibrary自身＋著者フォルダ）
+   * MyLibrary配下の有効なフォルダIDセットを返す（MyLibrary自身＋配下のすべてのフォルダ）。
+   * フォルダ構成のテンプレート（{author}/{series} など）で階層が深くなるので、サブツリーをたどる
    */
   private async getMyLibraryFolderIds(): Promise<Set<string>> {
     const myLibraryId = await this.ensureMyLibraryFolder();
     const ids = new Set<string>([myLibraryId]);
 
-    const res = await this.drive.files.list({
-      q: `'${myLibraryId}' in parents and mimeType='application/vnd.google-apps.folder' and trashed=false`,
-      fields: "files(id)",
-    });
-
-    for (const folder of (res.data.files || [])) {
-      ids.add(folder.id);
+    let level = [myLibraryId];
+    while (level.length > 0) {
+      const next: string[] = [];
+      // クエリが長くなりすぎないよう、親フォルダをまとめて問い合わせる数を抑える
+      for (let i = 0; i < level.length; i += FOLDER_QUERY_BATCH) {
+        const parents = level.slice(i, i + FOLDER_QUERY_BATCH).map((id) => `'${id}' in parents`).join(" or ");
+        let pageToken: string | undefined;
+        do {
+          const res = await this.call((options) => this.drive.files.list({
+            q: `(${parents}) and mimeType='application/vnd.google-apps.folder' and trashed=false`,
+            fields: "nextPageToken, files(id)",
+            pageSize: 1000,
+            pageToken,
+          }, options));
+          for (const folder of (res.data.files || [])) {
+            if (ids.has(folder.id)) continue;
+            ids.add(folder.id);
+            next.push(folder.id);
+          }
+          pageToken = res.data.nextPageToken || undefined;
+        } while (pageToken);
+      }
+      level = next;
     }
     return ids;
   }
@@ -229,18 +464,17 @@ export class RealGoogleDriveService implements GoogleDriveService {
     pageSize: number = 20,
   ): Promise<DriveFileList> {
     const validFolderIds = await this.getMyLibraryFolderIds();
-    const res = await this.drive.files.list({
+    const res = await this.call((options) => this.drive.files.list({
       q: `properties has { key='app_type' and value='${APP_TYPE_VALUE}' } and trashed=false`,
-      fields:
-        "nextPageToken, files(id, name, mimeType, properties, parents, webContentLink, thumbnailLink, size)",
+      fields: `nextPageToken, files(${FILE_FIELDS})`,
       pageSize,
       pageToken,
       spaces: "drive",
       orderBy: "name",
-    });
+    }, options));
 
     return {
-      files: this.filterByMyLibrary(res.data.files || [], validFolderIds),
+      files: this.filterByMyLibrary((res.data.files || []).map(toDriveFile), validFolderIds),
       nextPageToken: res.data.nextPageToken,
     };
   }
@@ -250,68 +484,137 @@ export class RealGoogleDriveService implements GoogleDriveService {
     pageToken?: string,
   ): Promise<DriveFileList> {
     const validFolderIds = await this.getMyLibraryFolderIds();
-    const escapedQuery = query.replace(/'/g, "\\'");
-    const res = await this.drive.files.list({
-      q: `properties has { key='app_type' and value='${APP_TYPE_VALUE}' } and (name contains '${escapedQuery}' or properties has { key='title' and value='${escapedQuery}' } or properties has { key='authors' and value='${escapedQuery}' }) and trashed=false`,
-      fields:
-        "nextPageToken, files(id, name, mimeType, properties, parents, webContentLink, thumbnailLink, size)",
+    const escape = (value: string) => value.replace(/'/g, "\\'");
+    // 長いタイトル・著者名は元のキーに先頭部分だけが入っている
+    const title = escape(searchablePropertyValue("title", query));
+    const authors = escape(searchablePropertyValue("authors", query));
+    // authors を保存していない書籍は、著者1人の contributors と一致するものを探す
+    const contributors = escape(
+      searchablePropertyValue("contributors", encodeContributors([{ name: query, role: "author" }])),
+    );
+    const res = await this.call((options) => this.drive.files.list({
+      q: `properties has { key='app_type' and value='${APP_TYPE_VALUE}' } and (name contains '${escape(query)}' or properties has { key='title' and value='${title}' } or properties has { key='authors' and value='${authors}' } or properties has { key='contributors' and value='${contributors}' }) and trashed=false`,
+      fields: `nextPageToken, files(${FILE_FIELDS})`,
       pageToken,
       spaces: "drive",
-    });
+    }, options));
 
     return {
-      files: this.filterByMyLibrary(res.data.files || [], validFolderIds),
+      files: this.filterByMyLibrary((res.data.files || []).map(toDriveFile), validFolderIds),
       nextPageToken: res.data.nextPageToken,
     };
   }
 
   async getFile(fileId: string): Promise<DriveFile> {
-    const res = await this.drive.files.get({
+    const res = await this.call((options) => this.drive.files.get({
       fileId,
-      fields:
-        "id, name, mimeType, properties, parents, webContentLink, thumbnailLink, size",
-    });
-    return res.data;
+      fields: FILE_FIELDS,
+    }, options));
+    return toDriveFile(res.data);
   }
 
   async getFileContent(fileId: string): Promise<Uint8Array> {
-    const res = await this.drive.files.get({
+    const res = await this.call((options) => this.drive.files.get({
       fileId,
       alt: "media",
-    }, { responseType: "arraybuffer" });
+    }, { responseType: "arraybuffer", ...options }), this.executor.transferTimeoutMs);
     return new Uint8Array(res.data);
   }
 
   async getFileStream(fileId: string): Promise<ReadableStream> {
-    const res = await this.drive.files.get(
-      { fileId, alt: "media" },
-      { responseType: "stream" },
+    const res = await this.call(
+      (options) => this.drive.files.get({ fileId, alt: "media" }, { responseType: "stream", ...options }),
+      this.executor.transferTimeoutMs,
+    );
+    return ReadableStream.from(res.data as Readable);
+  }
+
+  async getFileRangeStream(fileId: string, range: ByteRange): Promise<ReadableStream> {
+    const res = await this.call(
+      (options) =>
+        this.drive.files.get({ fileId, alt: "media" }, {
+          responseType: "stream",
+          headers: { Range: `bytes=${range.start}-${range.end}` },
+          ...options,
+        }),
+      this.executor.transferTimeoutMs,
     );
     return ReadableStream.from(res.data as Readable);
   }
 
   async deleteFile(fileId: string): Promise<void> {
-    await this.drive.files.delete({ fileId });
+    await this.call((options) => this.drive.files.delete({ fileId }, options));
   }
 
   async findBookByIsbn(isbn: string): Promise<DriveFile | null> {
-    const res = await this.drive.files.list({
+    const res = await this.call((options) => this.drive.files.list({
       q: `properties has { key='app_type' and value='${APP_TYPE_VALUE}' } and properties has { key='isbn' and value='${isbn}' } and trashed=false`,
-      fields:
-        "files(id, name, mimeType, properties, parents, webContentLink, size)",
-    });
+      fields: `files(${FILE_FIELDS})`,
+    }, options));
 
     if (res.data.files && res.data.files.length > 0) {
-      return res.data.files[0];
+      return toDriveFile(res.data.files[0]);
     }
     return null;
   }
 
+  async findBooksBySeries(series: string): Promise<DriveFile[]> {
+    const escapedSeries = searchablePropertyValue("series", series).replace(/'/g, "\\'");
+    const files: DriveFile[] = [];
+    let pageToken: string | undefined;
+    do {
+      const res = await this.call((options) => this.drive.files.list({
+        q: `properties has { key='app_type' and value='${APP_TYPE_VALUE}' } and properties has { key='series' and value='${escapedSeries}' } and trashed=false`,
+        fields: `nextPageToken, files(${FILE_FIELDS})`,
+        pageSize: 100,
+        pageToken,
+      }, options));
+      files.push(...(res.data.files || []).map(toDriveFile));
+      pageToken = res.data.nextPageToken;
+    } while (pageToken);
+    // 先頭部分で検索しているため、長いシリーズ名は全体が一致するものに絞る
+    return files.filter((file) => file.properties.series === series);
+  }
+
   async findFilesByParent(folderId: string): Promise<DriveFile[]> {
-    const res = await this.drive.files.list({
+    const res = await this.call((options) => this.drive.files.list({
       q: `'${folderId}' in parents and trashed=false`,
       fields: "files(id, name, mimeType, properties, parents)",
+    }, options));
+    return (res.data.files || []).map(toDriveFile);
+  }
+
+  async getStartPageToken(): Promise<string> {
+    const res = await this.call((options) => this.drive.changes.getStartPageToken({}, options));
+    return res.data.startPageToken;
+  }
+
+  async listChanges(pageToken: string): Promise<DriveChangeList> {
+    const res = await this.call((options) => this.drive.changes.list({
+      pageToken,
+      pageSize: 100,
+      spaces: "drive",
+      includeRemoved: true,
+      fields:
+        `nextPageToken, newStartPageToken, changes(fileId, removed, time, file(${FILE_FIELDS}, trashed))`,
+    }, options));
+
+    // deno-lint-ignore no-explicit-any
+    const changes: DriveChange[] = (res.data.changes || []).map((change: any) => {
+      const { trashed, ...file } = change.file || {};
+      const removed = !!change.removed || !!trashed;
+      return {
+        fileId: change.fileId,
+        removed,
+        file: removed || !change.file ? undefined : toDriveFile(file),
+        time: change.time,
+      };
     });
-    return res.data.files || [];
+
+    return {
+      changes,
+      nextPageToken: res.data.nextPageToken,
+      newStartPageToken: res.data.newStartPageToken,
+    };
   }
 }
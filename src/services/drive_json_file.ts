@@ -0,0 +1,57 @@
+import { GoogleDriveService } from "../types.ts";
+
+const JSON_MIME_TYPE = "application/json";
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * MyLibrary 直下に置く設定・記録用の JSON ファイル。
+ * 2回目以降はメモリに読み込んだものを使う（refresh で Drive から読み直す）
+ */
+export class DriveJsonFile<T> {
+  private value: T | null = null;
+  private fileId: string | null = null;
+
+  /**
+   * @param parse ファイルの内容（ファイルがなければ null）を値にする。手で編集されて壊れた項目は読み飛ばす
+   * @param toJson 値をファイルに保存する形にする
+   */
+  constructor(
+    private driveService: GoogleDriveService,
+    private name: string,
+    private parse: (data: unknown) => T,
+    private toJson: (value: T) => unknown,
+  ) {}
+
+  async load(refresh = false): Promise<T> {
+    if (this.value && !refresh) return this.value;
+
+    const myLibraryId = await this.driveService.ensureMyLibraryFolder();
+    const file = (await this.driveService.findFilesByParent(myLibraryId)).find((f) => f.name === this.name);
+    this.fileId = file?.id ?? null;
+    let data: unknown = null;
+    if (file) {
+      try {
+        data = JSON.parse(new TextDecoder().decode(await this.driveService.getFileContent(file.id)));
+      } catch {
+        throw new Error(`${this.name} を読み込めません（JSONの形式が正しくありません）`);
+      }
+    }
+    this.value = this.parse(data);
+    return this.value;
+  }
+
+  async save(value: T): Promise<void> {
+    const content = new TextEncoder().encode(JSON.stringify(this.toJson(value), null, 2) + "\n");
+    if (this.fileId) {
+      await this.driveService.updateFileContent(this.fileId, content, JSON_MIME_TYPE);
+    } else {
+      const myLibraryId = await this.driveService.ensureMyLibraryFolder();
+      const file = await this.driveService.uploadFile(myLibraryId, this.name, content, JSON_MIME_TYPE, {});
+      this.fileId = file.id;
+    }
+    this.value = value;
+  }
+}
@@ -1,12 +1,26 @@
-import { DriveFile, DriveFileList, GoogleDriveService } from "../types.ts";
-import { sanitizeProperties } from "./drive.ts";
+import {
+  ByteRange,
+  DriveChange,
+  DriveChangeList,
+  DriveFile,
+  DriveFileList,
+  GoogleDriveService,
+  UploadStreamOptions,
+} from "../types.ts";
+import { decodeProperties, encodeProperties } from "./drive.ts";
 
 const APP_TYPE_VALUE = "my_library_book";
+const CHANGES_PAGE_SIZE = 100;
 
 interface StoredFile extends DriveFile {
   content?: Uint8Array;
 }
 
+interface JournalEntry {
+  fileId: string;
+  time: string;
+}
+
 function toDriveFile(file: StoredFile): DriveFile {
   const { content: _content, ...driveFile } = file;
   void _content;
@@ -14,33 +28,118 @@ function toDriveFile(file: StoredFile): DriveFile {
     id: driveFile.id,
     name: driveFile.name,
     mimeType: driveFile.mimeType,
-    properties: { ...driveFile.properties },
+    properties: decodeProperties(driveFile.properties),
     parents: [...driveFile.parents],
     webContentLink: driveFile.webContentLink,
     thumbnailLink: driveFile.thumbnailLink,
     size: driveFile.size,
+    createdTime: driveFile.createdTime,
+    modifiedTime: driveFile.modifiedTime,
+    md5Checksum: driveFile.md5Checksum,
+    description: driveFile.description,
   };
 }
 
+/** Drive と同じく、保存形式に変換したプロパティを既存のものに上書きし、null のものは削除する */
+function applyProperties(
+  current: Record<string, string>,
+  properties: Record<string, string>,
+): Record<string, string> {
+  const result = { ...current };
+  for (const [key, value] of Object.entries(encodeProperties(properties, current))) {
+    if (value === null) delete result[key];
+    else result[key] = value;
+  }
+  return result;
+}
+
+/** モックでは md5Checksum の代わりに内容から計算した簡易ハッシュ（FNV-1a）を使う */
+function checksum(content: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (const byte of content) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, "0")}${content.length.toString(16)}`;
+}
+
+/**
+ * Drive API（gaxios）のHTTPエラーと同じ形のエラーを作る
+ */
+export function createDriveApiError(
+  status: number,
+  options: { reason?: string; retryAfter?: string } = {},
+): Error {
+  const headers: Record<string, string> = {};
+  if (options.retryAfter !== undefined) headers["retry-after"] = options.retryAfter;
+  const errors = options.reason ? [{ reason: options.reason, message: options.reason }] : [];
+  return Object.assign(new Error(`Drive API error ${status}`), {
+    status,
+    errors,
+    response: { status, headers, data: { error: { code: status, errors } } },
+  });
+}
+
 export class MockGoogleDriveService implements GoogleDriveService {
   files: Map<string, StoredFile> = new Map();
   private nextId = 1;
+  private lastTimestamp = 0;
   private myLibraryFolderId = "";
+  /** Changes API を模した変更ジャーナル。ページトークンはこの配列の添字 */
+  private changeJournal: JournalEntry[] = [];
   shouldFail = false;
+  private scriptedFailures = new Map<string, Error[]>();
+  /** 呼び出された Drive API のメソッド名（呼び出した順。テストで Drive へのアクセスを数えるのに使う） */
+  calls: (keyof GoogleDriveService)[] = [];
 
   private generateId(): string {
     return `file_${this.nextId++}`;
   }
 
+  /** 同一ミリ秒内の操作でも順序が分かるよう、単調増加する時刻を返す */
+  private now(): string {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return new Date(this.lastTimestamp).toISOString();
+  }
+
+  private recordChange(fileId: string): void {
+    const time = this.now();
+    const file = this.files.get(fileId);
+    if (file) file.modifiedTime = time;
+    this.changeJournal.push({ fileId, time });
+  }
+
   reset(): void {
     this.files.clear();
     this.nextId = 1;
+    this.lastTimestamp = 0;
     this.myLibraryFolderId = "";
+    this.changeJournal = [];
     this.shouldFail = false;
+    this.scriptedFailures.clear();
+    this.calls = [];
   }
 
-  async ensureMyLibraryFolder(): Promise<string> {
+  /**
+   * 指定したメソッドの次の呼び出しから順に errors を投げさせる（"*" はすべてのメソッドが対象）。
+   * 一時的な障害からの回復を再現するのに使う。
+   */
+  failNext(method: keyof GoogleDriveService | "*", ...errors: Error[]): void {
+    const queue = this.scriptedFailures.get(method) || [];
+    queue.push(...errors);
+    this.scriptedFailures.set(method, queue);
+  }
+
+  private checkFailure(method: keyof GoogleDriveService): void {
+    this.calls.push(method);
     if (this.shouldFail) throw new Error("Drive API error");
+    const error = this.scriptedFailures.get(method)?.shift() ||
+      this.scriptedFailures.get("*")?.shift();
+    if (error) throw error;
+  }
+
+  async ensureMyLibraryFolder(): Promise<string> {
+    this.checkFailure("ensureMyLibraryFolder");
     await Promise.resolve();
 
     if (this.myLibraryFolderId) {
@@ -65,15 +164,35 @@ export class MockGoogleDriveService implements GoogleDriveService {
       properties: {},
       parents: [],
     });
+    this.recordChange(id);
     this.myLibraryFolderId = id;
     return id;
   }
 
+  /** 実際の Drive と同じく、MyLibrary 配下（深い階層のフォルダを含む）のファイルかを親をたどって調べる */
+  private isInMyLibrary(file: StoredFile): boolean {
+    const myLibraryId = this.myLibraryFolderId ||
+      [...this.files.values()].find((f) =>
+        f.name === "MyLibrary" && f.mimeType === "application/vnd.google-apps.folder"
+      )?.id;
+    if (!myLibraryId) return false;
+    const visited = new Set<string>();
+    const pending = [...file.parents];
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      if (id === myLibraryId) return true;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      pending.push(...this.files.get(id)?.parents || []);
+    }
+    return false;
+  }
+
   async ensureAuthorFolder(
     myLibraryFolderId: string,
     authorName: string,
   ): Promise<string> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("ensureAuthorFolder");
     await Promise.resolve();
 
     for (const file of this.files.values()) {
@@ -94,6 +213,7 @@ export class MockGoogleDriveService implements GoogleDriveService {
       properties: {},
       parents: [myLibraryFolderId],
     });
+    this.recordChange(id);
     return id;
   }
 
@@ -104,21 +224,60 @@ export class MockGoogleDriveService implements GoogleDriveService {
     mimeType: string,
     properties: Record<string, string>,
   ): Promise<DriveFile> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("uploadFile");
     await Promise.resolve();
+    return this.storeFile(folderId, fileName, content, mimeType, properties);
+  }
 
+  async uploadFileStream(
+    folderId: string,
+    fileName: string,
+    content: ReadableStream<Uint8Array>,
+    mimeType: string,
+    properties: Record<string, string>,
+    options: UploadStreamOptions = {},
+  ): Promise<DriveFile> {
+    this.checkFailure("uploadFileStream");
+
+    const chunks: Uint8Array[] = [];
+    let uploaded = 0;
+    for await (const chunk of content) {
+      chunks.push(chunk);
+      uploaded += chunk.length;
+      options.onProgress?.(uploaded, options.size);
+    }
+
+    const data = new Uint8Array(uploaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return this.storeFile(folderId, fileName, data, mimeType, properties);
+  }
+
+  private storeFile(
+    folderId: string,
+    fileName: string,
+    content: Uint8Array,
+    mimeType: string,
+    properties: Record<string, string>,
+  ): DriveFile {
     const id = this.generateId();
     const file: StoredFile = {
       id,
       name: fileName,
       mimeType,
-      properties: sanitizeProperties(properties),
+      properties: applyProperties({}, properties),
       parents: [folderId],
       webContentLink: `https://drive.google.com/uc?id=${id}&export=download`,
       size: String(content.length),
+      createdTime: this.now(),
+      md5Checksum: checksum(content),
       content,
     };
     this.files.set(id, file);
+    this.recordChange(id);
     return toDriveFile(file);
   }
 
@@ -128,7 +287,7 @@ export class MockGoogleDriveService implements GoogleDriveService {
     imageData: Uint8Array,
     mimeType: string,
   ): Promise<DriveFile> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("uploadCoverImage");
     await Promise.resolve();
 
     const id = this.generateId();
@@ -139,9 +298,12 @@ export class MockGoogleDriveService implements GoogleDriveService {
       properties: {},
       parents: [folderId],
       webContentLink: `https://drive.google.com/uc?id=${id}&export=download`,
+      createdTime: this.now(),
+      md5Checksum: checksum(imageData),
       content: imageData,
     };
     this.files.set(id, file);
+    this.recordChange(id);
     return toDriveFile(file);
   }
 
@@ -149,27 +311,53 @@ export class MockGoogleDriveService implements GoogleDriveService {
     fileId: string,
     properties: Record<string, string>,
   ): Promise<DriveFile> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("updateFileProperties");
     await Promise.resolve();
 
     const file = this.files.get(fileId);
     if (!file) throw new Error(`File not found: ${fileId}`);
 
-    file.properties = {
-      ...file.properties,
-      ...sanitizeProperties(properties),
-    };
+    file.properties = applyProperties(file.properties, properties);
+    this.recordChange(fileId);
+    return toDriveFile(file);
+  }
+
+  async updateFileDescription(fileId: string, description: string): Promise<DriveFile> {
+    this.checkFailure("updateFileDescription");
+    await Promise.resolve();
+
+    const file = this.files.get(fileId);
+    if (!file) throw new Error(`File not found: ${fileId}`);
+
+    file.description = description;
+    this.recordChange(fileId);
+    return toDriveFile(file);
+  }
+
+  async updateFileContent(fileId: string, content: Uint8Array, mimeType: string): Promise<DriveFile> {
+    this.checkFailure("updateFileContent");
+    await Promise.resolve();
+
+    const file = this.files.get(fileId);
+    if (!file) throw new Error(`File not found: ${fileId}`);
+
+    file.content = content;
+    file.mimeType = mimeType;
+    file.size = String(content.length);
+    file.md5Checksum = checksum(content);
+    this.recordChange(fileId);
     return toDriveFile(file);
   }
 
   async renameFile(fileId: string, newName: string): Promise<DriveFile> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("renameFile");
     await Promise.resolve();
 
     const file = this.files.get(fileId);
     if (!file) throw new Error(`File not found: ${fileId}`);
 
     file.name = newName;
+    this.recordChange(fileId);
     return toDriveFile(file);
   }
 
@@ -178,7 +366,7 @@ export class MockGoogleDriveService implements GoogleDriveService {
     newFolderId: string,
     oldFolderId: string,
   ): Promise<DriveFile> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("moveFile");
     await Promise.resolve();
 
     const file = this.files.get(fileId);
@@ -186,6 +374,7 @@ export class MockGoogleDriveService implements GoogleDriveService {
 
     file.parents = file.parents.filter((p) => p !== oldFolderId);
     file.parents.push(newFolderId);
+    this.recordChange(fileId);
     return toDriveFile(file);
   }
 
@@ -193,12 +382,12 @@ export class MockGoogleDriveService implements GoogleDriveService {
     pageToken?: string,
     pageSize: number = 20,
   ): Promise<DriveFileList> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("listBooks");
     await Promise.resolve();
 
     const allBooks: DriveFile[] = [];
     for (const file of this.files.values()) {
-      if (file.properties?.app_type === APP_TYPE_VALUE) {
+      if (file.properties?.app_type === APP_TYPE_VALUE && this.isInMyLibrary(file)) {
         allBooks.push(toDriveFile(file));
       }
     }
@@ -219,18 +408,18 @@ export class MockGoogleDriveService implements GoogleDriveService {
     query: string,
     pageToken?: string,
   ): Promise<DriveFileList> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("searchBooks");
     await Promise.resolve();
 
     const lowerQuery = query.toLowerCase();
     const matchingBooks: DriveFile[] = [];
 
     for (const file of this.files.values()) {
-      if (file.properties?.app_type !== APP_TYPE_VALUE) continue;
+      if (file.properties?.app_type !== APP_TYPE_VALUE || !this.isInMyLibrary(file)) continue;
 
       const nameMatch = file.name.toLowerCase().includes(lowerQuery);
       const titleMatch = file.properties?.title?.toLowerCase().includes(lowerQuery);
-      const authorMatch = file.properties?.authors?.toLowerCase().includes(lowerQuery);
+      const authorMatch = decodeProperties(file.properties).authors?.toLowerCase().includes(lowerQuery);
 
       if (nameMatch || titleMatch || authorMatch) {
         matchingBooks.push(toDriveFile(file));
@@ -238,13 +427,17 @@ export class MockGoogleDriveService implements GoogleDriveService {
     }
 
     const startIndex = pageToken ? parseInt(pageToken) : 0;
-    const pageFiles = matchingBooks.slice(startIndex, startIndex + 20);
+    const endIndex = startIndex + 20;
+    const pageFiles = matchingBooks.slice(startIndex, endIndex);
+    const nextPageToken = endIndex < matchingBooks.length
+      ? String(endIndex)
+      : undefined;
 
-    return { files: pageFiles, nextPageToken: undefined };
+    return { files: pageFiles, nextPageToken };
   }
 
   async getFile(fileId: string): Promise<DriveFile> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("getFile");
     await Promise.resolve();
 
     const file = this.files.get(fileId);
@@ -253,7 +446,7 @@ export class MockGoogleDriveService implements GoogleDriveService {
   }
 
   async getFileContent(fileId: string): Promise<Uint8Array> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("getFileContent");
     await Promise.resolve();
 
     const file = this.files.get(fileId);
@@ -262,6 +455,7 @@ export class MockGoogleDriveService implements GoogleDriveService {
   }
 
   async getFileStream(fileId: string): Promise<ReadableStream> {
+    this.checkFailure("getFileStream");
     const content = await this.getFileContent(fileId);
     return new ReadableStream({
       start(controller) {
@@ -271,18 +465,30 @@ export class MockGoogleDriveService implements GoogleDriveService {
     });
   }
 
+  async getFileRangeStream(fileId: string, range: ByteRange): Promise<ReadableStream> {
+    this.checkFailure("getFileRangeStream");
+    const content = (await this.getFileContent(fileId)).slice(range.start, range.end + 1);
+    return new ReadableStream({
+      start(controller) {
+        controller.enqueue(content);
+        controller.close();
+      },
+    });
+  }
+
   async deleteFile(fileId: string): Promise<void> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("deleteFile");
     await Promise.resolve();
 
     if (!this.files.has(fileId)) {
       throw new Error(`File not found: ${fileId}`);
     }
     this.files.delete(fileId);
+    this.recordChange(fileId);
   }
 
   async findBookByIsbn(isbn: string): Promise<DriveFile | null> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("findBookByIsbn");
     await Promise.resolve();
 
     for (const file of this.files.values()) {
@@ -296,6 +502,23 @@ export class MockGoogleDriveService implements GoogleDriveService {
     return null;
   }
 
+  async findBooksBySeries(series: string): Promise<DriveFile[]> {
+    this.checkFailure("findBooksBySeries");
+    await Promise.resolve();
+
+    const results: DriveFile[] = [];
+    for (const file of this.files.values()) {
+      const driveFile = toDriveFile(file);
+      if (
+        driveFile.properties.app_type === APP_TYPE_VALUE &&
+        driveFile.properties.series === series
+      ) {
+        results.push(driveFile);
+      }
+    }
+    return results;
+  }
+
   addFile(file: DriveFile & { content?: Uint8Array }): void {
     this.files.set(file.id, {
       id: file.id,
@@ -306,12 +529,19 @@ export class MockGoogleDriveService implements GoogleDriveService {
       webContentLink: file.webContentLink,
       thumbnailLink: file.thumbnailLink,
       size: file.size,
+      createdTime: file.createdTime ?? this.now(),
+      modifiedTime: file.modifiedTime,
+      md5Checksum: file.md5Checksum ?? (file.content ? checksum(file.content) : undefined),
       content: file.content,
     });
+    this.recordChange(file.id);
+    if (file.modifiedTime) {
+      this.files.get(file.id)!.modifiedTime = file.modifiedTime;
+    }
   }
 
   async findFilesByParent(folderId: string): Promise<DriveFile[]> {
-    if (this.shouldFail) throw new Error("Drive API error");
+    this.checkFailure("findFilesByParent");
     await Promise.resolve();
 
     const results: DriveFile[] = [];
@@ -322,4 +552,39 @@ export class MockGoogleDriveService implements GoogleDriveService {
     }
     return results;
   }
+
+  async getStartPageToken(): Promise<string> {
+    this.checkFailure("getStartPageToken");
+    await Promise.resolve();
+    return String(this.changeJournal.length);
+  }
+
+  async listChanges(pageToken: string): Promise<DriveChangeList> {
+    this.checkFailure("listChanges");
+    await Promise.resolve();
+
+    const startIndex = parseInt(pageToken) || 0;
+    const endIndex = Math.min(
+      startIndex + CHANGES_PAGE_SIZE,
+      this.changeJournal.length,
+    );
+
+    // 実APIと同様、変更時点ではなく取得時点のファイル状態を返す
+    const changes: DriveChange[] = this.changeJournal
+      .slice(startIndex, endIndex)
+      .map(({ fileId, time }) => {
+        const file = this.files.get(fileId);
+        return {
+          fileId,
+          removed: !file,
+          file: file ? toDriveFile(file) : undefined,
+          time,
+        };
+      });
+
+    if (endIndex < this.changeJournal.length) {
+      return { changes, nextPageToken: String(endIndex) };
+    }
+    return { changes, newStartPageToken: String(endIndex) };
+  }
 }
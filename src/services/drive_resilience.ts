@@ -0,0 +1,214 @@
+export interface DriveResilienceOptions {
+  /** 再試行の最大回数（初回の呼び出しは含まない） */
+  maxRetries?: number;
+  /** 1回目の再試行の待ち時間の上限。以降は倍にしていく */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** 1回の呼び出しのタイムアウト */
+  timeoutMs?: number;
+  /** ファイル本体のアップロード・ダウンロードのタイムアウト */
+  transferTimeoutMs?: number;
+  /** 同時に実行するDrive API呼び出しの上限 */
+  maxConcurrency?: number;
+  /** テスト用: 待ち時間のジッターに使う乱数と待機処理 */
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/** googleapis（gaxios）に渡すリクエストオプション */
+export interface DriveCallOptions {
+  signal: AbortSignal;
+}
+
+export interface DriveRunOptions {
+  /**
+   * 同じリクエストを繰り返しても結果が変わらないか（既定: true）。
+   * false（files.create など）なら、Drive が処理していないと判断できるエラーのときだけ再試行する
+   */
+  idempotent?: boolean;
+}
+
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_BASE_DELAY = 500;
+const DEFAULT_MAX_DELAY = 32 * 1000;
+const DEFAULT_TIMEOUT = 60 * 1000;
+const DEFAULT_TRANSFER_TIMEOUT = 10 * 60 * 1000;
+const DEFAULT_MAX_CONCURRENCY = 4;
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const RATE_LIMIT_REASONS = new Set(["userRateLimitExceeded", "rateLimitExceeded"]);
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+/** 接続する前に失敗したネットワークエラー（リクエストは Drive に届いていない） */
+const UNSENT_NETWORK_CODES = new Set(["ECONNREFUSED", "EAI_AGAIN", "ENOTFOUND"]);
+
+// deno-lint-ignore no-explicit-any
+type DriveApiError = any;
+
+function getStatus(error: DriveApiError): number | null {
+  const status = error?.response?.status ?? error?.status ?? error?.code;
+  if (typeof status === "number") return status;
+  // gaxios のバージョンによっては code が "503" のような文字列になる
+  return typeof status === "string" && /^\d{3}$/.test(status) ? Number(status) : null;
+}
+
+function getReasons(error: DriveApiError): string[] {
+  const errors = error?.errors ?? error?.response?.data?.error?.errors ?? [];
+  return Array.isArray(errors) ? errors.map((e) => String(e?.reason ?? "")) : [];
+}
+
+/**
+ * 再試行すれば成功する見込みのあるエラーか判定する。
+ * 5xx・429・レート制限による403・ネットワークエラー・タイムアウトが対象。
+ */
+export function isRetryableDriveError(error: unknown): boolean {
+  const status = getStatus(error);
+  if (status !== null) {
+    if (RETRYABLE_STATUS.has(status)) return true;
+    if (status === 403) return getReasons(error).some((r) => RATE_LIMIT_REASONS.has(r));
+    return false;
+  }
+  const code = (error as DriveApiError)?.code;
+  return typeof code === "string" && RETRYABLE_NETWORK_CODES.has(code);
+}
+
+/**
+ * Drive がリクエストを処理していないと判断できるエラーか判定する。
+ * 429・レート制限による403・接続前のネットワークエラーが対象で、
+ * タイムアウトや 5xx は Drive 側で処理が済んでいることがあるため含めない。
+ */
+export function isUnprocessedDriveError(error: unknown): boolean {
+  const status = getStatus(error);
+  if (status !== null) {
+    if (status === 429) return true;
+    if (status === 403) return getReasons(error).some((r) => RATE_LIMIT_REASONS.has(r));
+    return false;
+  }
+  const code = (error as DriveApiError)?.code;
+  return typeof code === "string" && UNSENT_NETWORK_CODES.has(code);
+}
+
+/**
+ * Retry-After ヘッダー（秒数またはHTTP日付）をミリ秒で返す
+ */
+export function getRetryAfterMs(error: unknown, now = Date.now()): number | null {
+  const headers = (error as DriveApiError)?.response?.headers;
+  if (!headers) return null;
+  const value: unknown = typeof headers.get === "function"
+    ? headers.get("retry-after")
+    : headers["retry-after"] ?? headers["Retry-After"];
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Drive API 呼び出しの実行器
+ *
+ * 同時実行数を制限し、呼び出しごとにタイムアウトを設け、一時的なエラーは
+ * ジッター付きの指数バックオフ（Retry-After があればその時間）で再試行する。
+ */
+export class DriveCallExecutor {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private maxConcurrency: number;
+  private random: () => number;
+  private sleep: (ms: number) => Promise<void>;
+  readonly timeoutMs: number;
+  readonly transferTimeoutMs: number;
+
+  constructor(options: DriveResilienceOptions = {}) {
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT;
+    this.transferTimeoutMs = options.transferTimeoutMs ?? DEFAULT_TRANSFER_TIMEOUT;
+    this.maxConcurrency = options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
+    this.random = options.random ?? Math.random;
+    this.sleep = options.sleep ??
+      ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * operation を実行する。operation は再試行のたびに呼ばれるため、
+   * アップロードするストリームなどは operation の中で作ること。
+   */
+  async run<T>(
+    operation: (options: DriveCallOptions) => Promise<T>,
+    timeoutMs = this.timeoutMs,
+    options: DriveRunOptions = {},
+  ): Promise<T> {
+    const canRetry = options.idempotent === false ? isUnprocessedDriveError : isRetryableDriveError;
+    for (let attempt = 0;; attempt++) {
+      try {
+        return await this.withSlot(() => this.withTimeout(operation, timeoutMs));
+      } catch (error) {
+        if (attempt >= this.maxRetries || !canRetry(error)) throw error;
+        await this.sleep(this.delayFor(attempt, error));
+      }
+    }
+  }
+
+  /**
+   * フルジッター: 0〜min(上限, 基準×2^attempt) の一様乱数。
+   * Retry-After があればその時間だが、リクエストを待たせすぎないよう上限で抑える
+   */
+  private delayFor(attempt: number, error: unknown): number {
+    const retryAfter = getRetryAfterMs(error);
+    if (retryAfter !== null) return Math.min(retryAfter, this.maxDelayMs);
+    const cap = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.floor(this.random() * cap);
+  }
+
+  private async withTimeout<T>(
+    operation: (options: DriveCallOptions) => Promise<T>,
+    timeoutMs: number,
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timerId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timerId = setTimeout(() => {
+        const error = Object.assign(
+          new Error(`Drive API の呼び出しがタイムアウトしました（${timeoutMs}ms）`),
+          { code: "ETIMEDOUT" },
+        );
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([operation({ signal: controller.signal }), timeout]);
+    } finally {
+      clearTimeout(timerId);
+    }
+  }
+
+  /**
+   * 同時実行数の枠を1つ取って task を実行する。googleapis を通さない呼び出し
+   * （再開可能なアップロードなど）も同じ上限に数えるために使う
+   */
+  async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    while (this.active >= this.maxConcurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+}
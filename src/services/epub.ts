@@ -0,0 +1,223 @@
+import { BookFileInspection, BookMetadata, Contributor } from "../types.ts";
+import { ZipReader } from "./zip.ts";
+import { formatContributors, roleFromCode } from "./contributors.ts";
+
+const CONTAINER_PATH = "META-INF/container.xml";
+
+export function decodeXmlEntities(str: string): string {
+  return str
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** 属性文字列（`name="value" ...`）から指定した属性の値を取り出す */
+export function getAttribute(attrs: string, name: string): string | null {
+  const re = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i");
+  const match = attrs.match(re);
+  return match ? decodeXmlEntities(match[1] ?? match[2]) : null;
+}
+
+/**
+ * OPF (Calibre の metadata.opf や EPUB のパッケージ文書) をパースして BookMetadata を返す。
+ * ISBNはハイフン・スペース除去済み。日付はT以降を除去。
+ */
+export function parseMetadataOpf(xml: string): Partial<BookMetadata> {
+  const getFirst = (tag: string): string => {
+    const re = new RegExp(
+      `<dc:${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</dc:${tag}>`,
+      "i",
+    );
+    const match = xml.match(re);
+    return match ? decodeXmlEntities(match[1].trim()) : "";
+  };
+
+  // EPUB3 の役割は <meta refines="#id" property="role">trl</meta> で指定される
+  const refinedRoles = new Map<string, string>();
+  const refineRe = /<meta\s([^>]*?)>([^<]*)<\/meta>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = refineRe.exec(xml)) !== null) {
+    const refines = getAttribute(m[1], "refines");
+    if (refines?.startsWith("#") && getAttribute(m[1], "property") === "role") {
+      refinedRoles.set(refines.slice(1), m[2].trim());
+    }
+  }
+
+  // 複数の dc:creator・dc:contributor を収集。EPUB2 の役割は opf:role 属性で指定される
+  const contributors: Contributor[] = [];
+  const creatorRe = /<dc:(creator|contributor)(\s[^>]*)?>([^<]+)<\/dc:\1>/gi;
+  while ((m = creatorRe.exec(xml)) !== null) {
+    const attrs = m[2] || "";
+    const id = getAttribute(attrs, "id");
+    const code = getAttribute(attrs, "opf:role") ?? (id ? refinedRoles.get(id) : undefined);
+    // 役割のない dc:creator は著者。dc:contributor は製作ツールなども含むため役割がわかるものだけ
+    const role = roleFromCode(code ?? undefined) ??
+      (m[1].toLowerCase() === "creator" && !code ? "author" : null);
+    const name = decodeXmlEntities(m[3].trim());
+    if (role && name) contributors.push({ name, role });
+  }
+
+  // dc:identifier の opf:scheme="ISBN" からISBNを取得。
+  // EPUB3 には scheme 属性がないため urn:isbn: 形式の値も受け付ける
+  let isbn = "";
+  const identRe = /<dc:identifier([^>]*)>([^<]+)<\/dc:identifier>/gi;
+  while ((m = identRe.exec(xml)) !== null) {
+    const value = m[2].trim();
+    if (/opf:scheme\s*=\s*["']isbn["']/i.test(m[1])) {
+      isbn = value.replace(/[-\s]/g, "");
+      break;
+    }
+    const urn = value.match(/^(?:urn:)?isbn:\s*([\d\-\sXx]+)$/i);
+    if (urn && !isbn) {
+      isbn = urn[1].replace(/[-\s]/g, "");
+    }
+  }
+
+  // Calibre独自のシリーズ情報は <meta name="calibre:series" content="..."/> 形式
+  const getMeta = (name: string): string => {
+    const metaRe = /<meta\s([^>]*?)\/?>/gi;
+    let meta: RegExpExecArray | null;
+    while ((meta = metaRe.exec(xml)) !== null) {
+      if (getAttribute(meta[1], "name") !== name) continue;
+      return getAttribute(meta[1], "content")?.trim() || "";
+    }
+    return "";
+  };
+
+  const rawDate = getFirst("date");
+  const publishedDate = rawDate ? rawDate.split("T")[0] : "";
+
+  return {
+    isbn,
+    title: getFirst("title"),
+    authors: contributors.length > 0 ? formatContributors(contributors) : getFirst("creator"),
+    ...(contributors.length > 0 ? { contributors } : {}),
+    publisher: getFirst("publisher"),
+    publishedDate,
+    description: getFirst("description"),
+    coverImageUrl: "",
+    series: getMeta("calibre:series"),
+    seriesIndex: getMeta("calibre:series_index"),
+  };
+}
+
+export interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties: string;
+}
+
+export function parseManifest(xml: string): ManifestItem[] {
+  const items: ManifestItem[] = [];
+  const itemRe = /<item\s([^>]*?)\/?>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = itemRe.exec(xml)) !== null) {
+    items.push({
+      id: getAttribute(m[1], "id") || "",
+      href: getAttribute(m[1], "href") || "",
+      mediaType: getAttribute(m[1], "media-type") || "",
+      properties: getAttribute(m[1], "properties") || "",
+    });
+  }
+  return items;
+}
+
+/**
+ * OPFのマニフェストから表紙画像を探す。
+ * EPUB3 の properties="cover-image"、EPUB2 の <meta name="cover">、
+ * 最後に id か href に "cover" を含む画像の順で判定する。
+ */
+function findCoverItem(xml: string): ManifestItem | null {
+  const images = parseManifest(xml).filter((i) => i.mediaType.startsWith("image/"));
+
+  const epub3 = images.find((i) => i.properties.split(/\s+/).includes("cover-image"));
+  if (epub3) return epub3;
+
+  const metaRe = /<meta\s([^>]*?)\/?>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = metaRe.exec(xml)) !== null) {
+    if (getAttribute(m[1], "name") !== "cover") continue;
+    const id = getAttribute(m[1], "content");
+    const epub2 = images.find((i) => i.id === id);
+    if (epub2) return epub2;
+  }
+
+  return images.find((i) => /cover/i.test(i.id) || /cover/i.test(i.href)) || null;
+}
+
+/** OPF（や本文のファイル）からの相対パスをアーカイブ内のパスに変換する */
+export function resolveHref(opfPath: string, href: string): string {
+  const parts = opfPath.split("/").slice(0, -1);
+  for (const segment of decodeURIComponent(href.split("#")[0]).split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment !== "." && segment !== "") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+/** EPUB のパッケージ文書（OPF）と本文の読み順 */
+export interface EpubPackage {
+  opfPath: string;
+  opf: string;
+  manifest: ManifestItem[];
+  /** spine の順に並べた本文のマニフェスト項目 */
+  spine: ManifestItem[];
+}
+
+/**
+ * container.xml が指す OPF を読み、マニフェストと spine を返す。OPF が見つからなければ null
+ */
+export async function readEpubPackage(zip: ZipReader): Promise<EpubPackage | null> {
+  const container = await zip.readText(CONTAINER_PATH);
+  const rootfile = container?.match(/<rootfile\s([^>]*?)\/?>/i);
+  const opfPath = (rootfile && getAttribute(rootfile[1], "full-path")) ||
+    zip.names.find((n) => n.toLowerCase().endsWith(".opf"));
+  if (!opfPath) return null;
+
+  const opf = await zip.readText(opfPath);
+  if (!opf) return null;
+
+  const manifest = parseManifest(opf);
+  const spine: ManifestItem[] = [];
+  const itemrefRe = /<itemref\s([^>]*?)\/?>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = itemrefRe.exec(opf)) !== null) {
+    const idref = getAttribute(m[1], "idref");
+    const item = manifest.find((i) => i.id === idref);
+    if (item) spine.push(item);
+  }
+  return { opfPath, opf, manifest, spine };
+}
+
+/**
+ * EPUBファイルをメモリ上で展開し、OPFの書誌情報と埋め込み表紙を取り出す。
+ * EPUBとして読めない場合は null を返す。
+ */
+export async function inspectEpub(data: Uint8Array): Promise<BookFileInspection | null> {
+  let zip: ZipReader;
+  try {
+    zip = new ZipReader(data);
+  } catch {
+    return null;
+  }
+
+  const epub = await readEpubPackage(zip);
+  if (!epub) return null;
+  const { opfPath, opf } = epub;
+
+  const inspection: BookFileInspection = { metadata: parseMetadataOpf(opf) };
+
+  const coverItem = findCoverItem(opf);
+  if (coverItem) {
+    const cover = await zip.read(resolveHref(opfPath, coverItem.href));
+    if (cover) {
+      inspection.cover = { data: cover, mimeType: coverItem.mediaType };
+    }
+  }
+  return inspection;
+}
@@ -0,0 +1,218 @@
+import { BookFileInspection } from "../types.ts";
+import { inspectEpub } from "./epub.ts";
+import { inspectPdf } from "./pdf.ts";
+import { inspectMobi } from "./mobi.ts";
+import { inspectComicArchive, isComicPageName } from "./comic.ts";
+
+/** ファイルから書誌情報と埋め込み表紙を読み取る。読めない場合は null */
+export type BookFileInspector = (data: Uint8Array) => Promise<BookFileInspection | null>;
+
+export interface BookFormat {
+  /** OPDS の形式別フィードのパスなどに使う識別子 */
+  key: string;
+  label: string;
+  /** Drive に保存する MIME タイプ（ダウンロード・OPDS の取得リンクでも使う） */
+  mimeType: string;
+  /** 拡張子（先頭がファイル名に付けるもの） */
+  extensions: string[];
+  /** ブラウザや Drive が付けることのある別の MIME タイプ */
+  aliasMimeTypes?: string[];
+  /** ファイルの先頭のバイト列がこの形式か判定する */
+  sniff?: (head: Uint8Array) => boolean;
+  inspect?: BookFileInspector;
+}
+
+/** 形式の判定に読むファイルの先頭のバイト数 */
+export const FORMAT_SNIFF_LENGTH = 64 * 1024;
+
+const ascii = (data: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...data.subarray(start, end));
+
+const ZIP_SIGNATURE = "PK\x03\x04";
+/** EPUB は ZIP の先頭に無圧縮の mimetype ファイルを置く */
+const EPUB_MIMETYPE_ENTRY = "mimetypeapplication/epub+zip";
+
+function isZip(head: Uint8Array): boolean {
+  return ascii(head, 0, 4) === ZIP_SIGNATURE;
+}
+
+const EPUB_CONTAINER_PATH = "META-INF/container.xml";
+
+/** mimetype が先頭にない EPUB も、先頭部分に container.xml のエントリがあれば EPUB とみなす */
+function isEpub(head: Uint8Array): boolean {
+  if (!isZip(head)) return false;
+  if (ascii(head, 30, 30 + EPUB_MIMETYPE_ENTRY.length) === EPUB_MIMETYPE_ENTRY) return true;
+  return new TextDecoder("latin1").decode(head).includes(EPUB_CONTAINER_PATH);
+}
+
+/**
+ * 先頭部分にあるローカルヘッダのファイル名を見て、画像のエントリがあれば CBZ とみなす。
+ * サイズがデータディスクリプタにある ZIP もあるため、ヘッダをたどらずにシグネチャを探す
+ */
+function isComicArchive(head: Uint8Array): boolean {
+  if (!isZip(head)) return false;
+  const text = new TextDecoder("latin1").decode(head);
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const decoder = new TextDecoder();
+  let offset = 0;
+  while (offset >= 0 && offset + 30 <= head.length) {
+    const nameLength = view.getUint16(offset + 26, true);
+    if (isComicPageName(decoder.decode(head.subarray(offset + 30, offset + 30 + nameLength)))) return true;
+    offset = text.indexOf(ZIP_SIGNATURE, offset + 4);
+  }
+  return false;
+}
+
+/** Palm Database 形式の MOBI（AZW・AZW3 も同じ） */
+function isMobipocket(head: Uint8Array): boolean {
+  return ascii(head, 60, 68) === "BOOKMOBI";
+}
+
+/**
+ * MOBI ヘッダのファイルバージョンを読む。8 なら KF8（AZW3）。
+ * 先頭のレコードが読み込んだ範囲にない場合は null
+ */
+export function readMobiVersion(head: Uint8Array): number | null {
+  if (!isMobipocket(head) || head.length < 86) return null;
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const record0 = view.getUint32(78);
+  if (record0 + 40 > head.length || ascii(head, record0 + 16, record0 + 20) !== "MOBI") return null;
+  return view.getUint32(record0 + 36);
+}
+
+/**
+ * 対応している書籍ファイルの形式。判定は上から順に行うため、
+ * ZIP を使う形式は EPUB を CBZ より先に置く。
+ */
+export const BOOK_FORMATS: BookFormat[] = [
+  {
+    key: "epub",
+    label: "EPUB",
+    mimeType: "application/epub+zip",
+    extensions: ["epub"],
+    sniff: isEpub,
+    inspect: inspectEpub,
+  },
+  {
+    key: "pdf",
+    label: "PDF",
+    mimeType: "application/pdf",
+    extensions: ["pdf"],
+    sniff: (head) => head.length >= 5 && ascii(head, 0, 5) === "%PDF-",
+    inspect: inspectPdf,
+  },
+  {
+    key: "azw3",
+    label: "AZW3",
+    mimeType: "application/vnd.amazon.mobi8-ebook",
+    extensions: ["azw3", "kf8"],
+    aliasMimeTypes: ["application/x-mobi8-ebook"],
+    sniff: (head) => (readMobiVersion(head) ?? 0) >= 8,
+    inspect: inspectMobi,
+  },
+  {
+    key: "mobi",
+    label: "MOBI",
+    mimeType: "application/x-mobipocket-ebook",
+    extensions: ["mobi", "azw", "prc"],
+    aliasMimeTypes: ["application/vnd.amazon.ebook"],
+    sniff: isMobipocket,
+    inspect: inspectMobi,
+  },
+  {
+    key: "cbz",
+    label: "CBZ",
+    mimeType: "application/vnd.comicbook+zip",
+    extensions: ["cbz"],
+    aliasMimeTypes: ["application/x-cbz"],
+    // EPUB 以外で画像のエントリがある ZIP を、画像をまとめたコミックとして扱う
+    sniff: isComicArchive,
+    inspect: inspectComicArchive,
+  },
+  {
+    key: "cbr",
+    label: "CBR",
+    mimeType: "application/vnd.comicbook-rar",
+    extensions: ["cbr"],
+    aliasMimeTypes: ["application/x-cbr"],
+    // RAR 4 と RAR 5
+    sniff: (head) => ascii(head, 0, 7) === "Rar!\x1a\x07\x00" || ascii(head, 0, 8) === "Rar!\x1a\x07\x01\x00",
+  },
+  {
+    key: "cb7",
+    label: "CB7",
+    mimeType: "application/x-cb7",
+    extensions: ["cb7"],
+    sniff: (head) => ascii(head, 0, 6) === "7z\xbc\xaf\x27\x1c",
+  },
+  {
+    key: "djvu",
+    label: "DjVu",
+    mimeType: "image/vnd.djvu",
+    extensions: ["djvu", "djv"],
+    aliasMimeTypes: ["image/x-djvu"],
+    sniff: (head) => ascii(head, 0, 8) === "AT&TFORM" && ["DJVU", "DJVM"].includes(ascii(head, 12, 16)),
+  },
+  {
+    // テキストには判定できる先頭のバイト列がないので、拡張子か MIME タイプで判定する
+    key: "txt",
+    label: "テキスト",
+    mimeType: "text/plain",
+    extensions: ["txt"],
+  },
+];
+
+/** 対応形式の一覧（「EPUB, PDF, ...」） */
+export const SUPPORTED_FORMAT_LABELS = BOOK_FORMATS.map((f) => f.label).join(", ");
+
+/** ファイル選択欄の accept 属性の値 */
+export const BOOK_FILE_ACCEPT = BOOK_FORMATS
+  .flatMap((f) => [...f.extensions.map((e) => `.${e}`), f.mimeType])
+  .join(",");
+
+export function findFormatByKey(key: string): BookFormat | null {
+  return BOOK_FORMATS.find((f) => f.key === key) ?? null;
+}
+
+export function findFormatByMimeType(mimeType: string): BookFormat | null {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  if (!type) return null;
+  return BOOK_FORMATS.find((f) => f.mimeType === type || f.aliasMimeTypes?.includes(type)) ?? null;
+}
+
+export function findFormatByFileName(fileName: string): BookFormat | null {
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (!extension) return null;
+  return BOOK_FORMATS.find((f) => f.extensions.includes(extension)) ?? null;
+}
+
+/**
+ * 保存済みのファイルの形式。MIME タイプで分からなければファイル名の拡張子で判定する
+ */
+export function findFormatForFile(file: { name: string; mimeType: string }): BookFormat | null {
+  return findFormatByMimeType(file.mimeType) ?? findFormatByFileName(file.name);
+}
+
+/**
+ * アップロードされたファイルの形式を先頭のバイト列で判定する（拡張子の付け間違いも正す）。
+ * 拡張子・ブラウザが付けた MIME タイプは、判定できるバイト列のない形式（テキスト）にだけ使い、
+ * 拡張子が PDF などでも中身が合わなければ受け付けない。対応していない形式なら null
+ */
+export function detectBookFormat(
+  head: Uint8Array,
+  fileName = "",
+  declaredType = "",
+): BookFormat | null {
+  const sniffed = BOOK_FORMATS.find((f) => f.sniff?.(head));
+  if (sniffed) return sniffed;
+  return [findFormatByFileName(fileName), findFormatByMimeType(declaredType)]
+    .find((f) => f && !f.sniff) ?? null;
+}
+
+/** 拡張子（MIME タイプが対応形式でなければサブタイプ） */
+export function getExtension(mimeType: string): string {
+  const format = findFormatByMimeType(mimeType);
+  if (format) return format.extensions[0];
+  const parts = mimeType.split("/");
+  return parts[parts.length - 1];
+}
@@ -0,0 +1,69 @@
+import { ByteRange, DriveFile } from "../types.ts";
+
+/**
+ * Range ヘッダーを解釈する。
+ *
+ * 単一の範囲（bytes=0-99, bytes=100-, bytes=-100）のみ扱い、
+ * 複数範囲や解釈できない値は null（ファイル全体を返す）とする。
+ * ファイルの範囲外を指す場合は "unsatisfiable" を返す。
+ */
+export function parseRange(
+  header: string | null | undefined,
+  size: number,
+): ByteRange | "unsatisfiable" | null {
+  if (!header) return null;
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/i);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    // 末尾から n バイト
+    const suffix = parseInt(match[2]);
+    if (suffix === 0 || size === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = parseInt(match[1]);
+  const end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+  if (match[2] && parseInt(match[2]) < start) return null;
+  if (start >= size) return "unsatisfiable";
+  return { start, end };
+}
+
+/**
+ * ファイルの ETag。Drive の md5Checksum があれば強い ETag、
+ * なければ更新日時から作る弱い ETag を返す
+ */
+export function getETag(file: DriveFile): string | null {
+  if (file.md5Checksum) return `"${file.md5Checksum}"`;
+  if (file.modifiedTime) return `W/"${file.id}-${Date.parse(file.modifiedTime)}"`;
+  return null;
+}
+
+export function getLastModified(file: DriveFile): string | null {
+  if (!file.modifiedTime) return null;
+  const time = Date.parse(file.modifiedTime);
+  return isNaN(time) ? null : new Date(time).toUTCString();
+}
+
+/** If-None-Match がいずれかの ETag と一致するか（弱い比較） */
+export function matchesIfNoneMatch(header: string | null | undefined, etag: string | null): boolean {
+  if (!header || !etag) return false;
+  if (header.trim() === "*") return true;
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, "");
+  return header.split(",").some((tag) => normalize(tag) === normalize(etag));
+}
+
+/**
+ * If-Range の条件を満たす（Range を適用してよい）か。
+ * ETag は強い比較、日付は Last-Modified と完全に一致する場合のみ有効とする。
+ */
+export function isIfRangeFresh(header: string | null | undefined, file: DriveFile): boolean {
+  if (!header) return true;
+  const value = header.trim();
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    const etag = getETag(file);
+    return !!etag && !etag.startsWith("W/") && value === etag;
+  }
+  const lastModified = getLastModified(file);
+  return !!lastModified && Date.parse(value) === Date.parse(lastModified);
+}
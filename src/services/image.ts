@@ -0,0 +1,250 @@
+import jpeg from "jpeg-js";
+
+/** 1ピクセル4バイト（RGBA）の画像 */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+/** 展開後のピクセル数の上限（巨大な画像でメモリを使い切らないように） */
+const MAX_PIXELS = 40 * 1000 * 1000;
+
+function isJpeg(data: Uint8Array): boolean {
+  return data.length > 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff;
+}
+
+function isPng(data: Uint8Array): boolean {
+  return data.length > 8 && PNG_SIGNATURE.every((b, i) => data[i] === b);
+}
+
+/**
+ * 先頭のバイト列から画像の形式を判定する。表紙として扱える形式でなければ null
+ */
+export function detectImageType(data: Uint8Array): string | null {
+  if (isJpeg(data)) return "image/jpeg";
+  if (isPng(data)) return "image/png";
+  const ascii = (start: number, end: number) => String.fromCharCode(...data.subarray(start, end));
+  if (data.length > 12 && ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (data.length > 6 && (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a")) return "image/gif";
+  return null;
+}
+
+/**
+ * JPEG または PNG を RGBA に展開する。対応していない形式や壊れた画像は null
+ */
+export async function decodeImage(data: Uint8Array): Promise<RasterImage | null> {
+  try {
+    if (isJpeg(data)) {
+      const image = jpeg.decode(data, {
+        useTArray: true,
+        formatAsRGBA: true,
+        maxResolutionInMP: MAX_PIXELS / 1000 / 1000,
+        maxMemoryUsageInMB: 512,
+      });
+      return { width: image.width, height: image.height, data: image.data };
+    }
+    if (isPng(data)) return await decodePng(data);
+  } catch {
+    // 壊れた画像
+  }
+  return null;
+}
+
+/**
+ * 縦横比を保ったまま maxWidth × maxHeight に収まるよう縮小する（拡大はしない）。
+ * 縮小元の画素を面積で平均するため、大きく縮めてもジャギーが出にくい。
+ */
+export function resizeImage(image: RasterImage, maxWidth: number, maxHeight: number): RasterImage {
+  const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  if (width === image.width && height === image.height) return image;
+
+  const out = new Uint8Array(width * height * 4);
+  const xRatio = image.width / width;
+  const yRatio = image.height / height;
+  const sum = new Float64Array(4);
+
+  for (let y = 0; y < height; y++) {
+    const sy0 = y * yRatio;
+    const sy1 = sy0 + yRatio;
+    for (let x = 0; x < width; x++) {
+      const sx0 = x * xRatio;
+      const sx1 = sx0 + xRatio;
+      sum.fill(0);
+      let area = 0;
+      for (let sy = Math.floor(sy0); sy < Math.ceil(sy1) && sy < image.height; sy++) {
+        const wy = Math.min(sy + 1, sy1) - Math.max(sy, sy0);
+        for (let sx = Math.floor(sx0); sx < Math.ceil(sx1) && sx < image.width; sx++) {
+          const w = wy * (Math.min(sx + 1, sx1) - Math.max(sx, sx0));
+          const i = (sy * image.width + sx) * 4;
+          sum[0] += image.data[i] * w;
+          sum[1] += image.data[i + 1] * w;
+          sum[2] += image.data[i + 2] * w;
+          sum[3] += image.data[i + 3] * w;
+          area += w;
+        }
+      }
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) out[o + c] = Math.round(sum[c] / area);
+    }
+  }
+  return { width, height, data: out };
+}
+
+/** JPEG に変換する。透過部分は白で塗る */
+export function encodeJpeg(image: RasterImage, quality = 80): Uint8Array {
+  const data = new Uint8Array(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = image.data[i + 3] / 255;
+    data[i] = Math.round(image.data[i] * alpha + 255 * (1 - alpha));
+    data[i + 1] = Math.round(image.data[i + 1] * alpha + 255 * (1 - alpha));
+    data[i + 2] = Math.round(image.data[i + 2] * alpha + 255 * (1 - alpha));
+    data[i + 3] = 255;
+  }
+  return new Uint8Array(jpeg.encode({ data, width: image.width, height: image.height }, quality).data);
+}
+
+// --- PNG ---
+
+async function inflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * PNG を展開する。インターレースなしの全カラータイプ・ビット深度に対応する
+ */
+async function decodePng(data: Uint8Array): Promise<RasterImage | null> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "tRNS") {
+      transparency = body;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  if (!width || !height || interlace !== 0 || width * height > MAX_PIXELS) return null;
+  const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+  if (!channels || (colorType === 3 && !palette)) return null;
+
+  const compressed = new Uint8Array(idat.reduce((n, c) => n + c.length, 0));
+  let pos = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, pos);
+    pos += chunk.length;
+  }
+  const raw = await inflate(compressed);
+
+  // フィルタを外す
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  if (raw.length < (stride + 1) * height) return null;
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    const prev = out - stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bytesPerPixel ? pixels[out + x - bytesPerPixel] : 0;
+      const b = y > 0 ? pixels[prev + x] : 0;
+      const c = y > 0 && x >= bytesPerPixel ? pixels[prev + x - bytesPerPixel] : 0;
+      let value = line[x];
+      if (filter === 1) value += a;
+      else if (filter === 2) value += b;
+      else if (filter === 3) value += (a + b) >> 1;
+      else if (filter === 4) value += paeth(a, b, c);
+      pixels[out + x] = value;
+    }
+  }
+
+  // 1サンプルを 0〜255 で読む（16ビットは上位バイト、1/2/4ビットは伸長する）
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const sample = (y: number, index: number): number => {
+    const row = y * stride;
+    if (bitDepth === 16) return pixels[row + index * 2];
+    if (bitDepth === 8) return pixels[row + index];
+    const bit = index * bitDepth;
+    const value = (pixels[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample);
+  };
+  const rawSample = (y: number, index: number): number => {
+    if (bitDepth === 16) return (pixels[y * stride + index * 2] << 8) | pixels[y * stride + index * 2 + 1];
+    if (colorType === 3 || bitDepth === 8) return sample(y, index);
+    const bit = index * bitDepth;
+    return (pixels[y * stride + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const transparentValue = (i: number) =>
+    transparency && transparency.length >= i * 2 + 2 ? (transparency[i * 2] << 8) | transparency[i * 2 + 1] : -1;
+
+  const rgba = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const s = x * channels;
+      if (colorType === 3) {
+        const index = sample(y, x);
+        rgba[o] = palette![index * 3] ?? 0;
+        rgba[o + 1] = palette![index * 3 + 1] ?? 0;
+        rgba[o + 2] = palette![index * 3 + 2] ?? 0;
+        rgba[o + 3] = transparency?.[index] ?? 255;
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = sample(y, s);
+        rgba[o] = rgba[o + 1] = rgba[o + 2] = gray;
+        rgba[o + 3] = colorType === 4
+          ? sample(y, s + 1)
+          : rawSample(y, s) === transparentValue(0) ? 0 : 255;
+      } else {
+        rgba[o] = sample(y, s);
+        rgba[o + 1] = sample(y, s + 1);
+        rgba[o + 2] = sample(y, s + 2);
+        rgba[o + 3] = colorType === 6
+          ? sample(y, s + 3)
+          : rawSample(y, s) === transparentValue(0) &&
+              rawSample(y, s + 1) === transparentValue(1) &&
+              rawSample(y, s + 2) === transparentValue(2)
+          ? 0
+          : 255;
+      }
+    }
+  }
+  return { width, height, data: rgba };
+}
@@ -0,0 +1,37 @@
+/**
+ * ISBN-10 / ISBN-13 のチェックディジットを検証する。
+ * ハイフン・スペースは無視する。
+ */
+export function isValidIsbn(value: string): boolean {
+  const isbn = value.replace(/[-\s]/g, "").toUpperCase();
+
+  if (/^\d{13}$/.test(isbn)) {
+    const sum = [...isbn].reduce(
+      (acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3),
+      0,
+    );
+    return sum % 10 === 0;
+  }
+
+  if (/^\d{9}[\dX]$/.test(isbn)) {
+    const sum = [...isbn].reduce(
+      (acc, d, i) => acc + (d === "X" ? 10 : Number(d)) * (10 - i),
+      0,
+    );
+    return sum % 11 === 0;
+  }
+
+  return false;
+}
+
+/**
+ * テキスト中から最初に現れる有効なISBNを探し、ハイフン除去済みで返す
+ */
+export function findIsbn(text: string): string {
+  const candidates = text.match(/(?:97[89][-\s]?)?(?:\d[-\s]?){9}[\dXx]/g) || [];
+  for (const candidate of candidates) {
+    const isbn = candidate.replace(/[-\s]/g, "").toUpperCase();
+    if (isValidIsbn(isbn)) return isbn;
+  }
+  return "";
+}
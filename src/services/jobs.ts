@@ -0,0 +1,390 @@
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface Job {
+  id: string;
+  type: string;
+  /** 一覧表示用の説明 */
+  label: string;
+  payload: unknown;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  updatedAt: string;
+  /** 再試行待ちの場合、次に実行できる時刻 */
+  nextRunAt: string | null;
+  lastError: string | null;
+  result?: unknown;
+  /** ファイル本体などペイロードに含めないデータを添付している */
+  hasAttachment: boolean;
+  /** 実行中のジョブが報告した進捗（ジャーナルには残さない） */
+  progress?: JobProgress;
+}
+
+export interface JobProgress {
+  done: number;
+  total?: number;
+}
+
+export interface JobContext {
+  job: Job;
+  /** enqueue 時に渡した添付データを読み出す */
+  attachment(): Promise<Uint8Array>;
+  /** 添付データを全体をメモリに載せずに読み出す */
+  attachmentStream(): Promise<ReadableStream<Uint8Array>>;
+  /** 一覧に表示する進捗を更新する */
+  reportProgress(done: number, total?: number): void;
+  /** 後続のジョブを追加する */
+  enqueue(type: string, payload: unknown, options?: EnqueueOptions): Promise<Job>;
+}
+
+export type JobHandler<P = unknown> = (payload: P, context: JobContext) => Promise<unknown>;
+
+export interface EnqueueOptions {
+  label?: string;
+  /** ストリームを渡した場合は読みながら保存する */
+  attachment?: Uint8Array | ReadableStream<Uint8Array>;
+  maxAttempts?: number;
+}
+
+export interface JobQueueOptions {
+  /** 指定するとジョブをこのディレクトリの jobs.json に記録し、再起動後も未完了のジョブを再開する */
+  dir?: string;
+  maxAttempts?: number;
+  /** 1回目の再試行までの待ち時間。以降は試行ごとに倍になる */
+  retryDelayMs?: number;
+  /** 一覧に残す完了済みジョブ・失敗したジョブのそれぞれの件数 */
+  historyLimit?: number;
+  /** 失敗したジョブを添付データごと残す期間。過ぎたものは一覧と添付から削除する */
+  failedRetentionMs?: number;
+}
+
+interface JobJournal {
+  jobs: Job[];
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY = 30 * 1000;
+const DEFAULT_HISTORY_LIMIT = 100;
+const DEFAULT_FAILED_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * プロセス内のバックグラウンドジョブキュー
+ *
+ * Drive へのアップロードなど時間のかかる処理をHTTPリクエストから切り離して1件ずつ実行する。
+ * 失敗したジョブは待ち時間を倍にしながら再試行し、上限に達したら failed として残す。
+ * ジョブの状態は小さなJSONジャーナルに書き出すため、再起動しても待機中のジョブは失われない。
+ */
+export class JobQueue {
+  private jobs: Job[] = [];
+  private handlers = new Map<string, JobHandler>();
+  private memoryAttachments = new Map<string, Uint8Array>();
+  private active: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+  private dir?: string;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private historyLimit: number;
+  private failedRetentionMs: number;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.dir = options.dir;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY;
+    this.historyLimit = options.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+    this.failedRetentionMs = options.failedRetentionMs ?? DEFAULT_FAILED_RETENTION;
+  }
+
+  register<P>(type: string, handler: JobHandler<P>): void {
+    this.handlers.set(type, handler as JobHandler);
+  }
+
+  /**
+   * ジャーナルを読み込んでジョブの実行を開始する。
+   * 前回実行中のまま終了したジョブは待機中に戻して再実行する。
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    await this.load();
+    if (await this.pruneHistory()) await this.save();
+    this.started = true;
+    this.process();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+  }
+
+  async enqueue(type: string, payload: unknown, options: EnqueueOptions = {}): Promise<Job> {
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: crypto.randomUUID(),
+      type,
+      label: options.label || type,
+      payload,
+      status: "queued",
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? this.maxAttempts,
+      createdAt: now,
+      updatedAt: now,
+      nextRunAt: null,
+      lastError: null,
+      hasAttachment: options.attachment !== undefined,
+    };
+
+    if (options.attachment) await this.writeAttachment(job.id, options.attachment);
+    this.jobs.push(job);
+    await this.save();
+    this.process();
+    return job;
+  }
+
+  /** 新しい順のジョブ一覧 */
+  list(): Job[] {
+    return [...this.jobs].reverse();
+  }
+
+  get(jobId: string): Job | null {
+    return this.jobs.find((j) => j.id === jobId) || null;
+  }
+
+  /**
+   * 失敗したジョブを試行回数をリセットして待機中に戻す
+   */
+  async retry(jobId: string): Promise<Job | null> {
+    const job = this.get(jobId);
+    if (!job || job.status !== "failed") return null;
+
+    job.status = "queued";
+    job.attempts = 0;
+    job.nextRunAt = null;
+    job.updatedAt = new Date().toISOString();
+    await this.save();
+    this.process();
+    return job;
+  }
+
+  /**
+   * 完了・失敗したジョブを一覧から削除する（添付データも削除する）。
+   * 待機中・実行中のジョブは削除できない
+   */
+  async remove(jobId: string): Promise<boolean> {
+    const job = this.get(jobId);
+    if (!job || (job.status !== "failed" && job.status !== "succeeded")) return false;
+
+    await this.discard([job]);
+    await this.save();
+    return true;
+  }
+
+  /** 実行可能なジョブがなくなるまで待つ（再試行待ちのジョブは待たない） */
+  async waitForIdle(): Promise<void> {
+    while (this.active) await this.active;
+    await this.saving;
+  }
+
+  private process(): void {
+    if (!this.started || this.active) return;
+
+    const now = Date.now();
+    const job = this.jobs.find((j) =>
+      j.status === "queued" && (!j.nextRunAt || Date.parse(j.nextRunAt) <= now)
+    );
+    if (!job) {
+      this.scheduleWakeup();
+      return;
+    }
+
+    this.active = this.execute(job).finally(() => {
+      this.active = null;
+      this.process();
+    });
+  }
+
+  /** 再試行待ちのジョブのうち最も早いものの時刻に再度 process する */
+  private scheduleWakeup(): void {
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    const waiting = this.jobs
+      .filter((j) => j.status === "queued" && j.nextRunAt)
+      .map((j) => Date.parse(j.nextRunAt!));
+    if (waiting.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...waiting) - Date.now());
+    this.timerId = setTimeout(() => {
+      this.timerId = null;
+      this.process();
+    }, delay);
+  }
+
+  private async execute(job: Job): Promise<void> {
+    job.status = "running";
+    job.attempts++;
+    job.nextRunAt = null;
+    job.updatedAt = new Date().toISOString();
+    await this.save();
+
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) throw new Error(`未対応のジョブ種別です: ${job.type}`);
+
+      job.result = await handler(job.payload, {
+        job,
+        attachment: () => this.readAttachment(job.id),
+        attachmentStream: () => this.readAttachmentStream(job.id),
+        reportProgress: (done, total) => {
+          job.progress = { done, total };
+        },
+        enqueue: (type, payload, options) => this.enqueue(type, payload, options),
+      });
+      job.status = "succeeded";
+      job.lastError = null;
+      if (job.hasAttachment) {
+        await this.removeAttachment(job.id);
+        job.hasAttachment = false;
+      }
+    } catch (error) {
+      job.lastError = error instanceof Error ? error.message : String(error);
+      if (job.attempts >= job.maxAttempts) {
+        job.status = "failed";
+      } else {
+        job.status = "queued";
+        const delay = this.retryDelayMs * 2 ** (job.attempts - 1);
+        job.nextRunAt = new Date(Date.now() + delay).toISOString();
+      }
+    }
+
+    delete job.progress;
+    job.updatedAt = new Date().toISOString();
+    await this.pruneHistory();
+    await this.save();
+  }
+
+  /**
+   * 古い完了済みジョブと失敗したジョブを削除する。失敗したジョブはアップロードしたファイルなどの
+   * 添付データを持ったままなので、件数に加えて保存期間でも削除する。削除したかを返す
+   */
+  private async pruneHistory(): Promise<boolean> {
+    const oldest = (status: JobStatus) => {
+      const jobs = this.jobs.filter((j) => j.status === status);
+      return jobs.slice(0, Math.max(0, jobs.length - this.historyLimit));
+    };
+    const expiredBefore = Date.now() - this.failedRetentionMs;
+    const expired = this.jobs.filter((j) => j.status === "failed" && Date.parse(j.updatedAt) < expiredBefore);
+    const removed = new Set([...oldest("succeeded"), ...oldest("failed"), ...expired]);
+    if (removed.size === 0) return false;
+    await this.discard([...removed]);
+    return true;
+  }
+
+  private async discard(jobs: Job[]): Promise<void> {
+    for (const job of jobs) {
+      if (job.hasAttachment) await this.removeAttachment(job.id);
+    }
+    const ids = new Set(jobs.map((j) => j.id));
+    this.jobs = this.jobs.filter((j) => !ids.has(j.id));
+  }
+
+  private get journalPath(): string | null {
+    return this.dir ? `${this.dir}/jobs.json` : null;
+  }
+
+  private attachmentPath(jobId: string): string {
+    return `${this.dir}/attachments/${jobId}`;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.journalPath) return;
+    try {
+      const journal = JSON.parse(await Deno.readTextFile(this.journalPath)) as JobJournal;
+      const restored = journal.jobs.map((job): Job => job.status === "running" ? this.interrupted(job) : job);
+      // start 前に追加されたジョブは復元したジョブの後ろに並べる
+      this.jobs = [...restored, ...this.jobs];
+    } catch {
+      // ジャーナルがなければ空のキューから始める
+    }
+  }
+
+  /**
+   * 実行中に再起動したジョブ。途中まで処理が済んでいるかもしれないため、
+   * 再試行できる回数が残っているジョブだけをもう一度実行する
+   */
+  private interrupted(job: Job): Job {
+    if (job.attempts < job.maxAttempts) return { ...job, status: "queued" };
+    return {
+      ...job,
+      status: "failed",
+      lastError: "実行中にサーバーが再起動したため中断しました",
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /** 書き込みが重ならないよう直列化し、一時ファイル経由で置き換える */
+  private save(): Promise<void> {
+    const path = this.journalPath;
+    if (!path) return Promise.resolve();
+
+    const journal: JobJournal = { jobs: this.jobs.map(({ progress: _, ...job }) => job) };
+    const json = JSON.stringify(journal, null, 2);
+    this.saving = this.saving.catch(() => {}).then(async () => {
+      await Deno.mkdir(this.dir!, { recursive: true });
+      await Deno.writeTextFile(`${path}.tmp`, json);
+      await Deno.rename(`${path}.tmp`, path);
+    });
+    return this.saving;
+  }
+
+  private async writeAttachment(
+    jobId: string,
+    data: Uint8Array | ReadableStream<Uint8Array>,
+  ): Promise<void> {
+    if (!this.dir) {
+      this.memoryAttachments.set(
+        jobId,
+        data instanceof Uint8Array ? data : new Uint8Array(await new Response(data).arrayBuffer()),
+      );
+      return;
+    }
+    await Deno.mkdir(`${this.dir}/attachments`, { recursive: true });
+    await Deno.writeFile(this.attachmentPath(jobId), data);
+  }
+
+  private async readAttachment(jobId: string): Promise<Uint8Array> {
+    if (!this.dir) {
+      const data = this.memoryAttachments.get(jobId);
+      if (!data) throw new Error("添付データが見つかりません");
+      return data;
+    }
+    return await Deno.readFile(this.attachmentPath(jobId));
+  }
+
+  private async readAttachmentStream(jobId: string): Promise<ReadableStream<Uint8Array>> {
+    if (!this.dir) {
+      const data = await this.readAttachment(jobId);
+      return new ReadableStream({
+        start(controller) {
+          controller.enqueue(data);
+          controller.close();
+        },
+      });
+    }
+    const file = await Deno.open(this.attachmentPath(jobId), { read: true });
+    return file.readable;
+  }
+
+  private async removeAttachment(jobId: string): Promise<void> {
+    if (!this.dir) {
+      this.memoryAttachments.delete(jobId);
+      return;
+    }
+    await Deno.remove(this.attachmentPath(jobId)).catch(() => {});
+  }
+}
@@ -0,0 +1,119 @@
+import { ZipReader, ZipWriteEntry, writeZip } from "./zip.ts";
+import { readEpubPackage, resolveHref } from "./epub.ts";
+
+const XHTML_MEDIA_TYPES = ["application/xhtml+xml", "text/html"];
+
+/** 段落（koboSpan の番号を振り直す単位）とみなす要素 */
+const BLOCK_TAGS = new Set([
+  "p", "h1", "h2", "h3", "h4", "h5", "h6", "li", "dt", "dd", "td", "th",
+  "blockquote", "div", "pre", "figcaption", "caption",
+]);
+/** 中の文字を span で囲まない要素（ルビは親文字とルビが分かれないようにそのまま残す） */
+const SKIP_TAGS = new Set(["script", "style", "svg", "math", "ruby"]);
+
+const TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[^>]*>|[^<]+/g;
+/** 文末（句点・終止符の後の閉じ括弧と空白までを1文に含める） */
+const SENTENCE_END = /[.!?。！？]+["'”’」』）)\]]*\s*/g;
+
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const m of text.matchAll(SENTENCE_END)) {
+    const end = m.index + m[0].length;
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) sentences.push(text.slice(start));
+  return sentences;
+}
+
+/**
+ * 本文の XHTML の文を koboSpan（id="kobo.段落.文"）で囲み、body の中身を
+ * book-columns / book-inner の div で包む。Kobo のリーダーはこの span で読書位置や
+ * ハイライトを記録し、ページ数を数える。既に KEPUB の文書ならそのまま返す
+ */
+export function addKoboSpans(xhtml: string): string {
+  if (xhtml.includes('class="koboSpan"')) return xhtml;
+  const bodyStart = /<body\b[^>]*>/i.exec(xhtml);
+  const bodyEnd = xhtml.search(/<\/body\s*>/i);
+  if (!bodyStart || bodyEnd < 0) return xhtml;
+  const start = bodyStart.index + bodyStart[0].length;
+
+  const out: string[] = [];
+  let paragraph = 0;
+  let sentence = 0;
+  let skipDepth = 0;
+  const span = (content: string) => `<span class="koboSpan" id="kobo.${paragraph}.${++sentence}">${content}</span>`;
+
+  for (const token of xhtml.slice(start, bodyEnd).match(TOKEN) || []) {
+    if (token.startsWith("<")) {
+      const tag = /^<\/?([a-zA-Z][\w:-]*)/.exec(token)?.[1].toLowerCase();
+      const closing = token.startsWith("</");
+      const selfClosing = token.endsWith("/>");
+      if (!tag) {
+        out.push(token);
+      } else if (SKIP_TAGS.has(tag)) {
+        if (closing) skipDepth = Math.max(0, skipDepth - 1);
+        else if (!selfClosing) skipDepth++;
+        out.push(token);
+      } else if (skipDepth === 0 && tag === "img") {
+        // 画像も1つの段落として位置を記録できるようにする
+        paragraph++;
+        sentence = 0;
+        out.push(span(token));
+      } else {
+        if (skipDepth === 0 && !closing && BLOCK_TAGS.has(tag)) {
+          paragraph++;
+          sentence = 0;
+        }
+        out.push(token);
+      }
+      continue;
+    }
+    if (skipDepth > 0 || !token.trim()) {
+      out.push(token);
+      continue;
+    }
+    if (paragraph === 0) paragraph = 1;
+    for (const text of splitSentences(token)) {
+      out.push(text.trim() ? span(text) : text);
+    }
+  }
+
+  return xhtml.slice(0, start) +
+    `<div id="book-columns"><div id="book-inner">${out.join("")}</div></div>` +
+    xhtml.slice(bodyEnd);
+}
+
+/**
+ * EPUB を Kobo 用の KEPUB に変換する。本文の XHTML に koboSpan を付けるだけで、
+ * それ以外のファイル（OPF・CSS・画像）はそのまま残す
+ */
+export async function convertToKepub(data: Uint8Array): Promise<Uint8Array> {
+  const zip = new ZipReader(data);
+  const epub = await readEpubPackage(zip);
+  if (!epub) throw new Error("EPUBのパッケージ文書（OPF）が見つかりません");
+
+  const contentPaths = new Set(
+    epub.manifest
+      .filter((item) => XHTML_MEDIA_TYPES.includes(item.mediaType))
+      .map((item) => resolveHref(epub.opfPath, item.href)),
+  );
+
+  // mimetype は先頭に無圧縮で置く（EPUB の規定）
+  const entries: ZipWriteEntry[] = [
+    { name: "mimetype", data: new TextEncoder().encode("application/epub+zip"), compress: false },
+  ];
+  for (const name of zip.names) {
+    if (name === "mimetype" || name.endsWith("/")) continue;
+    const content = await zip.read(name);
+    if (!content) continue;
+    entries.push({
+      name,
+      data: contentPaths.has(name)
+        ? new TextEncoder().encode(addKoboSpans(new TextDecoder().decode(content)))
+        : content,
+    });
+  }
+  return await writeZip(entries);
+}
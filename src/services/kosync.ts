@@ -0,0 +1,277 @@
+import { ByteRange, DriveFile, GoogleDriveService } from "../types.ts";
+import { BookService, getBookFormats, getConvertedFiles } from "./book.ts";
+import { DriveJsonFile, isRecord } from "./drive_json_file.ts";
+import { Md5 } from "./md5.ts";
+
+/** MyLibrary 直下に置く読書位置のファイル名 */
+export const READING_PROGRESS_FILE_NAME = "reading_progress.json";
+
+/** KOReader が文書の識別子を計算するときに読む位置（先頭と 1024 << 2i、i = 0〜10）と長さ */
+const SAMPLE_OFFSETS = [0, ...Array.from({ length: 11 }, (_, i) => 1024 << (2 * i))];
+const SAMPLE_LENGTH = 1024;
+
+/** KOReader の同期サーバー API（kosync）でやり取りする読書位置 */
+export interface ReadingProgress {
+  /** 文書の識別子（ファイルの一部の MD5） */
+  document: string;
+  /** 読んでいる位置（EPUB は XPointer、PDF はページ番号） */
+  progress: string;
+  /** 読んだ割合（0〜1） */
+  percentage: number;
+  device: string;
+  device_id: string;
+  /** 保存した時刻（UNIX 時間の秒） */
+  timestamp: number;
+}
+
+/** 書籍カードに表示する利用者ごとの読書位置 */
+export interface BookReadingProgress {
+  user: string;
+  percentage: number;
+  device: string;
+  timestamp: number;
+}
+
+export interface KosyncOptions {
+  /** KOReader からの利用者の登録を受け付ける（既定は false） */
+  registration?: boolean;
+}
+
+interface ReadingProgressData {
+  /** 利用者名 → KOReader が送るパスワードの MD5 */
+  users: Record<string, string>;
+  /** 書籍ファイルの ID → 文書の識別子 */
+  documents: Record<string, string>;
+  /** 文書の識別子 → 利用者名 → 読書位置 */
+  progress: Record<string, Record<string, Omit<ReadingProgress, "document">>>;
+}
+
+/** 文書の識別子を読む範囲（ファイルの終わりより後の位置は読まない） */
+export function documentHashRanges(size: number): ByteRange[] {
+  return SAMPLE_OFFSETS
+    .filter((offset) => offset < size)
+    .map((start) => ({ start, end: Math.min(start + SAMPLE_LENGTH, size) - 1 }));
+}
+
+/**
+ * KOReader の文書の識別子（partial MD5）。ファイル全体ではなく、
+ * documentHashRanges の位置の 1KB ずつをつなげた MD5 で大きなファイルでもすぐに計算できる
+ */
+export function documentHash(samples: Uint8Array[]): string {
+  const md5 = new Md5();
+  for (const sample of samples) md5.update(sample);
+  return md5.hex();
+}
+
+/** ファイルの内容から文書の識別子を計算する */
+export function documentHashOf(data: Uint8Array): string {
+  return documentHash(documentHashRanges(data.length).map((r) => data.subarray(r.start, r.end + 1)));
+}
+
+/** 一致しない位置で処理時間が変わらないように文字列を比べる（パスワードの照合用） */
+function timingSafeEqual(a: string, b: string): boolean {
+  const x = new TextEncoder().encode(a);
+  const y = new TextEncoder().encode(b);
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < x.length; i++) diff |= x[i] ^ (y[i] ?? 0);
+  return diff === 0;
+}
+
+/**
+ * KOReader の同期サーバー（kosync）の利用者と読書位置を MyLibrary/reading_progress.json に保存するサービス。
+ * 読書位置は文書の識別子ごとに保存し、書籍との対応は書籍ファイルの識別子を計算して照合する
+ */
+export class ReadingProgressService {
+  private file: DriveJsonFile<ReadingProgressData>;
+  /** 保存を1つずつ行う */
+  private writes: Promise<void> = Promise.resolve();
+  private indexing: Promise<void> | null = null;
+
+  constructor(
+    driveService: GoogleDriveService,
+    private bookService: BookService,
+    private options: KosyncOptions = {},
+  ) {
+    this.file = new DriveJsonFile(driveService, READING_PROGRESS_FILE_NAME, parseReadingProgress, (data) => data);
+  }
+
+  get registrationEnabled(): boolean {
+    return this.options.registration ?? false;
+  }
+
+  /** 利用者を登録する。登録済みの名前なら false */
+  async createUser(username: string, key: string): Promise<boolean> {
+    if (!username || !key) throw new Error("利用者名とパスワードを指定してください");
+    let created = false;
+    await this.update((data) => {
+      if (Object.hasOwn(data.users, username)) return false;
+      data.users[username] = key;
+      created = true;
+      return true;
+    });
+    return created;
+  }
+
+  async authorize(username: string, key: string): Promise<boolean> {
+    if (!username || !key) return false;
+    const data = await this.file.load();
+    return Object.hasOwn(data.users, username) && timingSafeEqual(data.users[username], key);
+  }
+
+  async getProgress(username: string, document: string): Promise<ReadingProgress | null> {
+    const data = await this.file.load();
+    const record = data.progress[document]?.[username];
+    if (!this.isKnownDocument(data, document)) this.startIndexing();
+    return record ? { document, ...record } : null;
+  }
+
+  /** 読書位置を保存して保存した時刻を返す。どの書籍の文書か分からなければ裏で照合する */
+  async updateProgress(username: string, progress: Omit<ReadingProgress, "timestamp">): Promise<number> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const { document, ...record } = progress;
+    let known = true;
+    await this.update((data) => {
+      data.progress[document] = { ...data.progress[document], [username]: { ...record, timestamp } };
+      known = this.isKnownDocument(data, document);
+      return true;
+    });
+    if (!known) this.startIndexing();
+    return timestamp;
+  }
+
+  /** 書籍（代表のファイル）ごとに、すべての形式・変換したファイルの読書位置を利用者ごとに最新のものにまとめる */
+  async getBooksProgress(books: DriveFile[]): Promise<Map<string, BookReadingProgress[]>> {
+    const data = await this.file.load();
+    const result = new Map<string, BookReadingProgress[]>();
+    for (const book of books) {
+      const byUser = new Map<string, BookReadingProgress>();
+      for (const fileId of bookFileIds(book)) {
+        const hash = data.documents[fileId];
+        for (const [user, record] of Object.entries((hash && data.progress[hash]) || {})) {
+          const current = byUser.get(user);
+          if (current && current.timestamp >= record.timestamp) continue;
+          byUser.set(user, {
+            user,
+            percentage: record.percentage,
+            device: record.device,
+            timestamp: record.timestamp,
+          });
+        }
+      }
+      if (byUser.size > 0) {
+        result.set(book.id, [...byUser.values()].sort((a, b) => a.user.localeCompare(b.user)));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 書籍ファイルの文書の識別子を計算して保存する。ファイルの内容は書き換えないため、
+   * 計算済みのファイルは計算し直さない。削除されたファイルの識別子は取り除く
+   */
+  async indexDocuments(): Promise<number> {
+    const known = { ...(await this.file.load()).documents };
+    const documents: Record<string, string> = {};
+    let added = 0;
+    for (const book of await this.bookService.listAllBooks()) {
+      for (const fileId of bookFileIds(book)) {
+        if (known[fileId]) {
+          documents[fileId] = known[fileId];
+          continue;
+        }
+        try {
+          const file = fileId === book.id && book.size !== undefined
+            ? book
+            : await this.bookService.getBook(fileId);
+          documents[fileId] = await this.hashFile(file);
+          added++;
+        } catch (e) {
+          console.error(`文書の識別子を計算できませんでした（${fileId}）: ${String(e)}`);
+        }
+      }
+    }
+    await this.update((data) => {
+      const changed = added > 0 || Object.keys(data.documents).length !== Object.keys(documents).length;
+      data.documents = documents;
+      return changed;
+    });
+    return added;
+  }
+
+  /** 裏で実行中の照合を待つ */
+  async waitForIndexing(): Promise<void> {
+    await this.indexing;
+  }
+
+  private startIndexing(): void {
+    if (this.indexing) return;
+    this.indexing = this.indexDocuments()
+      .then(() => {})
+      .catch((e) => console.error(`KOReader の文書と書籍の照合に失敗しました: ${String(e)}`))
+      .finally(() => {
+        this.indexing = null;
+      });
+  }
+
+  private isKnownDocument(data: ReadingProgressData, document: string): boolean {
+    return Object.values(data.documents).includes(document);
+  }
+
+  private async hashFile(file: DriveFile): Promise<string> {
+    const samples: Uint8Array[] = [];
+    for (const range of documentHashRanges(Number(file.size ?? 0))) {
+      const stream = await this.bookService.openBookStream(file, range);
+      samples.push(new Uint8Array(await new Response(stream).arrayBuffer()));
+    }
+    return documentHash(samples);
+  }
+
+  /** 読み込んだ内容を書き換えて保存する（fn が false を返せば保存しない） */
+  private update(fn: (data: ReadingProgressData) => boolean): Promise<void> {
+    const write = this.writes.catch(() => {}).then(async () => {
+      const data = await this.file.load();
+      if (fn(data)) await this.file.save(data);
+    });
+    this.writes = write;
+    return write;
+  }
+}
+
+/** 書籍のすべての形式と変換したファイルの ID */
+function bookFileIds(book: DriveFile): string[] {
+  return [...getBookFormats(book).map((f) => f.fileId), ...getConvertedFiles(book).values()];
+}
+
+function stringRecord(value: unknown): Record<string, string> {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+  );
+}
+
+/** 読書位置のファイルを読む。手で編集して形式が崩れた項目は読み飛ばす */
+function parseReadingProgress(data: unknown): ReadingProgressData {
+  const result: ReadingProgressData = {
+    users: stringRecord(isRecord(data) ? data.users : null),
+    documents: stringRecord(isRecord(data) ? data.documents : null),
+    progress: {},
+  };
+  const progress = isRecord(data) && isRecord(data.progress) ? data.progress : {};
+  for (const [document, byUser] of Object.entries(progress)) {
+    if (!isRecord(byUser)) continue;
+    for (const [user, record] of Object.entries(byUser)) {
+      if (!isRecord(record) || typeof record.percentage !== "number") continue;
+      result.progress[document] = {
+        ...result.progress[document],
+        [user]: {
+          progress: String(record.progress ?? ""),
+          percentage: record.percentage,
+          device: String(record.device ?? ""),
+          device_id: String(record.device_id ?? ""),
+          timestamp: Number(record.timestamp) || 0,
+        },
+      };
+    }
+  }
+  return result;
+}
@@ -0,0 +1,110 @@
+import { authorNames, getContributors, getPrimaryAuthor } from "./contributors.ts";
+
+/** フォルダ構成の既定値（MyLibrary/<筆頭著者>/） */
+export const DEFAULT_FOLDER_TEMPLATE = "{author}";
+/** ファイル名の既定値（拡張子は自動で付く） */
+export const DEFAULT_FILE_NAME_TEMPLATE = "[{authors}] {title}";
+
+/** テンプレートで使える項目と、書籍のプロパティからの値の取り出し方 */
+const TOKENS: Record<string, (p: Record<string, string>) => string> = {
+  author: (p) => getPrimaryAuthor(getContributors(p)),
+  authors: (p) => authorNames(getContributors(p)).join("、"),
+  title: (p) => p.title || "",
+  series: (p) => p.series || "",
+  series_index: (p) => p.series_index || "",
+  publisher: (p) => p.publisher || "",
+  year: (p) => (p.published_date || "").match(/^\d{4}/)?.[0] || "",
+  isbn: (p) => p.isbn || "",
+};
+
+const TOKEN_PATTERN = /\{([a-z_]+)\}/g;
+/** Drive の同期クライアント（Windows・macOS）でファイル名に使えない文字と制御文字 */
+// deno-lint-ignore no-control-regex
+const UNSAFE_CHARS = /[\\/:*?"<>|\x00-\x1f\x7f]/g;
+/** 1つのフォルダ名・ファイル名の長さの上限（文字数）。Windows のパス長の制限に余裕を持たせる */
+const MAX_SEGMENT_LENGTH = 120;
+/** 値が空になったフォルダの代わりに使う名前 */
+const UNKNOWN_FOLDER_NAME = "不明";
+
+export interface LibraryLayoutOptions {
+  /** フォルダ構成のテンプレート。`/` で階層を区切る（例: `{author}/{series}`） */
+  folderTemplate?: string;
+  /** ファイル名のテンプレート（拡張子を除く） */
+  fileNameTemplate?: string;
+}
+
+/** テンプレートに含まれる未知の項目を返す */
+export function findUnknownTokens(template: string): string[] {
+  return [...template.matchAll(TOKEN_PATTERN)]
+    .map((m) => m[1])
+    .filter((token) => !Object.hasOwn(TOKENS, token));
+}
+
+/**
+ * フォルダ名・ファイル名として使えるように整える。使えない文字は `_` に置き換え、
+ * 空白をまとめ、先頭の `.`（隠しファイル扱い）と末尾の `.`・空白（Windows で使えない）を取り除く
+ */
+export function sanitizePathSegment(value: string): string {
+  const sanitized = value
+    .replace(UNSAFE_CHARS, "_")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "");
+  return [...sanitized].slice(0, MAX_SEGMENT_LENGTH).join("").replace(/[.\s]+$/, "");
+}
+
+/**
+ * テンプレートの項目を値で置き換える。値が空の項目を囲む括弧（`[]` `()` `（）`）と、
+ * 先頭・末尾に残った区切り記号（` - ` など）は取り除く
+ */
+function render(template: string, properties: Record<string, string>): string {
+  return template
+    .replace(TOKEN_PATTERN, (_, token: string) => TOKENS[token](properties).replace(/[{}]/g, ""))
+    .replace(/\[\s*\]|\(\s*\)|（\s*）/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s\-_]+|[\s\-_]+$/g, "");
+}
+
+/**
+ * 書籍のフォルダ構成とファイル名をテンプレートから決める
+ */
+export class LibraryLayout {
+  readonly folderTemplate: string;
+  readonly fileNameTemplate: string;
+
+  constructor(options: LibraryLayoutOptions = {}) {
+    this.folderTemplate = options.folderTemplate?.trim() || DEFAULT_FOLDER_TEMPLATE;
+    this.fileNameTemplate = options.fileNameTemplate?.trim() || DEFAULT_FILE_NAME_TEMPLATE;
+    const unknown = [
+      ...findUnknownTokens(this.folderTemplate),
+      ...findUnknownTokens(this.fileNameTemplate),
+    ];
+    if (unknown.length > 0) {
+      throw new Error(`テンプレートに使えない項目があります: ${unknown.map((t) => `{${t}}`).join(", ")}`);
+    }
+  }
+
+  /** MyLibrary からのフォルダの階層。値が空になった階層は省く（すべて空なら「不明」） */
+  folderPath(properties: Record<string, string>): string[] {
+    const segments = this.folderTemplate
+      .split("/")
+      .map((segment) => sanitizePathSegment(render(segment, properties)))
+      .filter((segment) => segment);
+    return segments.length > 0 ? segments : [UNKNOWN_FOLDER_NAME];
+  }
+
+  /** 拡張子つきのファイル名 */
+  fileName(properties: Record<string, string>, extension: string): string {
+    const base = sanitizePathSegment(render(this.fileNameTemplate, properties)) ||
+      sanitizePathSegment(properties.title || "") || UNKNOWN_FOLDER_NAME;
+    return `${base}.${extension}`;
+  }
+}
+
+/** 環境変数 FOLDER_TEMPLATE・FILE_NAME_TEMPLATE からテンプレートを読む（未設定なら既定値） */
+export function libraryLayoutFromEnv(): LibraryLayout {
+  return new LibraryLayout({
+    folderTemplate: Deno.env.get("FOLDER_TEMPLATE"),
+    fileNameTemplate: Deno.env.get("FILE_NAME_TEMPLATE"),
+  });
+}
@@ -0,0 +1,373 @@
+/**
+ * メール送信（MIME メッセージの組み立てと SMTP クライアント）
+ */
+
+export interface MailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  attachments: MailAttachment[];
+}
+
+/** メールの送信方法。テストでは mail_mock.ts の MockMailTransport に差し替える */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const CRLF = "\r\n";
+/** Base64 の1行の文字数（RFC 2045 の上限） */
+const BASE64_LINE_LENGTH = 76;
+/** エンコードされた単語1つに入れる UTF-8 のバイト数（Base64 で60文字、前後を含めて75文字以内） */
+const ENCODED_WORD_BYTES = 45;
+
+const encoder = new TextEncoder();
+
+export function encodeBase64(data: Uint8Array): string {
+  const parts: string[] = [];
+  // 3の倍数で区切ると連結しても途中に = が入らない
+  const chunkSize = 3 * 0x2000;
+  for (let i = 0; i < data.length; i += chunkSize) {
+    parts.push(btoa(String.fromCharCode(...data.subarray(i, i + chunkSize))));
+  }
+  return parts.join("");
+}
+
+function wrapBase64(data: Uint8Array): string {
+  const base64 = encodeBase64(data);
+  const lines: string[] = [];
+  for (let i = 0; i < base64.length; i += BASE64_LINE_LENGTH) {
+    lines.push(base64.slice(i, i + BASE64_LINE_LENGTH));
+  }
+  return lines.join(CRLF);
+}
+
+/** ヘッダー・本文・区切りなど、添付ファイル以外の部分の大きさの見積もり（件名やファイル名が長くても収まる値） */
+const MESSAGE_OVERHEAD_BYTES = 8 * 1024;
+
+/**
+ * 添付ファイルを buildMimeMessage で送るときのメール全体の大きさの見積もり。
+ * Base64 で約4/3倍になり、76文字ごとに改行が入る
+ */
+export function estimateMessageSize(attachmentBytes: number): number {
+  const encoded = Math.ceil(attachmentBytes / 3) * 4;
+  return encoded + Math.ceil(encoded / BASE64_LINE_LENGTH) * CRLF.length + MESSAGE_OVERHEAD_BYTES;
+}
+
+/** メール全体の大きさが messageBytes に収まる添付ファイルのおよその上限（estimateMessageSize の逆算） */
+export function maxAttachmentSize(messageBytes: number): number {
+  const encoded = (messageBytes - MESSAGE_OVERHEAD_BYTES) * BASE64_LINE_LENGTH / (BASE64_LINE_LENGTH + CRLF.length);
+  return Math.max(0, Math.floor(encoded / 4) * 3);
+}
+
+/**
+ * ヘッダーの値を RFC 2047 のエンコードされた単語にする（ASCII だけならそのまま）。
+ * 文字の途中で切れないように、UTF-8 で45バイトごとに単語を分ける
+ */
+export function encodeHeaderWord(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) return text;
+  const words: string[] = [];
+  let current = "";
+  for (const char of text) {
+    if (encoder.encode(current + char).length > ENCODED_WORD_BYTES) {
+      words.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  if (current) words.push(current);
+  return words.map((word) => `=?UTF-8?B?${encodeBase64(encoder.encode(word))}?=`).join(CRLF + " ");
+}
+
+/** 添付ファイルのファイル名。RFC 2231 の filename* と、古いメーラー向けの RFC 2047 の filename を併記する */
+function filenameParameters(filename: string): string {
+  const quoted = encodeHeaderWord(filename).replace(/["\\]/g, "\\$&");
+  if (/^[\x20-\x7e]*$/.test(filename)) return `filename="${quoted}"`;
+  const extended = encodeURIComponent(filename).replace(/['()*]/g, (c) =>
+    `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `filename="${quoted}";${CRLF} filename*=UTF-8''${extended}`;
+}
+
+/** メールアドレスの部分（`名前 <addr>` なら addr）を取り出す */
+export function mailAddress(value: string): string {
+  return (value.match(/<([^>]*)>/)?.[1] ?? value).trim();
+}
+
+/** メールアドレスとして最低限の形式か（空白や改行を含まず @ の前後がある） */
+export function isValidMailAddress(value: string): boolean {
+  return /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(value);
+}
+
+/** 添付ファイル付きのメールを multipart/mixed の MIME メッセージにする */
+export function buildMimeMessage(
+  message: MailMessage,
+  options: { date?: Date; boundary?: string } = {},
+): string {
+  const date = options.date ?? new Date();
+  const boundary = options.boundary ?? `=_book_${crypto.randomUUID().replaceAll("-", "")}`;
+  const domain = mailAddress(message.from).split("@")[1] || "localhost";
+
+  const lines = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeaderWord(message.subject)}`,
+    `Date: ${date.toUTCString().replace("GMT", "+0000")}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(encoder.encode(message.text)),
+  ];
+  for (const attachment of message.attachments) {
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}`,
+      "Content-Transfer-Encoding: base64",
+      `Content-Disposition: attachment;${CRLF} ${filenameParameters(attachment.filename)}`,
+      "",
+      wrapBase64(attachment.content),
+    );
+  }
+  lines.push(`--${boundary}--`, "");
+  return lines.join(CRLF);
+}
+
+export interface SmtpTransportOptions {
+  host: string;
+  /** 省略時は secure なら465、そうでなければ587 */
+  port?: number;
+  /** 接続時から TLS を使う（465番ポート）。false でもサーバーが STARTTLS に対応していれば TLS に切り替える */
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  /** 応答を待つ時間（ミリ秒） */
+  timeoutMs?: number;
+  /** EHLO で名乗るホスト名 */
+  clientName?: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+type SmtpConn = Deno.TcpConn | Deno.TlsConn;
+
+/** 1通ごとに接続して送信する SMTP クライアント */
+export class SmtpTransport implements MailTransport {
+  private port: number;
+  private timeoutMs: number;
+
+  constructor(private options: SmtpTransportOptions) {
+    this.port = options.port ?? (options.secure ? 465 : 587);
+    this.timeoutMs = options.timeoutMs ?? 60 * 1000;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const data = encoder.encode(dotStuff(buildMimeMessage(message)));
+    const { host, secure } = this.options;
+    const timeoutMessage = `SMTPサーバー（${host}:${this.port}）が応答しません`;
+    const connect: Promise<SmtpConn> = secure
+      ? Deno.connectTls({ hostname: host, port: this.port })
+      : Deno.connect({ hostname: host, port: this.port });
+    const session = new SmtpSession(
+      await withTimeout(connect, this.timeoutMs, timeoutMessage),
+      this.timeoutMs,
+      timeoutMessage,
+    );
+    try {
+      await session.expect(null, [220]);
+      let extensions = await this.hello(session);
+      if (!secure && extensions.has("STARTTLS")) {
+        await session.expect("STARTTLS", [220]);
+        await session.startTls(host);
+        extensions = await this.hello(session);
+      }
+      if (this.options.username) await this.authenticate(session, extensions);
+
+      const maxSize = Number(extensions.get("SIZE"));
+      if (maxSize > 0 && data.length > maxSize) {
+        throw new Error(
+          `メールが大きすぎるため送信できません（${formatMegabytes(data.length)}、SMTPサーバーの上限は${
+            formatMegabytes(maxSize)
+          }）`,
+        );
+      }
+      const size = extensions.has("SIZE") ? ` SIZE=${data.length}` : "";
+      await session.expect(`MAIL FROM:<${mailAddress(message.from)}>${size}`, [250]);
+      await session.expect(`RCPT TO:<${mailAddress(message.to)}>`, [250, 251]);
+      await session.expect("DATA", [354]);
+      await session.write(data);
+      await session.expect(".", [250], "DATA");
+      await session.expect("QUIT", [221]).catch(() => {});
+    } finally {
+      session.close();
+    }
+  }
+
+  /** EHLO の応答から拡張機能（キーワード → パラメーター）を読む */
+  private async hello(session: SmtpSession): Promise<Map<string, string>> {
+    const response = await session.expect(`EHLO ${this.options.clientName || "localhost"}`, [250]);
+    const extensions = new Map<string, string>();
+    for (const line of response.lines.slice(1)) {
+      const [keyword, ...params] = line.trim().split(/\s+/);
+      extensions.set(keyword.toUpperCase(), params.join(" "));
+    }
+    return extensions;
+  }
+
+  private async authenticate(session: SmtpSession, extensions: Map<string, string>): Promise<void> {
+    const { username = "", password = "" } = this.options;
+    const mechanisms = (extensions.get("AUTH") || "").toUpperCase().split(/\s+/);
+    if (mechanisms.includes("PLAIN")) {
+      const credentials = encodeBase64(encoder.encode(`\0${username}\0${password}`));
+      await session.expect(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+    } else if (mechanisms.includes("LOGIN")) {
+      await session.expect("AUTH LOGIN", [334]);
+      await session.expect(encodeBase64(encoder.encode(username)), [334], "AUTH");
+      await session.expect(encodeBase64(encoder.encode(password)), [235], "AUTH");
+    } else {
+      throw new Error("SMTPサーバーが対応している認証方式（PLAIN / LOGIN）がありません");
+    }
+  }
+}
+
+/** 応答を1行ずつ読みながらコマンドを送る SMTP のセッション */
+class SmtpSession {
+  private buffer = "";
+  private decoder = new TextDecoder();
+  private closed = false;
+
+  constructor(
+    private conn: SmtpConn,
+    private timeoutMs: number,
+    private timeoutMessage: string,
+  ) {}
+
+  /** コマンドを送り（null なら送らずに）応答を読む。想定外の応答コードはエラーにする */
+  async expect(command: string | null, codes: number[], label?: string): Promise<SmtpResponse> {
+    if (command !== null) await this.write(encoder.encode(command + CRLF));
+    const response = await this.timed(this.readResponse());
+    if (!codes.includes(response.code)) {
+      // 認証情報を含むコマンドはエラーメッセージに出さない（label で置き換える）
+      const shown = label ?? command?.split(/[\s:]/)[0] ?? "接続";
+      throw new Error(
+        `SMTPサーバーがエラーを返しました（${shown}）: ${response.code} ${response.lines.join(" ")}`,
+      );
+    }
+    return response;
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    let written = 0;
+    while (written < data.length) {
+      written += await this.timed(this.conn.write(data.subarray(written)));
+    }
+  }
+
+  /** STARTTLS の応答の後で接続を TLS に切り替える */
+  async startTls(hostname: string): Promise<void> {
+    this.conn = await this.timed(Deno.startTls(this.conn as Deno.TcpConn, { hostname }));
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    try {
+      this.conn.close();
+    } catch {
+      // 既に閉じている
+    }
+  }
+
+  /** 応答がなければ接続を閉じてエラーにする */
+  private timed<T>(promise: Promise<T>): Promise<T> {
+    return withTimeout(promise, this.timeoutMs, this.timeoutMessage, () => this.close());
+  }
+
+  /** 複数行の応答（`250-...` が続き `250 ...` で終わる）を読む */
+  private async readResponse(): Promise<SmtpResponse> {
+    const lines: string[] = [];
+    while (true) {
+      const line = await this.readLine();
+      const code = Number(line.slice(0, 3));
+      if (!Number.isInteger(code) || code < 200) {
+        throw new Error(`SMTPサーバーの応答を読めません: ${line}`);
+      }
+      lines.push(line.slice(4));
+      if (line[3] !== "-") return { code, lines };
+    }
+  }
+
+  private async readLine(): Promise<string> {
+    const chunk = new Uint8Array(4096);
+    while (true) {
+      const end = this.buffer.indexOf("\n");
+      if (end >= 0) {
+        const line = this.buffer.slice(0, end).replace(/\r$/, "");
+        this.buffer = this.buffer.slice(end + 1);
+        return line;
+      }
+      const n = await this.conn.read(chunk);
+      if (n === null) throw new Error("SMTPサーバーとの接続が切れました");
+      this.buffer += this.decoder.decode(chunk.subarray(0, n), { stream: true });
+    }
+  }
+}
+
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  message: string,
+  onTimeout?: () => void,
+): Promise<T> {
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timerId = setTimeout(() => {
+      onTimeout?.();
+      reject(new Error(message));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timerId);
+  }
+}
+
+/** 本文中の . で始まる行を .. にし、終わりの印（. だけの行）と区別する */
+function dotStuff(message: string): string {
+  return message.replace(/(^|\r\n)\./g, "$1..");
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+/**
+ * 環境変数 SMTP_HOST・SMTP_PORT・SMTP_SECURE・SMTP_USER・SMTP_PASSWORD から SMTP の設定を読む。
+ * SMTP_HOST が未設定なら null（メール送信は無効）
+ */
+export function smtpTransportFromEnv(): SmtpTransport | null {
+  const host = Deno.env.get("SMTP_HOST");
+  if (!host) return null;
+  const port = Deno.env.get("SMTP_PORT");
+  return new SmtpTransport({
+    host,
+    port: port ? parseInt(port) : undefined,
+    secure: Deno.env.get("SMTP_SECURE") === "true",
+    username: Deno.env.get("SMTP_USER") || undefined,
+    password: Deno.env.get("SMTP_PASSWORD") || undefined,
+  });
+}
@@ -0,0 +1,13 @@
+import { MailMessage, MailTransport } from "./mail.ts";
+
+/** 送信したメールを記録するだけのメール送信（テスト・開発用） */
+export class MockMailTransport implements MailTransport {
+  sent: MailMessage[] = [];
+  shouldFail = false;
+
+  async send(message: MailMessage): Promise<void> {
+    await Promise.resolve();
+    if (this.shouldFail) throw new Error("SMTP error");
+    this.sent.push(message);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * MD5（RFC 1321）。Web Crypto API にないため自前で計算する。
+ * KOReader の文書の識別子（ファイルの一部の MD5）の計算に使う
+ */
+
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+/** データを少しずつ加えて MD5 を計算する */
+export class Md5 {
+  private state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+
+  update(data: Uint8Array): this {
+    this.totalLength += data.length;
+    let offset = 0;
+    while (offset < data.length) {
+      const n = Math.min(64 - this.blockLength, data.length - offset);
+      this.block.set(data.subarray(offset, offset + n), this.blockLength);
+      this.blockLength += n;
+      offset += n;
+      if (this.blockLength === 64) {
+        this.transform(this.block);
+        this.blockLength = 0;
+      }
+    }
+    return this;
+  }
+
+  /** 16進数の小文字で返す（呼んだ後は update できない） */
+  hex(): string {
+    const bitLength = this.totalLength * 8;
+    const padding = new Uint8Array((this.blockLength < 56 ? 56 : 120) - this.blockLength + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, bitLength >>> 0, true);
+    view.setUint32(padding.length - 4, Math.floor(bitLength / 2 ** 32), true);
+    this.update(padding);
+
+    const digest = new Uint8Array(16);
+    const out = new DataView(digest.buffer);
+    this.state.forEach((word, i) => out.setUint32(i * 4, word, true));
+    return [...digest].map((b) => b.toString(16).padStart(2, "0")).join("");
+  }
+
+  private transform(block: Uint8Array): void {
+    const view = new DataView(block.buffer, block.byteOffset, 64);
+    const words = Array.from({ length: 16 }, (_, i) => view.getUint32(i * 4, true));
+    let [a, b, c, d] = this.state;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + CONSTANTS[i] + words[g]) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) >>> 0;
+    }
+
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+  }
+}
+
+export function md5(data: Uint8Array | string): string {
+  return new Md5().update(typeof data === "string" ? new TextEncoder().encode(data) : data).hex();
+}
@@ -1,4 +1,22 @@
-import { BookMetadata, BookMetadataService } from "../types.ts";
+import { BookMetadata, BookMetadataService, Contributor } from "../types.ts";
+import { formatContributors, roleFromCode } from "./contributors.ts";
+
+/**
+ * openBD の ONIX から著者の一覧を読む。役割が著者・訳者・イラストレーター・編者以外の人は含めない
+ */
+// deno-lint-ignore no-explicit-any
+function parseOnixContributors(onix: any): Contributor[] {
+  const entries = onix?.DescriptiveDetail?.Contributor;
+  if (!Array.isArray(entries)) return [];
+  const contributors: Contributor[] = [];
+  for (const entry of entries) {
+    const name = String(entry?.PersonName?.content || "").trim();
+    const roles: string[] = Array.isArray(entry?.ContributorRole) ? entry.ContributorRole : [];
+    const role = roles.map((code) => roleFromCode(code)).find((r) => r !== null);
+    if (name && role) contributors.push({ name, role });
+  }
+  return contributors;
+}
 
 export class OpenBDService implements BookMetadataService {
   async fetchByIsbn(isbn: string): Promise<BookMetadata | null> {
@@ -13,10 +31,12 @@ export class OpenBDService implements BookMetadataService {
       const summary = book.summary;
       if (!summary || !summary.title) return null;
 
+      const contributors = parseOnixContributors(book.onix);
       return {
         isbn: summary.isbn || isbn,
         title: summary.title || "",
-        authors: summary.author || "",
+        authors: contributors.length > 0 ? formatContributors(contributors) : summary.author || "",
+        ...(contributors.length > 0 ? { contributors } : {}),
         publisher: summary.publisher || "",
         publishedDate: summary.pubdate || "",
         description: book.onix?.CollateralDetail?.TextContent?.[0]?.Text || "",
@@ -40,10 +60,13 @@ export class GoogleBooksService implements BookMetadataService {
       if (!data.items || data.items.length === 0) return null;
 
       const volumeInfo = data.items[0].volumeInfo;
+      const contributors: Contributor[] = (volumeInfo.authors || [])
+        .map((name: string) => ({ name, role: "author" }));
       return {
         isbn: isbn,
         title: volumeInfo.title || "",
-        authors: (volumeInfo.authors || []).join("-"),
+        authors: formatContributors(contributors),
+        contributors,
         publisher: volumeInfo.publisher || "",
         publishedDate: volumeInfo.publishedDate || "",
         description: volumeInfo.description || "",
@@ -88,10 +111,12 @@ export class CompositeMetadataService implements BookMetadataService {
   }
 
   private merge(primary: BookMetadata, secondary: BookMetadata): BookMetadata {
+    const authorSource = primary.authors ? primary : secondary;
     return {
       isbn: primary.isbn,
       title: primary.title,
-      authors: primary.authors || secondary.authors,
+      authors: authorSource.authors,
+      ...(authorSource.contributors ? { contributors: authorSource.contributors } : {}),
       publisher: primary.publisher || secondary.publisher,
       publishedDate: primary.publishedDate || secondary.publishedDate,
       description: primary.description || secondary.description,
@@ -0,0 +1,120 @@
+import { BookFileInspection, BookMetadata, Contributor } from "../types.ts";
+import { detectImageType } from "./image.ts";
+import { formatContributors } from "./contributors.ts";
+import { decodeXmlEntities } from "./epub.ts";
+
+/** EXTH レコードの種類 */
+const EXTH = {
+  author: 100,
+  publisher: 101,
+  description: 103,
+  isbn: 104,
+  publishedDate: 106,
+  coverOffset: 201,
+  updatedTitle: 503,
+} as const;
+
+/** 画像レコードの番号として無効な値 */
+const NO_INDEX = 0xffffffff;
+
+interface MobiHeader {
+  title: string;
+  encoding: string;
+  firstImageIndex: number;
+  exth: Map<number, Uint8Array[]>;
+}
+
+/**
+ * Palm Database のレコードの開始位置の一覧を読む
+ */
+function readRecordOffsets(view: DataView): number[] {
+  const count = view.getUint16(76);
+  const offsets: number[] = [];
+  for (let i = 0; i < count; i++) offsets.push(view.getUint32(78 + i * 8));
+  return offsets;
+}
+
+/**
+ * 先頭レコードの MOBI ヘッダと EXTH（拡張ヘッダ）を読む
+ */
+function readMobiHeader(data: Uint8Array, view: DataView, record0: number): MobiHeader | null {
+  const ascii = (start: number, length: number) =>
+    String.fromCharCode(...data.subarray(start, start + length));
+  if (ascii(record0 + 16, 4) !== "MOBI") return null;
+
+  const headerLength = view.getUint32(record0 + 20);
+  const encoding = view.getUint32(record0 + 28) === 65001 ? "utf-8" : "windows-1252";
+  const decoder = new TextDecoder(encoding);
+  const titleOffset = view.getUint32(record0 + 84);
+  const titleLength = view.getUint32(record0 + 88);
+  const title = decoder.decode(data.subarray(record0 + titleOffset, record0 + titleOffset + titleLength));
+  const firstImageIndex = view.getUint32(record0 + 108);
+
+  const exth = new Map<number, Uint8Array[]>();
+  const hasExth = (view.getUint32(record0 + 128) & 0x40) !== 0;
+  const exthStart = record0 + 16 + headerLength;
+  if (hasExth && ascii(exthStart, 4) === "EXTH") {
+    const count = view.getUint32(exthStart + 8);
+    let pos = exthStart + 12;
+    for (let i = 0; i < count && pos + 8 <= data.length; i++) {
+      const type = view.getUint32(pos);
+      const length = view.getUint32(pos + 4);
+      if (length < 8) break;
+      exth.set(type, [...(exth.get(type) || []), data.subarray(pos + 8, pos + length)]);
+      pos += length;
+    }
+  }
+  return { title, encoding, firstImageIndex, exth };
+}
+
+/**
+ * MOBI・AZW・AZW3 の EXTH から書誌情報と表紙画像を取り出す。
+ * MOBI として読めない場合は null を返す。
+ */
+export function inspectMobi(data: Uint8Array): Promise<BookFileInspection | null> {
+  try {
+    return Promise.resolve(readMobi(data));
+  } catch {
+    return Promise.resolve(null);
+  }
+}
+
+function readMobi(data: Uint8Array): BookFileInspection | null {
+  if (data.length < 86 || String.fromCharCode(...data.subarray(60, 68)) !== "BOOKMOBI") return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const offsets = readRecordOffsets(view);
+  if (offsets.length === 0) return null;
+  const header = readMobiHeader(data, view, offsets[0]);
+  if (!header) return null;
+
+  const decoder = new TextDecoder(header.encoding);
+  const texts = (type: number) =>
+    (header.exth.get(type) || []).map((value) => decoder.decode(value).trim()).filter((v) => v);
+  const text = (type: number) => texts(type)[0] || "";
+
+  // EXTH の contributor（108）は作成ツールの名前が入るため使わない
+  const contributors: Contributor[] = texts(EXTH.author).map((name) => ({ name, role: "author" }));
+  const metadata: Partial<BookMetadata> = {
+    title: text(EXTH.updatedTitle) || header.title.trim(),
+    authors: formatContributors(contributors),
+    contributors,
+    publisher: text(EXTH.publisher),
+    // 日付は T 以降を除く
+    publishedDate: text(EXTH.publishedDate).split("T")[0],
+    description: decodeXmlEntities(text(EXTH.description).replace(/<[^>]+>/g, "")).trim(),
+    isbn: text(EXTH.isbn).replace(/[^0-9Xx]/g, ""),
+  };
+
+  const inspection: BookFileInspection = { metadata };
+  const coverOffset = header.exth.get(EXTH.coverOffset)?.[0];
+  if (coverOffset?.length === 4 && header.firstImageIndex !== NO_INDEX) {
+    const index = header.firstImageIndex + new DataView(coverOffset.buffer, coverOffset.byteOffset).getUint32(0);
+    if (index < offsets.length) {
+      const end = index + 1 < offsets.length ? offsets[index + 1] : data.length;
+      const image = data.slice(offsets[index], end);
+      const mimeType = detectImageType(image);
+      if (mimeType) inspection.cover = { data: image, mimeType };
+    }
+  }
+  return inspection;
+}
@@ -0,0 +1,342 @@
+import { BookFileInspection, BookMetadata } from "../types.ts";
+import { ZipReader } from "./zip.ts";
+import { getAttribute, inspectEpub, readEpubPackage, resolveHref } from "./epub.ts";
+import { authorNames, parseContributors } from "./contributors.ts";
+import { detectImageType } from "./image.ts";
+
+/** 本文のレコード1つ分のバイト数 */
+const RECORD_SIZE = 4096;
+const MOBI_HEADER_LENGTH = 232;
+const MOBI_TYPE_BOOK = 2;
+const ENCODING_UTF8 = 65001;
+const MOBI_VERSION = 6;
+const NO_INDEX = 0xffffffff;
+const EXTH_FLAG = 0x40;
+/** 本文のレコードの末尾に、次のレコードにまたがる文字の続きのバイトを付ける */
+const EXTRA_DATA_MULTIBYTE = 0x1;
+/** MOBI 6 のリーダーが表示できる画像（WebP・SVG は載せない） */
+const KINDLE_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif"];
+
+const FLIS_RECORD = new Uint8Array([
+  0x46, 0x4c, 0x49, 0x53, 0, 0, 0, 8, 0, 0x41, 0, 0, 0, 0, 0, 0,
+  0xff, 0xff, 0xff, 0xff, 0, 1, 0, 3, 0, 0, 0, 3, 0, 0, 0, 1,
+  0xff, 0xff, 0xff, 0xff,
+]);
+const EOF_RECORD = new Uint8Array([0xe9, 0x8e, 0x0d, 0x0a]);
+
+const encoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+/**
+ * 1つにつなげた本文の HTML。ファイル間のリンクは本文の先頭からのバイト位置（filepos）で表すため、
+ * 書き出しながら id の位置を記録し、リンクの桁は最後に埋める
+ */
+class MobiText {
+  private pieces: Uint8Array[] = [];
+  private length = 0;
+  private anchors = new Map<string, number>();
+  private links: { position: number; target: string }[] = [];
+
+  append(text: string): void {
+    const bytes = encoder.encode(text);
+    this.pieces.push(bytes);
+    this.length += bytes.length;
+  }
+
+  anchor(key: string): void {
+    if (!this.anchors.has(key)) this.anchors.set(key, this.length);
+  }
+
+  /** filepos 属性を書き、リンク先の位置は toBytes で埋める */
+  link(target: string): void {
+    this.append("filepos=");
+    this.links.push({ position: this.length, target });
+    this.append("0000000000");
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    const bytes = concat(this.pieces);
+    for (const { position, target } of this.links) {
+      // id が見つからなければそのファイルの先頭へ
+      const offset = this.anchors.get(target) ?? this.anchors.get(target.split("#")[0]) ?? 0;
+      bytes.set(encoder.encode(String(offset).padStart(10, "0")), position);
+    }
+    return bytes;
+  }
+}
+
+/**
+ * 本文を4096バイトずつのレコードに分ける。レコードの境目にかかった文字は続きのバイトを
+ * レコードの後ろに付け、最後の1バイトにその長さを書く（extra data flags の bit 0）
+ */
+function splitTextRecords(text: Uint8Array): Uint8Array[] {
+  const records: Uint8Array[] = [];
+  for (let pos = 0; pos < text.length; pos += RECORD_SIZE) {
+    const end = Math.min(pos + RECORD_SIZE, text.length);
+    let overlap = 0;
+    if (end < text.length) {
+      let lead = end - 1;
+      while (lead > pos && (text[lead] & 0xc0) === 0x80) lead--;
+      const first = text[lead];
+      const charLength = first >= 0xf0 ? 4 : first >= 0xe0 ? 3 : first >= 0xc0 ? 2 : 1;
+      overlap = Math.max(0, lead + charLength - end);
+    }
+    const record = new Uint8Array(end - pos + overlap + 1);
+    record.set(text.subarray(pos, end + overlap));
+    record[record.length - 1] = overlap;
+    records.push(record);
+  }
+  return records;
+}
+
+function buildExth(metadata: Partial<BookMetadata>, coverOffset: number | null): Uint8Array {
+  const records: [number, Uint8Array][] = [];
+  const text = (type: number, value: string | undefined) => {
+    if (value?.trim()) records.push([type, encoder.encode(value.trim())]);
+  };
+  const contributors = metadata.contributors ?? parseContributors(metadata.authors || "");
+  for (const name of authorNames(contributors)) text(100, name);
+  text(101, metadata.publisher);
+  text(103, metadata.description);
+  text(104, metadata.isbn);
+  text(106, metadata.publishedDate);
+  if (coverOffset !== null) records.push([201, uint32(coverOffset)]);
+  // 端末の「本」の一覧に出す
+  text(501, "EBOK");
+  text(503, metadata.title);
+
+  const body = concat(records.map(([type, data]) => concat([uint32(type), uint32(8 + data.length), data])));
+  const exth = concat([encoder.encode("EXTH"), uint32(12 + body.length), uint32(records.length), body]);
+  // EXTH の後ろは4バイト境界にそろえる
+  return concat([exth, new Uint8Array((4 - exth.length % 4) % 4)]);
+}
+
+function buildRecord0(
+  metadata: Partial<BookMetadata>,
+  textLength: number,
+  textRecordCount: number,
+  imageCount: number,
+  coverOffset: number | null,
+): Uint8Array {
+  const exth = buildExth(metadata, coverOffset);
+  const title = encoder.encode(metadata.title || "");
+  const header = new Uint8Array(16 + MOBI_HEADER_LENGTH);
+  const view = new DataView(header.buffer);
+
+  // PalmDOC ヘッダ（無圧縮）
+  view.setUint16(0, 1);
+  view.setUint32(4, textLength);
+  view.setUint16(8, textRecordCount);
+  view.setUint16(10, RECORD_SIZE);
+
+  const firstImage = textRecordCount + 1;
+  const lastContent = textRecordCount + imageCount;
+  header.set(encoder.encode("MOBI"), 16);
+  view.setUint32(20, MOBI_HEADER_LENGTH);
+  view.setUint32(24, MOBI_TYPE_BOOK);
+  view.setUint32(28, ENCODING_UTF8);
+  view.setUint32(32, Math.floor(Math.random() * 0xffffffff));
+  view.setUint32(36, MOBI_VERSION);
+  for (let offset = 40; offset < 80; offset += 4) view.setUint32(offset, NO_INDEX);
+  view.setUint32(80, firstImage);
+  view.setUint32(84, header.length + exth.length);
+  view.setUint32(88, title.length);
+  view.setUint32(104, MOBI_VERSION);
+  view.setUint32(108, imageCount > 0 ? firstImage : NO_INDEX);
+  view.setUint32(128, EXTH_FLAG);
+  view.setUint32(164, NO_INDEX);
+  view.setUint16(192, 1);
+  view.setUint16(194, lastContent);
+  view.setUint32(196, 1);
+  view.setUint32(200, lastContent + 2);
+  view.setUint32(204, 1);
+  view.setUint32(208, lastContent + 1);
+  view.setUint32(212, 1);
+  view.setUint32(224, NO_INDEX);
+  view.setUint32(232, NO_INDEX);
+  view.setUint32(236, NO_INDEX);
+  view.setUint32(240, EXTRA_DATA_MULTIBYTE);
+  view.setUint32(244, NO_INDEX);
+
+  // 書名の後ろは2バイト以上の 0 で埋めて4バイト境界にそろえる
+  const padding = 2 + (4 - (header.length + exth.length + title.length + 2) % 4) % 4;
+  return concat([header, exth, title, new Uint8Array(padding)]);
+}
+
+function buildFcis(textLength: number): Uint8Array {
+  return concat([
+    new Uint8Array([0x46, 0x43, 0x49, 0x53, 0, 0, 0, 0x14, 0, 0, 0, 0x10, 0, 0, 0, 1, 0, 0, 0, 0]),
+    uint32(textLength),
+    new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0x20, 0, 0, 0, 8, 0, 1, 0, 1, 0, 0, 0, 0]),
+  ]);
+}
+
+/**
+ * Palm Database の形式にレコードをまとめる
+ */
+function buildPalmDatabase(name: string, records: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(78 + records.length * 8 + 2);
+  const view = new DataView(header.buffer);
+  // データベース名は ASCII だけ使える
+  const dbName = name.replace(/[^\x21-\x7e]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 31) || "ebook";
+  header.set(encoder.encode(dbName));
+  const now = Math.floor(Date.now() / 1000);
+  view.setUint32(36, now);
+  view.setUint32(40, now);
+  header.set(encoder.encode("BOOKMOBI"), 60);
+  view.setUint32(68, records.length * 2 - 1);
+  view.setUint16(76, records.length);
+  let offset = header.length;
+  records.forEach((record, i) => {
+    view.setUint32(78 + i * 8, offset);
+    view.setUint32(78 + i * 8 + 4, i * 2);
+    offset += record.length;
+  });
+  return concat([header, ...records]);
+}
+
+/**
+ * 1つの HTML の本文と画像から MOBI を組み立てる。画像は recindex（1始まり）の順に並べ、
+ * cover には表紙にする画像の recindex を指定する
+ */
+export function buildMobiFile(options: {
+  html: Uint8Array;
+  images: Uint8Array[];
+  cover?: number;
+  metadata: Partial<BookMetadata>;
+}): Uint8Array<ArrayBuffer> {
+  const textRecords = splitTextRecords(options.html);
+  const coverOffset = options.cover ? options.cover - 1 : null;
+  const record0 = buildRecord0(
+    options.metadata,
+    options.html.length,
+    textRecords.length,
+    options.images.length,
+    coverOffset,
+  );
+  return buildPalmDatabase(options.metadata.title || "", [
+    record0,
+    ...textRecords,
+    ...options.images,
+    FLIS_RECORD,
+    buildFcis(options.html.length),
+    EOF_RECORD,
+  ]);
+}
+
+const TOKEN = /<!--[\s\S]*?-->|<[^>]*>|[^<]+/g;
+const EXTERNAL_LINK = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * EPUB を Kindle で読める MOBI（Mobipocket 6、無圧縮）に変換する。
+ * 本文は spine の順に各ファイルの body をつなげ、ファイルの間で改ページする。
+ * 画像は recindex、ファイル間のリンクは filepos に置き換え、MOBI 6 では使えない CSS は載せない。
+ * 書誌情報と表紙は book のものを優先し、なければ EPUB の OPF・表紙画像を使う
+ */
+export async function convertEpubToMobi(
+  data: Uint8Array,
+  book: BookFileInspection = { metadata: {} },
+): Promise<Uint8Array> {
+  const zip = new ZipReader(data);
+  const epub = await readEpubPackage(zip);
+  if (!epub) throw new Error("EPUBのパッケージ文書（OPF）が見つかりません");
+
+  const images: Uint8Array[] = [];
+  const imageIndexes = new Map<string, number>();
+  const imageIndex = async (path: string): Promise<number | null> => {
+    if (imageIndexes.has(path)) return imageIndexes.get(path)!;
+    const image = await zip.read(path);
+    const type = image && detectImageType(image);
+    if (!image || !type || !KINDLE_IMAGE_TYPES.includes(type)) return null;
+    images.push(image);
+    imageIndexes.set(path, images.length);
+    return images.length;
+  };
+
+  const text = new MobiText();
+  text.append("<html><head><guide></guide></head><body>");
+  for (const [i, item] of epub.spine.entries()) {
+    const path = resolveHref(epub.opfPath, item.href);
+    const xhtml = await zip.readText(path);
+    if (!xhtml) continue;
+    if (i > 0) text.append("<mbp:pagebreak/>");
+    text.anchor(path);
+
+    const body = (xhtml.match(/<body\b[^>]*>([\s\S]*)<\/body\s*>/i)?.[1] ?? "")
+      .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, "")
+      // SVG で包んだ表紙のページは img にする
+      .replace(
+        /<svg\b[\s\S]*?<image\b([^>]*?)\/?>[\s\S]*?<\/svg\s*>/gi,
+        (svg, attrs) => {
+          const href = getAttribute(attrs, "xlink:href") ?? getAttribute(attrs, "href");
+          return href ? `<img src="${href}"/>` : svg;
+        },
+      );
+
+    for (const token of body.match(TOKEN) || []) {
+      const tag = /^<([a-zA-Z][\w:-]*)/.exec(token)?.[1].toLowerCase();
+      if (!tag) {
+        if (!token.startsWith("<!--")) text.append(token);
+        continue;
+      }
+      const attrs = token.replace(/^<[^\s/>]+|\/?>$/g, "");
+      const id = getAttribute(attrs, "id");
+      if (id) text.anchor(`${path}#${id}`);
+
+      if (tag === "img") {
+        const src = getAttribute(attrs, "src");
+        const index = src && !EXTERNAL_LINK.test(src) ? await imageIndex(resolveHref(path, src)) : null;
+        if (index) {
+          const alt = getAttribute(attrs, "alt");
+          const escaped = alt?.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/"/g, "&quot;");
+          text.append(`<img recindex="${String(index).padStart(5, "0")}"${escaped ? ` alt="${escaped}"` : ""}/>`);
+        }
+        continue;
+      }
+
+      const href = tag === "a" ? getAttribute(attrs, "href") : null;
+      if (href === null || EXTERNAL_LINK.test(href)) {
+        text.append(token);
+        continue;
+      }
+      const [file, fragment] = href.split("#");
+      const target = (file ? resolveHref(path, file) : path) + (fragment ? `#${fragment}` : "");
+      const rest = token.replace(/\s(?:xlink:)?href\s*=\s*(?:"[^"]*"|'[^']*')/i, "");
+      const close = rest.endsWith("/>") ? rest.length - 2 : rest.length - 1;
+      text.append(`${rest.slice(0, close)} `);
+      text.link(target);
+      text.append(rest.slice(close));
+    }
+  }
+  text.append("</body></html>");
+
+  // 書籍の書誌情報（空の項目は EPUB のもの）と表紙
+  const inspection = await inspectEpub(data);
+  const metadata: Partial<BookMetadata> = { ...inspection?.metadata };
+  for (const [key, value] of Object.entries(book.metadata)) {
+    if (value) (metadata as Record<string, unknown>)[key] = value;
+  }
+  const cover = book.cover ?? inspection?.cover;
+  let coverIndex: number | undefined;
+  if (cover && KINDLE_IMAGE_TYPES.includes(detectImageType(cover.data) ?? "")) {
+    images.push(cover.data);
+    coverIndex = images.length;
+  }
+
+  return buildMobiFile({ html: text.toBytes(), images, cover: coverIndex, metadata });
+}
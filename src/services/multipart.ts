@@ -0,0 +1,183 @@
+export interface MultipartPart {
+  name: string;
+  /** ファイル以外のフィールドでは null */
+  filename: string | null;
+  contentType: string;
+  /** 次のパートへ進む前に読み切るか、読まずに次へ進むと残りは読み捨てる */
+  body: ReadableStream<Uint8Array>;
+  text(): Promise<string>;
+}
+
+const CRLF = new Uint8Array([13, 10]);
+const HEADER_END = new Uint8Array([13, 10, 13, 10]);
+const MAX_HEADER_BYTES = 16 * 1024;
+
+export function getBoundary(contentType: string | null | undefined): string | null {
+  if (!contentType || !/^multipart\/form-data/i.test(contentType)) return null;
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  return match ? match[1] ?? match[2] : null;
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from = 0): number {
+  let i = haystack.indexOf(needle[0], from);
+  while (i !== -1 && i + needle.length <= haystack.length) {
+    let matched = true;
+    for (let j = 1; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) return i;
+    i = haystack.indexOf(needle[0], i + 1);
+  }
+  return -1;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+function parseHeaders(raw: string): { name: string; filename: string | null; contentType: string } {
+  let name = "";
+  let filename: string | null = null;
+  let contentType = "text/plain";
+  for (const line of raw.split("\r\n")) {
+    const sep = line.indexOf(":");
+    if (sep === -1) continue;
+    const key = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+    if (key === "content-disposition") {
+      name = value.match(/\bname="([^"]*)"/i)?.[1] ?? "";
+      const file = value.match(/\bfilename="([^"]*)"/i);
+      if (file) filename = file[1];
+    } else if (key === "content-type") {
+      contentType = value;
+    }
+  }
+  return { name, filename, contentType };
+}
+
+/**
+ * 先に読み出したかたまりを先頭に戻し、残りを reader から読むストリームを作る
+ */
+export function resumeStream(
+  head: Uint8Array[],
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of head) controller.enqueue(chunk);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * multipart/form-data のリクエストボディを先頭から順にパートごとに読む。
+ * ファイルの中身はストリームのまま渡すため、大きなファイルもメモリに載せずに処理できる。
+ */
+export async function* readMultipart(
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+): AsyncGenerator<MultipartPart> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  const delimiter = encoder.encode(`\r\n--${boundary}`);
+  let buffer: Uint8Array = new Uint8Array(0);
+  let ended = false;
+
+  const fill = async (): Promise<boolean> => {
+    if (ended) return false;
+    const { done, value } = await reader.read();
+    if (done) {
+      ended = true;
+      return false;
+    }
+    buffer = concatBytes(buffer, value);
+    return true;
+  };
+
+  const readUntil = async (needle: Uint8Array, limit: number): Promise<Uint8Array> => {
+    let index: number;
+    while ((index = indexOfBytes(buffer, needle)) === -1) {
+      if (buffer.length > limit || !await fill()) {
+        throw new Error("multipart の形式が不正です");
+      }
+    }
+    const head = buffer.subarray(0, index);
+    buffer = buffer.subarray(index + needle.length);
+    return head;
+  };
+
+  // 本文の先頭は区切りの直前の CRLF がないため、CRLF を補ってから探す
+  buffer = CRLF;
+  await readUntil(delimiter, MAX_HEADER_BYTES);
+
+  try {
+    while (true) {
+      while (buffer.length < 2 && await fill());
+      if (buffer[0] === 45 && buffer[1] === 45) return; // "--" で終端
+      await readUntil(CRLF, MAX_HEADER_BYTES);
+
+      const headers = parseHeaders(decoder.decode(await readUntil(HEADER_END, MAX_HEADER_BYTES)));
+      let partDone = false;
+
+      // パート本文の次のかたまりを返す。区切りに達したら null
+      const nextChunk = async (): Promise<Uint8Array | null> => {
+        while (!partDone) {
+          const index = indexOfBytes(buffer, delimiter);
+          if (index !== -1) {
+            const chunk = buffer.slice(0, index);
+            buffer = buffer.subarray(index + delimiter.length);
+            partDone = true;
+            return chunk;
+          }
+          // 区切りの途中までが末尾にある可能性があるので、その分は残しておく
+          const safe = buffer.length - (delimiter.length - 1);
+          if (safe > 0) {
+            const chunk = buffer.slice(0, safe);
+            buffer = buffer.subarray(safe);
+            return chunk;
+          }
+          if (!await fill()) throw new Error("multipart の形式が不正です");
+        }
+        return null;
+      };
+
+      const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          let chunk: Uint8Array | null;
+          do {
+            chunk = await nextChunk();
+          } while (chunk !== null && chunk.length === 0);
+          if (chunk === null) controller.close();
+          else controller.enqueue(chunk);
+        },
+      });
+
+      yield {
+        ...headers,
+        body: stream,
+        text: async () => decoder.decode(await new Response(stream).arrayBuffer()),
+      };
+
+      // 読まれなかった残りは読み捨てる
+      while (await nextChunk() !== null);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
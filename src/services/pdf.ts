@@ -0,0 +1,548 @@
+import { BookFileInspection, BookMetadata, Contributor } from "../types.ts";
+import { decodeXmlEntities } from "./epub.ts";
+import { formatContributors } from "./contributors.ts";
+import { findIsbn } from "./isbn.ts";
+
+/**
+ * PDFの解析（書誌情報と表紙画像の取り出し）
+ *
+ * Raspberry Pi 上でもネイティブバイナリなしで動くよう、必要最小限のオブジェクト構文だけを
+ * TypeScript で読む。xref テーブルは壊れていることが多いため使わず、
+ * ファイル全体から `N G obj` を走査してオブジェクトの位置を求める。
+ */
+
+const MAX_PAGE_TREE_DEPTH = 32;
+const MAX_FORM_DEPTH = 2;
+
+interface PdfName {
+  kind: "name";
+  name: string;
+}
+
+interface PdfString {
+  kind: "string";
+  /** 1文字1バイトの文字列 */
+  raw: string;
+}
+
+interface PdfRef {
+  kind: "ref";
+  num: number;
+}
+
+interface PdfDict {
+  kind: "dict";
+  entries: Record<string, PdfValue>;
+}
+
+type PdfValue =
+  | null
+  | boolean
+  | number
+  | PdfName
+  | PdfString
+  | PdfRef
+  | PdfDict
+  | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  /** ストリームの生データ（フィルタ未適用） */
+  stream?: Uint8Array;
+}
+
+/** バイト列を1文字1バイトの文字列にする（オフセットをバイト位置と一致させるため） */
+function toByteString(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += 8192) {
+    chunks.push(String.fromCharCode(...bytes.subarray(i, i + 8192)));
+  }
+  return chunks.join("");
+}
+
+function isDict(v: PdfValue): v is PdfDict {
+  return typeof v === "object" && v !== null && !Array.isArray(v) && v.kind === "dict";
+}
+
+function isRef(v: PdfValue | undefined): v is PdfRef {
+  return typeof v === "object" && v !== null && !Array.isArray(v) && v.kind === "ref";
+}
+
+function isString(v: PdfValue | undefined): v is PdfString {
+  return typeof v === "object" && v !== null && !Array.isArray(v) && v.kind === "string";
+}
+
+function nameOf(v: PdfValue | undefined): string | null {
+  return typeof v === "object" && v !== null && !Array.isArray(v) && v.kind === "name"
+    ? v.name
+    : null;
+}
+
+const WHITESPACE = "\0\t\n\f\r ";
+const DELIMITERS = "()<>[]{}/%";
+
+/**
+ * PDFオブジェクト構文のパーサ
+ */
+class PdfParser {
+  constructor(private text: string, public pos: number) {}
+
+  skipWhitespace(): void {
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (WHITESPACE.includes(ch)) {
+        this.pos++;
+      } else if (ch === "%") {
+        while (this.pos < this.text.length && !"\r\n".includes(this.text[this.pos])) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  parseValue(): PdfValue {
+    this.skipWhitespace();
+    const ch = this.text[this.pos];
+
+    if (ch === "/") return this.parseName();
+    if (ch === "(") return this.parseLiteralString();
+    if (ch === "[") return this.parseArray();
+    if (ch === "<") {
+      return this.text[this.pos + 1] === "<" ? this.parseDict() : this.parseHexString();
+    }
+
+    const token = this.readToken();
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (token === "null" || token === "") return null;
+
+    const num = Number(token);
+    if (isNaN(num)) return null;
+
+    // "N G R" は間接参照
+    const save = this.pos;
+    this.skipWhitespace();
+    const gen = this.readToken();
+    this.skipWhitespace();
+    if (/^\d+$/.test(gen) && this.text[this.pos] === "R") {
+      this.pos++;
+      return { kind: "ref", num };
+    }
+    this.pos = save;
+    return num;
+  }
+
+  private readToken(): string {
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (WHITESPACE.includes(ch) || DELIMITERS.includes(ch)) break;
+      this.pos++;
+    }
+    return this.text.slice(start, this.pos);
+  }
+
+  private parseName(): PdfName {
+    this.pos++;
+    const name = this.readToken().replace(
+      /#([0-9a-fA-F]{2})/g,
+      (_, hex) => String.fromCharCode(parseInt(hex, 16)),
+    );
+    return { kind: "name", name };
+  }
+
+  private parseArray(): PdfValue[] {
+    this.pos++;
+    const items: PdfValue[] = [];
+    while (this.pos < this.text.length) {
+      this.skipWhitespace();
+      if (this.text[this.pos] === "]") {
+        this.pos++;
+        break;
+      }
+      const before = this.pos;
+      items.push(this.parseValue());
+      if (this.pos === before) this.pos++;
+    }
+    return items;
+  }
+
+  private parseDict(): PdfDict {
+    this.pos += 2;
+    const entries: Record<string, PdfValue> = {};
+    while (this.pos < this.text.length) {
+      this.skipWhitespace();
+      if (this.text.startsWith(">>", this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      if (this.text[this.pos] !== "/") {
+        // 壊れた辞書はキーが見つかるまで読み飛ばす
+        this.pos++;
+        continue;
+      }
+      const key = this.parseName().name;
+      entries[key] = this.parseValue();
+    }
+    return { kind: "dict", entries };
+  }
+
+  private parseLiteralString(): PdfString {
+    this.pos++;
+    let depth = 1;
+    let out = "";
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos++];
+      if (ch === "\\") {
+        const next = this.text[this.pos++];
+        const escapes: Record<string, string> = {
+          n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", "(": "(", ")": ")", "\\": "\\",
+        };
+        if (next in escapes) {
+          out += escapes[next];
+        } else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(this.text[this.pos])) {
+            octal += this.text[this.pos++];
+          }
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === "\r") {
+          if (this.text[this.pos] === "\n") this.pos++;
+        } else if (next !== "\n") {
+          out += next;
+        }
+      } else if (ch === "(") {
+        depth++;
+        out += ch;
+      } else if (ch === ")") {
+        if (--depth === 0) break;
+        out += ch;
+      } else {
+        out += ch;
+      }
+    }
+    return { kind: "string", raw: out };
+  }
+
+  private parseHexString(): PdfString {
+    const end = this.text.indexOf(">", this.pos);
+    const hex = this.text.slice(this.pos + 1, end < 0 ? undefined : end)
+      .replace(/[^0-9a-fA-F]/g, "");
+    this.pos = end < 0 ? this.text.length : end + 1;
+    let out = "";
+    for (let i = 0; i < hex.length; i += 2) {
+      out += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+    }
+    return { kind: "string", raw: out };
+  }
+}
+
+/**
+ * PDFの文字列オブジェクトをデコードする。
+ * UTF-16BE (BOM付き)・UTF-8 (BOM付き) に加え、国内の古いツールが出力する Shift_JIS も試す。
+ */
+export function decodePdfString(raw: string): string {
+  const bytes = Uint8Array.from(raw, (c) => c.charCodeAt(0));
+
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder().decode(bytes.subarray(3));
+  }
+  if (bytes.some((b) => b >= 0x80)) {
+    for (const encoding of ["utf-8", "shift_jis"]) {
+      try {
+        return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+      } catch {
+        // 次の候補を試す
+      }
+    }
+  }
+  // PDFDocEncoding は ASCII 範囲で Latin-1 と一致する
+  return raw;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = ReadableStream.from([data.slice()])
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * オブジェクト単位でPDFを読むためのドキュメント
+ */
+class PdfDocument {
+  private text: string;
+  private offsets = new Map<number, number>();
+  private cache = new Map<number, PdfObject | null>();
+  private compressed: Map<number, PdfValue> | null = null;
+
+  constructor(private bytes: Uint8Array) {
+    this.text = toByteString(bytes);
+    // 増分更新では後に出てきた定義が有効なので上書きしていく
+    const objRe = /(\d+)\s+\d+\s+obj\b/g;
+    let m: RegExpExecArray | null;
+    while ((m = objRe.exec(this.text)) !== null) {
+      this.offsets.set(Number(m[1]), m.index + m[0].length);
+    }
+  }
+
+  /** トレーラー（または xref ストリーム）が指す参照を末尾から探す */
+  trailerRef(key: string): PdfRef | null {
+    const re = new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`, "g");
+    let last: RegExpExecArray | null = null;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(this.text)) !== null) last = m;
+    return last ? { kind: "ref", num: Number(last[1]) } : null;
+  }
+
+  async getObject(num: number): Promise<PdfObject | null> {
+    if (this.cache.has(num)) return this.cache.get(num)!;
+    this.cache.set(num, null); // 循環参照対策
+
+    let obj: PdfObject | null = null;
+    const offset = this.offsets.get(num);
+    if (offset !== undefined) {
+      obj = await this.readObjectAt(offset);
+    } else {
+      const value = (await this.loadObjectStreams()).get(num);
+      obj = value !== undefined ? { value } : null;
+    }
+    this.cache.set(num, obj);
+    return obj;
+  }
+
+  async resolve(value: PdfValue | undefined): Promise<PdfValue> {
+    if (isRef(value)) {
+      return (await this.getObject(value.num))?.value ?? null;
+    }
+    return value ?? null;
+  }
+
+  async resolveDict(value: PdfValue | undefined): Promise<PdfDict | null> {
+    const resolved = await this.resolve(value);
+    return isDict(resolved) ? resolved : null;
+  }
+
+  /** FlateDecode を適用したストリームデータを返す。未対応のフィルタでは null */
+  async decodeStream(obj: PdfObject): Promise<Uint8Array | null> {
+    if (!obj.stream || !isDict(obj.value)) return null;
+    const filter = await this.resolve(obj.value.entries.Filter);
+    const filters = Array.isArray(filter) ? filter.map(nameOf) : filter ? [nameOf(filter)] : [];
+
+    let data = obj.stream;
+    for (const f of filters) {
+      if (f !== "FlateDecode") return null;
+      try {
+        data = await inflate(data);
+      } catch {
+        return null;
+      }
+    }
+    return data;
+  }
+
+  private async readObjectAt(offset: number): Promise<PdfObject> {
+    const parser = new PdfParser(this.text, offset);
+    const value = parser.parseValue();
+    parser.skipWhitespace();
+    if (!isDict(value) || !this.text.startsWith("stream", parser.pos)) {
+      return { value };
+    }
+
+    let start = parser.pos + "stream".length;
+    if (this.text[start] === "\r") start++;
+    if (this.text[start] === "\n") start++;
+
+    const length = await this.resolve(value.entries.Length);
+    let end = typeof length === "number" ? start + length : -1;
+    // /Length が誤っているファイルもあるため endstream の位置で検証する
+    if (end < 0 || !/^\s*endstream/.test(this.text.slice(end, end + 20))) {
+      end = this.text.indexOf("endstream", start);
+      if (end < 0) end = this.text.length;
+      if (this.text[end - 1] === "\n") end--;
+      if (this.text[end - 1] === "\r") end--;
+    }
+    return { value, stream: this.bytes.subarray(start, end) };
+  }
+
+  /** PDF 1.5 以降のオブジェクトストリームに格納されたオブジェクトを読み込む */
+  private async loadObjectStreams(): Promise<Map<number, PdfValue>> {
+    if (this.compressed) return this.compressed;
+    this.compressed = new Map();
+
+    for (const offset of this.offsets.values()) {
+      if (!this.text.slice(offset, offset + 512).includes("/ObjStm")) continue;
+      const obj = await this.readObjectAt(offset);
+      if (!isDict(obj.value) || nameOf(obj.value.entries.Type) !== "ObjStm") continue;
+
+      const data = await this.decodeStream(obj);
+      const count = obj.value.entries.N;
+      const first = obj.value.entries.First;
+      if (!data || typeof count !== "number" || typeof first !== "number") continue;
+
+      const content = toByteString(data);
+      const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i < count; i++) {
+        const num = header[i * 2];
+        if (isNaN(num) || this.compressed.has(num)) continue;
+        const parser = new PdfParser(content, first + header[i * 2 + 1]);
+        this.compressed.set(num, parser.parseValue());
+      }
+    }
+    return this.compressed;
+  }
+}
+
+interface XmpMetadata {
+  title: string;
+  creators: string[];
+  publisher: string;
+  identifiers: string[];
+}
+
+function parseXmp(xml: string): XmpMetadata {
+  const liValues = (tag: string): string[] => {
+    const block = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+    if (!block) return [];
+    const items = [...block[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/gi)]
+      .map((m) => m[1]);
+    // rdf:li を使わず値を直接書く実装もある
+    return (items.length > 0 ? items : [block[1]])
+      .map((v) => decodeXmlEntities(v.trim()))
+      .filter((v) => v && !v.startsWith("<"));
+  };
+
+  return {
+    title: liValues("dc:title")[0] || "",
+    creators: liValues("dc:creator"),
+    publisher: liValues("dc:publisher")[0] || "",
+    identifiers: [
+      ...liValues("prism:isbn"),
+      ...liValues("prism2:isbn"),
+      ...liValues("dc:identifier"),
+      ...liValues("pdfx:ISBN"),
+    ],
+  };
+}
+
+interface PageImage {
+  data: Uint8Array;
+  area: number;
+}
+
+async function collectJpegImages(
+  doc: PdfDocument,
+  resources: PdfDict | null,
+  depth = 0,
+): Promise<PageImage[]> {
+  const xobjects = await doc.resolveDict(resources?.entries.XObject);
+  if (!xobjects) return [];
+
+  const images: PageImage[] = [];
+  for (const ref of Object.values(xobjects.entries)) {
+    if (!isRef(ref)) continue;
+    const obj = await doc.getObject(ref.num);
+    if (!obj || !isDict(obj.value)) continue;
+    const dict = obj.value.entries;
+
+    const subtype = nameOf(dict.Subtype);
+    if (subtype === "Form" && depth < MAX_FORM_DEPTH) {
+      images.push(...await collectJpegImages(doc, await doc.resolveDict(dict.Resources), depth + 1));
+      continue;
+    }
+    if (subtype !== "Image" || !obj.stream) continue;
+
+    const filter = await doc.resolve(dict.Filter);
+    const filterName = Array.isArray(filter) && filter.length === 1
+      ? nameOf(filter[0])
+      : nameOf(filter);
+    if (filterName !== "DCTDecode") continue;
+
+    const width = await doc.resolve(dict.Width);
+    const height = await doc.resolve(dict.Height);
+    images.push({
+      data: obj.stream,
+      area: (typeof width === "number" ? width : 0) * (typeof height === "number" ? height : 0),
+    });
+  }
+  return images;
+}
+
+/**
+ * 1ページ目を探し、リソース（親から継承されたものを含む）を返す
+ */
+async function firstPageResources(doc: PdfDocument): Promise<PdfDict | null> {
+  const catalog = await doc.resolveDict(doc.trailerRef("Root") ?? undefined);
+  let node = await doc.resolveDict(catalog?.entries.Pages);
+  let resources: PdfDict | null = null;
+
+  for (let depth = 0; node && depth < MAX_PAGE_TREE_DEPTH; depth++) {
+    resources = (await doc.resolveDict(node.entries.Resources)) ?? resources;
+    const kids = await doc.resolve(node.entries.Kids);
+    if (nameOf(node.entries.Type) === "Page" || !Array.isArray(kids) || kids.length === 0) {
+      return resources;
+    }
+    node = await doc.resolveDict(kids[0]);
+  }
+  return resources;
+}
+
+/** Info 辞書の著者欄は「;」「、」区切りで複数著者が入ることがある */
+function splitAuthors(value: string): string[] {
+  return value.split(/[;；、]/).map((a) => a.trim()).filter((a) => a);
+}
+
+/**
+ * PDFファイルから Info 辞書・XMP の書誌情報と1ページ目の JPEG 画像（表紙）を取り出す。
+ * PDFとして読めない場合は null を返す。
+ */
+export async function inspectPdf(data: Uint8Array): Promise<BookFileInspection | null> {
+  if (toByteString(data.subarray(0, 1024)).indexOf("%PDF-") < 0) return null;
+
+  const doc = new PdfDocument(data);
+
+  const infoDict = await doc.resolveDict(doc.trailerRef("Info") ?? undefined);
+  const info = async (key: string): Promise<string> => {
+    const value = await doc.resolve(infoDict?.entries[key]);
+    return isString(value) ? decodePdfString(value.raw).trim() : "";
+  };
+
+  let xmp: XmpMetadata = { title: "", creators: [], publisher: "", identifiers: [] };
+  const catalog = await doc.resolveDict(doc.trailerRef("Root") ?? undefined);
+  const metadataRef = catalog?.entries.Metadata;
+  if (isRef(metadataRef)) {
+    const metadataObj = await doc.getObject(metadataRef.num);
+    const xml = metadataObj && await doc.decodeStream(metadataObj);
+    if (xml) xmp = parseXmp(new TextDecoder().decode(xml));
+  }
+
+  const infoAuthors = splitAuthors(await info("Author"));
+  const contributors: Contributor[] = (xmp.creators.length > 0 ? xmp.creators : infoAuthors)
+    .map((name) => ({ name, role: "author" }));
+  const metadata: Partial<BookMetadata> = {
+    title: xmp.title || await info("Title"),
+    authors: formatContributors(contributors),
+    contributors,
+    publisher: xmp.publisher,
+    isbn: findIsbn(
+      [
+        ...xmp.identifiers,
+        await info("ISBN"),
+        await info("Subject"),
+        await info("Keywords"),
+      ].join("\n"),
+    ),
+  };
+
+  const inspection: BookFileInspection = { metadata };
+  const images = await collectJpegImages(doc, await firstPageResources(doc));
+  if (images.length > 0) {
+    const largest = images.reduce((a, b) => (b.area > a.area ? b : a));
+    inspection.cover = { data: largest.data.slice(), mimeType: "image/jpeg" };
+  }
+  return inspection;
+}
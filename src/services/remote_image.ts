@@ -0,0 +1,151 @@
+import { detectImageType } from "./image.ts";
+
+/**
+ * 利用者が指定した URL から表紙画像を取得する。
+ *
+ * サーバーから任意の URL を取得すると、ルーターの管理画面などの内部のサービスに
+ * 届いてしまう（SSRF）ため、http/https で公開アドレスのホストだけを取得し、
+ * リダイレクト先も同じように確かめる。応答は画像で、大きさの上限までしか読まない。
+ */
+
+/** 取得する画像の大きさの既定の上限 */
+export const DEFAULT_REMOTE_IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+export interface RemoteImageOptions {
+  /** 取得する画像の大きさの上限（バイト） */
+  maxBytes?: number;
+  /** テスト用: 名前解決と HTTP の取得 */
+  resolveHost?: (hostname: string) => Promise<string[]>;
+  fetch?: typeof fetch;
+}
+
+export interface RemoteImage {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split(".").map(Number);
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b < 128) || // キャリアグレード NAT
+    (a === 169 && b === 254) || // リンクローカル
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    a >= 224; // マルチキャスト・予約済み
+}
+
+/** ::1・IPv4 射影アドレス（::ffff:…）など :: で始まるもの、ユニークローカル、リンクローカル、マルチキャスト */
+function isPrivateIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  return lower.startsWith("::") || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || lower.startsWith("ff");
+}
+
+/** ループバック・プライベート・リンクローカルなど、内部のネットワークのアドレスか */
+export function isPrivateAddress(address: string): boolean {
+  return address.includes(":") ? isPrivateIPv6(address) : isPrivateIPv4(address);
+}
+
+function isIpAddress(hostname: string): boolean {
+  return hostname.includes(":") || /^\d+\.\d+\.\d+\.\d+$/.test(hostname);
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+  return results.flatMap((r) => r.status === "fulfilled" ? r.value : []);
+}
+
+/** 取得してよい URL か確かめる。だめなら理由を例外で投げる */
+async function assertPublicUrl(url: URL, options: RemoteImageOptions): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("画像のURLは http:// または https:// で指定してください");
+  }
+  // IPv6 のアドレスは [::1] のように角括弧で囲まれている
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    throw new Error("内部ネットワークのアドレスからは取得できません");
+  }
+
+  const addresses = isIpAddress(hostname) ? [hostname] : await (options.resolveHost ?? resolveHost)(hostname);
+  if (addresses.length === 0) throw new Error(`ホストが見つかりません: ${hostname}`);
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error("内部ネットワークのアドレスからは取得できません");
+  }
+}
+
+/** 上限を超えたら残りを読まずに止める */
+async function readLimited(res: Response, maxBytes: number): Promise<Uint8Array> {
+  const length = Number(res.headers.get("content-length"));
+  if (length > maxBytes) {
+    await res.body?.cancel();
+    throw new Error(`画像が大きすぎます（上限 ${Math.floor(maxBytes / 1024 / 1024)}MB）`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  if (res.body) {
+    for await (const chunk of res.body) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        // for await を抜けるとストリームは取り消される
+        throw new Error(`画像が大きすぎます（上限 ${Math.floor(maxBytes / 1024 / 1024)}MB）`);
+      }
+      chunks.push(chunk);
+    }
+  }
+
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+/**
+ * URL の画像を取得する。内部のアドレス・画像でない応答・大きすぎる画像は例外を投げる
+ */
+export async function fetchRemoteImage(
+  url: string,
+  options: RemoteImageOptions = {},
+): Promise<RemoteImage> {
+  const fetcher = options.fetch ?? fetch;
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new Error(`画像のURLが正しくありません: ${url}`);
+  }
+
+  for (let redirects = 0;; redirects++) {
+    await assertPublicUrl(target, options);
+    // リダイレクト先も確かめるため、自動では追わない
+    const res = await fetcher(target, { redirect: "manual" });
+    const location = res.headers.get("location");
+    if (res.status >= 300 && res.status < 400 && location) {
+      await res.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) throw new Error("画像のURLのリダイレクトが多すぎます");
+      target = new URL(location, target);
+      continue;
+    }
+
+    if (!res.ok) {
+      await res.body?.cancel();
+      throw new Error(`画像を取得できませんでした（HTTP ${res.status}）`);
+    }
+    const contentType = res.headers.get("content-type") ?? "";
+    if (!contentType.toLowerCase().startsWith("image/")) {
+      await res.body?.cancel();
+      throw new Error(`画像ではない応答です（${contentType || "Content-Type なし"}）`);
+    }
+
+    const data = await readLimited(res, options.maxBytes ?? DEFAULT_REMOTE_IMAGE_MAX_BYTES);
+    const mimeType = detectImageType(data);
+    if (!mimeType) throw new Error("対応していない画像形式です（JPEG・PNG・WebP・GIF のみ）");
+    return { data, mimeType };
+  }
+}
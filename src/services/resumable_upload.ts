@@ -0,0 +1,272 @@
+import { DriveFile } from "../types.ts";
+import { getRetryAfterMs, isRetryableDriveError } from "./drive_resilience.ts";
+
+const UPLOAD_URL = "https://www.googleapis.com/upload/drive/v3/files";
+/** Drive は最後以外のチャンクが 256KiB の倍数であることを要求する */
+const CHUNK_UNIT = 256 * 1024;
+const DEFAULT_CHUNK_SIZE = 32 * CHUNK_UNIT; // 8MiB
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_BASE_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 32 * 1000;
+const DEFAULT_TIMEOUT = 5 * 60 * 1000;
+
+export interface ResumableUploadRequest {
+  /** files.create の requestBody に相当するメタデータ */
+  metadata: { name: string; parents: string[]; properties: Record<string, string | null> };
+  mimeType: string;
+  content: ReadableStream<Uint8Array>;
+  /** 取得するフィールド */
+  fields: string;
+}
+
+export interface ResumableUploadOptions {
+  accessToken: () => Promise<string>;
+  /** 256KiB の倍数に切り下げる */
+  chunkSize?: number;
+  /** 1チャンクあたりの再試行回数 */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** 1リクエストのタイムアウト */
+  timeoutMs?: number;
+  onProgress?: (uploaded: number) => void;
+  /** Drive API の同時実行数の枠を取って実行する（DriveCallExecutor.withSlot と共有する） */
+  withSlot?: <T>(task: () => Promise<T>) => Promise<T>;
+  /** テスト用 */
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+type ChunkResult = { file: DriveFile } | { committed: number };
+
+/** 受け取ったかたまりをためて、必要な長さずつ取り出す */
+class ChunkBuffer {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  push(chunk: Uint8Array): void {
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  /** 先頭 n バイトを1つの配列にして返す（取り除かない） */
+  peek(n: number): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(Math.min(n, this.length));
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      if (offset >= result.length) break;
+      const part = chunk.subarray(0, result.length - offset);
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+
+  drop(n: number): void {
+    this.length -= n;
+    while (n > 0) {
+      const head = this.chunks[0];
+      if (head.length <= n) {
+        this.chunks.shift();
+        n -= head.length;
+      } else {
+        this.chunks[0] = head.subarray(n);
+        n = 0;
+      }
+    }
+  }
+}
+
+function toNetworkError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+  return Object.assign(new Error(`Drive へのアップロードが中断しました: ${message}`), {
+    code: timedOut ? "ETIMEDOUT" : "ECONNRESET",
+    cause: error,
+  });
+}
+
+async function toHttpError(res: Response): Promise<Error> {
+  const body = await res.text().catch(() => "");
+  let errors: unknown[] = [];
+  try {
+    errors = JSON.parse(body)?.error?.errors || [];
+  } catch {
+    // JSON以外の応答
+  }
+  const headers: Record<string, string> = {};
+  res.headers.forEach((value, key) => (headers[key] = value));
+  return Object.assign(new Error(`Drive へのアップロードに失敗しました（${res.status}）: ${body}`), {
+    status: res.status,
+    errors,
+    response: { status: res.status, headers },
+  });
+}
+
+/** 308 応答の Range（例: bytes=0-1048575）から受信済みのバイト数を返す */
+function committedBytes(res: Response): number {
+  const range = res.headers.get("Range");
+  const match = range?.match(/bytes=0-(\d+)/);
+  return match ? parseInt(match[1]) + 1 : 0;
+}
+
+/**
+ * Drive の再開可能なアップロード（uploadType=resumable）でストリームをアップロードする。
+ *
+ * ストリームはチャンクごとに読み進めるため、ファイル全体をメモリに載せない。
+ * 通信が途切れた場合はセッションに受信済みの位置を問い合わせ、その続きから送り直す。
+ */
+export class ResumableUpload {
+  private fetch: typeof fetch;
+  private chunkSize: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private timeoutMs: number;
+  private sleep: (ms: number) => Promise<void>;
+  private random: () => number;
+  private withSlot: <T>(task: () => Promise<T>) => Promise<T>;
+
+  constructor(private options: ResumableUploadOptions) {
+    this.fetch = options.fetch ?? fetch;
+    this.withSlot = options.withSlot ?? ((task) => task());
+    this.chunkSize = Math.max(
+      CHUNK_UNIT,
+      Math.floor((options.chunkSize ?? DEFAULT_CHUNK_SIZE) / CHUNK_UNIT) * CHUNK_UNIT,
+    );
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT;
+    this.sleep = options.sleep ??
+      ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.random = options.random ?? Math.random;
+  }
+
+  async upload(request: ResumableUploadRequest): Promise<DriveFile> {
+    const sessionUrl = await this.withRetry(() => this.createSession(request));
+
+    const reader = request.content.getReader();
+    const buffer = new ChunkBuffer();
+    let ended = false;
+    let offset = 0;
+
+    try {
+      while (true) {
+        // 続きがあるか判断するため、チャンクより1バイト多く読んでおく
+        while (!ended && buffer.length <= this.chunkSize) {
+          const { done, value } = await reader.read();
+          if (done) ended = true;
+          else buffer.push(value);
+        }
+
+        const isLast = ended && buffer.length <= this.chunkSize;
+        const chunk = buffer.peek(isLast ? buffer.length : this.chunkSize);
+        const total = isLast ? offset + chunk.length : null;
+
+        const result = await this.sendChunk(sessionUrl, chunk, offset, total);
+        if ("file" in result) {
+          this.options.onProgress?.(offset + chunk.length);
+          return result.file;
+        }
+        if (result.committed < offset || result.committed > offset + chunk.length) {
+          throw new Error("Drive の受信済み位置が送信内容と一致しません");
+        }
+
+        buffer.drop(result.committed - offset);
+        offset = result.committed;
+        this.options.onProgress?.(offset);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private async createSession(request: ResumableUploadRequest): Promise<string> {
+    const url = `${UPLOAD_URL}?uploadType=resumable&fields=${encodeURIComponent(request.fields)}`;
+    const res = await this.fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${await this.options.accessToken()}`,
+        "Content-Type": "application/json; charset=UTF-8",
+        "X-Upload-Content-Type": request.mimeType,
+      },
+      body: JSON.stringify({ ...request.metadata, mimeType: request.mimeType }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    }).catch((error) => {
+      throw toNetworkError(error);
+    });
+
+    if (!res.ok) throw await toHttpError(res);
+    await res.body?.cancel();
+    const location = res.headers.get("Location");
+    if (!location) throw new Error("Drive がアップロードセッションを返しませんでした");
+    return location;
+  }
+
+  /**
+   * 1チャンクを送る。中断した場合は受信済みの位置を問い合わせ、
+   * それが送信開始位置と違えば呼び出し側で送り直す範囲を決め直す。
+   */
+  private async sendChunk(
+    sessionUrl: string,
+    chunk: Uint8Array<ArrayBuffer>,
+    offset: number,
+    total: number | null,
+  ): Promise<ChunkResult> {
+    let interrupted = false;
+    return await this.withRetry(async () => {
+      if (interrupted) {
+        const status = await this.put(sessionUrl, null, `bytes */${total ?? "*"}`);
+        if ("file" in status || status.committed !== offset) return status;
+      }
+      interrupted = true;
+
+      const range = chunk.length === 0
+        ? `bytes */${total}`
+        : `bytes ${offset}-${offset + chunk.length - 1}/${total ?? "*"}`;
+      return await this.put(sessionUrl, chunk, range);
+    });
+  }
+
+  private async put(
+    sessionUrl: string,
+    body: Uint8Array<ArrayBuffer> | null,
+    contentRange: string,
+  ): Promise<ChunkResult> {
+    const res = await this.fetch(sessionUrl, {
+      method: "PUT",
+      headers: { "Content-Range": contentRange },
+      body,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    }).catch((error) => {
+      throw toNetworkError(error);
+    });
+
+    if (res.status === 200 || res.status === 201) {
+      return { file: await res.json() as DriveFile };
+    }
+    if (res.status === 308) {
+      await res.body?.cancel();
+      return { committed: committedBytes(res) };
+    }
+    throw await toHttpError(res);
+  }
+
+  /** リクエストごとに同時実行数の枠を取る（再試行を待つ間は枠を空ける） */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 0;; attempt++) {
+      try {
+        return await this.withSlot(operation);
+      } catch (error) {
+        if (attempt >= this.maxRetries || !isRetryableDriveError(error)) throw error;
+        const cap = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+        const retryAfter = getRetryAfterMs(error);
+        await this.sleep(
+          retryAfter !== null ? Math.min(retryAfter, this.maxDelayMs) : Math.floor(this.random() * cap),
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,323 @@
+import { DriveFile, DriveFileList, GoogleDriveService } from "../types.ts";
+
+const DEFAULT_PAGE_SIZE = 20;
+const REBUILD_PAGE_SIZE = 100;
+const INDEX_FILE_VERSION = 1;
+
+export type SearchField =
+  | "title"
+  | "authors"
+  | "publisher"
+  | "isbn"
+  | "series"
+  | "name";
+
+const SEARCH_FIELDS: SearchField[] = [
+  "title",
+  "authors",
+  "publisher",
+  "isbn",
+  "series",
+  "name",
+];
+
+/** 検索クエリ中の `author:太宰` のようなフィールド指定プレフィックス */
+const FIELD_ALIASES: Record<string, SearchField> = {
+  title: "title",
+  タイトル: "title",
+  書名: "title",
+  author: "authors",
+  authors: "authors",
+  著者: "authors",
+  publisher: "publisher",
+  出版社: "publisher",
+  isbn: "isbn",
+  series: "series",
+  シリーズ: "series",
+  file: "name",
+  ファイル: "name",
+};
+
+/**
+ * 人名・書名によく現れる旧字体・異体字を常用字体に寄せる対応表。
+ * 「渡邊」と「渡辺」のような表記揺れを同一視するために使う。
+ */
+const KANJI_VARIANTS: Record<string, string> = {
+  "邊": "辺",
+  "邉": "辺",
+  "齋": "斎",
+  "齊": "斉",
+  "髙": "高",
+  "﨑": "崎",
+  "嶋": "島",
+  "嶌": "島",
+  "澤": "沢",
+  "濱": "浜",
+  "國": "国",
+  "廣": "広",
+  "櫻": "桜",
+  "學": "学",
+  "藝": "芸",
+  "實": "実",
+  "條": "条",
+  "龍": "竜",
+  "眞": "真",
+  "德": "徳",
+  "惠": "恵",
+  "榮": "栄",
+  "將": "将",
+  "壽": "寿",
+  "戰": "戦",
+  "體": "体",
+  "鐵": "鉄",
+  "圓": "円",
+  "晝": "昼",
+  "驛": "駅",
+  "賣": "売",
+  "讀": "読",
+  "萬": "万",
+  "與": "与",
+  "會": "会",
+  "黑": "黒",
+};
+
+/** 検索時に無視する区切り文字（空白・中黒・ハイフン類・句読点） */
+const IGNORED_CHARS = /[\s・･\-‐‑–—―、。,.:;!?'"「」『』()（）\[\]【】]/g;
+
+/**
+ * 検索用に文字列を正規化する。
+ * 全角/半角（NFKC）・大文字/小文字・カタカナ/ひらがな・旧字体/新字体の違いを吸収し、
+ * 区切り文字を取り除く。
+ */
+export function normalizeForSearch(text: string): string {
+  const nfkc = text.normalize("NFKC").toLowerCase();
+  let result = "";
+  for (const ch of nfkc) {
+    const code = ch.codePointAt(0)!;
+    // カタカナ（ァ〜ヶ）をひらがなに寄せる
+    if (code >= 0x30A1 && code <= 0x30F6) {
+      result += String.fromCodePoint(code - 0x60);
+    } else {
+      result += KANJI_VARIANTS[ch] ?? ch;
+    }
+  }
+  return result.replace(IGNORED_CHARS, "");
+}
+
+export interface ParsedSearchQuery {
+  /** いずれかのフィールドに含まれていればよい語 */
+  terms: string[];
+  /** 指定フィールドに含まれている必要がある語 */
+  fieldTerms: { field: SearchField; term: string }[];
+}
+
+/**
+ * 検索文字列をパースする。空白（全角含む）区切りの各語はAND条件となり、
+ * `author:太宰` のようにプレフィックスを付けるとフィールドを限定できる。
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { terms: [], fieldTerms: [] };
+  const tokens = query.normalize("NFKC").split(/\s+/).filter((t) => t);
+
+  for (const token of tokens) {
+    const sep = token.indexOf(":");
+    if (sep > 0) {
+      const field = FIELD_ALIASES[token.slice(0, sep).toLowerCase()];
+      if (field) {
+        const term = normalizeForSearch(token.slice(sep + 1));
+        if (term) parsed.fieldTerms.push({ field, term });
+        continue;
+      }
+    }
+    const term = normalizeForSearch(token);
+    if (term) parsed.terms.push(term);
+  }
+  return parsed;
+}
+
+interface IndexedBook {
+  file: DriveFile;
+  fields: Record<SearchField, string>;
+}
+
+interface IndexSnapshot {
+  version: number;
+  savedAt: string;
+  files: DriveFile[];
+}
+
+export interface SearchIndexOptions {
+  /** 指定するとインデックスをこのパスにJSONで保存・読み込みする */
+  path?: string;
+}
+
+/**
+ * 書籍メタデータのローカル検索インデックス
+ *
+ * Driveのカスタムプロパティを写したものであり、正はあくまでDrive側にある。
+ * ファイルが失われても `rebuild` で再構築できる。
+ */
+export class SearchIndex {
+  private entries = new Map<string, IndexedBook>();
+  private ready = false;
+  private path?: string;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: SearchIndexOptions = {}) {
+    this.path = options.path;
+  }
+
+  /** 再構築またはスナップショット読み込みが完了し、検索に使える状態か */
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Driveの `app_type=my_library_book` のファイルを全件取得してインデックスを作り直す
+   */
+  async rebuild(driveService: GoogleDriveService): Promise<void> {
+    const entries = new Map<string, IndexedBook>();
+    let pageToken: string | undefined;
+    do {
+      const result = await driveService.listBooks(pageToken, REBUILD_PAGE_SIZE);
+      for (const file of result.files) {
+        entries.set(file.id, this.toEntry(file));
+      }
+      pageToken = result.nextPageToken;
+    } while (pageToken);
+
+    this.entries = entries;
+    this.ready = true;
+    this.scheduleSave();
+  }
+
+  upsert(file: DriveFile): void {
+    this.entries.set(file.id, this.toEntry(file));
+    this.scheduleSave();
+  }
+
+  remove(fileId: string): void {
+    if (this.entries.delete(fileId)) {
+      this.scheduleSave();
+    }
+  }
+
+  get(fileId: string): DriveFile | null {
+    return this.entries.get(fileId)?.file ?? null;
+  }
+
+  /** 全件をファイル名順に返す（Drive の listBooks と同じ並び） */
+  list(
+    pageToken?: string,
+    pageSize: number = DEFAULT_PAGE_SIZE,
+  ): DriveFileList {
+    const files = [...this.entries.values()].map((e) => e.file);
+    files.sort((a, b) => a.name.localeCompare(b.name));
+    return this.paginate(files, pageToken, pageSize);
+  }
+
+  search(
+    query: string,
+    pageToken?: string,
+    pageSize: number = DEFAULT_PAGE_SIZE,
+  ): DriveFileList {
+    const parsed = parseSearchQuery(query);
+    if (parsed.terms.length === 0 && parsed.fieldTerms.length === 0) {
+      return { files: [] };
+    }
+
+    const matches: DriveFile[] = [];
+    for (const entry of this.entries.values()) {
+      if (this.matches(entry, parsed)) {
+        matches.push(entry.file);
+      }
+    }
+    matches.sort((a, b) => a.name.localeCompare(b.name));
+    return this.paginate(matches, pageToken, pageSize);
+  }
+
+  /** インデックスのスナップショットを読み込む。ファイルが無い・壊れている場合は false */
+  async load(): Promise<boolean> {
+    if (!this.path) return false;
+    try {
+      const snapshot = JSON.parse(
+        await Deno.readTextFile(this.path),
+      ) as IndexSnapshot;
+      if (snapshot.version !== INDEX_FILE_VERSION) return false;
+      this.entries = new Map(
+        snapshot.files.map((file) => [file.id, this.toEntry(file)]),
+      );
+      this.ready = true;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** 保留中の書き込みを含め、インデックスの保存完了を待つ */
+  async flush(): Promise<void> {
+    await this.saving;
+  }
+
+  private scheduleSave(): void {
+    const path = this.path;
+    if (!path) return;
+    this.saving = this.saving.then(async () => {
+      const snapshot: IndexSnapshot = {
+        version: INDEX_FILE_VERSION,
+        savedAt: new Date().toISOString(),
+        files: [...this.entries.values()].map((e) => e.file),
+      };
+      try {
+        await Deno.writeTextFile(path, JSON.stringify(snapshot));
+      } catch (error) {
+        // インデックスは再構築可能なため、保存失敗は警告にとどめる
+        console.warn(`検索インデックスの保存に失敗しました: ${String(error)}`);
+      }
+    });
+  }
+
+  private toEntry(file: DriveFile): IndexedBook {
+    const p = file.properties || {};
+    return {
+      file,
+      fields: {
+        title: normalizeForSearch(p.title || ""),
+        authors: normalizeForSearch(p.authors || ""),
+        publisher: normalizeForSearch(p.publisher || ""),
+        isbn: normalizeForSearch(p.isbn || ""),
+        series: normalizeForSearch(p.series || ""),
+        name: normalizeForSearch(file.name),
+      },
+    };
+  }
+
+  private matches(entry: IndexedBook, parsed: ParsedSearchQuery): boolean {
+    for (const { field, term } of parsed.fieldTerms) {
+      if (!entry.fields[field].includes(term)) return false;
+    }
+    for (const term of parsed.terms) {
+      if (!SEARCH_FIELDS.some((field) => entry.fields[field].includes(term))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private paginate(
+    files: DriveFile[],
+    pageToken: string | undefined,
+    pageSize: number,
+  ): DriveFileList {
+    const startIndex = pageToken ? parseInt(pageToken) || 0 : 0;
+    const endIndex = startIndex + pageSize;
+    return {
+      files: files.slice(startIndex, endIndex),
+      nextPageToken: endIndex < files.length ? String(endIndex) : undefined,
+    };
+  }
+}
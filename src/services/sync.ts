@@ -0,0 +1,158 @@
+import { GoogleDriveService } from "../types.ts";
+import { BookService } from "./book.ts";
+
+const DEFAULT_INTERVAL = 60 * 1000; // 1 minute
+
+export interface SyncStatus {
+  startPageToken: string | null;
+  lastSyncAt: string | null;
+  lastError: string | null;
+  /** 起動以降にカタログへ反映した変更件数 */
+  changesApplied: number;
+  polling: boolean;
+}
+
+export interface SyncServiceOptions {
+  /** 指定するとページトークンをこのパスにJSONで保存し、再起動後も続きから同期する */
+  statePath?: string;
+  intervalMs?: number;
+}
+
+interface SyncState {
+  startPageToken: string;
+  lastSyncAt: string | null;
+}
+
+/**
+ * Drive Changes API による差分同期
+ *
+ * startPageToken 以降の変更だけを取得してカタログに反映するため、
+ * Drive の Web UI で直接行われた編集もTTL切れを待たずに反映される。
+ */
+export class SyncService {
+  private startPageToken: string | null = null;
+  private lastSyncAt: string | null = null;
+  private lastError: string | null = null;
+  private changesApplied = 0;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<number> | null = null;
+  private statePath?: string;
+  private intervalMs: number;
+
+  constructor(
+    private driveService: GoogleDriveService,
+    private bookService: BookService,
+    options: SyncServiceOptions = {},
+  ) {
+    this.statePath = options.statePath;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL;
+  }
+
+  /**
+   * 同期を開始できる状態にする。
+   * カタログが保存済みスナップショットから復元でき、かつ保存済みトークンがあれば差分だけ取り込む。
+   * そうでなければ新しいトークンを取得してからカタログを全件再構築する。
+   */
+  async initialize(catalogLoaded: boolean): Promise<void> {
+    if (catalogLoaded && await this.loadState()) {
+      await this.syncOnce();
+      return;
+    }
+
+    // 再構築中の変更を取りこぼさないよう、トークンを先に取得する
+    this.startPageToken = await this.driveService.getStartPageToken();
+    await this.bookService.rebuildSearchIndex();
+    this.lastSyncAt = new Date().toISOString();
+    await this.saveState();
+  }
+
+  /**
+   * 保存済みトークン以降の変更を取得して反映する。反映した件数を返す。
+   * 実行中に呼ばれた場合は進行中の同期の完了を待つ。
+   */
+  syncOnce(): Promise<number> {
+    if (!this.running) {
+      this.running = this.runSync().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  start(): void {
+    if (this.timerId !== null) return;
+    this.timerId = setInterval(() => {
+      this.syncOnce().catch(() => {
+        // エラーは lastError に記録済み
+      });
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timerId === null) return;
+    clearInterval(this.timerId);
+    this.timerId = null;
+  }
+
+  getStatus(): SyncStatus {
+    return {
+      startPageToken: this.startPageToken,
+      lastSyncAt: this.lastSyncAt,
+      lastError: this.lastError,
+      changesApplied: this.changesApplied,
+      polling: this.timerId !== null,
+    };
+  }
+
+  private async runSync(): Promise<number> {
+    try {
+      if (!this.startPageToken) {
+        this.startPageToken = await this.driveService.getStartPageToken();
+      }
+
+      let applied = 0;
+      let pageToken: string | undefined = this.startPageToken;
+      while (pageToken) {
+        const result = await this.driveService.listChanges(pageToken);
+        applied += this.bookService.applyDriveChanges(result.changes);
+        if (result.newStartPageToken) {
+          this.startPageToken = result.newStartPageToken;
+        }
+        pageToken = result.nextPageToken;
+      }
+
+      this.changesApplied += applied;
+      this.lastSyncAt = new Date().toISOString();
+      this.lastError = null;
+      await this.saveState();
+      return applied;
+    } catch (error) {
+      this.lastError = String(error);
+      throw error;
+    }
+  }
+
+  private async loadState(): Promise<boolean> {
+    if (!this.statePath) return false;
+    try {
+      const state = JSON.parse(
+        await Deno.readTextFile(this.statePath),
+      ) as SyncState;
+      if (!state.startPageToken) return false;
+      this.startPageToken = state.startPageToken;
+      this.lastSyncAt = state.lastSyncAt;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async saveState(): Promise<void> {
+    if (!this.statePath || !this.startPageToken) return;
+    const state: SyncState = {
+      startPageToken: this.startPageToken,
+      lastSyncAt: this.lastSyncAt,
+    };
+    await Deno.writeTextFile(this.statePath, JSON.stringify(state, null, 2));
+  }
+}
@@ -0,0 +1,34 @@
+import { decodeImage, encodeJpeg, RasterImage, resizeImage } from "./image.ts";
+
+export type CoverSize = "thumb" | "medium";
+
+/** 各サイズの縦横の上限（px）。medium は一覧のカード（h-64 w-44）の2倍密度に合わせる */
+export const COVER_SIZES: Record<CoverSize, { width: number; height: number }> = {
+  thumb: { width: 160, height: 240 },
+  medium: { width: 352, height: 512 },
+};
+
+export function isCoverSize(value: string | undefined): value is CoverSize {
+  return value !== undefined && Object.hasOwn(COVER_SIZES, value);
+}
+
+/**
+ * 表紙画像から指定サイズの縮小版（JPEG）を作る。
+ * 大きいサイズから順に縮小して次のサイズの元にするため、元画像の展開は1回で済む。
+ * 画像を読めない場合は null を返す。
+ */
+export async function createCoverRenditions(
+  data: Uint8Array,
+  sizes: CoverSize[] = ["medium", "thumb"],
+): Promise<Partial<Record<CoverSize, Uint8Array>> | null> {
+  let image: RasterImage | null = await decodeImage(data);
+  if (!image) return null;
+
+  const ordered = [...sizes].sort((a, b) => COVER_SIZES[b].width - COVER_SIZES[a].width);
+  const renditions: Partial<Record<CoverSize, Uint8Array>> = {};
+  for (const size of ordered) {
+    image = resizeImage(image, COVER_SIZES[size].width, COVER_SIZES[size].height);
+    renditions[size] = encodeJpeg(image);
+  }
+  return renditions;
+}
@@ -0,0 +1,42 @@
+export interface UploadProgress {
+  uploaded: number;
+  /** 分からない場合は undefined */
+  total?: number;
+  done: boolean;
+  updatedAt: number;
+}
+
+/** 完了後もしばらく残しておき、最後のポーリングで 100% を表示できるようにする */
+const DEFAULT_TTL = 10 * 60 * 1000;
+
+/**
+ * 登録画面から送られたアップロードの進捗をアップロードIDごとに保持する
+ */
+export class UploadProgressTracker {
+  private entries = new Map<string, UploadProgress>();
+
+  constructor(private ttlMs = DEFAULT_TTL) {}
+
+  update(id: string, uploaded: number, total?: number): void {
+    this.prune();
+    this.entries.set(id, { uploaded, total, done: false, updatedAt: Date.now() });
+  }
+
+  finish(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    entry.done = true;
+    entry.updatedAt = Date.now();
+  }
+
+  get(id: string): UploadProgress | null {
+    return this.entries.get(id) || null;
+  }
+
+  private prune(): void {
+    const threshold = Date.now() - this.ttlMs;
+    for (const [id, entry] of this.entries) {
+      if (entry.updatedAt < threshold) this.entries.delete(id);
+    }
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * ZIPアーカイブの読み書き（EPUB解析・形式変換用）
+ *
+ * Raspberry Pi 上でもネイティブバイナリなしで動くよう、
+ * セントラルディレクトリの解析と Web標準の DecompressionStream / CompressionStream だけで扱う。
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * 1エントリを展開したときの大きさの上限。小さな ZIP が巨大なデータに展開される
+ * ZIP 爆弾でメモリを使い切らないよう、宣言された大きさにかかわらずここで止める
+ */
+export const MAX_ZIP_ENTRY_SIZE = 128 * 1024 * 1024;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * セントラルディレクトリからエントリ一覧を読み取る
+ */
+export function readZipEntries(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // End of central directory はファイル末尾のコメントの手前にある
+  let eocd = -1;
+  const lowest = Math.max(0, data.length - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let i = data.length - EOCD_MIN_SIZE; i >= lowest; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("ZIPアーカイブではありません");
+
+  const count = view.getUint16(eocd + 10, true);
+  const centralOffset = view.getUint32(eocd + 16, true);
+  if (centralOffset === 0xffffffff) {
+    throw new Error("ZIP64形式には対応していません");
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = centralOffset;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("セントラルディレクトリが壊れています");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * エントリの内容を展開して返す。展開した大きさがセントラルディレクトリの宣言か
+ * maxSize を超えた時点で展開をやめて例外を投げる
+ */
+export async function extractZipEntry(
+  data: Uint8Array,
+  entry: ZipEntry,
+  maxSize = MAX_ZIP_ENTRY_SIZE,
+): Promise<Uint8Array> {
+  if (entry.size > maxSize) {
+    throw new Error(`展開後のファイルが大きすぎます: ${entry.name}`);
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const header = entry.localHeaderOffset;
+  if (header + 30 > data.length || view.getUint32(header, true) !== LOCAL_SIGNATURE) {
+    throw new Error(`ローカルヘッダが壊れています: ${entry.name}`);
+  }
+  // ローカルヘッダの拡張フィールド長はセントラルディレクトリと異なることがある
+  const start = header + 30 + view.getUint16(header + 26, true) +
+    view.getUint16(header + 28, true);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return compressed.slice();
+    case METHOD_DEFLATE:
+      return await inflateLimited(compressed, entry);
+    default:
+      throw new Error(`未対応の圧縮方式です: ${entry.method}`);
+  }
+}
+
+/** 宣言された大きさを超えて展開されたら、残りを読まずに止める */
+async function inflateLimited(compressed: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  const reader = ReadableStream.from([compressed.slice()])
+    .pipeThrough(new DecompressionStream("deflate-raw"))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > entry.size) {
+      await reader.cancel();
+      throw new Error(`展開後の大きさが宣言と異なります: ${entry.name}`);
+    }
+    chunks.push(value);
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * ZIPアーカイブを名前で引けるようにした読み取り用ラッパー
+ */
+export class ZipReader {
+  private entries: Map<string, ZipEntry>;
+
+  constructor(private data: Uint8Array) {
+    this.entries = new Map(readZipEntries(data).map((e) => [e.name, e]));
+  }
+
+  get names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  async read(name: string): Promise<Uint8Array | null> {
+    const entry = this.entries.get(name);
+    return entry ? await extractZipEntry(this.data, entry) : null;
+  }
+
+  async readText(name: string): Promise<string | null> {
+    const content = await this.read(name);
+    return content ? new TextDecoder().decode(content) : null;
+  }
+}
+
+export interface ZipWriteEntry {
+  name: string;
+  data: Uint8Array;
+  /** false なら無圧縮で格納する（EPUB の mimetype など） */
+  compress?: boolean;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = ReadableStream.from([data.slice()])
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * エントリを並べた順に ZIP アーカイブを組み立てる（ZIP64 には対応しない）
+ */
+export async function writeZip(entries: ZipWriteEntry[]): Promise<Uint8Array<ArrayBuffer>> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const compress = entry.compress !== false;
+    const stored = compress ? await deflate(entry.data) : entry.data;
+    const crc = crc32(entry.data);
+
+    // 名前は UTF-8（汎用ビットフラグの bit 11）
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_SIGNATURE, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true);
+    lv.setUint16(8, compress ? METHOD_DEFLATE : METHOD_STORED, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, stored.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_SIGNATURE, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, compress ? METHOD_DEFLATE : METHOD_STORED, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, stored.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, stored);
+    centrals.push(central);
+    offset += local.length + stored.length;
+  }
+
+  const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+  const eocd = new Uint8Array(EOCD_MIN_SIZE);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, EOCD_SIGNATURE, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, eocd];
+  const out = new Uint8Array(offset + centralSize + eocd.length);
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
@@ -1,11 +1,36 @@
+/** 著者の役割 */
+export type ContributorRole = "author" | "translator" | "illustrator" | "editor";
+
+export interface Contributor {
+  name: string;
+  role: ContributorRole;
+}
+
 export interface BookMetadata {
   isbn: string;
   title: string;
+  /** 表示・入力用の著者（「著者A、著者B（訳）」の形式） */
   authors: string;
+  /** 役割つきの著者の一覧。省略時は authors から読み取る */
+  contributors?: Contributor[];
   publisher: string;
   publishedDate: string;
   description: string;
   coverImageUrl: string;
+  series?: string;
+  /** シリーズ内の巻数（"1", "2.5" など） */
+  seriesIndex?: string;
+}
+
+/**
+ * 書籍ファイル自体から読み取った書誌情報と埋め込み表紙
+ */
+export interface BookFileInspection {
+  metadata: Partial<BookMetadata>;
+  cover?: {
+    data: Uint8Array;
+    mimeType: string;
+  };
 }
 
 export interface DriveFile {
@@ -17,6 +42,17 @@ export interface DriveFile {
   webContentLink?: string;
   thumbnailLink?: string;
   size?: string;
+  createdTime?: string;
+  modifiedTime?: string;
+  md5Checksum?: string;
+  /** 書籍の概要（プロパティの長さ制限を受けないファイル自体の説明欄） */
+  description?: string;
+}
+
+/** 両端を含むバイト範囲 */
+export interface ByteRange {
+  start: number;
+  end: number;
 }
 
 export interface DriveFileList {
@@ -24,8 +60,31 @@ export interface DriveFileList {
   nextPageToken?: string;
 }
 
+export interface DriveChange {
+  fileId: string;
+  /** ファイルが削除またはゴミ箱に移動された */
+  removed: boolean;
+  file?: DriveFile;
+  time?: string;
+}
+
+export interface DriveChangeList {
+  changes: DriveChange[];
+  nextPageToken?: string;
+  /** 最後のページでのみ返される、次回ポーリング開始用のトークン */
+  newStartPageToken?: string;
+}
+
+export interface UploadStreamOptions {
+  /** 分かっていれば進捗表示に使うファイルサイズ */
+  size?: number;
+  /** Drive が受信済みのバイト数を通知する */
+  onProgress?: (uploaded: number, total?: number) => void;
+}
+
 export interface GoogleDriveService {
   ensureMyLibraryFolder(): Promise<string>;
+  /** 親フォルダ直下の指定した名前のフォルダの ID を返す（なければ作る）。著者フォルダ以外の階層にも使う */
   ensureAuthorFolder(myLibraryFolderId: string, authorName: string): Promise<string>;
   uploadFile(
     folderId: string,
@@ -34,6 +93,15 @@ export interface GoogleDriveService {
     mimeType: string,
     properties: Record<string, string>,
   ): Promise<DriveFile>;
+  /** ファイル全体をメモリに載せずにストリームからアップロードする（中断しても続きから再開する） */
+  uploadFileStream(
+    folderId: string,
+    fileName: string,
+    content: ReadableStream<Uint8Array>,
+    mimeType: string,
+    properties: Record<string, string>,
+    options?: UploadStreamOptions,
+  ): Promise<DriveFile>;
   uploadCoverImage(
     folderId: string,
     fileName: string,
@@ -44,6 +112,10 @@ export interface GoogleDriveService {
     fileId: string,
     properties: Record<string, string>,
   ): Promise<DriveFile>;
+  /** ファイルの説明欄を書き換える */
+  updateFileDescription(fileId: string, description: string): Promise<DriveFile>;
+  /** ファイルの中身を置き換える（設定ファイルなど小さいファイル用） */
+  updateFileContent(fileId: string, content: Uint8Array, mimeType: string): Promise<DriveFile>;
   renameFile(fileId: string, newName: string): Promise<DriveFile>;
   moveFile(fileId: string, newFolderId: string, oldFolderId: string): Promise<DriveFile>;
   listBooks(pageToken?: string, pageSize?: number): Promise<DriveFileList>;
@@ -51,9 +123,14 @@ export interface GoogleDriveService {
   getFile(fileId: string): Promise<DriveFile>;
   getFileContent(fileId: string): Promise<Uint8Array>;
   getFileStream(fileId: string): Promise<ReadableStream>;
+  /** ファイルの一部だけを取得する */
+  getFileRangeStream(fileId: string, range: ByteRange): Promise<ReadableStream>;
   deleteFile(fileId: string): Promise<void>;
   findBookByIsbn(isbn: string): Promise<DriveFile | null>;
+  findBooksBySeries(series: string): Promise<DriveFile[]>;
   findFilesByParent(folderId: string): Promise<DriveFile[]>;
+  getStartPageToken(): Promise<string>;
+  listChanges(pageToken: string): Promise<DriveChangeList>;
 }
 
 export interface BookMetadataService {
@@ -0,0 +1,133 @@
+/** @jsxImportSource hono/jsx */
+
+import { AuthorAlias } from "../services/author_names.ts";
+import { AuthorSummary } from "../services/book.ts";
+
+export function AuthorsPage(props: {
+  authors: AuthorSummary[];
+  aliases: AuthorAlias[];
+  baseUrl: string;
+}) {
+  return (
+    <div>
+      <h1 class="text-2xl font-bold mb-2">著者の管理</h1>
+      <p class="text-sm text-base-content/70 mb-6">
+        表記の違う同じ著者を統合し、別名を正式な表記にそろえます。
+        別名表は Drive の MyLibrary/authors.json に保存されます。
+      </p>
+      <AuthorAdmin {...props} />
+    </div>
+  );
+}
+
+/** 統合・別名の操作のたびに htmx で差し替える部分 */
+export function AuthorAdmin(props: {
+  authors: AuthorSummary[];
+  aliases: AuthorAlias[];
+  baseUrl: string;
+  message?: { type: "success" | "error"; text: string };
+}) {
+  const { authors, aliases, baseUrl, message } = props;
+  return (
+    <div id="author-admin" class="space-y-8">
+      {message && (
+        <div class={`alert ${message.type === "success" ? "alert-success" : "alert-error"}`}>
+          <span>{message.text}</span>
+        </div>
+      )}
+
+      <section class="card bg-base-100 shadow">
+        <div class="card-body">
+          <h2 class="card-title">著者の統合</h2>
+          <p class="text-sm text-base-content/70">
+            統合元の名前を著者に含む書籍をすべて統合先の名前に書き換えます。空になったフォルダは削除します。
+          </p>
+          <form
+            class="flex flex-wrap items-end gap-3"
+            hx-post={`${baseUrl}/authors/merge`}
+            hx-target="#author-admin"
+            hx-swap="outerHTML"
+            hx-confirm="著者を統合しますか？"
+          >
+            <AuthorSelect name="source" label="統合元" authors={authors} />
+            <AuthorSelect name="target" label="統合先" authors={authors} />
+            <button type="submit" class="btn btn-primary">統合</button>
+          </form>
+        </div>
+      </section>
+
+      <section class="card bg-base-100 shadow">
+        <div class="card-body">
+          <h2 class="card-title">別名</h2>
+          <p class="text-sm text-base-content/70">
+            登録・編集時に別名は正式な表記に置き換えられます（空白・全角半角・かなの違いは区別しません）。
+          </p>
+          {aliases.length === 0
+            ? <p class="text-base-content/60 py-2">別名はありません</p>
+            : (
+              <div class="overflow-x-auto">
+                <table class="table table-sm">
+                  <thead>
+                    <tr>
+                      <th>別名</th>
+                      <th>正式な表記</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {aliases.map((a) => (
+                      <tr>
+                        <td>{a.alias}</td>
+                        <td>{a.canonical}</td>
+                        <td>
+                          <button
+                            type="button"
+                            class="btn btn-xs btn-ghost text-error"
+                            hx-delete={`${baseUrl}/authors/aliases?alias=${encodeURIComponent(a.alias)}`}
+                            hx-target="#author-admin"
+                            hx-swap="outerHTML"
+                          >
+                            削除
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          <form
+            class="flex flex-wrap items-end gap-3 mt-2"
+            hx-post={`${baseUrl}/authors/aliases`}
+            hx-target="#author-admin"
+            hx-swap="outerHTML"
+          >
+            <label class="form-control">
+              <span class="label-text">別名</span>
+              <input type="text" name="alias" class="input input-bordered input-sm" placeholder="Dazai Osamu" required />
+            </label>
+            <label class="form-control">
+              <span class="label-text">正式な表記</span>
+              <input type="text" name="canonical" class="input input-bordered input-sm" placeholder="太宰治" required />
+            </label>
+            <button type="submit" class="btn btn-sm btn-outline">追加</button>
+          </form>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function AuthorSelect(props: { name: string; label: string; authors: AuthorSummary[] }) {
+  return (
+    <label class="form-control">
+      <span class="label-text">{props.label}</span>
+      <select name={props.name} class="select select-bordered" required>
+        <option value="">選択してください</option>
+        {props.authors.map((a) => (
+          <option value={a.name}>{a.name}（{a.bookCount}冊）</option>
+        ))}
+      </select>
+    </label>
+  );
+}
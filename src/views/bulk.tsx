@@ -0,0 +1,254 @@
+/** @jsxImportSource hono/jsx */
+
+import { BulkBatch, BulkRow } from "../services/bulk.ts";
+import { BOOK_FILE_ACCEPT } from "../services/formats.ts";
+
+export function BulkPage(props: { baseUrl: string }) {
+  return (
+    <div class="max-w-7xl mx-auto">
+      <h1 class="text-2xl font-bold mb-6">一括登録</h1>
+
+      <div class="card bg-base-100 shadow-xl mb-6">
+        <div class="card-body">
+          <form
+            id="bulk-upload-form"
+            hx-post={`${props.baseUrl}/books/bulk`}
+            hx-encoding="multipart/form-data"
+            hx-target="#bulk-review"
+            hx-indicator="#bulk-loading"
+          >
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text">ファイル（電子書籍、複数選択可）</span>
+              </label>
+              <input
+                type="file"
+                name="files"
+                multiple
+                accept={BOOK_FILE_ACCEPT}
+                class="file-input file-input-bordered w-full"
+                required
+              />
+              <label class="label">
+                <span class="label-text-alt">
+                  ファイル内の書誌情報またはファイル名からISBNを探し、書誌情報を自動で補完します
+                </span>
+              </label>
+            </div>
+            <div class="form-control mt-4">
+              <button type="submit" class="btn btn-primary">
+                <span id="bulk-loading" class="htmx-indicator loading loading-spinner loading-sm"></span>
+                読み込み
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+
+      <div id="bulk-review"></div>
+    </div>
+  );
+}
+
+function RowNotes(props: { row: BulkRow }) {
+  const { row } = props;
+  return (
+    <div class="flex flex-wrap gap-1">
+      {row.isbnSource === "embedded" && <span class="badge badge-info badge-sm">ISBN: ファイル内</span>}
+      {row.isbnSource === "filename" && <span class="badge badge-info badge-sm">ISBN: ファイル名</span>}
+      {row.metadata.isbn && !row.metadataFound && (
+        <span class="badge badge-ghost badge-sm">書誌情報なし</span>
+      )}
+      {row.duplicate && (
+        <span class="badge badge-warning badge-sm" title={row.duplicate.title}>
+          {row.duplicate.fileId ? "登録済み" : "バッチ内で重複"}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function BulkReviewTable(props: {
+  batch: BulkBatch;
+  rejected: string[];
+  baseUrl: string;
+}) {
+  const { batch, baseUrl } = props;
+  return (
+    <div class="card bg-base-100 shadow-xl">
+      <div class="card-body">
+        <h2 class="card-title">登録内容の確認（{batch.rows.length}件）</h2>
+
+        {props.rejected.length > 0 && (
+          <div class="alert alert-warning">
+            <span>対応していない形式のため除外しました: {props.rejected.join(", ")}</span>
+          </div>
+        )}
+
+        <form
+          hx-post={`${baseUrl}/books/bulk/${batch.id}/commit`}
+          hx-target="#bulk-review"
+        >
+          <div class="overflow-x-auto">
+            <table class="table table-sm">
+              <thead>
+                <tr>
+                  <th>除外</th>
+                  <th>ファイル</th>
+                  <th>ISBN</th>
+                  <th>タイトル *</th>
+                  <th>著者名</th>
+                  <th>出版社</th>
+                  <th>備考</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batch.rows.map((row) => (
+                  <tr id={`bulk-row-${row.id}`}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        name={`skip.${row.id}`}
+                        class="checkbox checkbox-sm"
+                        checked={row.skip}
+                      />
+                    </td>
+                    <td class="max-w-xs truncate" title={row.fileName}>{row.fileName}</td>
+                    <td>
+                      <input
+                        type="text"
+                        name={`isbn.${row.id}`}
+                        value={row.metadata.isbn}
+                        class="input input-bordered input-sm w-36"
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        name={`title.${row.id}`}
+                        value={row.metadata.title}
+                        class="input input-bordered input-sm w-64"
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        name={`authors.${row.id}`}
+                        value={row.metadata.authors}
+                        class="input input-bordered input-sm w-40"
+                        placeholder="ハイフン(-)区切り"
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        name={`publisher.${row.id}`}
+                        value={row.metadata.publisher}
+                        class="input input-bordered input-sm w-32"
+                      />
+                    </td>
+                    <td><RowNotes row={row} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div class="card-actions justify-end mt-4">
+            <button
+              type="button"
+              class="btn btn-ghost"
+              hx-delete={`${baseUrl}/books/bulk/${batch.id}`}
+              hx-target="#bulk-review"
+            >
+              取り消し
+            </button>
+            <button type="submit" class="btn btn-primary">登録開始</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export function BulkRowStatusBadge(props: { row: BulkRow }) {
+  const { row } = props;
+  switch (row.status) {
+    case "registering":
+      return (
+        <span class="flex items-center gap-2">
+          <span class="loading loading-spinner loading-xs"></span>登録中
+        </span>
+      );
+    case "registered":
+      return <span class="badge badge-success">完了</span>;
+    case "skipped":
+      return <span class="badge badge-ghost">除外</span>;
+    case "error":
+      return <span class="badge badge-error" title={row.error}>エラー: {row.error}</span>;
+    default:
+      return <span class="badge badge-outline">待機中</span>;
+  }
+}
+
+export function BulkProgressSummary(props: { done: number; total: number }) {
+  return (
+    <div>
+      <progress class="progress progress-primary w-full" value={props.done} max={props.total}></progress>
+      <p class="text-sm mt-1">{props.done} / {props.total} 件処理済み</p>
+    </div>
+  );
+}
+
+export function BulkProgress(props: { batch: BulkBatch; baseUrl: string }) {
+  const { batch, baseUrl } = props;
+  return (
+    <div
+      class="card bg-base-100 shadow-xl"
+      hx-ext="sse"
+      sse-connect={`${baseUrl}/books/bulk/${batch.id}/events`}
+      sse-close="done"
+    >
+      <div class="card-body">
+        <h2 class="card-title">登録中</h2>
+        <div sse-swap="progress">
+          <BulkProgressSummary done={0} total={batch.rows.length} />
+        </div>
+
+        <table class="table table-sm">
+          <tbody>
+            {batch.rows.map((row) => (
+              <tr>
+                <td class="max-w-xs truncate" title={row.fileName}>{row.fileName}</td>
+                <td>{row.metadata.title}</td>
+                <td sse-swap={`row-${row.id}`}>
+                  <BulkRowStatusBadge row={row} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div sse-swap="done" class="card-actions justify-end">
+          <a href={`${baseUrl}/books/bulk`} class="btn btn-ghost btn-sm">続けて登録</a>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function BulkDone(props: { batch: BulkBatch; baseUrl: string }) {
+  const registered = props.batch.rows.filter((r) => r.status === "registered").length;
+  const errors = props.batch.rows.filter((r) => r.status === "error").length;
+  return (
+    <div class={`alert ${errors > 0 ? "alert-warning" : "alert-success"}`}>
+      <span>
+        {registered}件を登録しました{errors > 0 ? `（${errors}件はエラー）` : ""}
+      </span>
+      <div>
+        <a href={`${props.baseUrl}/books/bulk`} class="btn btn-sm btn-ghost">続けて登録</a>
+        <a href={`${props.baseUrl}/`} class="btn btn-sm btn-primary">ライブラリへ</a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+/** @jsxImportSource hono/jsx */
+
+import { DELIVERY_FORMATS, DeliveryLogEntry, Device } from "../services/delivery.ts";
+
+type Message = { type: "success" | "error"; text: string };
+
+function formatLabel(key?: string): string {
+  if (!key) return "登録した形式";
+  return DELIVERY_FORMATS.find((f) => f.key === key)?.label ?? key;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.ceil(bytes / 1024)}KB`;
+}
+
+/** 利用者ごとに送信先をまとめる */
+function groupByUser(devices: Device[]): [string, Device[]][] {
+  const groups = new Map<string, Device[]>();
+  for (const device of devices) {
+    groups.set(device.user, [...groups.get(device.user) || [], device]);
+  }
+  return [...groups];
+}
+
+function MessageAlert(props: { message?: Message }) {
+  if (!props.message) return null;
+  return (
+    <div class={`alert ${props.message.type === "success" ? "alert-success" : "alert-error"}`}>
+      <span>{props.message.text}</span>
+    </div>
+  );
+}
+
+export function DevicesPage(props: {
+  devices: Device[];
+  deliveries: DeliveryLogEntry[];
+  enabled: boolean;
+  maxBytes: number;
+  maxFileBytes: number;
+  baseUrl: string;
+}) {
+  return (
+    <div>
+      <h1 class="text-2xl font-bold mb-2">送信先の管理</h1>
+      <p class="text-sm text-base-content/70 mb-6">
+        書籍ファイルをメールで電子書籍リーダー（Kindle・PocketBook など）に送ります。
+        送信先は Drive の MyLibrary/devices.json、送信履歴は MyLibrary/deliveries.json に保存されます。
+        メールは{formatSize(props.maxBytes)}まで送れます（添付ファイルは Base64 で約4/3倍になるため、送れるファイルはおよそ{formatSize(props.maxFileBytes)}までです）。
+        Kindle には MOBI・AZW3 形式は送れないため、EPUB か PDF を送ってください。
+      </p>
+      {!props.enabled && (
+        <div class="alert alert-warning mb-6">
+          <span>メールの送信が設定されていません。環境変数 SMTP_HOST・MAIL_FROM を設定してください。</span>
+        </div>
+      )}
+      <DeviceAdmin devices={props.devices} baseUrl={props.baseUrl} />
+      <DeliveryLog deliveries={props.deliveries} />
+    </div>
+  );
+}
+
+/** 送信先の追加・削除のたびに htmx で差し替える部分 */
+export function DeviceAdmin(props: { devices: Device[]; baseUrl: string; message?: Message }) {
+  const { devices, baseUrl, message } = props;
+  return (
+    <div id="device-admin" class="space-y-4 mb-8">
+      <MessageAlert message={message} />
+      <section class="card bg-base-100 shadow">
+        <div class="card-body">
+          <h2 class="card-title">送信先</h2>
+          {devices.length === 0
+            ? <p class="text-base-content/60 py-2">送信先はありません</p>
+            : groupByUser(devices).map(([user, userDevices]) => (
+              <div class="overflow-x-auto">
+                <h3 class="font-bold mt-2">{user}</h3>
+                <table class="table table-sm">
+                  <thead>
+                    <tr>
+                      <th>端末</th>
+                      <th>メールアドレス</th>
+                      <th>形式</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {userDevices.map((d) => (
+                      <tr>
+                        <td>{d.name}</td>
+                        <td>{d.email}</td>
+                        <td>{formatLabel(d.format)}</td>
+                        <td>
+                          <button
+                            type="button"
+                            class="btn btn-xs btn-ghost text-error"
+                            hx-delete={`${baseUrl}/devices/${d.id}`}
+                            hx-target="#device-admin"
+                            hx-swap="outerHTML"
+                            hx-confirm={`送信先「${d.name}」を削除しますか？`}
+                          >
+                            削除
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          <form
+            class="flex flex-wrap items-end gap-3 mt-2"
+            hx-post={`${baseUrl}/devices`}
+            hx-target="#device-admin"
+            hx-swap="outerHTML"
+          >
+            <label class="form-control">
+              <span class="label-text">利用者</span>
+              <input type="text" name="user" class="input input-bordered input-sm" placeholder="さとる" required />
+            </label>
+            <label class="form-control">
+              <span class="label-text">端末</span>
+              <input type="text" name="name" class="input input-bordered input-sm" placeholder="Kindle" required />
+            </label>
+            <label class="form-control">
+              <span class="label-text">メールアドレス</span>
+              <input
+                type="email"
+                name="email"
+                class="input input-bordered input-sm"
+                placeholder="name@kindle.com"
+                required
+              />
+            </label>
+            <label class="form-control">
+              <span class="label-text">形式</span>
+              <select name="format" class="select select-bordered select-sm">
+                <option value="">登録した形式</option>
+                {DELIVERY_FORMATS.map((f) => (
+                  <option value={f.key}>{f.label}</option>
+                ))}
+              </select>
+            </label>
+            <button type="submit" class="btn btn-sm btn-outline">追加</button>
+          </form>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function DeliveryLog(props: { deliveries: DeliveryLogEntry[] }) {
+  return (
+    <section class="card bg-base-100 shadow">
+      <div class="card-body">
+        <h2 class="card-title">送信履歴</h2>
+        {props.deliveries.length === 0
+          ? <p class="text-base-content/60 py-2">送信履歴はありません</p>
+          : (
+            <div class="overflow-x-auto">
+              <table class="table table-sm">
+                <thead>
+                  <tr>
+                    <th>日時</th>
+                    <th>書籍</th>
+                    <th>送信先</th>
+                    <th>ファイル</th>
+                    <th>結果</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {props.deliveries.map((e) => (
+                    <tr>
+                      <td class="whitespace-nowrap">{new Date(e.time).toLocaleString("ja-JP")}</td>
+                      <td>{e.title}</td>
+                      <td>{e.user} / {e.device}（{e.email}）</td>
+                      <td>{e.fileName}（{formatSize(e.size)}）</td>
+                      <td>
+                        {e.status === "sent"
+                          ? <span class="badge badge-success">送信済み</span>
+                          : <span class="badge badge-error" title={e.error}>失敗</span>}
+                        {e.error && <p class="text-xs text-error">{e.error}</p>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+      </div>
+    </section>
+  );
+}
+
+/** 書籍カードの「送信」で開く送信先の選択 */
+export function SendForm(props: {
+  bookId: string;
+  devices: Device[];
+  enabled: boolean;
+  baseUrl: string;
+  message?: Message;
+}) {
+  const { bookId, devices, enabled, baseUrl, message } = props;
+  if (!enabled) {
+    return <p class="text-xs text-warning">メールの送信が設定されていません</p>;
+  }
+  if (devices.length === 0) {
+    return (
+      <p class="text-xs">
+        送信先がありません。<a href={`${baseUrl}/devices`} class="link">送信先を追加</a>
+      </p>
+    );
+  }
+  return (
+    <form
+      class="space-y-2"
+      hx-post={`${baseUrl}/books/${bookId}/send`}
+      hx-target="this"
+      hx-swap="outerHTML"
+    >
+      <MessageAlert message={message} />
+      <div class="flex gap-2">
+        <select name="device" class="select select-bordered select-xs flex-1" required>
+          {groupByUser(devices).map(([user, userDevices]) => (
+            <optgroup label={user}>
+              {userDevices.map((d) => (
+                <option value={d.id}>{d.name}（{formatLabel(d.format)}）</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button type="submit" class="btn btn-primary btn-xs">送信</button>
+      </div>
+    </form>
+  );
+}
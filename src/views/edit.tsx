@@ -1,6 +1,9 @@
 /** @jsxImportSource hono/jsx */
 
 import { DriveFile } from "../types.ts";
+import { getBookConversions, getBookDescription, getBookFormats } from "../services/book.ts";
+import { BOOK_FILE_ACCEPT } from "../services/formats.ts";
+import { formatContributors, getContributors } from "../services/contributors.ts";
 
 export function EditPage(props: { book: DriveFile; baseUrl: string }) {
   const { book, baseUrl } = props;
@@ -37,8 +40,21 @@ export function EditPage(props: { book: DriveFile; baseUrl: string }) {
                 type="text"
                 name="authors"
                 class="input input-bordered"
-                value={p.authors || ""}
-                placeholder="複数著者はハイフン(-)区切り"
+                value={formatContributors(getContributors(p))}
+                placeholder="複数著者は「、」区切り。訳者などは「名前（訳）」"
+              />
+            </div>
+
+            <div class="form-control mb-3">
+              <label class="label">
+                <span class="label-text">ISBN</span>
+              </label>
+              <input
+                type="text"
+                name="isbn"
+                class="input input-bordered"
+                value={p.isbn || ""}
+                placeholder="978-4-XXXX-XXXX-X"
               />
             </div>
 
@@ -67,6 +83,45 @@ export function EditPage(props: { book: DriveFile; baseUrl: string }) {
               />
             </div>
 
+            <div class="flex gap-2 mb-3">
+              <div class="form-control flex-1">
+                <label class="label">
+                  <span class="label-text">シリーズ</span>
+                </label>
+                <input
+                  type="text"
+                  name="series"
+                  class="input input-bordered"
+                  value={p.series || ""}
+                />
+              </div>
+              <div class="form-control w-28">
+                <label class="label">
+                  <span class="label-text">巻数</span>
+                </label>
+                <input
+                  type="text"
+                  name="seriesIndex"
+                  class="input input-bordered"
+                  value={p.series_index || ""}
+                  inputmode="decimal"
+                />
+              </div>
+            </div>
+
+            <div class="form-control mb-3">
+              <label class="label">
+                <span class="label-text">概要</span>
+              </label>
+              <textarea
+                name="description"
+                class="textarea textarea-bordered"
+                rows={5}
+              >
+                {getBookDescription(book)}
+              </textarea>
+            </div>
+
             <div class="form-control mt-6 flex-row gap-2 justify-end">
               <a href="/" class="btn btn-ghost">キャンセル</a>
               <button type="submit" class="btn btn-primary">保存</button>
@@ -76,6 +131,188 @@ export function EditPage(props: { book: DriveFile; baseUrl: string }) {
           <div id="edit-result" class="mt-4"></div>
         </div>
       </div>
+
+      <BookFormatList book={book} baseUrl={baseUrl} />
+
+      <CoverEditor book={book} baseUrl={baseUrl} />
+    </div>
+  );
+}
+
+/**
+ * 書籍の形式ごとのファイルと、変換してダウンロードできる形式。形式の追加・削除後はこの部分だけを描画し直す
+ */
+export function BookFormatList(props: {
+  book: DriveFile;
+  baseUrl: string;
+  message?: { type: "success" | "error"; text: string };
+}) {
+  const { book, baseUrl, message } = props;
+  const formats = getBookFormats(book);
+  const conversions = getBookConversions(book);
+  const bookUrl = `${baseUrl}/books/${book.id}`;
+
+  return (
+    <div id="book-formats" class="card bg-base-100 shadow-xl mt-6">
+      <div class="card-body">
+        <h2 class="card-title">ファイルの形式</h2>
+        <ul class="divide-y divide-base-200">
+          {formats.map((format) => (
+            <li class="flex items-center gap-3 py-2">
+              <span class="badge badge-outline">{format.label}</span>
+              <a
+                href={`${baseUrl}/books/${format.fileId}/download`}
+                target="_blank"
+                class="link link-hover text-sm flex-1"
+              >
+                ダウンロード
+              </a>
+              {formats.length > 1 && (
+                <button
+                  type="button"
+                  class="btn btn-error btn-outline btn-xs"
+                  hx-delete={`${bookUrl}/formats/${format.fileId}`}
+                  hx-target="#book-formats"
+                  hx-swap="outerHTML"
+                  hx-confirm={`${format.label}形式のファイルを削除しますか？`}
+                >
+                  削除
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        {conversions.length > 0 && (
+          <p class="text-sm">
+            <span class="text-base-content/70">変換してダウンロード:</span>
+            {conversions.map((conversion) => (
+              <a href={`${bookUrl}/download?format=${conversion.key}`} class="link link-hover ml-3">
+                {conversion.label}
+              </a>
+            ))}
+          </p>
+        )}
+        <form
+          class="flex flex-wrap items-end gap-3 mt-2"
+          hx-post={`${bookUrl}/formats`}
+          hx-encoding="multipart/form-data"
+          hx-target="#book-formats"
+          hx-swap="outerHTML"
+        >
+          <label class="form-control flex-1">
+            <span class="label-text">別の形式のファイルを追加</span>
+            <input
+              type="file"
+              name="file"
+              class="file-input file-input-bordered file-input-sm"
+              accept={BOOK_FILE_ACCEPT}
+              required
+            />
+          </label>
+          <button type="submit" class="btn btn-primary btn-sm">追加</button>
+        </form>
+        {message && (
+          <div class={`alert ${message.type === "success" ? "alert-success" : "alert-error"} mt-4`}>
+            <span>{message.text}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 表紙の差し替え（画像アップロード・URL指定・ISBNで再取得）と削除。
+ * 操作後はこの部分だけを新しい表紙で描画し直す
+ */
+export function CoverEditor(props: { book: DriveFile; baseUrl: string; message?: string }) {
+  const { book, baseUrl, message } = props;
+  const p = book.properties || {};
+  const coverUrl = `${baseUrl}/books/${book.id}`;
+
+  return (
+    <div id="cover-editor" class="card bg-base-100 shadow-xl mt-6">
+      <div class="card-body">
+        <h2 class="card-title">表紙</h2>
+        <div class="flex gap-6">
+          {p.cover_file_id
+            ? (
+              <img
+                src={`${coverUrl}/cover?size=medium&v=${p.cover_file_id}`}
+                alt={p.title || book.name}
+                class="rounded-xl h-64 w-44 object-cover"
+              />
+            )
+            : (
+              <div class="rounded-xl h-64 w-44 bg-base-300 flex items-center justify-center">
+                <span class="text-base-content/50 text-sm">No Cover</span>
+              </div>
+            )}
+
+          <div class="flex-1">
+            <form
+              hx-post={`${coverUrl}/cover`}
+              hx-encoding="multipart/form-data"
+              hx-target="#cover-editor"
+              hx-swap="outerHTML"
+            >
+              <div class="form-control mb-3">
+                <label class="label">
+                  <span class="label-text">画像をアップロード</span>
+                </label>
+                <input
+                  type="file"
+                  name="cover"
+                  class="file-input file-input-bordered file-input-sm"
+                  accept="image/jpeg,image/png,image/webp,image/gif"
+                />
+              </div>
+              <div class="form-control mb-3">
+                <label class="label">
+                  <span class="label-text">または画像のURL</span>
+                </label>
+                <input
+                  type="url"
+                  name="coverUrl"
+                  class="input input-bordered input-sm"
+                  placeholder="https://..."
+                />
+              </div>
+              <button type="submit" class="btn btn-primary btn-sm">表紙を差し替え</button>
+            </form>
+
+            <div class="flex gap-2 mt-4">
+              <button
+                type="button"
+                class="btn btn-outline btn-sm"
+                hx-post={`${coverUrl}/cover/refetch`}
+                hx-target="#cover-editor"
+                hx-swap="outerHTML"
+                disabled={!p.isbn}
+              >
+                ISBNで再取得
+              </button>
+              {p.cover_file_id && (
+                <button
+                  type="button"
+                  class="btn btn-error btn-outline btn-sm"
+                  hx-delete={`${coverUrl}/cover`}
+                  hx-target="#cover-editor"
+                  hx-swap="outerHTML"
+                  hx-confirm="表紙を削除しますか？"
+                >
+                  表紙を削除
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+        {message && (
+          <div class="alert alert-success mt-4">
+            <span>{message}</span>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,116 @@
+/** @jsxImportSource hono/jsx */
+
+import { Job, JobStatus } from "../services/jobs.ts";
+import { formatBytes } from "./register.tsx";
+
+const STATUS_LABELS: Record<JobStatus, { label: string; badge: string }> = {
+  queued: { label: "待機中", badge: "badge-outline" },
+  running: { label: "実行中", badge: "badge-info" },
+  succeeded: { label: "完了", badge: "badge-success" },
+  failed: { label: "失敗", badge: "badge-error" },
+};
+
+function formatTime(iso: string | null): string {
+  if (!iso) return "";
+  return new Date(iso).toLocaleString("ja-JP");
+}
+
+export function JobTable(props: { jobs: Job[]; baseUrl: string }) {
+  const { jobs, baseUrl } = props;
+  return (
+    <div
+      id="job-table"
+      hx-get={`${baseUrl}/jobs/table`}
+      hx-trigger="every 5s"
+      hx-swap="outerHTML"
+    >
+      {jobs.length === 0
+        ? <p class="text-center text-base-content/60 py-8">ジョブはありません</p>
+        : (
+          <div class="overflow-x-auto">
+            <table class="table table-sm">
+              <thead>
+                <tr>
+                  <th>状態</th>
+                  <th>内容</th>
+                  <th>試行</th>
+                  <th>登録日時</th>
+                  <th>更新日時</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map((job) => {
+                  const status = STATUS_LABELS[job.status];
+                  return (
+                    <tr id={`job-${job.id}`}>
+                      <td>
+                        <span class={`badge ${status.badge}`}>{status.label}</span>
+                      </td>
+                      <td>
+                        <div>{job.label}</div>
+                        {job.status === "running" && job.progress && (
+                          <div class="text-xs text-base-content/60">
+                            {formatBytes(job.progress.done)}
+                            {job.progress.total ? ` / ${formatBytes(job.progress.total)}` : ""}
+                          </div>
+                        )}
+                        {job.lastError && (
+                          <div class="text-xs text-error">{job.lastError}</div>
+                        )}
+                        {job.status === "queued" && job.nextRunAt && (
+                          <div class="text-xs text-base-content/60">
+                            再試行予定: {formatTime(job.nextRunAt)}
+                          </div>
+                        )}
+                      </td>
+                      <td>{job.attempts} / {job.maxAttempts}</td>
+                      <td class="whitespace-nowrap">{formatTime(job.createdAt)}</td>
+                      <td class="whitespace-nowrap">{formatTime(job.updatedAt)}</td>
+                      <td class="whitespace-nowrap">
+                        {job.status === "failed" && (
+                          <button
+                            type="button"
+                            class="btn btn-xs btn-outline"
+                            hx-post={`${baseUrl}/jobs/${job.id}/retry`}
+                            hx-target="#job-table"
+                            hx-swap="outerHTML"
+                          >
+                            再試行
+                          </button>
+                        )}
+                        {(job.status === "failed" || job.status === "succeeded") && (
+                          <button
+                            type="button"
+                            class="btn btn-xs btn-ghost"
+                            hx-delete={`${baseUrl}/jobs/${job.id}`}
+                            hx-target="#job-table"
+                            hx-swap="outerHTML"
+                          >
+                            削除
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+    </div>
+  );
+}
+
+export function JobsPage(props: { jobs: Job[]; baseUrl: string }) {
+  return (
+    <div>
+      <h1 class="text-2xl font-bold mb-6">ジョブ</h1>
+      <div class="card bg-base-100 shadow-xl">
+        <div class="card-body">
+          <JobTable jobs={props.jobs} baseUrl={props.baseUrl} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ export function Layout(props: { title: string; children: unknown }) {
         />
         <script src="https://cdn.tailwindcss.com"></script>
         <script src="https://unpkg.com/htmx.org@2"></script>
+        <script src="https://unpkg.com/htmx-ext-sse@2/sse.js"></script>
       </head>
       <body class="min-h-screen bg-base-200">
         <div class="navbar bg-base-100 shadow-lg">
@@ -22,6 +23,10 @@ export function Layout(props: { title: string; children: unknown }) {
           </div>
           <div class="flex-none gap-2">
             <a href="/" class="btn btn-ghost btn-sm">ライブラリ</a>
+            <a href="/books/bulk" class="btn btn-ghost btn-sm">一括登録</a>
+            <a href="/authors" class="btn btn-ghost btn-sm">著者</a>
+            <a href="/devices" class="btn btn-ghost btn-sm">送信先</a>
+            <a href="/jobs" class="btn btn-ghost btn-sm">ジョブ</a>
             <a href="/books/new" class="btn btn-primary btn-sm">書籍登録</a>
           </div>
         </div>
@@ -1,15 +1,20 @@
 /** @jsxImportSource hono/jsx */
 
 import { DriveFile } from "../types.ts";
+import { getBookFormats } from "../services/book.ts";
+import { BookReadingProgress } from "../services/kosync.ts";
 
-function BookCard(props: { book: DriveFile; baseUrl: string }) {
-  const { book, baseUrl } = props;
+function BookCard(props: { book: DriveFile; baseUrl: string; progress?: BookReadingProgress[] }) {
+  const { book, baseUrl, progress } = props;
   const title = book.properties?.title || book.name;
   const authors = book.properties?.authors || "不明";
+  const series = book.properties?.series;
+  const seriesIndex = book.properties?.series_index;
   const coverFileId = book.properties?.cover_file_id;
   const coverUrl = coverFileId
-    ? `${baseUrl}/books/${book.id}/cover`
+    ? `${baseUrl}/books/${book.id}/cover?size=medium&v=${coverFileId}`
     : null;
+  const formats = getBookFormats(book);
 
   return (
     <div class="card bg-base-100 shadow-xl hover:shadow-2xl transition-shadow">
@@ -33,14 +38,62 @@ function BookCard(props: { book: DriveFile; baseUrl: string }) {
       <div class="card-body p-4">
         <h2 class="card-title text-sm line-clamp-2">{title}</h2>
         <p class="text-xs text-base-content/70">{authors}</p>
-        <div class="card-actions justify-end mt-2">
+        {series && (
           <a
-            href={`${baseUrl}/books/${book.id}/download`}
-            target="_blank"
-            class="btn btn-primary btn-xs"
+            href={`${baseUrl}/series/${encodeURIComponent(series)}`}
+            class="link link-hover text-xs text-base-content/70"
           >
-            DL
+            {series}
+            {seriesIndex && ` #${seriesIndex}`}
           </a>
+        )}
+        {progress?.map((p) => (
+          <div
+            class="text-xs text-base-content/70"
+            title={`${p.device}（${new Date(p.timestamp * 1000).toLocaleString("ja-JP")}）`}
+          >
+            <div class="flex justify-between">
+              <span>{p.user}</span>
+              <span>{Math.round(p.percentage * 100)}%</span>
+            </div>
+            <progress
+              class="progress progress-primary w-full"
+              value={Math.round(p.percentage * 100)}
+              max="100"
+            >
+            </progress>
+          </div>
+        ))}
+        <div class="card-actions justify-end mt-2">
+          {formats.length === 1
+            ? (
+              <a
+                href={`${baseUrl}/books/${book.id}/download`}
+                target="_blank"
+                class="btn btn-primary btn-xs"
+              >
+                DL
+              </a>
+            )
+            : formats.map((format) => (
+              <a
+                href={`${baseUrl}/books/${format.fileId}/download`}
+                target="_blank"
+                class="btn btn-primary btn-xs"
+                title={`${format.label}をダウンロード`}
+              >
+                {format.label}
+              </a>
+            ))}
+          <button
+            type="button"
+            class="btn btn-outline btn-xs"
+            hx-get={`${baseUrl}/books/${book.id}/send`}
+            hx-target={`#send-${book.id}`}
+            hx-swap="innerHTML"
+          >
+            送信
+          </button>
           <a
             href={`${baseUrl}/books/${book.id}/edit`}
             class="btn btn-ghost btn-xs"
@@ -50,13 +103,16 @@ function BookCard(props: { book: DriveFile; baseUrl: string }) {
           <button
             class="btn btn-error btn-xs"
             hx-delete={`${baseUrl}/books/${book.id}`}
-            hx-confirm="この書籍を削除してもよろしいですか？"
+            hx-confirm={formats.length > 1
+              ? "この書籍をすべての形式のファイルごと削除してもよろしいですか？"
+              : "この書籍を削除してもよろしいですか？"}
             hx-target="closest .card"
             hx-swap="outerHTML"
           >
             削除
           </button>
         </div>
+        <div id={`send-${book.id}`}></div>
       </div>
     </div>
   );
@@ -66,8 +122,10 @@ export function BookGrid(props: {
   books: DriveFile[];
   nextPageToken?: string;
   baseUrl: string;
+  /** 書籍 ID ごとの KOReader の読書位置 */
+  progress?: Map<string, BookReadingProgress[]>;
 }) {
-  const { books, nextPageToken, baseUrl } = props;
+  const { books, nextPageToken, baseUrl, progress } = props;
 
   if (books.length === 0) {
     return (
@@ -84,7 +142,7 @@ export function BookGrid(props: {
     <div>
       <div class="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
         {books.map((book) => (
-          <BookCard book={book} baseUrl={baseUrl} />
+          <BookCard book={book} baseUrl={baseUrl} progress={progress?.get(book.id)} />
         ))}
       </div>
       {nextPageToken && (
@@ -108,6 +166,7 @@ export function LibraryPage(props: {
   nextPageToken?: string;
   query?: string;
   baseUrl: string;
+  progress?: Map<string, BookReadingProgress[]>;
 }) {
   return (
     <div>
@@ -135,6 +194,7 @@ export function LibraryPage(props: {
           books={props.books}
           nextPageToken={props.nextPageToken}
           baseUrl={props.baseUrl}
+          progress={props.progress}
         />
       </div>
     </div>
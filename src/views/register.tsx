@@ -1,6 +1,15 @@
 /** @jsxImportSource hono/jsx */
 
-import { BookMetadata } from "../types.ts";
+import { BookFileInspection, BookMetadata } from "../types.ts";
+import { UploadProgress } from "../services/upload_progress.ts";
+import { BOOK_FILE_ACCEPT, SUPPORTED_FORMAT_LABELS } from "../services/formats.ts";
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
 
 export function RegisterPage(props: { baseUrl: string }) {
   return (
@@ -65,7 +74,7 @@ export function RegisterPage(props: { baseUrl: string }) {
                 name="authors"
                 id="form-authors"
                 class="input input-bordered"
-                placeholder="複数著者はハイフン(-)区切り"
+                placeholder="複数著者は「、」区切り。訳者などは「名前（訳）」"
               />
             </div>
 
@@ -94,6 +103,32 @@ export function RegisterPage(props: { baseUrl: string }) {
               />
             </div>
 
+            <div class="flex gap-2 mb-3">
+              <div class="form-control flex-1">
+                <label class="label">
+                  <span class="label-text">シリーズ</span>
+                </label>
+                <input
+                  type="text"
+                  name="series"
+                  id="form-series"
+                  class="input input-bordered"
+                />
+              </div>
+              <div class="form-control w-28">
+                <label class="label">
+                  <span class="label-text">巻数</span>
+                </label>
+                <input
+                  type="text"
+                  name="seriesIndex"
+                  id="form-series-index"
+                  class="input input-bordered"
+                  inputmode="decimal"
+                />
+              </div>
+            </div>
+
             <div class="form-control mb-3">
               <label class="label">
                 <span class="label-text">概要</span>
@@ -113,20 +148,29 @@ export function RegisterPage(props: { baseUrl: string }) {
               value=""
             />
 
+            {/* ファイルより前に送られるよう、ファイル欄の前に置く */}
+            <input type="hidden" name="uploadId" id="form-upload-id" value="" />
+            <input type="hidden" name="fileSize" id="form-file-size" value="" />
+
             <div class="form-control mb-4">
               <label class="label">
-                <span class="label-text">ファイル（EPUB/PDF）*</span>
+                <span class="label-text">ファイル（電子書籍）*</span>
               </label>
               <input
                 type="file"
                 name="file"
                 id="form-file"
-                accept=".epub,.pdf,application/epub+zip,application/pdf"
+                accept={BOOK_FILE_ACCEPT}
                 class="file-input file-input-bordered w-full"
                 required
+                hx-post={`${props.baseUrl}/api/inspect`}
+                hx-trigger="change"
+                hx-encoding="multipart/form-data"
+                hx-target="#metadata-result"
+                hx-indicator="#isbn-loading"
               />
               <label class="label">
-                <span class="label-text-alt">EPUB, PDF形式のファイルのみ対応</span>
+                <span class="label-text-alt">対応形式: {SUPPORTED_FORMAT_LABELS}</span>
               </label>
             </div>
 
@@ -138,7 +182,30 @@ export function RegisterPage(props: { baseUrl: string }) {
             </div>
           </form>
 
+          <div
+            id="upload-progress"
+            hx-get={`${props.baseUrl}/api/uploads`}
+            hx-include="#form-upload-id"
+            hx-trigger="every 1s [document.getElementById('register-loading').classList.contains('htmx-request')]"
+          >
+          </div>
+
           <div id="register-result" class="mt-4"></div>
+          <script
+            dangerouslySetInnerHTML={{
+              __html: `
+              // htmx がフォームを送る前に、進捗の問い合わせに使うIDとファイルサイズを設定する
+              document.addEventListener('submit', function (e) {
+                if (e.target.id !== 'register-form') return;
+                var file = document.getElementById('form-file').files[0];
+                document.getElementById('form-upload-id').value =
+                  Date.now().toString(36) + Math.random().toString(36).slice(2);
+                document.getElementById('form-file-size').value = file ? String(file.size) : '';
+                document.getElementById('upload-progress').innerHTML = '';
+              }, true);
+            `,
+            }}
+          />
         </div>
       </div>
     </div>
@@ -182,10 +249,75 @@ export function MetadataResult(props: {
   );
 }
 
-export function RegisterSuccess() {
+/**
+ * 書籍ファイルから読み取った書誌情報で、未入力の項目だけを埋める
+ */
+export function InspectionResult(props: {
+  inspection: BookFileInspection | null;
+}) {
+  if (!props.inspection) {
+    return (
+      <div class="alert alert-warning mb-4">
+        <span>ファイルから書誌情報を読み取れませんでした。手動で入力してください。</span>
+      </div>
+    );
+  }
+
+  const m = props.inspection.metadata;
+  const fields: [string, string | undefined][] = [
+    ["isbn-input", m.isbn],
+    ["form-isbn", m.isbn],
+    ["form-title", m.title],
+    ["form-authors", m.authors],
+    ["form-publisher", m.publisher],
+    ["form-published-date", m.publishedDate],
+    ["form-series", m.series],
+    ["form-series-index", m.seriesIndex],
+    ["form-description", m.description],
+  ];
+  return (
+    <div class="alert alert-info mb-4">
+      <div>
+        <span>ファイルから書誌情報を読み取りました</span>
+        {props.inspection.cover && <span>（表紙画像あり）</span>}
+      </div>
+      <script
+        dangerouslySetInnerHTML={{
+          __html: `
+          ${JSON.stringify(fields.filter(([, v]) => v)).replace(/</g, "\\u003c")}.forEach(function (f) {
+            var el = document.getElementById(f[0]);
+            if (el && !el.value) el.value = f[1];
+          });
+        `,
+        }}
+      />
+    </div>
+  );
+}
+
+export function UploadProgressBar(props: { progress: UploadProgress | null }) {
+  const p = props.progress;
+  if (!p) return <div></div>;
+
+  const percent = p.total ? Math.min(100, Math.floor((p.uploaded / p.total) * 100)) : null;
+  return (
+    <div class="mt-4">
+      {percent !== null
+        ? <progress class="progress progress-primary w-full" value={percent} max="100"></progress>
+        : <progress class="progress progress-primary w-full"></progress>}
+      <div class="text-xs text-base-content/60">
+        {p.done ? "アップロード完了" : "アップロード中"}: {formatBytes(p.uploaded)}
+        {p.total ? ` / ${formatBytes(p.total)}` : ""}
+        {percent !== null && `（${percent}%）`}
+      </div>
+    </div>
+  );
+}
+
+export function RegisterSuccess(props: { message?: string } = {}) {
   return (
     <div class="alert alert-success">
-      <span>書籍の登録が完了しました</span>
+      <span>{props.message ?? "書籍の登録が完了しました"}</span>
       <div>
         <a href="/books/new" class="btn btn-sm btn-ghost">続けて登録</a>
         <a href="/" class="btn btn-sm btn-primary">ライブラリへ</a>
@@ -199,6 +331,23 @@ export function RegisterSuccess() {
   );
 }
 
+export function RegisterQueued() {
+  return (
+    <div class="alert alert-info">
+      <span>登録を受け付けました。アップロードの状況はジョブ一覧で確認できます</span>
+      <div>
+        <a href="/books/new" class="btn btn-sm btn-ghost">続けて登録</a>
+        <a href="/jobs" class="btn btn-sm btn-primary">ジョブ一覧へ</a>
+      </div>
+      <script
+        dangerouslySetInnerHTML={{
+          __html: `document.getElementById('register-form').reset();`,
+        }}
+      />
+    </div>
+  );
+}
+
 export function RegisterError(props: { message: string }) {
   return (
     <div class="alert alert-error">
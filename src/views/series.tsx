@@ -0,0 +1,23 @@
+/** @jsxImportSource hono/jsx */
+
+import { DriveFile } from "../types.ts";
+import { BookGrid } from "./library.tsx";
+import { BookReadingProgress } from "../services/kosync.ts";
+
+export function SeriesPage(props: {
+  series: string;
+  books: DriveFile[];
+  baseUrl: string;
+  progress?: Map<string, BookReadingProgress[]>;
+}) {
+  return (
+    <div>
+      <div class="mb-6">
+        <h1 class="text-2xl font-bold">{props.series}</h1>
+        <p class="text-sm text-base-content/70">全{props.books.length}巻</p>
+      </div>
+
+      <BookGrid books={props.books} baseUrl={props.baseUrl} progress={props.progress} />
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
 import { CacheService } from "../../src/services/cache.ts";
 import { BookMetadata, BookMetadataService } from "../../src/types.ts";
 
+/** 先頭のバイト列で EPUB と判定される最小限の内容（ZIP の先頭に無圧縮の mimetype） */
+const EPUB_HEADER = "PK\x03\x04" + "\0".repeat(26) + "mimetypeapplication/epub+zip";
+
 class MockMetadataService implements BookMetadataService {
   private data: Map<string, BookMetadata> = new Map();
 
@@ -53,7 +56,7 @@ async function registerBookViaHttp(
   formData.append(
     "file",
     new File(
-      [opts.fileContent || "dummy content"],
+      [opts.fileContent || EPUB_HEADER + "dummy content"],
       opts.fileName || "test.epub",
       { type: opts.fileMimeType || "application/epub+zip" },
     ),
@@ -92,7 +95,7 @@ Deno.test("Scenario 1: Book registration → browse → download", async () => {
   // (This is a UI interaction, tested via form fields being editable)
 
   // Step 4-5: Upload file and register
-  const fileContent = "This is the EPUB file content for scenario 1";
+  const fileContent = EPUB_HEADER + "This is the EPUB file content for scenario 1";
   const regRes = await registerBookViaHttp(app, {
     title: "人間失格",
     authors: "太宰治",
@@ -295,7 +298,7 @@ Deno.test("Scenario 5: OPDS catalog flow", async () => {
   );
 
   // Step 2: Access OPDS feed
-  const feedRes = await app.request("/opds", {
+  const feedRes = await app.request("/opds/all", {
     headers: { host: "localhost:8000" },
   });
   assertEquals(feedRes.status, 200);
@@ -394,14 +397,14 @@ Deno.test("Data: multiple authors format (DAT-005)", async () => {
 
   const file = await bookService.registerBook(
     {
-      isbn: "1", title: "テスト", authors: "著者A-著者B",
+      isbn: "1", title: "テスト", authors: "著者A、Jean-Paul Sartre",
       publisher: "", publishedDate: "", description: "", coverImageUrl: "",
     },
     content,
     "application/epub+zip",
   );
-  assertEquals(file.properties.authors, "著者A-著者B");
-  assertEquals(file.properties.authors.includes("-"), true);
+  assertEquals(file.properties.authors, "著者A、Jean-Paul Sartre");
+  assertEquals(file.properties.contributors, "aut:著者A;aut:Jean-Paul Sartre");
 });
 
 Deno.test("Data: single author (DAT-004)", async () => {
@@ -0,0 +1,118 @@
+import { assert, assertEquals } from "@std/assert";
+import { createApp } from "../../src/app.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+function createTestApp() {
+  const drive = new MockGoogleDriveService();
+  const { app, bookService } = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+  });
+  return { app, drive, bookService };
+}
+
+function registerSample(
+  bookService: ReturnType<typeof createApp>["bookService"],
+  title: string,
+  authors: string,
+) {
+  return bookService.registerBook({
+    isbn: "",
+    title,
+    authors,
+    publisher: "",
+    publishedDate: "",
+    description: "",
+    coverImageUrl: "",
+  }, new TextEncoder().encode(title), "application/epub+zip");
+}
+
+Deno.test("BookService - registerBook normalizes author names", async () => {
+  const { drive, bookService } = createTestApp();
+  const first = await registerSample(bookService, "人間失格", "太宰　治");
+  const second = await registerSample(bookService, "斜陽", "太宰治／著");
+
+  assertEquals(first.properties.authors, "太宰治");
+  assertEquals(first.parents, second.parents);
+  assertEquals(drive.files.get(first.parents[0])?.name, "太宰治");
+});
+
+Deno.test("POST /authors/merge - moves books and covers, renames co-authors", async () => {
+  const { app, drive, bookService } = createTestApp();
+  const romanized = await registerSample(bookService, "No Longer Human", "Dazai Osamu");
+  const coAuthored = await registerSample(bookService, "共著", "夏目漱石、Dazai Osamu");
+  const canonical = await registerSample(bookService, "人間失格", "太宰治");
+  const sourceId = romanized.parents[0];
+  const targetId = canonical.parents[0];
+  await bookService.setCover(romanized.id, new Uint8Array([0xff, 0xd8, 0xff, 0xe0]));
+  const coverId = (await bookService.getBook(romanized.id)).properties.cover_file_id;
+
+  const page = await (await app.request("/authors")).text();
+  assert(page.includes("Dazai Osamu（2冊）"));
+
+  const form = new FormData();
+  form.append("source", "Dazai Osamu");
+  form.append("target", "太宰治");
+  const res = await app.request("/authors/merge", { method: "POST", body: form });
+  assertEquals(res.status, 200);
+  assert((await res.text()).includes("2冊を更新"));
+
+  const moved = await bookService.getBook(romanized.id);
+  assertEquals(moved.parents, [targetId]);
+  assertEquals(moved.name, "[太宰治] No Longer Human.epub");
+  assertEquals(drive.files.get(coverId)?.parents, [targetId]);
+  assertEquals((await bookService.getBook(coAuthored.id)).properties.authors, "夏目漱石、太宰治");
+  assertEquals(drive.files.has(sourceId), false);
+  assertEquals((await bookService.listAuthors()).map((a) => [a.name, a.bookCount]), [["夏目漱石", 1], ["太宰治", 3]]);
+
+  // 統合元の名前は別名として以後の登録にも使われる
+  const later = await registerSample(bookService, "斜陽", "Dazai  Osamu");
+  assertEquals(later.properties.authors, "太宰治");
+});
+
+Deno.test("POST /authors/merge - rejects unknown or identical authors", async () => {
+  const { app, bookService } = createTestApp();
+  await registerSample(bookService, "人間失格", "太宰治");
+  const merge = (source: string, target: string) => {
+    const form = new FormData();
+    form.append("source", source);
+    form.append("target", target);
+    return app.request("/authors/merge", { method: "POST", body: form });
+  };
+
+  const unknown = await merge("Dazai Osamu", "太宰治");
+  assertEquals(unknown.status, 400);
+  assert((await unknown.text()).includes("著者が見つかりません"));
+  const same = await merge("太宰治", "太宰　治");
+  assertEquals(same.status, 400);
+  assert((await same.text()).includes("統合元と統合先が同じ著者です"));
+});
+
+Deno.test("POST /authors/aliases - adds and removes aliases", async () => {
+  const { app } = createTestApp();
+  const form = new FormData();
+  form.append("alias", "Soseki Natsume");
+  form.append("canonical", "夏目漱石");
+  const added = await (await app.request("/authors/aliases", { method: "POST", body: form })).text();
+  assert(added.includes("Soseki Natsume"));
+
+  const invalid = new FormData();
+  invalid.append("alias", "夏目 漱石");
+  invalid.append("canonical", "夏目漱石");
+  assertEquals((await app.request("/authors/aliases", { method: "POST", body: invalid })).status, 400);
+
+  const removed = await app.request(`/authors/aliases?alias=${encodeURIComponent("Soseki Natsume")}`, {
+    method: "DELETE",
+  });
+  assertEquals((await removed.text()).includes("Soseki Natsume"), false);
+});
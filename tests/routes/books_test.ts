@@ -1,8 +1,12 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertRejects } from "@std/assert";
 import { createApp } from "../../src/app.ts";
 import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
 import { CacheService } from "../../src/services/cache.ts";
 import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+import { getBookFormats } from "../../src/services/book.ts";
+
+/** 先頭のバイト列で EPUB と判定される最小限の内容（ZIP の先頭に無圧縮の mimetype） */
+const EPUB_HEADER = "PK\x03\x04" + "\0".repeat(26) + "mimetypeapplication/epub+zip";
 
 class MockMetadataService implements BookMetadataService {
   private data: Map<string, BookMetadata> = new Map();
@@ -45,7 +49,7 @@ async function registerTestBook(
   formData.append("coverImageUrl", "");
   formData.append(
     "file",
-    new File(["dummy epub content"], "test.epub", {
+    new File([EPUB_HEADER + "dummy epub content"], "test.epub", {
       type: "application/epub+zip",
     }),
   );
@@ -131,7 +135,7 @@ Deno.test("POST /books - rejects without title (UPL-006)", async () => {
   const { app } = createTestApp();
   const formData = new FormData();
   formData.append("title", "");
-  formData.append("file", new File(["content"], "test.epub", { type: "application/epub+zip" }));
+  formData.append("file", new File([EPUB_HEADER + "content"], "test.epub", { type: "application/epub+zip" }));
 
   const res = await app.request("/books", { method: "POST", body: formData });
   assertEquals(res.status, 400);
@@ -178,7 +182,7 @@ Deno.test("POST /books - accepts EPUB by extension (UPL-003)", async () => {
   formData.append("coverImageUrl", "");
   formData.append(
     "file",
-    new File(["epub content"], "test.epub", { type: "application/epub+zip" }),
+    new File([EPUB_HEADER + "epub content"], "test.epub", { type: "application/epub+zip" }),
   );
 
   const res = await app.request("/books", { method: "POST", body: formData });
@@ -197,7 +201,7 @@ Deno.test("POST /books - accepts PDF (UPL-003)", async () => {
   formData.append("coverImageUrl", "");
   formData.append(
     "file",
-    new File(["pdf content"], "test.pdf", { type: "application/pdf" }),
+    new File(["%PDF-1.4 pdf content"], "test.pdf", { type: "application/pdf" }),
   );
 
   const res = await app.request("/books", { method: "POST", body: formData });
@@ -214,6 +218,83 @@ Deno.test("POST /books - warns on duplicate ISBN (FLW-004)", async () => {
   assertEquals(body.includes("既に登録されています"), true);
 });
 
+Deno.test("POST /books - same ISBN in another format is added to the book", async () => {
+  const { app, bookService } = createTestApp();
+  await registerTestBook(app, "人間失格", "太宰治", "9784101010014");
+
+  const formData = new FormData();
+  formData.append("title", "人間失格");
+  formData.append("authors", "太宰治");
+  formData.append("isbn", "9784101010014");
+  formData.append("file", new File(["%PDF-1.4 content"], "test.pdf", { type: "application/pdf" }));
+  const res = await app.request("/books", { method: "POST", body: formData });
+  assertEquals(res.status, 200);
+  assertEquals((await res.text()).includes("登録済みの書籍にPDF形式のファイルを追加しました"), true);
+
+  const books = await bookService.listAllBooks();
+  assertEquals(books.length, 1);
+  const page = await (await app.request("/")).text();
+  assertEquals(page.includes(">EPUB<"), true);
+  assertEquals(page.includes(">PDF<"), true);
+});
+
+Deno.test("POST /books?overwrite - overwriting a secondary format keeps the other formats", async () => {
+  const { app, drive, bookService } = createTestApp();
+  await registerTestBook(app, "人間失格", "太宰治", "9784101010014");
+  const pdfForm = (content: string) => {
+    const formData = new FormData();
+    formData.append("title", "人間失格");
+    formData.append("authors", "太宰治");
+    formData.append("isbn", "9784101010014");
+    formData.append("file", new File([content], "test.pdf", { type: "application/pdf" }));
+    return formData;
+  };
+  await app.request("/books", { method: "POST", body: pdfForm("%PDF-1.4 old") });
+  const [book] = await bookService.listAllBooks();
+  const oldPdfId = [...drive.files.values()].find((f) => f.properties?.app_type === "my_library_book_format")!.id;
+
+  const res = await app.request(`/books?overwrite=${oldPdfId}`, { method: "POST", body: pdfForm("%PDF-1.4 new") });
+  assertEquals(res.status, 200);
+
+  const books = await bookService.listAllBooks();
+  assertEquals(books.map((b) => b.id), [book.id]);
+  assertEquals(drive.files.has(oldPdfId), false);
+  const formats = getBookFormats(books[0]);
+  assertEquals(formats.map((f) => f.key), ["epub", "pdf"]);
+  const newPdf = await drive.getFileContent(formats[1].fileId);
+  assertEquals(new TextDecoder().decode(newPdf), "%PDF-1.4 new");
+});
+
+Deno.test("POST /books/:id/formats and DELETE /books/:id/formats/:fileId - manage format files", async () => {
+  const { app, drive, bookService } = createTestApp();
+  await registerTestBook(app);
+  const [book] = await bookService.listAllBooks();
+
+  const formData = new FormData();
+  formData.append("file", new File(["%PDF-1.4 content"], "scan.pdf", { type: "application/pdf" }));
+  const added = await app.request(`/books/${book.id}/formats`, { method: "POST", body: formData });
+  assertEquals(added.status, 200);
+  assertEquals((await added.text()).includes("PDF形式のファイルを追加しました"), true);
+  const pdfId = [...drive.files.values()].find((f) => f.properties?.app_type === "my_library_book_format")!.id;
+
+  // 同じ形式は追加できない
+  const again = new FormData();
+  again.append("file", new File(["%PDF-1.4 content"], "scan.pdf", { type: "application/pdf" }));
+  const duplicate = await app.request(`/books/${book.id}/formats`, { method: "POST", body: again });
+  assertEquals(duplicate.status, 400);
+  assertEquals((await duplicate.text()).includes("PDF形式のファイルが登録済みです"), true);
+
+  // 代表の EPUB を削除すると PDF が書籍になり、編集画面へ移動させる
+  const removed = await app.request(`/books/${book.id}/formats/${book.id}`, { method: "DELETE" });
+  assertEquals(removed.status, 200);
+  assertEquals(removed.headers.get("HX-Redirect"), `/books/${pdfId}/edit`);
+  assertEquals((await bookService.listAllBooks()).map((b) => b.id), [pdfId]);
+
+  const last = await app.request(`/books/${pdfId}/formats/${pdfId}`, { method: "DELETE" });
+  assertEquals(last.status, 400);
+  assertEquals((await last.text()).includes("最後の形式は削除できません"), true);
+});
+
 Deno.test("POST /books - registers without ISBN (REG-006)", async () => {
   const { app } = createTestApp();
   const res = await registerTestBook(app, "手動登録書籍", "著者", "");
@@ -232,6 +313,51 @@ Deno.test("POST /books - Drive API failure shows error (FLW-002)", async () => {
   assertEquals(body.includes("登録に失敗しました"), true);
 });
 
+Deno.test("POST /books - rejects empty files (UPL-006)", async () => {
+  const { app } = createTestApp();
+  const formData = new FormData();
+  formData.append("title", "テスト");
+  formData.append("file", new File([], "empty.epub", { type: "application/epub+zip" }));
+
+  const res = await app.request("/books", { method: "POST", body: formData });
+  assertEquals(res.status, 400);
+  assertEquals((await res.text()).includes("ファイルを選択してください"), true);
+});
+
+Deno.test("POST /books - accepts file part sent before other fields", async () => {
+  const { app, bookService } = createTestApp();
+  const formData = new FormData();
+  formData.append("file", new File([EPUB_HEADER + "epub content"], "test.epub", { type: "application/epub+zip" }));
+  formData.append("title", "先にファイル");
+
+  const res = await app.request("/books", { method: "POST", body: formData });
+  assertEquals(res.status, 200);
+  const list = await bookService.listBooks();
+  assertEquals(list.files[0].properties?.title, "先にファイル");
+});
+
+Deno.test("GET /api/uploads - reports upload progress by upload ID", async () => {
+  const { app, drive } = createTestApp();
+  const formData = new FormData();
+  formData.append("title", "進捗テスト");
+  formData.append("uploadId", "upload-1");
+  const content = EPUB_HEADER + "epub content";
+  formData.append("fileSize", String(content.length));
+  formData.append("file", new File([content], "test.epub", { type: "application/epub+zip" }));
+
+  const res = await app.request("/books", { method: "POST", body: formData });
+  assertEquals(res.status, 200);
+  const [file] = (await drive.listBooks()).files;
+  assertEquals(new TextDecoder().decode(await drive.getFileContent(file.id)), content);
+
+  const progress = await (await app.request("/api/uploads?uploadId=upload-1")).text();
+  assertEquals(progress.includes("アップロード完了"), true);
+  assertEquals(progress.includes("100%"), true);
+
+  const unknown = await (await app.request("/api/uploads?uploadId=unknown")).text();
+  assertEquals(unknown.includes("progress"), false);
+});
+
 // --- Metadata API Tests ---
 
 Deno.test("GET /api/metadata - returns metadata (REG-001)", async () => {
@@ -388,6 +514,81 @@ Deno.test("GET /books/:id/download - file integrity (DWN-003)", async () => {
   assertEquals(downloaded, originalContent);
 });
 
+async function registerDownloadBook(
+  bookService: ReturnType<typeof createApp>["bookService"],
+  content: string,
+) {
+  return await bookService.registerBook(
+    {
+      isbn: "", title: "テスト", authors: "著者",
+      publisher: "", publishedDate: "", description: "", coverImageUrl: "",
+    },
+    new TextEncoder().encode(content),
+    "application/pdf",
+  );
+}
+
+Deno.test("GET /books/:id/download - serves byte ranges with 206", async () => {
+  const { app, bookService } = createTestApp();
+  const file = await registerDownloadBook(bookService, "0123456789");
+
+  const res = await app.request(`/books/${file.id}/download`, {
+    headers: { Range: "bytes=2-5" },
+  });
+  assertEquals(res.status, 206);
+  assertEquals(res.headers.get("Content-Range"), "bytes 2-5/10");
+  assertEquals(res.headers.get("Content-Length"), "4");
+  assertEquals(await res.text(), "2345");
+
+  const suffix = await app.request(`/books/${file.id}/download`, {
+    headers: { Range: "bytes=-3" },
+  });
+  assertEquals(suffix.status, 206);
+  assertEquals(await suffix.text(), "789");
+
+  const full = await app.request(`/books/${file.id}/download`);
+  assertEquals(full.status, 200);
+  assertEquals(full.headers.get("Accept-Ranges"), "bytes");
+  assertEquals(full.headers.get("ETag"), `"${file.md5Checksum}"`);
+  assertEquals(full.headers.get("Last-Modified"), new Date(file.modifiedTime!).toUTCString());
+  await full.body?.cancel();
+});
+
+Deno.test("GET /books/:id/download - rejects unsatisfiable ranges with 416", async () => {
+  const { app, bookService } = createTestApp();
+  const file = await registerDownloadBook(bookService, "0123456789");
+
+  const res = await app.request(`/books/${file.id}/download`, {
+    headers: { Range: "bytes=10-" },
+  });
+  assertEquals(res.status, 416);
+  assertEquals(res.headers.get("Content-Range"), "bytes */10");
+});
+
+Deno.test("GET /books/:id/download - honors If-Range and If-None-Match", async () => {
+  const { app, bookService } = createTestApp();
+  const file = await registerDownloadBook(bookService, "0123456789");
+  const etag = `"${file.md5Checksum}"`;
+
+  const fresh = await app.request(`/books/${file.id}/download`, {
+    headers: { Range: "bytes=5-", "If-Range": etag },
+  });
+  assertEquals(fresh.status, 206);
+  assertEquals(await fresh.text(), "56789");
+
+  // 変更されたファイルには Range を適用せず全体を返す
+  const stale = await app.request(`/books/${file.id}/download`, {
+    headers: { Range: "bytes=5-", "If-Range": '"old"' },
+  });
+  assertEquals(stale.status, 200);
+  assertEquals(await stale.text(), "0123456789");
+
+  const notModified = await app.request(`/books/${file.id}/download`, {
+    headers: { "If-None-Match": etag },
+  });
+  assertEquals(notModified.status, 304);
+});
+
 // --- Edit Tests ---
 
 Deno.test("GET /books/:id/edit - shows edit form (EDT-001)", async () => {
@@ -437,6 +638,174 @@ Deno.test("PUT /books/:id - updates book (EDT-002, EDT-005)", async () => {
   assertEquals(body.includes("更新しました"), true);
 });
 
+Deno.test("PUT /books/:id - updates ISBN and description", async () => {
+  const { app, drive, bookService } = createTestApp();
+  const file = await registerCoverTestBook(bookService);
+  const description = "あらすじ".repeat(80);
+
+  const formData = new URLSearchParams();
+  formData.append("title", "人間失格");
+  formData.append("isbn", "9784003101018");
+  formData.append("description", description);
+  const res = await app.request(`/books/${file.id}`, {
+    method: "PUT",
+    body: formData,
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+  });
+  assertEquals(res.status, 200);
+
+  const updated = await drive.getFile(file.id);
+  assertEquals(updated.properties.isbn, "9784003101018");
+  assertEquals(updated.description, description);
+  // 送られなかった項目はそのまま
+  assertEquals(updated.properties.authors, "太宰治");
+
+  const edit = await (await app.request(`/books/${file.id}/edit`)).text();
+  assertEquals(edit.includes('value="9784003101018"'), true);
+  assertEquals(edit.includes(description), true);
+});
+
+Deno.test("PUT /books/:id - rejects invalid ISBN", async () => {
+  const { app, drive, bookService } = createTestApp();
+  const file = await registerCoverTestBook(bookService);
+
+  const formData = new URLSearchParams();
+  formData.append("title", "人間失格");
+  formData.append("isbn", "9784003101019");
+  const res = await app.request(`/books/${file.id}`, {
+    method: "PUT",
+    body: formData,
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+  });
+  assertEquals(res.status, 400);
+  assertEquals((await res.text()).includes("ISBNが正しくありません"), true);
+  assertEquals((await drive.getFile(file.id)).properties.isbn, "9784101010014");
+});
+
+// --- Cover Tests ---
+
+const PNG_HEADER = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const WEBP_HEADER = new TextEncoder().encode("RIFF\0\0\0\0WEBPVP8 ");
+
+async function registerCoverTestBook(bookService: ReturnType<typeof createApp>["bookService"]) {
+  return await bookService.registerBook(
+    {
+      isbn: "9784101010014", title: "人間失格", authors: "太宰治",
+      publisher: "", publishedDate: "", description: "", coverImageUrl: "",
+    },
+    new TextEncoder().encode("content"),
+    "application/epub+zip",
+  );
+}
+
+function coverForm(cover: Uint8Array | null, coverUrl = "") {
+  const formData = new FormData();
+  if (cover) formData.append("cover", new File([cover.slice()], "cover.bin"));
+  formData.append("coverUrl", coverUrl);
+  return formData;
+}
+
+Deno.test("GET /books/:id/edit - shows cover controls", async () => {
+  const { app, bookService } = createTestApp();
+  const file = await registerCoverTestBook(bookService);
+
+  const body = await (await app.request(`/books/${file.id}/edit`)).text();
+  assertEquals(body.includes('id="cover-editor"'), true);
+  assertEquals(body.includes(`hx-post="/books/${file.id}/cover"`), true);
+  assertEquals(body.includes(`hx-post="/books/${file.id}/cover/refetch"`), true);
+});
+
+Deno.test("POST /books/:id/cover - replaces the cover and deletes the old one", async () => {
+  const { app, drive, bookService } = createTestApp();
+  const file = await registerCoverTestBook(bookService);
+
+  const first = await app.request(`/books/${file.id}/cover`, { method: "POST", body: coverForm(PNG_HEADER) });
+  assertEquals(first.status, 200);
+  assertEquals((await first.text()).includes("表紙を差し替えました"), true);
+  const pngCoverId = (await drive.getFile(file.id)).properties.cover_file_id;
+  assertEquals((await drive.getFile(pngCoverId)).name, `cover_${file.id}.png`);
+
+  const cover = await app.request(`/books/${file.id}/cover`);
+  assertEquals(cover.headers.get("Content-Type"), "image/png");
+
+  await app.request(`/books/${file.id}/cover`, { method: "POST", body: coverForm(WEBP_HEADER) });
+  const properties = (await drive.getFile(file.id)).properties;
+  assertEquals(properties.cover_mime_type, "image/webp");
+  await assertRejects(() => drive.getFile(pngCoverId));
+  assertEquals(
+    (await app.request(`/books/${file.id}/cover`)).headers.get("Content-Type"),
+    "image/webp",
+  );
+
+  const invalid = await app.request(`/books/${file.id}/cover`, {
+    method: "POST",
+    body: coverForm(new TextEncoder().encode("not an image")),
+  });
+  assertEquals(invalid.status, 500);
+  assertEquals((await invalid.text()).includes("対応していない画像形式です"), true);
+  assertEquals((await drive.getFile(file.id)).properties.cover_file_id, properties.cover_file_id);
+
+  const empty = await app.request(`/books/${file.id}/cover`, { method: "POST", body: coverForm(null) });
+  assertEquals(empty.status, 400);
+});
+
+Deno.test("POST /books/:id/cover - fetches covers by URL and re-fetches by ISBN", async () => {
+  const { app, drive, metadata, bookService } = createTestApp();
+  const file = await registerCoverTestBook(bookService);
+  metadata.addBook("9784101010014", {
+    isbn: "9784101010014", title: "人間失格", authors: "太宰治", publisher: "",
+    publishedDate: "", description: "", coverImageUrl: "https://93.184.215.14/openbd.png",
+  });
+  // 名前解決しないよう公開アドレスの URL を使う
+  const requested: string[] = [];
+  const fetchStub = globalThis.fetch;
+  globalThis.fetch = (input) => {
+    requested.push(String(input));
+    return Promise.resolve(new Response(PNG_HEADER.slice(), { headers: { "content-type": "image/png" } }));
+  };
+  try {
+    const byUrl = await app.request(`/books/${file.id}/cover`, {
+      method: "POST",
+      body: coverForm(null, "https://93.184.215.14/cover.png"),
+    });
+    assertEquals(byUrl.status, 200);
+    const refetched = await app.request(`/books/${file.id}/cover/refetch`, { method: "POST" });
+    assertEquals(refetched.status, 200);
+    assertEquals((await refetched.text()).includes("表紙を再取得しました"), true);
+  } finally {
+    globalThis.fetch = fetchStub;
+  }
+  assertEquals(requested, ["https://93.184.215.14/cover.png", "https://93.184.215.14/openbd.png"]);
+  assertEquals((await drive.getFile(file.id)).properties.cover_mime_type, "image/png");
+
+  const notHttp = await app.request(`/books/${file.id}/cover`, {
+    method: "POST",
+    body: coverForm(null, "file:///etc/passwd"),
+  });
+  assertEquals(notHttp.status, 400);
+
+  // サーバーから内部のネットワークの URL を取得させない
+  for (const url of ["http://127.0.0.1:8080/admin", "http://192.168.1.1/", "http://[::1]/", "http://localhost/"]) {
+    const internal = await app.request(`/books/${file.id}/cover`, { method: "POST", body: coverForm(null, url) });
+    assertEquals(internal.status, 500);
+    assertEquals((await internal.text()).includes("内部ネットワークのアドレスからは取得できません"), true);
+  }
+});
+
+Deno.test("DELETE /books/:id/cover - removes the cover", async () => {
+  const { app, drive, bookService } = createTestApp();
+  const file = await registerCoverTestBook(bookService);
+  await bookService.setCover(file.id, PNG_HEADER);
+  const coverFileId = (await drive.getFile(file.id)).properties.cover_file_id;
+
+  const res = await app.request(`/books/${file.id}/cover`, { method: "DELETE" });
+  assertEquals(res.status, 200);
+  assertEquals((await res.text()).includes("No Cover"), true);
+  assertEquals((await drive.getFile(file.id)).properties.cover_file_id, "");
+  await assertRejects(() => drive.getFile(coverFileId));
+  assertEquals((await app.request(`/books/${file.id}/cover`)).status, 404);
+});
+
 // --- Delete Tests ---
 
 Deno.test("DELETE /books/:id - deletes book (DEL-002, DEL-005)", async () => {
@@ -540,3 +909,88 @@ Deno.test("LAN access - no auth required for registration (AUT-005)", async () =
   const res = await app.request("/books/new");
   assertEquals(res.status, 200);
 });
+
+// --- Series Tests ---
+
+Deno.test("POST /books - stores series and volume", async () => {
+  const { app, drive } = createTestApp();
+  const formData = new FormData();
+  formData.append("title", "鋼の錬金術師 3");
+  formData.append("authors", "荒川弘");
+  formData.append("series", "鋼の錬金術師");
+  formData.append("seriesIndex", "3");
+  formData.append(
+    "file",
+    new File([EPUB_HEADER + "content"], "test.epub", { type: "application/epub+zip" }),
+  );
+
+  const res = await app.request("/books", { method: "POST", body: formData });
+  assertEquals(res.status, 200);
+
+  const book = [...drive.files.values()].find((f) => f.properties.app_type);
+  assertEquals(book?.properties.series, "鋼の錬金術師");
+  assertEquals(book?.properties.series_index, "3");
+});
+
+Deno.test("GET /books/new - has series inputs", async () => {
+  const { app } = createTestApp();
+  const res = await app.request("/books/new");
+  const body = await res.text();
+  assertEquals(body.includes('name="series"'), true);
+  assertEquals(body.includes('name="seriesIndex"'), true);
+});
+
+Deno.test("GET /books/:id/edit - shows series values", async () => {
+  const { app, bookService } = createTestApp();
+  const file = await bookService.registerBook(
+    {
+      isbn: "", title: "巻3", authors: "著者", publisher: "", publishedDate: "",
+      description: "", coverImageUrl: "", series: "シリーズA", seriesIndex: "3",
+    },
+    new TextEncoder().encode("content"),
+    "application/epub+zip",
+  );
+
+  const res = await app.request(`/books/${file.id}/edit`);
+  const body = await res.text();
+  assertEquals(body.includes('value="シリーズA"'), true);
+  assertEquals(body.includes('value="3"'), true);
+});
+
+Deno.test("GET /series/:name - lists volumes in order", async () => {
+  const { app, bookService } = createTestApp();
+  for (const index of ["2", "1"]) {
+    await bookService.registerBook(
+      {
+        isbn: "", title: `シリーズ本 第${index}巻`, authors: "著者", publisher: "",
+        publishedDate: "", description: "", coverImageUrl: "",
+        series: "シリーズA", seriesIndex: index,
+      },
+      new TextEncoder().encode("content"),
+      "application/epub+zip",
+    );
+  }
+
+  const res = await app.request(`/series/${encodeURIComponent("シリーズA")}`);
+  assertEquals(res.status, 200);
+  const body = await res.text();
+  assertEquals(body.includes("シリーズA"), true);
+  assertEquals(body.indexOf("第1巻") < body.indexOf("第2巻"), true);
+  assertEquals(body.includes("シリーズA #1"), true);
+});
+
+Deno.test("GET / - book card links to series page", async () => {
+  const { app, bookService } = createTestApp();
+  await bookService.registerBook(
+    {
+      isbn: "", title: "巻1", authors: "著者", publisher: "", publishedDate: "",
+      description: "", coverImageUrl: "", series: "シリーズA", seriesIndex: "1",
+    },
+    new TextEncoder().encode("content"),
+    "application/epub+zip",
+  );
+
+  const res = await app.request("/");
+  const body = await res.text();
+  assertEquals(body.includes(`/series/${encodeURIComponent("シリーズA")}`), true);
+});
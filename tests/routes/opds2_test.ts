@@ -0,0 +1,175 @@
+import { assertEquals } from "@std/assert";
+import { createApp } from "../../src/app.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+import { Opds2Feed } from "../../src/routes/opds2.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+function createTestApp() {
+  const drive = new MockGoogleDriveService();
+  const { app, bookService } = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+  });
+  return { app, drive, bookService };
+}
+
+async function registerSample(
+  bookService: ReturnType<typeof createTestApp>["bookService"],
+  title: string,
+  authors: string,
+  opts: Partial<BookMetadata> & { mimeType?: string } = {},
+) {
+  return await bookService.registerBook(
+    {
+      isbn: "", title, authors, publisher: "", publishedDate: "", description: "", coverImageUrl: "",
+      ...opts,
+    },
+    new TextEncoder().encode("content"),
+    opts.mimeType || "application/epub+zip",
+  );
+}
+
+async function getJson(
+  app: ReturnType<typeof createTestApp>["app"],
+  path: string,
+): Promise<Opds2Feed> {
+  const res = await app.request(path, { headers: { host: "localhost:8000" } });
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get("Content-Type")?.startsWith("application/opds+json"), true);
+  return await res.json();
+}
+
+Deno.test("GET /opds/v2 - root is a navigation feed", async () => {
+  const { app } = createTestApp();
+  const feed = await getJson(app, "/opds/v2");
+
+  assertEquals(feed.metadata.title, "蔵書管理");
+  assertEquals(feed.publications, undefined);
+  const hrefs = feed.navigation!.map((n) => n.href);
+  assertEquals(hrefs.includes("http://localhost:8000/opds/v2/authors"), true);
+  assertEquals(hrefs.includes("http://localhost:8000/opds/v2/publishers"), true);
+  assertEquals(hrefs.includes("http://localhost:8000/opds/v2/recent"), true);
+  assertEquals(hrefs.includes("http://localhost:8000/opds/v2/formats/epub"), true);
+  assertEquals(hrefs.includes("http://localhost:8000/opds/v2/all"), true);
+});
+
+Deno.test("GET /opds/v2 - search link is a URI template", async () => {
+  const { app } = createTestApp();
+  const feed = await getJson(app, "/opds/v2");
+  const search = feed.links.find((l) => l.rel === "search");
+  assertEquals(search?.href, "http://localhost:8000/opds/v2/search{?q}");
+  assertEquals(search?.templated, true);
+});
+
+Deno.test("GET /opds/v2/all - publications carry metadata, acquisition and images", async () => {
+  const { app, drive, bookService } = createTestApp();
+  const book = await registerSample(bookService, "ハリー・ポッターと賢者の石", "J.K.ローリング、松岡佑子（訳）", {
+    isbn: "9784915512377",
+    publisher: "静山社",
+    publishedDate: "1999-12-01",
+    series: "ハリー・ポッター",
+    seriesIndex: "1",
+  });
+  await drive.updateFileProperties(book.id, { cover_file_id: "cover1" });
+
+  const feed = await getJson(app, "/opds/v2/all");
+  assertEquals(feed.publications!.length, 1);
+  const pub = feed.publications![0];
+  assertEquals(pub.metadata.title, "ハリー・ポッターと賢者の石");
+  assertEquals(pub.metadata.identifier, "urn:isbn:9784915512377");
+  assertEquals(pub.metadata.author, [{ name: "J.K.ローリング" }]);
+  assertEquals(pub.metadata.translator, [{ name: "松岡佑子" }]);
+  assertEquals(pub.metadata.publisher, { name: "静山社" });
+  assertEquals(pub.metadata.belongsTo, { series: [{ name: "ハリー・ポッター", position: 1 }] });
+
+  const acquisition = pub.links.find((l) => l.rel === "http://opds-spec.org/acquisition");
+  assertEquals(acquisition?.type, "application/epub+zip");
+  assertEquals(acquisition?.href.endsWith("/download"), true);
+  assertEquals(pub.images?.[0].href.endsWith("/cover"), true);
+});
+
+Deno.test("GET /opds/v2/all - includes format facets", async () => {
+  const { app, bookService } = createTestApp();
+  await registerSample(bookService, "EPUB本", "著者");
+  await registerSample(bookService, "PDF本", "著者", { mimeType: "application/pdf" });
+
+  const feed = await getJson(app, "/opds/v2/formats/pdf");
+  assertEquals(feed.publications!.map((p) => p.metadata.title), ["PDF本"]);
+
+  const group = feed.facets![0];
+  assertEquals(group.metadata.title, "形式");
+  const pdf = group.links.find((l) => l.title === "PDF");
+  assertEquals(pdf?.rel, "self");
+  assertEquals(pdf?.properties?.numberOfItems, 1);
+  assertEquals(group.links.find((l) => l.title === "EPUB")?.rel, undefined);
+});
+
+Deno.test("GET /opds/v2/all - paginates with next/previous links", async () => {
+  const { app, bookService } = createTestApp();
+  for (let i = 0; i < 60; i++) {
+    await registerSample(bookService, `本${String(i).padStart(2, "0")}`, "著者");
+  }
+
+  const page1 = await getJson(app, "/opds/v2/all");
+  assertEquals(page1.publications!.length, 50);
+  assertEquals(page1.metadata.numberOfItems, 60);
+  assertEquals(page1.metadata.currentPage, 1);
+  assertEquals(page1.links.find((l) => l.rel === "next")?.href, "http://localhost:8000/opds/v2/all?page=2");
+  assertEquals(page1.links.find((l) => l.rel === "previous"), undefined);
+
+  const page2 = await getJson(app, "/opds/v2/all?page=2");
+  assertEquals(page2.publications!.length, 10);
+  assertEquals(page2.links.find((l) => l.rel === "previous")?.href, "http://localhost:8000/opds/v2/all");
+});
+
+Deno.test("GET /opds/v2/search - returns matching publications", async () => {
+  const { app, bookService } = createTestApp();
+  await registerSample(bookService, "人間失格", "太宰治");
+  await registerSample(bookService, "坊っちゃん", "夏目漱石");
+
+  const feed = await getJson(app, `/opds/v2/search?q=${encodeURIComponent("太宰")}`);
+  assertEquals(feed.publications!.map((p) => p.metadata.title), ["人間失格"]);
+});
+
+Deno.test("GET /opds/v2/authors/:name - unknown author returns 404", async () => {
+  const { app } = createTestApp();
+  const res = await app.request("/opds/v2/authors/unknown");
+  assertEquals(res.status, 404);
+});
+
+Deno.test("OPDS - Atom and JSON feeds list the same books in the same order", async () => {
+  const { app, bookService } = createTestApp();
+  await registerSample(bookService, "古い本", "著者", { publisher: "新潮社" });
+  await registerSample(bookService, "新しい本", "著者", { publisher: "新潮社" });
+
+  for (const path of ["/recent", `/publishers/${encodeURIComponent("新潮社")}`]) {
+    const json = await getJson(app, `/opds/v2${path}`);
+    const atom = await (await app.request(`/opds${path}`)).text();
+    const atomTitles = [...atom.matchAll(/<entry>\s*<title>([^<]*)<\/title>/g)].map((m) => m[1]);
+    assertEquals(json.publications!.map((p) => p.metadata.title), atomTitles);
+  }
+});
+
+Deno.test("OPDS - Atom and JSON feeds link to each other", async () => {
+  const { app } = createTestApp();
+  const json = await getJson(app, "/opds/v2/authors");
+  assertEquals(
+    json.links.find((l) => l.rel === "alternate")?.href,
+    "http://localhost:8000/opds/authors",
+  );
+
+  const atom = await (await app.request("/opds/authors", { headers: { host: "localhost:8000" } })).text();
+  assertEquals(
+    atom.includes('rel="alternate" href="http://localhost:8000/opds/v2/authors" type="application/opds+json"'),
+    true,
+  );
+});
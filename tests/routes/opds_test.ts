@@ -4,6 +4,7 @@ import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
 import { CacheService } from "../../src/services/cache.ts";
 import { BookMetadata, BookMetadataService } from "../../src/types.ts";
 import { escapeXml, generateFeed, generateOpenSearchDescription } from "../../src/routes/opds.ts";
+import { LibraryLayout } from "../../src/services/library_layout.ts";
 
 class MockMetadataService implements BookMetadataService {
   async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
@@ -12,7 +13,7 @@ class MockMetadataService implements BookMetadataService {
   }
 }
 
-function createTestApp() {
+function createTestApp(layout?: LibraryLayout) {
   const drive = new MockGoogleDriveService();
   const metadata = new MockMetadataService();
   const cache = new CacheService();
@@ -20,6 +21,7 @@ function createTestApp() {
     driveService: drive,
     metadataService: metadata,
     cache,
+    layout,
   });
   return { app, drive, metadata, cache, bookService };
 }
@@ -50,7 +52,7 @@ Deno.test("GET /opds - valid Atom Feed structure (OPD-002)", async () => {
   assertEquals(body.includes("</feed>"), true);
 });
 
-Deno.test("GET /opds - contains book entries (OPD-003)", async () => {
+Deno.test("GET /opds/all - contains book entries (OPD-003)", async () => {
   const { app, bookService } = createTestApp();
 
   await bookService.registerBook(
@@ -62,7 +64,7 @@ Deno.test("GET /opds - contains book entries (OPD-003)", async () => {
     "application/epub+zip",
   );
 
-  const res = await app.request("/opds", {
+  const res = await app.request("/opds/all", {
     headers: { host: "localhost:8000" },
   });
   const body = await res.text();
@@ -71,7 +73,7 @@ Deno.test("GET /opds - contains book entries (OPD-003)", async () => {
   assertEquals(body.includes("太宰治"), true);
 });
 
-Deno.test("GET /opds - EPUB MIME type (OPD-005)", async () => {
+Deno.test("GET /opds/all - EPUB MIME type (OPD-005)", async () => {
   const { app, bookService } = createTestApp();
 
   await bookService.registerBook(
@@ -83,14 +85,14 @@ Deno.test("GET /opds - EPUB MIME type (OPD-005)", async () => {
     "application/epub+zip",
   );
 
-  const res = await app.request("/opds", {
+  const res = await app.request("/opds/all", {
     headers: { host: "localhost:8000" },
   });
   const body = await res.text();
   assertEquals(body.includes('type="application/epub+zip"'), true);
 });
 
-Deno.test("GET /opds - PDF MIME type (OPD-006)", async () => {
+Deno.test("GET /opds/all - PDF MIME type (OPD-006)", async () => {
   const { app, bookService } = createTestApp();
 
   await bookService.registerBook(
@@ -102,14 +104,14 @@ Deno.test("GET /opds - PDF MIME type (OPD-006)", async () => {
     "application/pdf",
   );
 
-  const res = await app.request("/opds", {
+  const res = await app.request("/opds/all", {
     headers: { host: "localhost:8000" },
   });
   const body = await res.text();
   assertEquals(body.includes('type="application/pdf"'), true);
 });
 
-Deno.test("GET /opds - contains download links (OPD-007)", async () => {
+Deno.test("GET /opds/all - contains download links (OPD-007)", async () => {
   const { app, bookService } = createTestApp();
 
   const file = await bookService.registerBook(
@@ -121,7 +123,7 @@ Deno.test("GET /opds - contains download links (OPD-007)", async () => {
     "application/epub+zip",
   );
 
-  const res = await app.request("/opds", {
+  const res = await app.request("/opds/all", {
     headers: { host: "localhost:8000" },
   });
   const body = await res.text();
@@ -129,9 +131,9 @@ Deno.test("GET /opds - contains download links (OPD-007)", async () => {
   assertEquals(body.includes("http://opds-spec.org/acquisition"), true);
 });
 
-Deno.test("GET /opds - empty feed when no books (OPD-008)", async () => {
+Deno.test("GET /opds/all - empty feed when no books (OPD-008)", async () => {
   const { app } = createTestApp();
-  const res = await app.request("/opds", {
+  const res = await app.request("/opds/all", {
     headers: { host: "localhost:8000" },
   });
   assertEquals(res.status, 200);
@@ -280,7 +282,7 @@ Deno.test("OPDS flow - feed lists books then download works (RDR-001, RDR-002)",
   );
 
   // 1. Get OPDS feed
-  const feedRes = await app.request("/opds", {
+  const feedRes = await app.request("/opds/all", {
     headers: { host: "localhost:8000" },
   });
   assertEquals(feedRes.status, 200);
@@ -325,3 +327,205 @@ Deno.test("OPDS search flow (RDR-003)", async () => {
   assertEquals(body.includes("検索テスト"), true);
   assertEquals(body.includes("別の本"), false);
 });
+
+Deno.test("generateFeed - emits calibre series metadata", () => {
+  const feed = generateFeed([
+    {
+      id: "b1",
+      name: "[荒川弘] 鋼の錬金術師 3.epub",
+      mimeType: "application/epub+zip",
+      properties: {
+        title: "鋼の錬金術師 3",
+        authors: "荒川弘",
+        series: "鋼の錬金術師",
+        series_index: "3",
+      },
+      parents: [],
+    },
+  ], "http://localhost:8000");
+
+  assertEquals(feed.includes('xmlns:calibre="http://calibre.kovidgoyal.net/2009/metadata"'), true);
+  assertEquals(feed.includes("<calibre:series>鋼の錬金術師</calibre:series>"), true);
+  assertEquals(feed.includes("<calibre:series_index>3</calibre:series_index>"), true);
+});
+
+Deno.test("generateFeed - no series metadata for standalone books", () => {
+  const feed = generateFeed([
+    {
+      id: "b1",
+      name: "[太宰治] 人間失格.epub",
+      mimeType: "application/epub+zip",
+      properties: { title: "人間失格", authors: "太宰治" },
+      parents: [],
+    },
+  ], "http://localhost:8000");
+
+  assertEquals(feed.includes("<calibre:series>"), false);
+});
+
+// --- Navigation catalog ---
+
+async function registerSample(
+  bookService: ReturnType<typeof createTestApp>["bookService"],
+  title: string,
+  authors: string,
+  opts: { publisher?: string; mimeType?: string } = {},
+) {
+  return await bookService.registerBook(
+    {
+      isbn: "", title, authors,
+      publisher: opts.publisher || "", publishedDate: "", description: "", coverImageUrl: "",
+    },
+    new TextEncoder().encode("content"),
+    opts.mimeType || "application/epub+zip",
+  );
+}
+
+Deno.test("GET /opds - root is a navigation feed", async () => {
+  const { app } = createTestApp();
+  const res = await app.request("/opds", { headers: { host: "localhost:8000" } });
+  const body = await res.text();
+
+  assertEquals(body.includes("kind=navigation"), true);
+  assertEquals(body.includes('rel="subsection" href="http://localhost:8000/opds/authors"'), true);
+  assertEquals(body.includes('href="http://localhost:8000/opds/publishers"'), true);
+  assertEquals(body.includes('href="http://localhost:8000/opds/recent"'), true);
+  assertEquals(body.includes('href="http://localhost:8000/opds/formats/epub"'), true);
+  assertEquals(body.includes('href="http://localhost:8000/opds/formats/pdf"'), true);
+});
+
+Deno.test("GET /opds/authors - lists author folders", async () => {
+  const { app, bookService } = createTestApp();
+  await registerSample(bookService, "人間失格", "太宰治");
+  await registerSample(bookService, "坊っちゃん", "夏目漱石");
+
+  const res = await app.request("/opds/authors", { headers: { host: "localhost:8000" } });
+  const body = await res.text();
+  assertEquals(body.includes("kind=navigation"), true);
+  assertEquals(body.includes("<title>太宰治</title>"), true);
+  assertEquals(body.includes("<title>夏目漱石</title>"), true);
+});
+
+Deno.test("GET /opds/authors - lists authors from metadata regardless of the folder template", async () => {
+  const { app, bookService } = createTestApp(new LibraryLayout({ folderTemplate: "{publisher}/{author}" }));
+  await registerSample(bookService, "人間失格", "太宰治", { publisher: "新潮社" });
+  await registerSample(bookService, "斜陽", "太宰治", { publisher: "角川書店" });
+
+  const body = await (await app.request("/opds/authors", { headers: { host: "localhost:8000" } })).text();
+  assertEquals(body.includes("<title>太宰治</title>"), true);
+  assertEquals(body.includes("<title>新潮社</title>"), false);
+  assertEquals(body.includes("2冊"), true);
+});
+
+Deno.test("GET /opds/authors/:name - lists books by the author", async () => {
+  const { app, bookService } = createTestApp();
+  await registerSample(bookService, "人間失格", "太宰治");
+  await registerSample(bookService, "坊っちゃん", "夏目漱石");
+
+  const res = await app.request(`/opds/authors/${encodeURIComponent("太宰治")}`, {
+    headers: { host: "localhost:8000" },
+  });
+  const body = await res.text();
+  assertEquals(body.includes("人間失格"), true);
+  assertEquals(body.includes("坊っちゃん"), false);
+  assertEquals(body.includes('rel="up" href="http://localhost:8000/opds/authors"'), true);
+});
+
+Deno.test("GET /opds/authors/:name - unknown author returns 404", async () => {
+  const { app } = createTestApp();
+  const res = await app.request("/opds/authors/unknown");
+  assertEquals(res.status, 404);
+});
+
+Deno.test("GET /opds/publishers - lists distinct publishers", async () => {
+  const { app, bookService } = createTestApp();
+  await registerSample(bookService, "本A", "著者A", { publisher: "新潮社" });
+  await registerSample(bookService, "本B", "著者B", { publisher: "新潮社" });
+  await registerSample(bookService, "本C", "著者C", { publisher: "岩波書店" });
+
+  const res = await app.request("/opds/publishers", { headers: { host: "localhost:8000" } });
+  const body = await res.text();
+  assertEquals(body.split("<title>新潮社</title>").length - 1, 1);
+  assertEquals(body.includes("<title>岩波書店</title>"), true);
+  assertEquals(body.includes("2冊"), true);
+
+  const pubRes = await app.request(`/opds/publishers/${encodeURIComponent("新潮社")}`, {
+    headers: { host: "localhost:8000" },
+  });
+  const pubBody = await pubRes.text();
+  assertEquals(pubBody.includes("本A"), true);
+  assertEquals(pubBody.includes("本B"), true);
+  assertEquals(pubBody.includes("本C"), false);
+});
+
+Deno.test("GET /opds/recent - newest books first", async () => {
+  const { app, bookService } = createTestApp();
+  await registerSample(bookService, "古い本", "著者");
+  await registerSample(bookService, "新しい本", "著者");
+
+  const res = await app.request("/opds/recent", { headers: { host: "localhost:8000" } });
+  const body = await res.text();
+  assertEquals(body.indexOf("新しい本") < body.indexOf("古い本"), true);
+});
+
+Deno.test("GET /opds/formats/:format - filters by file type", async () => {
+  const { app, bookService } = createTestApp();
+  await registerSample(bookService, "EPUB本", "著者");
+  await registerSample(bookService, "PDF本", "著者", { mimeType: "application/pdf" });
+
+  const epub = await (await app.request("/opds/formats/epub")).text();
+  assertEquals(epub.includes("EPUB本"), true);
+  assertEquals(epub.includes("PDF本"), false);
+
+  const pdf = await (await app.request("/opds/formats/pdf")).text();
+  assertEquals(pdf.includes("PDF本"), true);
+  assertEquals(pdf.includes("EPUB本"), false);
+
+  const unknown = await app.request("/opds/formats/docx");
+  assertEquals(unknown.status, 404);
+});
+
+Deno.test("GET /opds/all - paginates with next/previous links", async () => {
+  const { app, bookService } = createTestApp();
+  for (let i = 0; i < 60; i++) {
+    await registerSample(bookService, `本${String(i).padStart(2, "0")}`, "著者");
+  }
+
+  const res1 = await app.request("/opds/all", { headers: { host: "localhost:8000" } });
+  const body1 = await res1.text();
+  assertEquals(body1.split("<entry>").length - 1, 50);
+  assertEquals(body1.includes("<opensearch:totalResults>60</opensearch:totalResults>"), true);
+  assertEquals(body1.includes("<opensearch:startIndex>0</opensearch:startIndex>"), true);
+  assertEquals(body1.includes('rel="next" href="http://localhost:8000/opds/all?page=2"'), true);
+  assertEquals(body1.includes('rel="previous"'), false);
+
+  const res2 = await app.request("/opds/all?page=2", { headers: { host: "localhost:8000" } });
+  const body2 = await res2.text();
+  assertEquals(body2.split("<entry>").length - 1, 10);
+  assertEquals(body2.includes("<opensearch:startIndex>50</opensearch:startIndex>"), true);
+  assertEquals(body2.includes('rel="previous" href="http://localhost:8000/opds/all"'), true);
+  assertEquals(body2.includes('rel="next"'), false);
+});
+
+Deno.test("GET /opds?q= - search feed keeps query in page links", async () => {
+  const { app, bookService } = createTestApp();
+  for (let i = 0; i < 55; i++) {
+    await registerSample(bookService, `検索${i}`, "著者");
+  }
+
+  const res = await app.request("/opds?q=検索", { headers: { host: "localhost:8000" } });
+  const body = await res.text();
+  assertEquals(body.includes("<opensearch:totalResults>55</opensearch:totalResults>"), true);
+  assertEquals(body.includes(`?q=${encodeURIComponent("検索")}&amp;page=2`), true);
+});
+
+Deno.test("generateFeed - uses given paging values", () => {
+  const feed = generateFeed([], "http://localhost:8000", {
+    startIndex: 100,
+    totalResults: 230,
+    itemsPerPage: 50,
+  });
+  assertEquals(feed.includes("<opensearch:totalResults>230</opensearch:totalResults>"), true);
+  assertEquals(feed.includes("<opensearch:startIndex>100</opensearch:startIndex>"), true);
+  assertEquals(feed.includes("<opensearch:itemsPerPage>50</opensearch:itemsPerPage>"), true);
+});
@@ -0,0 +1,94 @@
+import { assertEquals } from "@std/assert";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { BookService } from "../../src/services/book.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { AuthorMigrator } from "../../scripts/migrate_authors.ts";
+
+class MockMetadataService implements BookMetadataService {
+  private data: Map<string, BookMetadata> = new Map();
+
+  addBook(isbn: string, metadata: BookMetadata): void {
+    this.data.set(isbn, metadata);
+  }
+
+  async fetchByIsbn(isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return this.data.get(isbn) || null;
+  }
+}
+
+function setup() {
+  const drive = new MockGoogleDriveService();
+  const metadata = new MockMetadataService();
+  const bookService = new BookService(drive, metadata, new CacheService());
+  const migrator = new AuthorMigrator(bookService);
+  return { drive, metadata, bookService, migrator };
+}
+
+/** ハイフン区切りの著者で保存された書籍 */
+async function addLegacyBook(
+  drive: MockGoogleDriveService,
+  id: string,
+  isbn: string,
+  authors: string,
+) {
+  const myLibraryId = await drive.ensureMyLibraryFolder();
+  const folderId = await drive.ensureAuthorFolder(myLibraryId, authors.split("-")[0]);
+  drive.addFile({
+    id,
+    name: `[${authors}] 本.epub`,
+    mimeType: "application/epub+zip",
+    parents: [folderId],
+    properties: { app_type: "my_library_book", isbn, title: "本", authors },
+  });
+}
+
+Deno.test("AuthorMigrator - uses fetched contributors when they match the legacy value", async () => {
+  const { drive, metadata, bookService, migrator } = setup();
+  await addLegacyBook(drive, "book_1", "9784101010014", "Jean-Paul Sartre-訳者");
+  metadata.addBook("9784101010014", {
+    isbn: "9784101010014",
+    title: "本",
+    authors: "Jean-Paul Sartre、訳者（訳）",
+    contributors: [
+      { name: "Jean-Paul Sartre", role: "author" },
+      { name: "訳者", role: "translator" },
+    ],
+    publisher: "",
+    publishedDate: "",
+    description: "",
+    coverImageUrl: "",
+  });
+
+  const result = await migrator.migrate();
+  assertEquals([result.total, result.succeeded], [1, 1]);
+
+  const book = await bookService.getBook("book_1");
+  assertEquals(book.properties.authors, "Jean-Paul Sartre、訳者（訳）");
+  assertEquals(book.properties.contributors, "aut:Jean-Paul Sartre;trl:訳者");
+  assertEquals(book.name, "[Jean-Paul Sartre] 本.epub");
+
+  // 移行済みの書籍は対象にならない
+  assertEquals((await migrator.migrate()).total, 0);
+});
+
+Deno.test("AuthorMigrator - splits on hyphens outside Latin names without metadata", async () => {
+  const { drive, bookService, migrator } = setup();
+  await addLegacyBook(drive, "book_1", "", "太宰治-Jean-Paul Sartre");
+
+  const result = await migrator.migrate();
+  assertEquals(result.details[0].reason, "太宰治、Jean-Paul Sartre");
+
+  const book = await bookService.getBook("book_1");
+  assertEquals(book.properties.contributors, "aut:太宰治;aut:Jean-Paul Sartre");
+});
+
+Deno.test("AuthorMigrator - dry run does not rewrite books", async () => {
+  const { drive, bookService, migrator } = setup();
+  await addLegacyBook(drive, "book_1", "", "著者A-著者B");
+
+  const result = await migrator.migrate({ dryRun: true });
+  assertEquals(result.succeeded, 1);
+  assertEquals((await bookService.getBook("book_1")).properties.contributors, undefined);
+});
@@ -0,0 +1,107 @@
+import { assertEquals } from "@std/assert";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { BookService } from "../../src/services/book.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { sanitizeProperties } from "../../src/services/drive.ts";
+import { PropertyMigrator } from "../../scripts/migrate_properties.ts";
+
+class MockMetadataService implements BookMetadataService {
+  private data: Map<string, BookMetadata> = new Map();
+
+  addBook(isbn: string, metadata: BookMetadata): void {
+    this.data.set(isbn, metadata);
+  }
+
+  async fetchByIsbn(isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return this.data.get(isbn) || null;
+  }
+}
+
+const LONG_TITLE = "とても長いタイトルの本".repeat(5);
+const LONG_DESCRIPTION = "概要".repeat(60);
+
+function setup() {
+  const drive = new MockGoogleDriveService();
+  const metadata = new MockMetadataService();
+  const bookService = new BookService(drive, metadata, new CacheService());
+  const migrator = new PropertyMigrator(bookService);
+  return { drive, metadata, bookService, migrator };
+}
+
+/** 分割保存に対応する前の形式（切り詰め）で保存された書籍 */
+async function addLegacyBook(
+  drive: MockGoogleDriveService,
+  id: string,
+  properties: Record<string, string>,
+) {
+  const myLibraryId = await drive.ensureMyLibraryFolder();
+  const folderId = await drive.ensureAuthorFolder(myLibraryId, "著者");
+  drive.addFile({
+    id,
+    name: `[著者] ${properties.title}.epub`,
+    mimeType: "application/epub+zip",
+    parents: [folderId],
+    properties: sanitizeProperties({ app_type: "my_library_book", authors: "著者", ...properties }),
+  });
+}
+
+function fetchedMetadata(isbn: string): BookMetadata {
+  return {
+    isbn,
+    title: LONG_TITLE,
+    authors: "著者",
+    publisher: "出版社",
+    publishedDate: "",
+    description: LONG_DESCRIPTION,
+    coverImageUrl: "",
+  };
+}
+
+Deno.test("PropertyMigrator - restores truncated values by ISBN", async () => {
+  const { drive, metadata, bookService, migrator } = setup();
+  await addLegacyBook(drive, "book_1", {
+    isbn: "9784101010014",
+    title: LONG_TITLE,
+    description: LONG_DESCRIPTION,
+  });
+  metadata.addBook("9784101010014", fetchedMetadata("9784101010014"));
+
+  const result = await migrator.migrate();
+  assertEquals([result.total, result.succeeded], [1, 1]);
+
+  const book = await bookService.getBook("book_1");
+  assertEquals(book.properties.title, LONG_TITLE);
+  assertEquals(book.description, LONG_DESCRIPTION);
+  assertEquals(book.properties.description, "");
+
+  // 書き直した書籍は対象にならない
+  assertEquals((await migrator.migrate()).total, 0);
+});
+
+Deno.test("PropertyMigrator - skips books that cannot be restored", async () => {
+  const { drive, metadata, migrator } = setup();
+  await addLegacyBook(drive, "no_isbn", { isbn: "", title: LONG_TITLE });
+  await addLegacyBook(drive, "edited", { isbn: "9784003101018", title: LONG_TITLE });
+  await addLegacyBook(drive, "short", { isbn: "9784101010014", title: "短いタイトル" });
+  // 登録後にタイトルを編集したため、取得し直した値とは一致しない
+  metadata.addBook("9784003101018", { ...fetchedMetadata("9784003101018"), title: "別のタイトル" });
+
+  const result = await migrator.migrate({ dryRun: true });
+  assertEquals(result.total, 2);
+  assertEquals(
+    result.details.map((d) => d.reason).sort(),
+    ["ISBNなし", "元の値を確認できません"],
+  );
+});
+
+Deno.test("PropertyMigrator - dry run does not rewrite books", async () => {
+  const { drive, metadata, bookService, migrator } = setup();
+  await addLegacyBook(drive, "book_1", { isbn: "9784101010014", title: LONG_TITLE });
+  metadata.addBook("9784101010014", fetchedMetadata("9784101010014"));
+
+  const result = await migrator.migrate({ dryRun: true });
+  assertEquals(result.succeeded, 1);
+  assertEquals((await bookService.getBook("book_1")).properties.title === LONG_TITLE, false);
+});
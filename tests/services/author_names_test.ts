@@ -0,0 +1,74 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  AUTHOR_ALIAS_FILE_NAME,
+  AuthorNameService,
+  normalizeAuthorName,
+  normalizeContributor,
+} from "../../src/services/author_names.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+
+Deno.test("normalizeAuthorName - unifies width and whitespace", () => {
+  assertEquals(normalizeAuthorName("太宰　治"), "太宰治");
+  assertEquals(normalizeAuthorName(" ﾑﾗｶﾐ ﾊﾙｷ "), "ムラカミハルキ");
+  assertEquals(normalizeAuthorName("Ｊｅａｎ－Ｐａｕｌ   Ｓａｒｔｒｅ"), "Jean-Paul Sartre");
+  // 英字とかなの間の空白は残す
+  assertEquals(normalizeAuthorName("J.D. サリンジャー"), "J.D. サリンジャー");
+});
+
+Deno.test("normalizeContributor - reads role marks after the name", () => {
+  assertEquals(normalizeContributor({ name: "夏目漱石／著", role: "author" }), {
+    name: "夏目漱石",
+    role: "author",
+  });
+  assertEquals(normalizeContributor({ name: "野崎 孝／訳", role: "author" }), {
+    name: "野崎孝",
+    role: "translator",
+  });
+  assertEquals(normalizeContributor({ name: "中島 敦 著", role: "author" }), {
+    name: "中島敦",
+    role: "author",
+  });
+  // 名前だけの場合は役割の表記とみなさない
+  assertEquals(normalizeContributor({ name: "編", role: "author" }), { name: "編", role: "author" });
+});
+
+Deno.test("AuthorNameService - stores aliases as JSON in MyLibrary", async () => {
+  const drive = new MockGoogleDriveService();
+  const service = new AuthorNameService(drive);
+
+  await service.setAlias("Dazai Osamu", "太宰 治");
+  await service.setAlias("だざいおさむ", "Dazai Osamu");
+
+  assertEquals(await service.canonicalize("DAZAI  OSAMU"), "太宰治");
+  assertEquals(await service.canonicalize("ダザイオサム"), "太宰治");
+  assertEquals(await service.canonicalize("夏目漱石"), "夏目漱石");
+
+  const myLibraryId = await drive.ensureMyLibraryFolder();
+  const file = (await drive.findFilesByParent(myLibraryId)).find((f) => f.name === AUTHOR_ALIAS_FILE_NAME)!;
+  const saved = JSON.parse(new TextDecoder().decode(await drive.getFileContent(file.id)));
+  assertEquals(saved, { aliases: { "Dazai Osamu": "太宰治", "だざいおさむ": "太宰治" } });
+
+  // 別のインスタンスは Drive から読み込む
+  const reloaded = new AuthorNameService(drive);
+  assertEquals((await reloaded.listAliases()).length, 2);
+  assertEquals(
+    await reloaded.canonicalizeContributors([
+      { name: "Dazai Osamu", role: "author" },
+      { name: "太宰治", role: "author" },
+      { name: "野崎孝／訳", role: "author" },
+    ]),
+    [{ name: "太宰治", role: "author" }, { name: "野崎孝", role: "translator" }],
+  );
+});
+
+Deno.test("AuthorNameService - re-points aliases and rejects loops", async () => {
+  const service = new AuthorNameService(new MockGoogleDriveService());
+  await service.setAlias("A", "B");
+  await service.setAlias("B", "C");
+
+  assertEquals(await service.canonicalize("A"), "C");
+  await assertRejects(() => service.setAlias("C", "A"), Error, "別名と正式な表記が同じです");
+
+  await service.removeAlias("A");
+  assertEquals(await service.canonicalize("A"), "A");
+});
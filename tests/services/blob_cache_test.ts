@@ -0,0 +1,177 @@
+import { assert, assertEquals } from "@std/assert";
+import { BlobCache } from "../../src/services/blob_cache.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { createApp } from "../../src/app.ts";
+import { BookMetadata, BookMetadataService, GoogleDriveService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function withTempDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  try {
+    await fn(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("BlobCache - stores blobs by file ID and version", async () => {
+  await withTempDir(async (dir) => {
+    const cache = new BlobCache({ dir });
+    await cache.put("file_1", "v1", encoder.encode("内容1"));
+
+    assertEquals(decoder.decode((await cache.get("file_1", "v1"))!), "内容1");
+    assertEquals(await cache.get("file_1", "v2"), null);
+    assertEquals(await cache.get("file_2", "v1"), null);
+
+    const stats = cache.stats();
+    assertEquals([stats.hits, stats.misses, stats.entries], [1, 2, 1]);
+    assertEquals(stats.bytes, encoder.encode("内容1").length);
+  });
+});
+
+Deno.test("BlobCache - evicts least recently used entries over the size limit", async () => {
+  await withTempDir(async (dir) => {
+    const cache = new BlobCache({ dir, maxBytes: 10 });
+    await cache.put("a", "1", encoder.encode("aaaa"));
+    await cache.put("b", "1", encoder.encode("bbbb"));
+    // a を使ったので、次に追い出されるのは b
+    await cache.get("a", "1");
+    await cache.put("c", "1", encoder.encode("cccc"));
+
+    assert(await cache.get("a", "1"));
+    assertEquals(await cache.get("b", "1"), null);
+    assert(await cache.get("c", "1"));
+    assertEquals(cache.stats().bytes, 8);
+
+    // 上限より大きいものはキャッシュしない
+    await cache.put("big", "1", encoder.encode("x".repeat(11)));
+    assertEquals(await cache.get("big", "1"), null);
+  });
+});
+
+Deno.test("BlobCache - serves ranges and restores entries after restart", async () => {
+  await withTempDir(async (dir) => {
+    const first = new BlobCache({ dir });
+    await first.put("file_1", "v1", encoder.encode("0123456789"));
+
+    const second = new BlobCache({ dir });
+    const range = await second.open("file_1", "v1", { start: 3, end: 5 });
+    assertEquals(await new Response(range).text(), "345");
+    assertEquals(second.stats().entries, 1);
+
+    await second.invalidate("file_1");
+    assertEquals(await second.open("file_1", "v1"), null);
+    assertEquals([...Deno.readDirSync(dir)].length, 0);
+  });
+});
+
+Deno.test("BlobCache - store caches streams only when read to the end", async () => {
+  await withTempDir(async (dir) => {
+    const cache = new BlobCache({ dir });
+    const source = () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode("abc"));
+          controller.enqueue(encoder.encode("def"));
+          controller.close();
+        },
+      });
+
+    // 長さが一致しない場合は保存しない
+    await new Response(cache.store("file_1", "v1", source(), 10)).text();
+    assertEquals(await cache.get("file_1", "v1"), null);
+
+    const text = await new Response(cache.store("file_1", "v1", source(), 6)).text();
+    assertEquals(text, "abcdef");
+    assertEquals(decoder.decode((await cache.get("file_1", "v1"))!), "abcdef");
+  });
+});
+
+// --- BookService / routes ---
+
+/** methods のうち、Drive に対して呼び出されたものを順に返す */
+function driveCalls(drive: MockGoogleDriveService, methods: (keyof GoogleDriveService)[]) {
+  return drive.calls.filter((method) => methods.includes(method));
+}
+
+const metadata: BookMetadata = {
+  isbn: "",
+  title: "キャッシュの本",
+  authors: "著者",
+  publisher: "",
+  publishedDate: "",
+  description: "",
+  coverImageUrl: "",
+};
+
+Deno.test("GET /books/:id/cover - serves covers from the disk cache", async () => {
+  await withTempDir(async (dir) => {
+    const drive = new MockGoogleDriveService();
+    const blobCache = new BlobCache({ dir });
+    const { app, bookService } = createApp({
+      driveService: drive,
+      metadataService: new MockMetadataService(),
+      cache: new CacheService(),
+      blobCache,
+    });
+    const book = await bookService.registerBook(metadata, encoder.encode("content"), "application/pdf");
+    const cover = await drive.uploadCoverImage("folder", "cover.jpg", encoder.encode("jpeg"), "image/jpeg");
+    await drive.updateFileProperties(book.id, { ...book.properties, cover_file_id: cover.id });
+    drive.calls.length = 0;
+
+    for (let i = 0; i < 3; i++) {
+      const res = await app.request(`/books/${book.id}/cover`);
+      assertEquals(res.status, 200);
+      assertEquals(await res.text(), "jpeg");
+    }
+    assertEquals(driveCalls(drive, ["getFile", "getFileContent"]), ["getFile", "getFileContent"]);
+
+    // 書籍を更新するとキャッシュを破棄して取り直す
+    await bookService.updateBook(book.id, { title: "新しいタイトル" });
+    drive.calls.length = 0;
+    await (await app.request(`/books/${book.id}/cover`)).body?.cancel();
+    assertEquals(driveCalls(drive, ["getFile", "getFileContent"]), ["getFile", "getFileContent"]);
+
+    const stats = await (await app.request("/api/cache/stats")).json();
+    assertEquals(stats.hits, 2);
+    assertEquals(stats.misses, 2);
+    assertEquals(stats.hitRate, 0.5);
+  });
+});
+
+Deno.test("GET /books/:id/download - serves repeat downloads from the disk cache", async () => {
+  await withTempDir(async (dir) => {
+    const drive = new MockGoogleDriveService();
+    const { app, bookService } = createApp({
+      driveService: drive,
+      metadataService: new MockMetadataService(),
+      cache: new CacheService(),
+      blobCache: new BlobCache({ dir }),
+    });
+    const book = await bookService.registerBook(metadata, encoder.encode("0123456789"), "application/pdf");
+    drive.calls.length = 0;
+
+    assertEquals(await (await app.request(`/books/${book.id}/download`)).text(), "0123456789");
+    assertEquals(await (await app.request(`/books/${book.id}/download`)).text(), "0123456789");
+    const range = await app.request(`/books/${book.id}/download`, {
+      headers: { Range: "bytes=4-6" },
+    });
+    assertEquals(range.status, 206);
+    assertEquals(await range.text(), "456");
+    assertEquals(driveCalls(drive, ["getFileStream", "getFileRangeStream"]), ["getFileStream"]);
+
+    // 削除するとキャッシュも消える
+    await bookService.deleteBook(book.id);
+    assertEquals([...Deno.readDirSync(dir)].length, 0);
+  });
+});
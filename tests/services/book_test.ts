@@ -1,5 +1,5 @@
 import { assertEquals, assertRejects } from "@std/assert";
-import { BookService } from "../../src/services/book.ts";
+import { BookService, getBookFormats, validateBookMetadata } from "../../src/services/book.ts";
 import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
 import { CacheService } from "../../src/services/cache.ts";
 import { BookMetadata, BookMetadataService } from "../../src/types.ts";
@@ -103,11 +103,13 @@ Deno.test("BookService - registerBook reuses author folder (DRV-006)", async ()
 
 Deno.test("BookService - registerBook with multiple authors (DRV-007)", async () => {
   const { drive, bookService } = createTestServices();
-  const meta = { ...sampleMetadata, authors: "著者A-著者B" };
+  const meta = { ...sampleMetadata, authors: "著者A、著者B、訳者C（訳）" };
   const content = new TextEncoder().encode("epub content");
   const file = await bookService.registerBook(meta, content, "application/epub+zip");
 
-  assertEquals(file.name, "[著者A-著者B] テスト.epub".replace("テスト", "人間失格"));
+  assertEquals(file.name, "[著者A、著者B] 人間失格.epub");
+  assertEquals(file.properties.authors, "著者A、著者B、訳者C（訳）");
+  assertEquals(file.properties.contributors, "aut:著者A;aut:著者B;trl:訳者C");
 
   // Should be in first author's folder
   const folderId = file.parents[0];
@@ -139,7 +141,7 @@ Deno.test("BookService - registerBook stores description (DAT-010)", async () =>
   const content = new TextEncoder().encode("epub content");
   const file = await bookService.registerBook(meta, content, "application/epub+zip");
 
-  assertEquals(file.properties.description, "これは概要です");
+  assertEquals(file.description, "これは概要です");
 });
 
 Deno.test("BookService - listBooks returns registered books (BRW-001)", async () => {
@@ -312,6 +314,78 @@ Deno.test("BookService - updateBook updates properties (EDT-002, EDT-003, EDT-00
   assertEquals(updated.properties.published_date, "2024-01-01");
 });
 
+Deno.test("BookService - stores long descriptions without truncation", async () => {
+  const { drive, bookService } = createTestServices();
+  const description = "長い概要。".repeat(100);
+  const file = await bookService.registerBook(
+    { ...sampleMetadata, description },
+    new TextEncoder().encode("epub content"),
+    "application/epub+zip",
+  );
+
+  assertEquals(file.description, description);
+  assertEquals(file.properties.description, undefined);
+
+  // 以前の形式（プロパティに切り詰めて保存）から書き換えると、プロパティは空にする
+  await drive.updateFileProperties(file.id, { ...file.properties, description: "切り詰められた概要" });
+  const updated = await bookService.updateBook(file.id, { description: "新しい概要" });
+  assertEquals(updated.description, "新しい概要");
+  assertEquals(updated.properties.description, "");
+});
+
+Deno.test("BookService - updateBook rejected by the property limit leaves the description unchanged", async () => {
+  const { drive, bookService } = createTestServices();
+  const file = await bookService.registerBook(
+    { ...sampleMetadata, description: "元の概要" },
+    new TextEncoder().encode("epub content"),
+    "application/epub+zip",
+  );
+
+  await assertRejects(
+    () => bookService.updateBook(file.id, { publisher: "とても長い出版社名".repeat(200), description: "新しい概要" }),
+    Error,
+    "上限 30 個",
+  );
+  const stored = await drive.getFile(file.id);
+  assertEquals(stored.description, "元の概要");
+  assertEquals(stored.properties.publisher, sampleMetadata.publisher);
+});
+
+Deno.test("BookService - updateBook validates and normalizes ISBN", async () => {
+  const { bookService } = createTestServices();
+  const file = await bookService.registerBook(
+    sampleMetadata,
+    new TextEncoder().encode("epub content"),
+    "application/epub+zip",
+  );
+
+  const updated = await bookService.updateBook(file.id, { isbn: "978-4-00-310101-8" });
+  assertEquals(updated.properties.isbn, "9784003101018");
+
+  await assertRejects(
+    () => bookService.updateBook(file.id, { isbn: "9784003101019" }),
+    Error,
+    "ISBNが正しくありません",
+  );
+});
+
+Deno.test("validateBookMetadata - reports invalid fields", () => {
+  assertEquals(validateBookMetadata({}), []);
+  assertEquals(
+    validateBookMetadata({ isbn: "", publishedDate: "20060101", seriesIndex: "2.5" }),
+    [],
+  );
+  assertEquals(
+    validateBookMetadata({ title: " ", isbn: "12345", publishedDate: "昭和27年", seriesIndex: "上" }),
+    [
+      "タイトルは必須です",
+      "ISBNが正しくありません: 12345",
+      "出版日は YYYY-MM-DD の形式で入力してください",
+      "巻数は数値で入力してください",
+    ],
+  );
+});
+
 Deno.test("BookService - updateBook renames file (EDT-002)", async () => {
   const { drive, bookService } = createTestServices();
   const content = new TextEncoder().encode("epub content");
@@ -371,14 +445,203 @@ Deno.test("BookService - Drive API failure propagates (FLW-002)", async () => {
   );
 });
 
-Deno.test("BookService - property value truncation (DAT-008)", async () => {
-  const { bookService } = createTestServices();
+Deno.test("BookService - long property values are split, not truncated (DAT-008)", async () => {
+  const { drive, bookService } = createTestServices();
   const longTitle = "あ".repeat(100); // 300 bytes in UTF-8
   const meta = { ...sampleMetadata, title: longTitle };
   const content = new TextEncoder().encode("epub content");
   const file = await bookService.registerBook(meta, content, "application/epub+zip");
 
+  assertEquals(file.properties.title, longTitle);
+  assertEquals((await bookService.getBook(file.id)).properties.title, longTitle);
+
+  // Drive に保存される各プロパティはキーと値で124バイト以内
+  const encoder = new TextEncoder();
+  for (const [key, value] of Object.entries(drive.files.get(file.id)!.properties)) {
+    assertEquals(encoder.encode(key + value).length <= 124, true);
+  }
+});
+
+Deno.test("BookService - registerBook stores series properties", async () => {
+  const { bookService } = createTestServices();
+  const meta = { ...sampleMetadata, series: "鋼の錬金術師", seriesIndex: "3" };
+  const file = await bookService.registerBook(meta, new Uint8Array(), "application/epub+zip");
+
+  assertEquals(file.properties.series, "鋼の錬金術師");
+  assertEquals(file.properties.series_index, "3");
+});
+
+Deno.test("BookService - registerBook omits series properties when not in a series", async () => {
+  const { bookService } = createTestServices();
+  const file = await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+
+  assertEquals(file.properties.series, undefined);
+  assertEquals(file.properties.series_index, undefined);
+});
+
+Deno.test("BookService - updateBook changes series", async () => {
+  const { drive, bookService } = createTestServices();
+  const file = await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+
+  await bookService.updateBook(file.id, { series: "新シリーズ", seriesIndex: "2" });
+
+  const updated = drive.files.get(file.id);
+  assertEquals(updated?.properties.series, "新シリーズ");
+  assertEquals(updated?.properties.series_index, "2");
+});
+
+Deno.test("BookService - listSeries sorts by volume number", async () => {
+  const { bookService } = createTestServices();
+  const content = new Uint8Array();
+  for (const index of ["10", "2", "", "1.5", "1"]) {
+    await bookService.registerBook(
+      {
+        ...sampleMetadata,
+        isbn: "",
+        title: `巻${index || "外"}`,
+        series: "シリーズA",
+        seriesIndex: index,
+      },
+      content,
+      "application/epub+zip",
+    );
+  }
+  await bookService.registerBook(
+    { ...sampleMetadata, title: "別シリーズ", series: "シリーズB", seriesIndex: "1" },
+    content,
+    "application/epub+zip",
+  );
+
+  const books = await bookService.listSeries("シリーズA");
+  assertEquals(
+    books.map((b) => b.properties.series_index),
+    ["1", "1.5", "2", "10", ""],
+  );
+});
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
   const encoder = new TextEncoder();
-  const bytes = encoder.encode(file.properties.title);
-  assertEquals(bytes.length <= 124, true);
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+Deno.test("BookService - registerBookStream registers small files like registerBook", async () => {
+  const { drive, bookService } = createTestServices();
+  const progress: number[] = [];
+  const file = await bookService.registerBookStream(
+    sampleMetadata,
+    streamOf("epub ", "content"),
+    "application/epub+zip",
+    { onProgress: (uploaded) => progress.push(uploaded) },
+  );
+
+  assertEquals(file.name, "[太宰治] 人間失格.epub");
+  assertEquals(new TextDecoder().decode(await drive.getFileContent(file.id)), "epub content");
+  assertEquals(progress, [12]);
+});
+
+Deno.test("BookService - registerBookStream streams files larger than the inspection limit", async () => {
+  const drive = new MockGoogleDriveService();
+  const bookService = new BookService(drive, new MockMetadataService(), new CacheService(), {
+    inspectionLimit: 8,
+  });
+  let streamed = false;
+  const original = drive.uploadFileStream.bind(drive);
+  drive.uploadFileStream = (...args) => {
+    streamed = true;
+    return original(...args);
+  };
+  const progress: [number, number | undefined][] = [];
+
+  const file = await bookService.registerBookStream(
+    sampleMetadata,
+    streamOf("0123", "4567", "89ab", "cdef"),
+    "application/pdf",
+    { size: 16, onProgress: (uploaded, total) => progress.push([uploaded, total]) },
+  );
+
+  assertEquals(streamed, true);
+  assertEquals(file.name, "[太宰治] 人間失格.pdf");
+  assertEquals(file.properties.isbn, "9784101010014");
+  assertEquals(
+    new TextDecoder().decode(await drive.getFileContent(file.id)),
+    "0123456789abcdef",
+  );
+  assertEquals(progress.at(-1), [16, 16]);
+});
+
+Deno.test("BookService - addFormatStream groups another format under one book", async () => {
+  const { drive, bookService } = createTestServices();
+  const book = await bookService.registerBook(sampleMetadata, new TextEncoder().encode("epub"), "application/epub+zip");
+  const pdf = await bookService.addFormatStream(book.id, new Response("pdf").body!, "application/pdf");
+
+  assertEquals(pdf.name, "[太宰治] 人間失格.pdf");
+  assertEquals(pdf.parents, book.parents);
+  assertEquals(pdf.properties.book_id, book.id);
+  assertEquals(pdf.properties.title, "人間失格");
+  assertEquals(pdf.description, "太宰治の代表作");
+
+  // 一覧には1冊として出る
+  const books = await bookService.listAllBooks();
+  assertEquals(books.map((b) => b.id), [book.id]);
+  assertEquals(getBookFormats(books[0]).map((f) => [f.key, f.fileId]), [["epub", book.id], ["pdf", pdf.id]]);
+  assertEquals((await drive.getFile(book.id)).properties.book_id, book.id);
+
+  await assertRejects(
+    () => bookService.addFormatStream(pdf.id, new Response("pdf").body!, "application/pdf"),
+    Error,
+    "PDF形式のファイルが登録済みです",
+  );
+});
+
+Deno.test("BookService - updateBook and deleteBook apply to every format", async () => {
+  const { drive, bookService } = createTestServices();
+  const book = await bookService.registerBook(sampleMetadata, new TextEncoder().encode("epub"), "application/epub+zip");
+  const pdf = await bookService.addFormatStream(book.id, new Response("pdf").body!, "application/pdf");
+
+  // 別の形式のファイルを指定しても書籍全体を更新する
+  await bookService.updateBook(pdf.id, { authors: "夏目漱石", title: "坊っちゃん" });
+  const updatedBook = await drive.getFile(book.id);
+  const updatedPdf = await drive.getFile(pdf.id);
+  assertEquals(updatedBook.name, "[夏目漱石] 坊っちゃん.epub");
+  assertEquals(updatedPdf.name, "[夏目漱石] 坊っちゃん.pdf");
+  assertEquals(updatedPdf.properties.title, "坊っちゃん");
+  assertEquals(updatedPdf.properties.app_type, "my_library_book_format");
+  assertEquals(updatedPdf.parents, updatedBook.parents);
+  assertEquals(drive.files.get(updatedBook.parents[0])?.name, "夏目漱石");
+
+  await bookService.deleteBook(book.id);
+  assertEquals(drive.files.has(book.id), false);
+  assertEquals(drive.files.has(pdf.id), false);
+});
+
+Deno.test("BookService - removeFormat keeps the book and hands over to the next format", async () => {
+  const { drive, bookService } = createTestServices();
+  const book = await bookService.registerBook(sampleMetadata, new TextEncoder().encode("epub"), "application/epub+zip");
+  await bookService.setCover(book.id, new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0xff, 0xd9]));
+  const pdf = await bookService.addFormatStream(book.id, new Response("pdf").body!, "application/pdf");
+  const mobi = await bookService.addFormatStream(book.id, new Response("mobi").body!, "application/x-mobipocket-ebook");
+
+  // 別の形式を削除する
+  const afterPdf = await bookService.removeFormat(pdf.id);
+  assertEquals(afterPdf.id, book.id);
+  assertEquals(drive.files.has(pdf.id), false);
+  assertEquals(getBookFormats(afterPdf).map((f) => f.key), ["epub", "mobi"]);
+
+  // 代表のファイルを削除すると MOBI が書誌情報と表紙を引き継ぐ
+  const coverFileId = (await drive.getFile(book.id)).properties.cover_file_id;
+  const promoted = await bookService.removeFormat(book.id);
+  assertEquals(promoted.id, mobi.id);
+  assertEquals(promoted.properties.app_type, "my_library_book");
+  assertEquals(promoted.properties.cover_file_id, coverFileId);
+  assertEquals(drive.files.has(book.id), false);
+  assertEquals(drive.files.has(coverFileId), true);
+  assertEquals(getBookFormats(promoted).map((f) => f.key), ["mobi"]);
+  assertEquals((await bookService.listAllBooks()).map((b) => b.id), [mobi.id]);
+
+  await assertRejects(() => bookService.removeFormat(mobi.id), Error, "最後の形式は削除できません");
 });
@@ -0,0 +1,226 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { BulkImportService } from "../../src/services/bulk.ts";
+import { BookService } from "../../src/services/book.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { createApp } from "../../src/app.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+/** 先頭のバイト列で EPUB と判定される最小限の内容（ZIP の先頭に無圧縮の mimetype） */
+const EPUB_HEADER = "PK\x03\x04" + "\0".repeat(26) + "mimetypeapplication/epub+zip";
+
+class MockMetadataService implements BookMetadataService {
+  private data: Map<string, BookMetadata> = new Map();
+
+  addBook(isbn: string, metadata: BookMetadata): void {
+    this.data.set(isbn, metadata);
+  }
+
+  async fetchByIsbn(isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return this.data.get(isbn) || null;
+  }
+}
+
+function makeMetadata(isbn: string, title: string): BookMetadata {
+  return {
+    isbn,
+    title,
+    authors: "太宰治",
+    publisher: "新潮社",
+    publishedDate: "1952-01-01",
+    description: "",
+    coverImageUrl: "",
+    series: "",
+    seriesIndex: "",
+  };
+}
+
+function createTestService() {
+  const drive = new MockGoogleDriveService();
+  const metadata = new MockMetadataService();
+  const bookService = new BookService(drive, metadata, new CacheService());
+  const bulk = new BulkImportService(bookService);
+  return { drive, metadata, bookService, bulk };
+}
+
+function file(name: string, mimeType = "application/epub+zip") {
+  return { name, mimeType, content: new TextEncoder().encode("dummy content") };
+}
+
+Deno.test("BulkImportService - detects ISBN from filename and fetches metadata", async () => {
+  const { metadata, bulk } = createTestService();
+  metadata.addBook("9784101010014", makeMetadata("9784101010014", "人間失格"));
+
+  const batch = await bulk.stage([
+    file("人間失格_978-4-10-101001-4.epub"),
+    file("no-isbn-here.pdf", "application/pdf"),
+  ]);
+
+  assertEquals(batch.rows.length, 2);
+  assertEquals(batch.rows[0].metadata.isbn, "9784101010014");
+  assertEquals(batch.rows[0].isbnSource, "filename");
+  assertEquals(batch.rows[0].metadataFound, true);
+  assertEquals(batch.rows[0].metadata.title, "人間失格");
+  assertEquals(batch.rows[1].isbnSource, null);
+  assertEquals(batch.rows[1].metadata.title, "no-isbn-here");
+  assertEquals(batch.rows[1].skip, false);
+
+  await bulk.discard(batch.id);
+});
+
+Deno.test("BulkImportService - marks duplicates against library and batch", async () => {
+  const { bookService, bulk } = createTestService();
+  await bookService.registerBook(
+    makeMetadata("9784101010014", "人間失格"),
+    new TextEncoder().encode("existing"),
+    "application/epub+zip",
+  );
+
+  const batch = await bulk.stage([
+    file("9784101010014.epub"),
+    file("9784003101018.epub"),
+    file("9784003101018_copy.epub"),
+  ]);
+
+  assert(batch.rows[0].duplicate?.fileId);
+  assertEquals(batch.rows[0].skip, true);
+  assertEquals(batch.rows[1].duplicate, undefined);
+  assertEquals(batch.rows[1].skip, false);
+  assertEquals(batch.rows[2].duplicate?.rowId, batch.rows[1].id);
+  assertEquals(batch.rows[2].skip, true);
+
+  await bulk.discard(batch.id);
+});
+
+Deno.test("BulkImportService - registers edited rows and skips excluded ones", async () => {
+  const { bookService, bulk } = createTestService();
+  const batch = await bulk.stage([file("a.epub"), file("b.epub")]);
+
+  bulk.updateRow(batch.id, batch.rows[0].id, { title: " 修正後タイトル ", authors: "著者A" });
+  bulk.updateRow(batch.id, batch.rows[1].id, { skip: true });
+
+  const events: string[] = [];
+  assertEquals(bulk.start(batch.id), true);
+  for await (const event of bulk.watch(batch.id)) {
+    events.push(`${event.row.fileName}:${event.row.status}:${event.done}/${event.total}`);
+  }
+
+  assertEquals(batch.state, "committed");
+  assertEquals(batch.rows[0].status, "registered");
+  assertEquals(batch.rows[1].status, "skipped");
+  assertEquals(events[events.length - 1], "b.epub:skipped:2/2");
+
+  const list = await bookService.listBooks();
+  assertEquals(list.files.length, 1);
+  assertEquals(list.files[0].properties?.title, "修正後タイトル");
+
+  // 登録開始後は修正も再実行もできない
+  assertEquals(bulk.updateRow(batch.id, batch.rows[1].id, { skip: false }), null);
+  assertEquals(bulk.start(batch.id), false);
+});
+
+Deno.test("BulkImportService - reports rows without title as errors", async () => {
+  const { bulk } = createTestService();
+  const batch = await bulk.stage([file("a.epub"), file("b.epub")]);
+  bulk.updateRow(batch.id, batch.rows[0].id, { title: "" });
+
+  bulk.start(batch.id);
+  await bulk.waitForCompletion(batch.id);
+
+  assertEquals(batch.rows[0].status, "error");
+  assertEquals(batch.rows[0].error, "タイトルは必須です");
+  assertEquals(batch.rows[1].status, "registered");
+});
+
+// --- Routes ---
+
+function createTestApp() {
+  const drive = new MockGoogleDriveService();
+  const metadata = new MockMetadataService();
+  const { app, bookService } = createApp({
+    driveService: drive,
+    metadataService: metadata,
+    cache: new CacheService(),
+  });
+  return { app, metadata, bookService };
+}
+
+async function stageFiles(app: ReturnType<typeof createApp>["app"], files: File[]) {
+  const formData = new FormData();
+  for (const f of files) formData.append("files", f);
+  return await app.request("/books/bulk", { method: "POST", body: formData });
+}
+
+Deno.test("GET /books/bulk - shows bulk registration page", async () => {
+  const { app } = createTestApp();
+  const res = await app.request("/books/bulk");
+  assertEquals(res.status, 200);
+  const html = await res.text();
+  assertStringIncludes(html, "一括登録");
+  assertStringIncludes(html, 'name="files"');
+  assertStringIncludes(html, "multiple");
+});
+
+Deno.test("POST /books/bulk - shows review table and excludes unsupported files", async () => {
+  const { app, metadata } = createTestApp();
+  metadata.addBook("9784101010014", makeMetadata("9784101010014", "人間失格"));
+
+  const res = await stageFiles(app, [
+    new File([EPUB_HEADER], "9784101010014.epub"),
+    new File(["x"], "memo.docx"),
+  ]);
+  assertEquals(res.status, 200);
+  const html = await res.text();
+  assertStringIncludes(html, "登録内容の確認（1件）");
+  assertStringIncludes(html, 'value="人間失格"');
+  assertStringIncludes(html, "ISBN: ファイル名");
+  assertStringIncludes(html, "memo.docx");
+});
+
+Deno.test("POST /books/bulk - rejects request without files", async () => {
+  const { app } = createTestApp();
+  const res = await app.request("/books/bulk", { method: "POST", body: new FormData() });
+  assertEquals(res.status, 400);
+});
+
+Deno.test("POST /books/bulk/:id/commit - applies edits and streams progress", async () => {
+  const { app, bookService } = createTestApp();
+  const staged = await (await stageFiles(app, [
+    new File([EPUB_HEADER], "a.epub"),
+    new File([EPUB_HEADER], "b.epub"),
+  ])).text();
+  const batchId = staged.match(/\/books\/bulk\/([0-9a-f-]+)\/commit/)![1];
+  const rowIds = [...staged.matchAll(/name="title\.([0-9a-f-]+)"/g)].map((m) => m[1]);
+
+  const formData = new FormData();
+  formData.append(`title.${rowIds[0]}`, "一括登録テスト");
+  formData.append(`title.${rowIds[1]}`, "除外する本");
+  formData.append(`skip.${rowIds[1]}`, "on");
+  const res = await app.request(`/books/bulk/${batchId}/commit`, {
+    method: "POST",
+    body: formData,
+  });
+  assertEquals(res.status, 200);
+  const html = await res.text();
+  assertStringIncludes(html, `sse-connect="/books/bulk/${batchId}/events"`);
+  assertStringIncludes(html, `sse-swap="row-${rowIds[0]}"`);
+
+  const events = await (await app.request(`/books/bulk/${batchId}/events`)).text();
+  assertStringIncludes(events, `event: row-${rowIds[0]}`);
+  assertStringIncludes(events, "event: progress");
+  assertStringIncludes(events, "event: done");
+  assertStringIncludes(events, "1件を登録しました");
+
+  const list = await bookService.listBooks();
+  assertEquals(list.files.map((f) => f.properties?.title), ["一括登録テスト"]);
+});
+
+Deno.test("POST /books/bulk/:id/commit - returns 404 for unknown batch", async () => {
+  const { app } = createTestApp();
+  const res = await app.request("/books/bulk/unknown/commit", {
+    method: "POST",
+    body: new FormData(),
+  });
+  assertEquals(res.status, 404);
+});
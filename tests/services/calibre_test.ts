@@ -1,15 +1,15 @@
 import { assertEquals, assertNotEquals } from "@std/assert";
 import { DriveFile } from "../../src/types.ts";
 import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
-import { BookService } from "../../src/services/book.ts";
+import { BookService, getBookFormats } from "../../src/services/book.ts";
 import { CacheService } from "../../src/services/cache.ts";
+import { parseMetadataOpf } from "../../src/services/epub.ts";
 import {
   CalibreMigrator,
   MigrationOptions,
   NoOpMetadataService,
-  parseMetadataOpf,
   selectBookFile,
-} from "../../scripts/migrate_calibre.ts";
+} from "../../src/services/calibre.ts";
 
 // ─── テスト用ヘルパー ─────────────────────────────────────────────
 
@@ -180,7 +180,7 @@ Deno.test("parseMetadataOpf - MGRSCRIPT-02: ISBNなしの場合はisbnが空文
   assertEquals(meta.authors, "著者A");
 });
 
-Deno.test("parseMetadataOpf - 複数のdc:creatorをハイフン結合する", () => {
+Deno.test("parseMetadataOpf - 複数のdc:creatorを著者の一覧にする", () => {
   const xml = makeOpf({
     title: "共著本",
     authors: ["著者A", "著者B"],
@@ -189,7 +189,34 @@ Deno.test("parseMetadataOpf - 複数のdc:creatorをハイフン結合する", (
 
   const meta = parseMetadataOpf(xml);
 
-  assertEquals(meta.authors, "著者A-著者B");
+  assertEquals(meta.authors, "著者A、著者B");
+  assertEquals(meta.contributors, [
+    { name: "著者A", role: "author" },
+    { name: "著者B", role: "author" },
+  ]);
+});
+
+Deno.test("parseMetadataOpf - opf:role と EPUB3 の refines から役割を読む", () => {
+  const xml = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" xmlns:opf="http://www.idpf.org/2007/opf">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>翻訳本</dc:title>
+    <dc:creator opf:role="aut">Jean-Paul Sartre</dc:creator>
+    <dc:creator id="trl1">訳者</dc:creator>
+    <meta refines="#trl1" property="role" scheme="marc:relators">trl</meta>
+    <dc:contributor opf:role="ill">画家</dc:contributor>
+    <dc:contributor opf:role="bkp">calibre</dc:contributor>
+  </metadata>
+</package>`;
+
+  const meta = parseMetadataOpf(xml);
+
+  assertEquals(meta.authors, "Jean-Paul Sartre、訳者（訳）、画家（絵）");
+  assertEquals(meta.contributors, [
+    { name: "Jean-Paul Sartre", role: "author" },
+    { name: "訳者", role: "translator" },
+    { name: "画家", role: "illustrator" },
+  ]);
 });
 
 Deno.test("parseMetadataOpf - 日付のT以降を除去する", () => {
@@ -239,7 +266,7 @@ Deno.test("selectBookFile - MGRSCRIPT-05: 対応形式がない場合はnullを
   const files = [
     makeFile("cover.jpg", "image/jpeg"),
     makeFile("metadata.opf", "text/xml"),
-    makeFile("notes.txt", "text/plain"),
+    makeFile("notes.rtf", "text/rtf"),
   ];
   const result = selectBookFile(files);
   assertEquals(result, null);
@@ -297,6 +324,30 @@ Deno.test("CalibreMigrator - MGRSCRIPT-02: ISBNなし書籍も移管できる",
   assertEquals(result.skipped, 0);
 });
 
+Deno.test("CalibreMigrator - EPUBとPDFが共存する場合は1冊の書籍の形式として登録する", async () => {
+  const { drive, bookService } = createServices();
+  const migrator = new CalibreMigrator(drive, bookService);
+
+  setupCalibreBook(drive, "source", {
+    authorName: "太宰治",
+    bookFolderName: "人間失格 (12)",
+    opfXml: makeOpf({ title: "人間失格", author: "太宰治", isbn: "9784101010014" }),
+    epubContent: new Uint8Array([1, 2, 3]),
+    pdfContent: new Uint8Array([4, 5, 6]),
+  });
+
+  const result = await migrator.migrate("source");
+  assertEquals(result.succeeded, 1);
+
+  const books = await bookService.listAllBooks();
+  assertEquals(books.length, 1);
+  const formats = getBookFormats(books[0]);
+  assertEquals(formats.map((f) => f.key), ["epub", "pdf"]);
+  const pdf = await drive.getFile(formats[1].fileId);
+  assertEquals(pdf.name, "[太宰治] 人間失格.pdf");
+  assertEquals(pdf.parents, books[0].parents);
+});
+
 Deno.test("CalibreMigrator - MGRSCRIPT-05: 対応形式の書籍ファイルがない場合はスキップ", async () => {
   const { drive, bookService } = createServices();
   const migrator = new CalibreMigrator(drive, bookService);
@@ -597,3 +648,27 @@ Deno.test("CalibreMigrator - MGRSCRIPT-13: 処理サマリーの件数が正し
   assertEquals(result.errors, 0);
   assertEquals(result.details.length, 3);
 });
+
+Deno.test("parseMetadataOpf - calibre:series と calibre:series_index を読み取る", () => {
+  const xml = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="2.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:opf="http://www.idpf.org/2007/opf">
+    <dc:title>鋼の錬金術師 3</dc:title>
+    <dc:creator opf:role="aut">荒川弘</dc:creator>
+    <meta name="calibre:series" content="鋼の錬金術師"/>
+    <meta content="3.0" name="calibre:series_index"/>
+  </metadata>
+</package>`;
+
+  const meta = parseMetadataOpf(xml);
+
+  assertEquals(meta.series, "鋼の錬金術師");
+  assertEquals(meta.seriesIndex, "3.0");
+});
+
+Deno.test("parseMetadataOpf - シリーズ情報がない場合は空文字", () => {
+  const meta = parseMetadataOpf(makeOpf({ title: "単巻" }));
+
+  assertEquals(meta.series, "");
+  assertEquals(meta.seriesIndex, "");
+});
@@ -0,0 +1,62 @@
+import { assertEquals } from "@std/assert";
+import {
+  authorNames,
+  decodeContributors,
+  encodeContributors,
+  formatContributors,
+  getContributors,
+  parseContributors,
+  splitLegacyAuthors,
+} from "../../src/services/contributors.ts";
+import { Contributor } from "../../src/types.ts";
+
+Deno.test("parseContributors - splits on 、 and reads role suffixes", () => {
+  assertEquals(parseContributors("J.D.サリンジャー、村上春樹（訳）; 和田誠(絵)\n編者(編集)"), [
+    { name: "J.D.サリンジャー", role: "author" },
+    { name: "村上春樹", role: "translator" },
+    { name: "和田誠", role: "illustrator" },
+    { name: "編者", role: "editor" },
+  ]);
+  // ハイフンと未知の括弧書きは名前の一部
+  assertEquals(parseContributors("Jean-Paul Sartre、Someone (Ed.)"), [
+    { name: "Jean-Paul Sartre", role: "author" },
+    { name: "Someone (Ed.)", role: "author" },
+  ]);
+  assertEquals(parseContributors(" 、 "), []);
+});
+
+Deno.test("formatContributors - round-trips through parseContributors", () => {
+  const contributors: Contributor[] = [
+    { name: "著者A", role: "author" },
+    { name: "訳者B", role: "translator" },
+  ];
+  assertEquals(formatContributors(contributors), "著者A、訳者B（訳）");
+  assertEquals(parseContributors(formatContributors(contributors)), contributors);
+});
+
+Deno.test("encodeContributors - escapes separators inside names", () => {
+  const contributors: Contributor[] = [
+    { name: "A;B\\C", role: "author" },
+    { name: "Jean-Paul: Sartre", role: "editor" },
+  ];
+  const encoded = encodeContributors(contributors);
+  assertEquals(encoded, "aut:A\\;B\\\\C;edt:Jean-Paul: Sartre");
+  assertEquals(decodeContributors(encoded), contributors);
+});
+
+Deno.test("authorNames - falls back to everyone when there is no author", () => {
+  assertEquals(authorNames(parseContributors("著者、訳者（訳）")), ["著者"]);
+  assertEquals(authorNames(parseContributors("編者（編）")), ["編者"]);
+});
+
+Deno.test("getContributors - reads legacy hyphen-joined authors", () => {
+  assertEquals(getContributors({ authors: "著者A-著者B" }).map((c) => c.name), ["著者A", "著者B"]);
+  assertEquals(splitLegacyAuthors("Jean-Paul Sartre-太宰治").map((c) => c.name), [
+    "Jean-Paul Sartre",
+    "太宰治",
+  ]);
+  assertEquals(getContributors({ authors: "無視される", contributors: "trl:訳者" }), [
+    { name: "訳者", role: "translator" },
+  ]);
+  assertEquals(getContributors(undefined), []);
+});
@@ -0,0 +1,224 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { addKoboSpans, convertToKepub } from "../../src/services/kepub.ts";
+import { convertEpubToMobi } from "../../src/services/mobi_writer.ts";
+import { inspectMobi } from "../../src/services/mobi.ts";
+import { detectBookFormat } from "../../src/services/formats.ts";
+import { writeZip, ZipReader } from "../../src/services/zip.ts";
+import { BookService } from "../../src/services/book.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { createApp } from "../../src/app.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+const encoder = new TextEncoder();
+const JPEG_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3, 0xff, 0xd9]);
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+const OPF = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>吾輩は猫である</dc:title>
+    <dc:creator>夏目漱石</dc:creator>
+  </metadata>
+  <manifest>
+    <item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>
+    <item id="cover" href="images/cover.jpg" media-type="image/jpeg" properties="cover-image"/>
+  </manifest>
+  <spine><itemref idref="ch1"/><itemref idref="ch2"/></spine>
+</package>`;
+
+/** 2章・挿絵1枚・章をまたぐリンクを持つ EPUB */
+function buildEpub(ch1Text = "吾輩は猫である。名前はまだ無い。"): Promise<Uint8Array> {
+  return writeZip([
+    { name: "mimetype", data: encoder.encode("application/epub+zip"), compress: false },
+    {
+      name: "META-INF/container.xml",
+      data: encoder.encode(
+        `<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>`,
+      ),
+    },
+    { name: "OEBPS/content.opf", data: encoder.encode(OPF) },
+    {
+      name: "OEBPS/text/ch1.xhtml",
+      data: encoder.encode(`<html><head><style>p { color: red; }</style></head><body>
+<p>${ch1Text}</p>
+<p><img src="../images/cover.jpg" alt="挿絵"/><a href="ch2.xhtml#sec">次へ</a></p>
+</body></html>`),
+    },
+    {
+      name: "OEBPS/text/ch2.xhtml",
+      data: encoder.encode(`<html><body><h2 id="sec">二</h2><p>どこで生れたかとんと見当がつかぬ。</p></body></html>`),
+    },
+    { name: "OEBPS/images/cover.jpg", data: JPEG_BYTES },
+  ]);
+}
+
+/** MOBI の本文のレコードをつなげる（末尾の文字の続きのバイトと長さの1バイトを除く） */
+function readMobiText(data: Uint8Array): string {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const count = view.getUint16(76);
+  const offsets = [...Array(count).keys()].map((i) => view.getUint32(78 + i * 8));
+  const textRecords = view.getUint16(offsets[0] + 8);
+  const parts: Uint8Array[] = [];
+  for (let i = 1; i <= textRecords; i++) {
+    const record = data.subarray(offsets[i], offsets[i + 1]);
+    parts.push(record.subarray(0, record.length - (record[record.length - 1] & 0x3) - 1));
+  }
+  const text = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    text.set(part, pos);
+    pos += part.length;
+  }
+  return new TextDecoder().decode(text);
+}
+
+Deno.test("addKoboSpans - wraps sentences and images in koboSpan", () => {
+  const xhtml = `<html><head><title>猫</title></head><body>
+<p>吾輩は猫である。名前はまだ無い。</p>
+<p><ruby>漢<rt>かん</rt></ruby></p>
+<div><img src="a.jpg"/></div>
+</body></html>`;
+  const kepub = addKoboSpans(xhtml);
+
+  assertEquals(kepub.includes("<title>猫</title>"), true);
+  assertEquals(kepub.includes('<body><div id="book-columns"><div id="book-inner">\n<p>'), true);
+  assertEquals(
+    kepub.includes(
+      '<p><span class="koboSpan" id="kobo.1.1">吾輩は猫である。</span><span class="koboSpan" id="kobo.1.2">名前はまだ無い。</span></p>',
+    ),
+    true,
+  );
+  // ルビはそのまま
+  assertEquals(kepub.includes("<p><ruby>漢<rt>かん</rt></ruby></p>"), true);
+  assertEquals(kepub.includes('<span class="koboSpan" id="kobo.4.1"><img src="a.jpg"/></span>'), true);
+  // 変換済みの文書は変えない
+  assertEquals(addKoboSpans(kepub), kepub);
+});
+
+Deno.test("convertToKepub - adds spans to content documents and keeps other files", async () => {
+  const kepub = await convertToKepub(await buildEpub());
+  const zip = new ZipReader(kepub);
+
+  assertEquals(zip.names[0], "mimetype");
+  assertEquals(await zip.readText("mimetype"), "application/epub+zip");
+  assertEquals(detectBookFormat(kepub, "book.kepub.epub")?.key, "epub");
+  assertEquals((await zip.readText("OEBPS/text/ch2.xhtml"))?.includes('<span class="koboSpan" id="kobo.2.1">'), true);
+  assertEquals(await zip.readText("OEBPS/content.opf"), OPF);
+  assertEquals(await zip.read("OEBPS/images/cover.jpg"), JPEG_BYTES);
+});
+
+Deno.test("convertEpubToMobi - builds a MOBI with metadata, images and links", async () => {
+  // レコードの境目に多バイト文字がかかる長さの本文
+  const longText = "吾輩は猫である。".repeat(800);
+  const mobi = await convertEpubToMobi(await buildEpub(longText), {
+    metadata: { title: "吾輩は猫である（改版）", authors: "夏目漱石、山田太郎（絵）", isbn: "9784101010014" },
+    cover: { data: PNG_BYTES, mimeType: "image/png" },
+  });
+
+  assertEquals(detectBookFormat(mobi.subarray(0, 64 * 1024))?.key, "mobi");
+  const inspection = await inspectMobi(mobi);
+  assertEquals(inspection?.metadata.title, "吾輩は猫である（改版）");
+  assertEquals(inspection?.metadata.authors, "夏目漱石");
+  assertEquals(inspection?.metadata.isbn, "9784101010014");
+  assertEquals(inspection?.cover, { data: PNG_BYTES, mimeType: "image/png" });
+
+  const text = readMobiText(mobi);
+  assertEquals(text.includes(longText), true);
+  assertEquals(text.includes("color: red"), false);
+  assertEquals(text.includes('<img recindex="00001" alt="挿絵"/>'), true);
+  assertEquals(text.includes("<mbp:pagebreak/>"), true);
+  // 章をまたぐリンクは見出しの位置（バイト数）を指す
+  const filepos = Number(text.match(/<a filepos=(\d{10})>次へ/)?.[1]);
+  const bytes = encoder.encode(text);
+  assertEquals(new TextDecoder().decode(bytes.subarray(filepos, filepos + 16)), '<h2 id="sec">二');
+});
+
+function createTestServices() {
+  const drive = new MockGoogleDriveService();
+  const cache = new CacheService();
+  const bookService = new BookService(drive, new MockMetadataService(), cache);
+  return { drive, cache, bookService };
+}
+
+const sampleMetadata: BookMetadata = {
+  isbn: "9784101010014",
+  title: "吾輩は猫である",
+  authors: "夏目漱石",
+  publisher: "新潮社",
+  publishedDate: "1905-01-01",
+  description: "",
+  coverImageUrl: "",
+};
+
+Deno.test("BookService - getFormatFile converts once and keeps the result next to the book", async () => {
+  const { drive, bookService } = createTestServices();
+  const book = await bookService.registerBook(sampleMetadata, await buildEpub(), "application/epub+zip");
+
+  const kepub = await bookService.getFormatFile(book.id, "kepub");
+  assertEquals(kepub?.name, "[夏目漱石] 吾輩は猫である.kepub.epub");
+  assertEquals(kepub?.parents, book.parents);
+  assertEquals(kepub?.properties.app_type, "my_library_book_conversion");
+  assertEquals((await drive.getFile(book.id)).properties.converted_files, `kepub:${kepub?.id}`);
+  assertEquals((await bookService.getFormatFile(book.id, "kepub"))?.id, kepub?.id);
+  assertEquals((await bookService.getFormatFile(book.id, "epub"))?.id, book.id);
+  assertEquals(await bookService.getFormatFile(book.id, "pdf"), null);
+  assertEquals((await bookService.listAllBooks()).length, 1);
+
+  // 表紙が変わると埋め込み直すため変換し直す
+  const mobi = await bookService.getFormatFile(book.id, "mobi");
+  await bookService.setCover(book.id, JPEG_BYTES);
+  const reconverted = await bookService.getFormatFile(book.id, "mobi");
+  assertNotEquals(reconverted?.id, mobi?.id);
+  assertEquals(drive.files.has(mobi!.id), false);
+  assertEquals((await inspectMobi(await drive.getFileContent(reconverted!.id)))?.cover?.data, JPEG_BYTES);
+
+  // 書誌情報を編集すると変換したファイルは削除し、書籍の削除でも消える
+  await bookService.updateBook(book.id, { title: "坊っちゃん" });
+  assertEquals(drive.files.has(kepub!.id), false);
+  const renamed = await bookService.getFormatFile(book.id, "kepub");
+  assertEquals(renamed?.name, "[夏目漱石] 坊っちゃん.kepub.epub");
+  await bookService.deleteBook(book.id);
+  assertEquals(drive.files.has(renamed!.id), false);
+});
+
+Deno.test("GET /books/:id/download?format= - serves converted files and OPDS advertises them", async () => {
+  const drive = new MockGoogleDriveService();
+  const { app, bookService } = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+  });
+  const book = await bookService.registerBook(sampleMetadata, await buildEpub(), "application/epub+zip");
+
+  const res = await app.request(`/books/${book.id}/download?format=kepub`);
+  assertEquals(res.status, 200);
+  assertEquals(res.headers.get("Content-Type"), "application/kepub+zip");
+  assertEquals(
+    res.headers.get("Content-Disposition"),
+    `attachment; filename="${encodeURIComponent("[夏目漱石] 吾輩は猫である.kepub.epub")}"`,
+  );
+  const kepub = new ZipReader(new Uint8Array(await res.arrayBuffer()));
+  assertEquals((await kepub.readText("OEBPS/text/ch1.xhtml"))?.includes("koboSpan"), true);
+
+  const mobi = await app.request(`/books/${book.id}/download?format=mobi`);
+  assertEquals(mobi.headers.get("Content-Type"), "application/x-mobipocket-ebook");
+  await mobi.body?.cancel();
+
+  const missing = await app.request(`/books/${book.id}/download?format=pdf`);
+  assertEquals(missing.status, 404);
+  await missing.body?.cancel();
+
+  const feed = await (await app.request("/opds/recent")).text();
+  assertEquals(feed.includes(`/books/${book.id}/download?format=kepub"`), true);
+  assertEquals(feed.includes('type="application/kepub+zip"'), true);
+  assertEquals(feed.includes(`/books/${book.id}/download?format=mobi"`), true);
+});
@@ -0,0 +1,348 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import {
+  buildMimeMessage,
+  encodeBase64,
+  estimateMessageSize,
+  MailMessage,
+  maxAttachmentSize,
+  SmtpTransport,
+} from "../../src/services/mail.ts";
+import { MockMailTransport } from "../../src/services/mail_mock.ts";
+import { DeliveryService } from "../../src/services/delivery.ts";
+import { BookService } from "../../src/services/book.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { writeZip } from "../../src/services/zip.ts";
+import { createApp } from "../../src/app.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+const encoder = new TextEncoder();
+
+const sampleMetadata: BookMetadata = {
+  isbn: "9784101010014",
+  title: "吾輩は猫である",
+  authors: "夏目漱石",
+  publisher: "新潮社",
+  publishedDate: "1905-01-01",
+  description: "",
+  coverImageUrl: "",
+};
+
+const message: MailMessage = {
+  from: "My Library <library@example.com>",
+  to: "reader@kindle.com",
+  subject: "吾輩は猫である",
+  text: "本文",
+  attachments: [{
+    filename: "[夏目漱石] 吾輩は猫である.epub",
+    content: encoder.encode("epub"),
+    contentType: "application/epub+zip",
+  }],
+};
+
+function buildEpub(): Promise<Uint8Array> {
+  return writeZip([
+    { name: "mimetype", data: encoder.encode("application/epub+zip"), compress: false },
+    {
+      name: "META-INF/container.xml",
+      data: encoder.encode(`<container><rootfiles><rootfile full-path="content.opf"/></rootfiles></container>`),
+    },
+    {
+      name: "content.opf",
+      data: encoder.encode(
+        `<package><metadata><dc:title>猫</dc:title></metadata><manifest>` +
+          `<item id="c" href="c.xhtml" media-type="application/xhtml+xml"/></manifest>` +
+          `<spine><itemref idref="c"/></spine></package>`,
+      ),
+    },
+    { name: "c.xhtml", data: encoder.encode("<html><body><p>吾輩は猫である。</p></body></html>") },
+  ]);
+}
+
+/**
+ * 1回だけ接続を受け付ける SMTP サーバー。受け取ったコマンドと DATA の内容を記録する。
+ * rejectRecipient を指定すると RCPT TO を 550 で拒否する
+ */
+function startFakeSmtpServer(options: { rejectRecipient?: boolean } = {}) {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const commands: string[] = [];
+  let data = "";
+  const done = (async () => {
+    const conn = await listener.accept();
+    const write = (text: string) => conn.write(encoder.encode(text));
+    const decoder = new TextDecoder();
+    const chunk = new Uint8Array(4096);
+    let buffer = "";
+    let inData = false;
+    await write("220 fake ESMTP\r\n");
+    try {
+      while (true) {
+        const n = await conn.read(chunk);
+        if (n === null) break;
+        buffer += decoder.decode(chunk.subarray(0, n));
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end < 0) continue;
+          data = buffer.slice(0, end + 2);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          await write("250 queued\r\n");
+        }
+        let lineEnd;
+        while (!inData && (lineEnd = buffer.indexOf("\r\n")) >= 0) {
+          const line = buffer.slice(0, lineEnd);
+          buffer = buffer.slice(lineEnd + 2);
+          commands.push(line);
+          const verb = line.split(" ")[0].toUpperCase();
+          if (verb === "EHLO") await write("250-fake\r\n250-AUTH LOGIN PLAIN\r\n250 SIZE 1000000\r\n");
+          else if (verb === "AUTH") await write("235 ok\r\n");
+          else if (verb === "RCPT" && options.rejectRecipient) await write("550 no such user\r\n");
+          else if (verb === "DATA") {
+            await write("354 go ahead\r\n");
+            inData = true;
+          } else if (verb === "QUIT") {
+            await write("221 bye\r\n");
+          } else await write("250 ok\r\n");
+        }
+      }
+    } finally {
+      conn.close();
+      listener.close();
+    }
+  })();
+  const port = (listener.addr as Deno.NetAddr).port;
+  return { port, commands, getData: () => data, done };
+}
+
+Deno.test("buildMimeMessage - encodes Japanese subject and attachment file name", () => {
+  const mime = buildMimeMessage(message, { boundary: "b", date: new Date("2026-10-19T00:00:00Z") });
+  const [headers] = mime.split("\r\n\r\n");
+
+  assert(headers.includes("Date: Mon, 19 Oct 2026 00:00:00 +0000"));
+  assert(headers.includes(`Subject: =?UTF-8?B?${encodeBase64(encoder.encode("吾輩は猫である"))}?=`));
+  assert(headers.includes('Content-Type: multipart/mixed; boundary="b"'));
+  assert(
+    mime.includes(
+      "filename*=UTF-8''%5B%E5%A4%8F%E7%9B%AE%E6%BC%B1%E7%9F%B3%5D%20" +
+        "%E5%90%BE%E8%BC%A9%E3%81%AF%E7%8C%AB%E3%81%A7%E3%81%82%E3%82%8B.epub",
+    ),
+  );
+  assert(mime.includes(`\r\n${encodeBase64(encoder.encode("epub"))}\r\n--b--\r\n`));
+  // ヘッダーの1行は78文字以内に収める
+  assert(headers.split("\r\n").every((line) => line.length <= 78));
+});
+
+Deno.test("SmtpTransport - sends through a local SMTP server with AUTH PLAIN", async () => {
+  const server = startFakeSmtpServer();
+  const transport = new SmtpTransport({
+    host: "127.0.0.1",
+    port: server.port,
+    username: "user",
+    password: "secret",
+    timeoutMs: 5000,
+  });
+
+  await transport.send(message);
+  await server.done;
+
+  assertEquals(server.commands, [
+    "EHLO localhost",
+    `AUTH PLAIN ${encodeBase64(encoder.encode("\0user\0secret"))}`,
+    `MAIL FROM:<library@example.com> SIZE=${server.commands[2].match(/SIZE=(\d+)/)?.[1]}`,
+    "RCPT TO:<reader@kindle.com>",
+    "DATA",
+    "QUIT",
+  ]);
+  assert(server.getData().startsWith("From: My Library <library@example.com>\r\n"));
+  assert(server.getData().includes(encodeBase64(encoder.encode("epub"))));
+});
+
+Deno.test("SmtpTransport - reports SMTP errors", async () => {
+  const server = startFakeSmtpServer({ rejectRecipient: true });
+  const transport = new SmtpTransport({ host: "127.0.0.1", port: server.port, timeoutMs: 5000 });
+
+  await assertRejects(
+    () => transport.send(message),
+    Error,
+    "SMTPサーバーがエラーを返しました（RCPT）: 550 no such user",
+  );
+  await server.done;
+  assertEquals(server.commands.includes("DATA"), false);
+});
+
+function createTestServices(options: { maxBytes?: number } = {}) {
+  const drive = new MockGoogleDriveService();
+  const bookService = new BookService(drive, new MockMetadataService(), new CacheService());
+  const transport = new MockMailTransport();
+  const delivery = new DeliveryService(drive, bookService, {
+    transport,
+    from: "library@example.com",
+    ...options,
+  });
+  return { drive, bookService, transport, delivery };
+}
+
+Deno.test("DeliveryService - keeps devices per user in devices.json", async () => {
+  const { drive, delivery } = createTestServices();
+  await delivery.addDevice({ user: "はなこ", name: "PocketBook", email: "hanako@pbsync.com" });
+  const kindle = await delivery.addDevice({
+    user: "さとる",
+    name: "Kindle",
+    email: "satoru@kindle.com",
+    format: "epub",
+  });
+
+  await assertRejects(
+    () => delivery.addDevice({ user: "さとる", name: "Kobo", email: "not-an-address" }),
+    Error,
+    "メールアドレスが正しくありません",
+  );
+  await assertRejects(
+    () => delivery.addDevice({ user: "さとる", name: "Kobo", email: "a@example.com", format: "docx" }),
+    Error,
+    "対応していない形式です",
+  );
+
+  const file = [...drive.files.values()].find((f) => f.name === "devices.json")!;
+  const saved = JSON.parse(new TextDecoder().decode(await drive.getFileContent(file.id)));
+  assertEquals(saved.devices.length, 2);
+  assertEquals((await delivery.listDevices()).map((d) => d.user), ["さとる", "はなこ"]);
+
+  await delivery.removeDevice(kindle.id);
+  assertEquals((await delivery.listDevices({ refresh: true })).map((d) => d.name), ["PocketBook"]);
+});
+
+Deno.test("DeliveryService - sendBook mails the file in the device format and logs deliveries", async () => {
+  const { drive, bookService, transport, delivery } = createTestServices();
+  const book = await bookService.registerBook(sampleMetadata, await buildEpub(), "application/epub+zip");
+  const pocketbook = await delivery.addDevice({ user: "はなこ", name: "PocketBook", email: "hanako@pbsync.com" });
+  const kobo = await delivery.addDevice({ user: "さとる", name: "Kobo", email: "satoru@example.com", format: "kepub" });
+  const pdfOnly = await delivery.addDevice({ user: "さとる", name: "Scribe", email: "s@example.com", format: "pdf" });
+
+  const entry = await delivery.sendBook(book.id, pocketbook.id);
+  assertEquals(entry.status, "sent");
+  assertEquals(transport.sent[0].to, "hanako@pbsync.com");
+  assertEquals(transport.sent[0].subject, "吾輩は猫である");
+  assertEquals(transport.sent[0].attachments[0].filename, "[夏目漱石] 吾輩は猫である.epub");
+  assertEquals(transport.sent[0].attachments[0].content, await drive.getFileContent(book.id));
+
+  await delivery.sendBook(book.id, kobo.id);
+  assertEquals(transport.sent[1].attachments[0].filename, "[夏目漱石] 吾輩は猫である.kepub.epub");
+  assertEquals(transport.sent[1].attachments[0].contentType, "application/kepub+zip");
+
+  await assertRejects(() => delivery.sendBook(book.id, pdfOnly.id), Error, "この書籍は PDF 形式で送信できません");
+
+  transport.shouldFail = true;
+  await assertRejects(() => delivery.sendBook(book.id, pocketbook.id), Error, "SMTP error");
+
+  const log = await delivery.listDeliveries({ refresh: true });
+  assertEquals(log.map((e) => [e.device, e.status]), [
+    ["PocketBook", "failed"],
+    ["Kobo", "sent"],
+    ["PocketBook", "sent"],
+  ]);
+  assertEquals(log[0].error, "SMTP error");
+});
+
+Deno.test("DeliveryService - sendBook rejects files over the size limit", async () => {
+  const { bookService, transport, delivery } = createTestServices({ maxBytes: 10 });
+  const book = await bookService.registerBook(sampleMetadata, await buildEpub(), "application/epub+zip");
+  const device = await delivery.addDevice({ user: "さとる", name: "Kindle", email: "satoru@kindle.com" });
+
+  await assertRejects(() => delivery.sendBook(book.id, device.id), Error, "ファイルが大きすぎるため");
+  assertEquals(transport.sent.length, 0);
+  assertEquals((await delivery.listDeliveries())[0].status, "failed");
+
+  const disabled = new DeliveryService(new MockGoogleDriveService(), bookService);
+  await assertRejects(() => disabled.sendBook(book.id, device.id), Error, "メールの送信が設定されていません");
+});
+
+Deno.test("DeliveryService - compares the Base64-encoded message size with the limit", async () => {
+  const epub = await buildEpub();
+  const limit = estimateMessageSize(epub.length);
+  assert(limit > epub.length * 4 / 3);
+  assert(maxAttachmentSize(limit) >= epub.length);
+  assert(estimateMessageSize(maxAttachmentSize(limit)) <= limit);
+
+  const fits = createTestServices({ maxBytes: limit });
+  const book = await fits.bookService.registerBook(sampleMetadata, epub, "application/epub+zip");
+  const device = await fits.delivery.addDevice({ user: "さとる", name: "Kobo", email: "satoru@example.com" });
+  assertEquals((await fits.delivery.sendBook(book.id, device.id)).status, "sent");
+
+  // ファイルそのものは上限より小さくても、Base64 にすると上限を超える
+  const tooLarge = createTestServices({ maxBytes: limit - 1 });
+  assert(epub.length < limit - 1);
+  const other = await tooLarge.bookService.registerBook(sampleMetadata, epub, "application/epub+zip");
+  const kobo = await tooLarge.delivery.addDevice({ user: "さとる", name: "Kobo", email: "satoru@example.com" });
+  await assertRejects(() => tooLarge.delivery.sendBook(other.id, kobo.id), Error, "添付すると約");
+  assertEquals(tooLarge.transport.sent.length, 0);
+});
+
+Deno.test("DeliveryService - does not send MOBI to Kindle", async () => {
+  const { bookService, transport, delivery } = createTestServices();
+  await assertRejects(
+    () => delivery.addDevice({ user: "さとる", name: "Kindle", email: "satoru@kindle.com", format: "mobi" }),
+    Error,
+    "Kindle にはメールで MOBI 形式を送れません",
+  );
+
+  const book = await bookService.registerBook(
+    sampleMetadata,
+    encoder.encode("BOOKMOBI"),
+    "application/x-mobipocket-ebook",
+  );
+  const kindle = await delivery.addDevice({ user: "さとる", name: "Kindle", email: "satoru@kindle.com" });
+  await assertRejects(() => delivery.sendBook(book.id, kindle.id), Error, "Kindle にはメールで MOBI 形式を送れません");
+  assertEquals(transport.sent.length, 0);
+
+  // Kindle 以外の端末には MOBI のまま送れる
+  const other = await delivery.addDevice({ user: "さとる", name: "Reader", email: "satoru@example.com" });
+  assertEquals((await delivery.sendBook(book.id, other.id)).status, "sent");
+});
+
+Deno.test("POST /books/:id/send - sends from the book card and shows the delivery log", async () => {
+  const transport = new MockMailTransport();
+  const { app, bookService } = createApp({
+    driveService: new MockGoogleDriveService(),
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+    delivery: { transport, from: "library@example.com" },
+  });
+  const book = await bookService.registerBook(sampleMetadata, await buildEpub(), "application/epub+zip");
+
+  const library = await (await app.request("/")).text();
+  assert(library.includes(`hx-get="/books/${book.id}/send"`));
+  assert(library.includes(`id="send-${book.id}"`));
+  assert((await (await app.request(`/books/${book.id}/send`)).text()).includes("送信先がありません"));
+
+  const form = new FormData();
+  form.append("user", "さとる");
+  form.append("name", "Kindle");
+  form.append("email", "satoru@kindle.com");
+  form.append("format", "epub");
+  const added = await app.request("/devices", { method: "POST", body: form });
+  assertEquals(added.status, 200);
+  assert((await added.text()).includes("送信先「Kindle」を追加しました"));
+
+  const select = await (await app.request(`/books/${book.id}/send`)).text();
+  assert(select.includes('<optgroup label="さとる">'));
+  const deviceId = select.match(/<option value="([^"]+)">Kindle/)![1];
+
+  const body = new FormData();
+  body.append("device", deviceId);
+  const sent = await app.request(`/books/${book.id}/send`, { method: "POST", body });
+  assertEquals(sent.status, 200);
+  assert((await sent.text()).includes("「吾輩は猫である」を Kindle に送信しました"));
+  assertEquals(transport.sent.length, 1);
+
+  const page = await (await app.request("/devices")).text();
+  assert(page.includes("送信済み"));
+  assert(page.includes("satoru@kindle.com"));
+});
@@ -0,0 +1,221 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import {
+  DriveCallExecutor,
+  getRetryAfterMs,
+  isRetryableDriveError,
+  isUnprocessedDriveError,
+} from "../../src/services/drive_resilience.ts";
+import { RealGoogleDriveService } from "../../src/services/drive.ts";
+import { createDriveApiError } from "../../src/services/drive_mock.ts";
+
+function createExecutor(options: ConstructorParameters<typeof DriveCallExecutor>[0] = {}) {
+  const sleeps: number[] = [];
+  const executor = new DriveCallExecutor({
+    random: () => 0.5,
+    sleep: (ms) => {
+      sleeps.push(ms);
+      return Promise.resolve();
+    },
+    ...options,
+  });
+  return { executor, sleeps };
+}
+
+Deno.test("isRetryableDriveError - classifies Drive errors", () => {
+  assert(isRetryableDriveError(createDriveApiError(503)));
+  assert(isRetryableDriveError(createDriveApiError(429)));
+  assert(isRetryableDriveError(createDriveApiError(403, { reason: "userRateLimitExceeded" })));
+  assert(isRetryableDriveError(Object.assign(new Error("reset"), { code: "ECONNRESET" })));
+  assert(isRetryableDriveError(Object.assign(new Error("gaxios"), { code: "502" })));
+  assert(!isRetryableDriveError(createDriveApiError(403, { reason: "insufficientPermissions" })));
+  assert(!isRetryableDriveError(createDriveApiError(404)));
+  assert(!isRetryableDriveError(new Error("Drive API error")));
+});
+
+Deno.test("isUnprocessedDriveError - only accepts errors Drive did not process", () => {
+  assert(isUnprocessedDriveError(createDriveApiError(429)));
+  assert(isUnprocessedDriveError(createDriveApiError(403, { reason: "rateLimitExceeded" })));
+  assert(isUnprocessedDriveError(Object.assign(new Error("refused"), { code: "ECONNREFUSED" })));
+  assert(!isUnprocessedDriveError(createDriveApiError(503)));
+  assert(!isUnprocessedDriveError(Object.assign(new Error("timeout"), { code: "ETIMEDOUT" })));
+  assert(!isUnprocessedDriveError(Object.assign(new Error("reset"), { code: "ECONNRESET" })));
+});
+
+Deno.test("getRetryAfterMs - parses seconds, HTTP dates and Headers", () => {
+  assertEquals(getRetryAfterMs(createDriveApiError(429, { retryAfter: "3" })), 3000);
+  const now = Date.parse("2025-01-01T00:00:00Z");
+  assertEquals(
+    getRetryAfterMs(createDriveApiError(503, { retryAfter: "Wed, 01 Jan 2025 00:00:10 GMT" }), now),
+    10000,
+  );
+  const withHeaders = { response: { headers: new Headers({ "Retry-After": "1" }) } };
+  assertEquals(getRetryAfterMs(withHeaders), 1000);
+  assertEquals(getRetryAfterMs(createDriveApiError(503)), null);
+});
+
+Deno.test("DriveCallExecutor - retries transient errors with exponential backoff", async () => {
+  const { executor, sleeps } = createExecutor({ baseDelayMs: 1000 });
+  let calls = 0;
+  const result = await executor.run(() => {
+    calls++;
+    if (calls <= 3) return Promise.reject(createDriveApiError(500));
+    return Promise.resolve("ok");
+  });
+
+  assertEquals(result, "ok");
+  assertEquals(calls, 4);
+  // random() = 0.5 なので上限 1000, 2000, 4000 の半分
+  assertEquals(sleeps, [500, 1000, 2000]);
+});
+
+Deno.test("DriveCallExecutor - honors Retry-After and caps delay", async () => {
+  const { executor, sleeps } = createExecutor({ baseDelayMs: 1000, maxDelayMs: 1500 });
+  let calls = 0;
+  await executor.run(() => {
+    calls++;
+    if (calls === 1) {
+      return Promise.reject(createDriveApiError(403, {
+        reason: "userRateLimitExceeded",
+        retryAfter: "7",
+      }));
+    }
+    if (calls <= 3) return Promise.reject(createDriveApiError(503));
+    return Promise.resolve();
+  });
+
+  // Retry-After: 7 秒は maxDelayMs で抑える
+  assertEquals(sleeps, [1500, 750, 750]);
+});
+
+Deno.test("DriveCallExecutor - does not retry permanent errors and gives up after max retries", async () => {
+  const { executor, sleeps } = createExecutor({ maxRetries: 2 });
+
+  let calls = 0;
+  await assertRejects(() =>
+    executor.run(() => {
+      calls++;
+      return Promise.reject(createDriveApiError(404));
+    })
+  );
+  assertEquals(calls, 1);
+
+  calls = 0;
+  await assertRejects(() =>
+    executor.run(() => {
+      calls++;
+      return Promise.reject(createDriveApiError(503));
+    })
+  );
+  assertEquals(calls, 3);
+  assertEquals(sleeps.length, 2);
+});
+
+Deno.test("DriveCallExecutor - retries non-idempotent calls only when Drive did not process them", async () => {
+  const { executor } = createExecutor();
+  let calls = 0;
+  await assertRejects(() =>
+    executor.run(() => {
+      calls++;
+      return Promise.reject(createDriveApiError(503));
+    }, undefined, { idempotent: false })
+  );
+  assertEquals(calls, 1);
+
+  calls = 0;
+  const result = await executor.run(() => {
+    calls++;
+    if (calls === 1) return Promise.reject(createDriveApiError(429));
+    return Promise.resolve("created");
+  }, undefined, { idempotent: false });
+  assertEquals(result, "created");
+  assertEquals(calls, 2);
+});
+
+Deno.test("DriveCallExecutor - aborts timed out calls and retries them", async () => {
+  const { executor } = createExecutor({ timeoutMs: 10, maxRetries: 1 });
+  const aborted: boolean[] = [];
+  let calls = 0;
+
+  const result = await executor.run(({ signal }) => {
+    calls++;
+    if (calls === 2) return Promise.resolve("second");
+    return new Promise((_, reject) => {
+      signal.addEventListener("abort", () => {
+        aborted.push(true);
+        reject(signal.reason);
+      });
+    });
+  });
+
+  assertEquals(result, "second");
+  assertEquals(aborted, [true]);
+});
+
+Deno.test("DriveCallExecutor - limits concurrent calls", async () => {
+  const { executor } = createExecutor({ maxConcurrency: 2 });
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  await Promise.all(
+    [1, 2, 3, 4, 5].map((n) =>
+      executor.run(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return n;
+      })
+    ),
+  );
+
+  assertEquals(maxInFlight, 2);
+});
+
+Deno.test("RealGoogleDriveService - retries rate-limited Drive calls", async () => {
+  let calls = 0;
+  const signals: unknown[] = [];
+  const driveClient = {
+    files: {
+      list: (_params: unknown, options: { signal?: AbortSignal }) => {
+        calls++;
+        signals.push(options?.signal);
+        if (calls === 1) {
+          return Promise.reject(createDriveApiError(403, { reason: "rateLimitExceeded" }));
+        }
+        return Promise.resolve({ data: { files: [{ id: "library-id", name: "MyLibrary" }] } });
+      },
+    },
+  };
+
+  const service = new RealGoogleDriveService(driveClient, {
+    sleep: () => Promise.resolve(),
+  });
+  const id = await service.ensureMyLibraryFolder();
+
+  assertEquals(id, "library-id");
+  assertEquals(calls, 2);
+  assert(signals.every((s) => s instanceof AbortSignal));
+});
+
+Deno.test("RealGoogleDriveService - does not retry files.create after a timeout", async () => {
+  let creates = 0;
+  const driveClient = {
+    files: {
+      list: () => Promise.resolve({ data: { files: [] } }),
+      create: (_params: unknown, options: { signal: AbortSignal }) => {
+        creates++;
+        // Drive 側では作成済みでも、応答が届かずにタイムアウトする
+        return new Promise((_, reject) => {
+          options.signal.addEventListener("abort", () => reject(options.signal.reason));
+        });
+      },
+    },
+  };
+
+  const service = new RealGoogleDriveService(driveClient, {
+    timeoutMs: 10,
+    sleep: () => Promise.resolve(),
+  });
+  await assertRejects(() => service.ensureMyLibraryFolder(), Error, "タイムアウト");
+  assertEquals(creates, 1);
+});
@@ -1,6 +1,15 @@
-import { assertEquals, assertRejects } from "@std/assert";
-import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
-import { formatFileName, getExtension, getFirstAuthor, sanitizeProperties } from "../../src/services/drive.ts";
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { createDriveApiError, MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import {
+  decodeProperties,
+  encodeProperties,
+  formatFileName,
+  getFirstAuthor,
+  isPossiblyTruncated,
+  RealGoogleDriveService,
+  sanitizeProperties,
+} from "../../src/services/drive.ts";
+import { getExtension } from "../../src/services/formats.ts";
 
 // --- Helper functions tests ---
 
@@ -15,8 +24,8 @@ Deno.test("formatFileName - PDF format (DRV-002)", () => {
 });
 
 Deno.test("formatFileName - multiple authors (DRV-007)", () => {
-  const result = formatFileName("著者A-著者B", "テストタイトル", "epub");
-  assertEquals(result, "[著者A-著者B] テストタイトル.epub");
+  const result = formatFileName("著者A、著者B", "テストタイトル", "epub");
+  assertEquals(result, "[著者A、著者B] テストタイトル.epub");
 });
 
 Deno.test("getFirstAuthor - single author", () => {
@@ -24,7 +33,9 @@ Deno.test("getFirstAuthor - single author", () => {
 });
 
 Deno.test("getFirstAuthor - multiple authors (DRV-007)", () => {
-  assertEquals(getFirstAuthor("著者A-著者B"), "著者A");
+  assertEquals(getFirstAuthor("著者A、著者B"), "著者A");
+  // ハイフンは名前の一部、訳者は筆頭著者にしない
+  assertEquals(getFirstAuthor("訳者（訳）、Jean-Paul Sartre"), "Jean-Paul Sartre");
 });
 
 Deno.test("getExtension - EPUB", () => {
@@ -65,6 +76,114 @@ Deno.test("sanitizeProperties - key+value combined does not exceed 124 bytes", (
   assertEquals(k2 + v2 <= 124, true);
 });
 
+Deno.test("encodeProperties - splits long values and decodeProperties restores them", () => {
+  const title = "吾輩は猫である🐈".repeat(12);
+  const encoded = encodeProperties({ title, isbn: "9784101010014" }, { isbn: "978", isbn_0: "stale" });
+  const encoder = new TextEncoder();
+  for (const [key, value] of Object.entries(encoded)) {
+    if (value !== null) assertEquals(encoder.encode(key + value).length <= 124, true);
+  }
+  // 元のキーには検索用の先頭部分が残る
+  assertEquals(title.startsWith(encoded.title!), true);
+  assertEquals(encoded.title_0 !== null && encoded.title_1 !== null, true);
+  // 使わない分割キーは削除する
+  assertEquals(encoded.isbn_0, null);
+
+  const stored = Object.fromEntries(Object.entries(encoded).filter(([, v]) => v !== null)) as Record<
+    string,
+    string
+  >;
+  assertEquals(decodeProperties(stored), { title, isbn: "9784101010014" });
+  // series_index のような分割キーでないキーはそのまま
+  assertEquals(decodeProperties({ series: "A", series_index: "3" }), { series: "A", series_index: "3" });
+});
+
+Deno.test("encodeProperties - keeps values longer than four chunks intact", () => {
+  const title = "とても長いタイトル".repeat(30);
+  const encoded = encodeProperties({ app_type: "my_library_book", title });
+  const chunkCount = Object.keys(encoded).filter((k) => k.startsWith("title_")).length;
+  assertEquals(chunkCount > 4, true);
+  assertEquals(decodeProperties(encoded as Record<string, string>).title, title);
+});
+
+Deno.test("encodeProperties - rejects properties over Drive's 30-property limit instead of truncating", () => {
+  const long = "長い値".repeat(60);
+  const properties: Record<string, string> = { app_type: "my_library_book" };
+  for (const key of ["title", "authors", "publisher", "series"]) properties[key] = long;
+  // 元のキー5個と、長い値ごとに分割キー
+  const encoded = encodeProperties(properties);
+  assertEquals(Object.keys(encoded).length <= 30, true);
+
+  const error = assertThrows(() => encodeProperties({ ...properties, description: long, contributors: long }));
+  assertEquals((error as Error).message.includes("上限 30 個"), true);
+  // 保存済みのプロパティも数える
+  const stored = Object.fromEntries(Array.from({ length: 29 }, (_, i) => [`key${i}`, "x"]));
+  assertThrows(() => encodeProperties({ title: "短い", isbn: "978" }, stored));
+});
+
+Deno.test("MockDrive - updateFileProperties rejects too many properties and keeps the file unchanged", async () => {
+  const drive = new MockGoogleDriveService();
+  const file = await drive.uploadFile("folder", "book.epub", new Uint8Array(), "application/epub+zip", {
+    app_type: "my_library_book",
+    title: "人間失格",
+  });
+  const long = "長い値".repeat(100);
+  await assertRejects(
+    () =>
+      drive.updateFileProperties(file.id, {
+        ...file.properties,
+        title: long,
+        authors: long,
+        publisher: long,
+        series: long,
+      }),
+    Error,
+    "Drive に保存できません",
+  );
+  assertEquals((await drive.getFile(file.id)).properties.title, "人間失格");
+});
+
+Deno.test("encodeProperties - stores authors only through contributors", () => {
+  const properties = {
+    app_type: "my_library_book",
+    authors: "ドストエフスキー、亀山郁夫（訳）",
+    contributors: "aut:ドストエフスキー;trl:亀山郁夫",
+  };
+  const encoded = encodeProperties(properties, { authors: "古い著者", authors_0: "古い" });
+  assertEquals(encoded.authors, null);
+  assertEquals(encoded.authors_0, null);
+
+  const stored = { app_type: "my_library_book", contributors: properties.contributors };
+  assertEquals(decodeProperties(stored), properties);
+  // contributors のない以前の書籍は authors をそのまま使う
+  assertEquals(encodeProperties({ authors: "太宰治" }).authors, "太宰治");
+  assertEquals(decodeProperties({ authors: "太宰治" }), { authors: "太宰治" });
+});
+
+Deno.test("isPossiblyTruncated - detects values cut at the old limit", () => {
+  const truncated = sanitizeProperties({ title: "あ".repeat(100) }).title;
+  assertEquals(isPossiblyTruncated("title", truncated), true);
+  assertEquals(isPossiblyTruncated("title", "人間失格"), false);
+  assertEquals(isPossiblyTruncated("title", "あ".repeat(100)), false);
+});
+
+Deno.test("MockDrive - long properties survive updates and series lookups", async () => {
+  const drive = new MockGoogleDriveService();
+  const series = "とても長いシリーズ名".repeat(6);
+  const file = await drive.uploadFile("folder", "book.epub", new Uint8Array(), "application/epub+zip", {
+    app_type: "my_library_book",
+    title: "長いタイトル".repeat(10),
+    series,
+  });
+  assertEquals((await drive.findBooksBySeries(series)).map((f) => f.id), [file.id]);
+  assertEquals(await drive.findBooksBySeries(series.slice(0, 30)), []);
+
+  // 短くすると古い分割は残らない
+  await drive.updateFileProperties(file.id, { ...file.properties, title: "短い" });
+  assertEquals((await drive.getFile(file.id)).properties.title, "短い");
+  assertEquals(Object.keys(drive.files.get(file.id)!.properties).some((k) => k.startsWith("title_")), false);
+});
+
 // --- Mock Drive Service tests ---
 
 Deno.test("MockDrive - ensureMyLibraryFolder creates folder (DAT-009)", async () => {
@@ -182,6 +301,56 @@ Deno.test("MockDrive - listBooks returns only books with app_type (BRW-001, BRW-
   assertEquals(result.files[0].properties.title, "人間失格");
 });
 
+Deno.test("MockDrive - listBooks and searchBooks include nested folders under MyLibrary only", async () => {
+  const drive = new MockGoogleDriveService();
+  const myLibId = await drive.ensureMyLibraryFolder();
+  const authorId = await drive.ensureAuthorFolder(myLibId, "太宰治");
+  const seriesId = await drive.ensureAuthorFolder(authorId, "走れメロス");
+  const outsideId = await drive.ensureAuthorFolder("elsewhere", "太宰治");
+  for (const [folderId, title] of [[seriesId, "走れメロス"], [outsideId, "斜陽"]]) {
+    await drive.uploadFile(folderId, `[太宰治] ${title}.epub`, new Uint8Array(), "application/epub+zip", {
+      app_type: "my_library_book",
+      title,
+      authors: "太宰治",
+    });
+  }
+
+  assertEquals((await drive.listBooks()).files.map((f) => f.properties.title), ["走れメロス"]);
+  assertEquals((await drive.searchBooks("太宰")).files.map((f) => f.properties.title), ["走れメロス"]);
+});
+
+Deno.test("RealGoogleDriveService - listBooks walks nested folders under MyLibrary", async () => {
+  // フォルダ: MyLibrary(lib) / 太宰治(author) / 走れメロス(series)
+  const folders: Record<string, string[]> = { lib: ["author"], author: ["series"], series: [] };
+  const queries: string[] = [];
+  const driveClient = {
+    files: {
+      list: (params: { q: string }) => {
+        queries.push(params.q);
+        if (params.q.startsWith("name='MyLibrary'")) {
+          return Promise.resolve({ data: { files: [{ id: "lib", name: "MyLibrary" }] } });
+        }
+        if (params.q.includes("in parents")) {
+          const parents = [...params.q.matchAll(/'([^']+)' in parents/g)].map((m) => m[1]);
+          return Promise.resolve({ data: { files: parents.flatMap((id) => folders[id]).map((id) => ({ id })) } });
+        }
+        const book = (id: string, parent: string) => ({
+          id,
+          name: `${id}.epub`,
+          properties: { app_type: "my_library_book", title: id },
+          parents: [parent],
+        });
+        return Promise.resolve({ data: { files: [book("nested", "series"), book("outside", "other")] } });
+      },
+    },
+  };
+
+  const service = new RealGoogleDriveService(driveClient);
+  const result = await service.listBooks();
+  assertEquals(result.files.map((f) => f.id), ["nested"]);
+  assertEquals(queries.filter((q) => q.includes("in parents")).length, 3);
+});
+
 Deno.test("MockDrive - listBooks returns empty for 0 books (BRW-007)", async () => {
   const drive = new MockGoogleDriveService();
   const result = await drive.listBooks();
@@ -465,6 +634,19 @@ Deno.test("MockDrive - shouldFail flag triggers errors (FLW-002)", async () => {
   );
 });
 
+Deno.test("MockDrive - failNext injects scripted transient failures", async () => {
+  const drive = new MockGoogleDriveService();
+  drive.failNext("ensureMyLibraryFolder", createDriveApiError(503), createDriveApiError(429));
+  drive.failNext("*", new Error("network down"));
+
+  await assertRejects(() => drive.ensureMyLibraryFolder(), Error, "Drive API error 503");
+  await assertRejects(() => drive.ensureMyLibraryFolder(), Error, "Drive API error 429");
+  // メソッド指定のエラーを使い切ると "*" のエラー、その後は成功する
+  await assertRejects(() => drive.ensureMyLibraryFolder(), Error, "network down");
+  const id = await drive.ensureMyLibraryFolder();
+  assertEquals(typeof id, "string");
+});
+
 Deno.test("MockDrive - uploadCoverImage (DRV-010)", async () => {
   const drive = new MockGoogleDriveService();
   const myLibId = await drive.ensureMyLibraryFolder();
@@ -494,3 +676,92 @@ Deno.test("MockDrive - findFilesByParent", async () => {
   const files = await drive.findFilesByParent(authorId);
   assertEquals(files.length, 2);
 });
+
+Deno.test("MockDrive - listChanges returns journaled changes since token", async () => {
+  const drive = new MockGoogleDriveService();
+  const token = await drive.getStartPageToken();
+
+  const file = await drive.uploadFile("folder", "a.epub", new Uint8Array(), "application/epub+zip", {
+    app_type: "my_library_book",
+    title: "A",
+  });
+  await drive.renameFile(file.id, "b.epub");
+
+  const result = await drive.listChanges(token);
+  assertEquals(result.changes.length, 2);
+  assertEquals(result.changes.every((c) => c.fileId === file.id), true);
+  // 取得時点の状態が返る
+  assertEquals(result.changes[0].file?.name, "b.epub");
+  assertEquals(result.nextPageToken, undefined);
+  assertEquals(result.newStartPageToken, await drive.getStartPageToken());
+});
+
+Deno.test("MockDrive - listChanges reports deleted files as removed", async () => {
+  const drive = new MockGoogleDriveService();
+  const file = await drive.uploadFile("folder", "a.epub", new Uint8Array(), "application/epub+zip", {});
+  const token = await drive.getStartPageToken();
+
+  await drive.deleteFile(file.id);
+
+  const result = await drive.listChanges(token);
+  assertEquals(result.changes.length, 1);
+  assertEquals(result.changes[0].removed, true);
+  assertEquals(result.changes[0].file, undefined);
+});
+
+Deno.test("MockDrive - listChanges paginates long journals", async () => {
+  const drive = new MockGoogleDriveService();
+  const token = await drive.getStartPageToken();
+  for (let i = 0; i < 150; i++) {
+    await drive.uploadFile("folder", `${i}.pdf`, new Uint8Array(), "application/pdf", {});
+  }
+
+  const page1 = await drive.listChanges(token);
+  assertEquals(page1.changes.length, 100);
+  assertEquals(page1.newStartPageToken, undefined);
+
+  const page2 = await drive.listChanges(page1.nextPageToken!);
+  assertEquals(page2.changes.length, 50);
+  assertEquals(page2.newStartPageToken, "150");
+});
+
+Deno.test("MockDrive - uploadFileStream stores streamed content and reports progress", async () => {
+  const drive = new MockGoogleDriveService();
+  const encoder = new TextEncoder();
+  const content = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode("abc"));
+      controller.enqueue(encoder.encode("defg"));
+      controller.close();
+    },
+  });
+  const progress: [number, number | undefined][] = [];
+
+  const file = await drive.uploadFileStream(
+    "folder",
+    "big.pdf",
+    content,
+    "application/pdf",
+    { title: "大きな本" },
+    { size: 7, onProgress: (uploaded, total) => progress.push([uploaded, total]) },
+  );
+
+  assertEquals(new TextDecoder().decode(await drive.getFileContent(file.id)), "abcdefg");
+  assertEquals(file.properties.title, "大きな本");
+  assertEquals(progress, [[3, 7], [7, 7]]);
+});
+
+Deno.test("MockDrive - getFileRangeStream returns the requested bytes", async () => {
+  const drive = new MockGoogleDriveService();
+  const file = await drive.uploadFile(
+    "folder",
+    "a.pdf",
+    new TextEncoder().encode("0123456789"),
+    "application/pdf",
+    {},
+  );
+
+  const stream = await drive.getFileRangeStream(file.id, { start: 3, end: 6 });
+  assertEquals(await new Response(stream).text(), "3456");
+  assertEquals(typeof file.md5Checksum, "string");
+});
@@ -0,0 +1,281 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { inspectEpub, parseMetadataOpf } from "../../src/services/epub.ts";
+import { extractZipEntry, readZipEntries, writeZip } from "../../src/services/zip.ts";
+import { BookService } from "../../src/services/book.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { createApp } from "../../src/app.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+/** テスト用の最小限のZIPを組み立てる（CRCは読み取り側で検証しないため0） */
+async function buildZip(
+  files: { name: string; content: string | Uint8Array<ArrayBuffer>; deflate?: boolean }[],
+): Promise<Uint8Array<ArrayBuffer>> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const raw = typeof file.content === "string" ? encoder.encode(file.content) : file.content;
+    const data = file.deflate
+      ? new Uint8Array(
+        await new Response(
+          ReadableStream.from([raw]).pipeThrough(new CompressionStream("deflate-raw")),
+        ).arrayBuffer(),
+      )
+      : raw;
+    const method = file.deflate ? 8 : 0;
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, method, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, eocd];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
+
+const CONTAINER = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+const COVER_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3, 0xff, 0xd9]);
+
+function epub3Opf(extra = ""): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="uid">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="uid">urn:isbn:978-4-10-101001-4</dc:identifier>
+    <dc:title>人間失格 &amp; 斜陽</dc:title>
+    <dc:creator>太宰治</dc:creator>
+    <dc:publisher>新潮社</dc:publisher>
+    <dc:date>1952-01-01</dc:date>
+    ${extra}
+  </metadata>
+  <manifest>
+    <item id="img1" href="images/cover.jpg" media-type="image/jpeg" properties="cover-image"/>
+    <item id="text" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+</package>`;
+}
+
+async function buildEpub(opf: string, coverPath = "OEBPS/images/cover.jpg"): Promise<Uint8Array<ArrayBuffer>> {
+  return await buildZip([
+    { name: "mimetype", content: "application/epub+zip" },
+    { name: "META-INF/container.xml", content: CONTAINER, deflate: true },
+    { name: "OEBPS/content.opf", content: opf, deflate: true },
+    { name: coverPath, content: COVER_BYTES },
+  ]);
+}
+
+// --- zip ---
+
+Deno.test("readZipEntries - lists stored and deflated entries", async () => {
+  const zip = await buildZip([
+    { name: "a.txt", content: "stored" },
+    { name: "dir/b.txt", content: "deflated ".repeat(20), deflate: true },
+  ]);
+  const entries = readZipEntries(zip);
+  assertEquals(entries.map((e) => e.name), ["a.txt", "dir/b.txt"]);
+
+  const decoder = new TextDecoder();
+  assertEquals(decoder.decode(await extractZipEntry(zip, entries[0])), "stored");
+  assertEquals(decoder.decode(await extractZipEntry(zip, entries[1])), "deflated ".repeat(20));
+});
+
+Deno.test("extractZipEntry - stops inflating entries that grow past the declared or maximum size", async () => {
+  // 8MB のゼロは数KBに圧縮される
+  const zip = await writeZip([{ name: "bomb.bin", data: new Uint8Array(8 * 1024 * 1024) }]);
+  assert(zip.length < 64 * 1024);
+  const [entry] = readZipEntries(zip);
+
+  await assertRejects(() => extractZipEntry(zip, { ...entry, size: 1024 }), Error, "宣言と異なります");
+  await assertRejects(() => extractZipEntry(zip, entry, 1024 * 1024), Error, "大きすぎます");
+  assertEquals((await extractZipEntry(zip, entry)).length, 8 * 1024 * 1024);
+});
+
+Deno.test("readZipEntries - rejects non-zip data", () => {
+  assertThrows(() => {
+    readZipEntries(new TextEncoder().encode("%PDF-1.4 not a zip file at all"));
+  });
+});
+
+// --- OPF ---
+
+Deno.test("parseMetadataOpf - accepts EPUB3 urn:isbn identifiers and decodes entities", () => {
+  const meta = parseMetadataOpf(epub3Opf());
+  assertEquals(meta.isbn, "9784101010014");
+  assertEquals(meta.title, "人間失格 & 斜陽");
+});
+
+Deno.test("parseMetadataOpf - ignores non-ISBN identifiers", () => {
+  const meta = parseMetadataOpf(
+    `<metadata><dc:identifier>urn:uuid:1234-5678</dc:identifier><dc:title>T</dc:title></metadata>`,
+  );
+  assertEquals(meta.isbn, "");
+});
+
+// --- inspectEpub ---
+
+Deno.test("inspectEpub - reads OPF metadata via container.xml", async () => {
+  const result = await inspectEpub(await buildEpub(epub3Opf()));
+  assertEquals(result?.metadata.title, "人間失格 & 斜陽");
+  assertEquals(result?.metadata.authors, "太宰治");
+  assertEquals(result?.metadata.publisher, "新潮社");
+  assertEquals(result?.metadata.publishedDate, "1952-01-01");
+});
+
+Deno.test("inspectEpub - extracts EPUB3 cover-image", async () => {
+  const result = await inspectEpub(await buildEpub(epub3Opf()));
+  assertEquals(result?.cover?.mimeType, "image/jpeg");
+  assertEquals(result?.cover?.data, COVER_BYTES);
+});
+
+Deno.test("inspectEpub - extracts EPUB2 cover from meta name=cover", async () => {
+  const opf = `<package version="2.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>坊っちゃん</dc:title>
+    <meta name="cover" content="cov"/>
+  </metadata>
+  <manifest>
+    <item id="cov" href="../Images/front.png" media-type="image/png"/>
+  </manifest>
+</package>`;
+  const result = await inspectEpub(await buildEpub(opf, "Images/front.png"));
+  assertEquals(result?.metadata.title, "坊っちゃん");
+  assertEquals(result?.cover?.mimeType, "image/png");
+});
+
+Deno.test("inspectEpub - returns null for non-EPUB data", async () => {
+  assertEquals(await inspectEpub(new TextEncoder().encode("not an epub")), null);
+});
+
+// --- BookService ---
+
+Deno.test("BookService - registerBook uploads embedded EPUB cover", async () => {
+  const drive = new MockGoogleDriveService();
+  const bookService = new BookService(drive, new MockMetadataService(), new CacheService());
+
+  const file = await bookService.registerBook(
+    {
+      isbn: "", title: "人間失格", authors: "太宰治", publisher: "",
+      publishedDate: "", description: "", coverImageUrl: "",
+    },
+    await buildEpub(epub3Opf()),
+    "application/epub+zip",
+  );
+
+  const coverId = file.properties.cover_file_id;
+  assertEquals(typeof coverId, "string");
+  assertEquals(await drive.getFileContent(coverId), COVER_BYTES);
+  assertEquals((await drive.getFile(file.id)).properties.cover_file_id, coverId);
+});
+
+Deno.test("BookService - registerBook without embedded cover leaves cover unset", async () => {
+  const drive = new MockGoogleDriveService();
+  const bookService = new BookService(drive, new MockMetadataService(), new CacheService());
+
+  const file = await bookService.registerBook(
+    {
+      isbn: "", title: "テスト", authors: "著者", publisher: "",
+      publishedDate: "", description: "", coverImageUrl: "",
+    },
+    new TextEncoder().encode("plain bytes"),
+    "application/epub+zip",
+  );
+  assertEquals(file.properties.cover_file_id, undefined);
+});
+
+// --- Routes ---
+
+Deno.test("POST /api/inspect - pre-fills form from EPUB metadata", async () => {
+  const { app } = createApp({
+    driveService: new MockGoogleDriveService(),
+    metadataService: new MockMetadataService(),
+  });
+  const formData = new FormData();
+  formData.append(
+    "file",
+    new File([await buildEpub(epub3Opf())], "book.epub", { type: "application/epub+zip" }),
+  );
+
+  const res = await app.request("/api/inspect", { method: "POST", body: formData });
+  assertEquals(res.status, 200);
+  const body = await res.text();
+  assertEquals(body.includes("ファイルから書誌情報を読み取りました"), true);
+  assertEquals(body.includes("表紙画像あり"), true);
+  assertEquals(body.includes('"form-title","人間失格 & 斜陽"'), true);
+  assertEquals(body.includes('"form-isbn","9784101010014"'), true);
+});
+
+Deno.test("POST /api/inspect - escapes markup in embedded metadata", async () => {
+  const { app } = createApp({
+    driveService: new MockGoogleDriveService(),
+    metadataService: new MockMetadataService(),
+  });
+  const opf = epub3Opf().replace("人間失格 &amp; 斜陽", "&lt;/script&gt;&lt;b&gt;");
+  const formData = new FormData();
+  formData.append("file", new File([await buildEpub(opf)], "book.epub"));
+
+  const body = await (await app.request("/api/inspect", { method: "POST", body: formData })).text();
+  assertEquals(body.includes("</script><b>"), false);
+});
+
+Deno.test("POST /api/inspect - warns when file cannot be read", async () => {
+  const { app } = createApp({
+    driveService: new MockGoogleDriveService(),
+    metadataService: new MockMetadataService(),
+  });
+  const formData = new FormData();
+  formData.append("file", new File(["plain"], "book.epub"));
+
+  const body = await (await app.request("/api/inspect", { method: "POST", body: formData })).text();
+  assertEquals(body.includes("ファイルから書誌情報を読み取れませんでした"), true);
+});
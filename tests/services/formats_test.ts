@@ -0,0 +1,277 @@
+import { assertEquals } from "@std/assert";
+import { detectBookFormat, findFormatForFile, getExtension } from "../../src/services/formats.ts";
+import { inspectMobi } from "../../src/services/mobi.ts";
+import { inspectComicArchive, parseComicInfo } from "../../src/services/comic.ts";
+import { BookService } from "../../src/services/book.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { createApp } from "../../src/app.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+const encoder = new TextEncoder();
+const JPEG_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3, 0xff, 0xd9]);
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
+
+/** テスト用の無圧縮のZIPを組み立てる（CRCは読み取り側で検証しないため0） */
+function buildZip(files: { name: string; content: string | Uint8Array }[]): Uint8Array<ArrayBuffer> {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = typeof file.content === "string" ? encoder.encode(file.content) : file.content;
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centrals.reduce((n, c) => n + c.length, 0), true);
+  ev.setUint32(16, offset, true);
+  return concat([...locals, ...centrals, eocd]);
+}
+
+/**
+ * テスト用の MOBI を組み立てる。レコード0（PalmDOC・MOBI ヘッダ・EXTH・書名）と
+ * 表紙画像のレコードだけを持つ
+ */
+function buildMobi(options: {
+  version?: number;
+  title: string;
+  exth: [number, string | Uint8Array][];
+  cover?: Uint8Array;
+}): Uint8Array<ArrayBuffer> {
+  const exthRecords = options.exth.map(([type, value]) => {
+    const data = typeof value === "string" ? encoder.encode(value) : value;
+    const record = new Uint8Array(8 + data.length);
+    const view = new DataView(record.buffer);
+    view.setUint32(0, type);
+    view.setUint32(4, record.length);
+    record.set(data, 8);
+    return record;
+  });
+  const exthBody = concat(exthRecords);
+  const exth = new Uint8Array(12 + exthBody.length);
+  exth.set(encoder.encode("EXTH"));
+  new DataView(exth.buffer).setUint32(4, exth.length);
+  new DataView(exth.buffer).setUint32(8, exthRecords.length);
+  exth.set(exthBody, 12);
+
+  const mobiHeaderLength = 232;
+  const title = encoder.encode(options.title);
+  const record0 = new Uint8Array(16 + mobiHeaderLength + exth.length + title.length);
+  const r0 = new DataView(record0.buffer);
+  record0.set(encoder.encode("MOBI"), 16);
+  r0.setUint32(20, mobiHeaderLength);
+  r0.setUint32(28, 65001);
+  r0.setUint32(36, options.version ?? 6);
+  r0.setUint32(84, 16 + mobiHeaderLength + exth.length);
+  r0.setUint32(88, title.length);
+  r0.setUint32(108, 1);
+  r0.setUint32(128, 0x40);
+  record0.set(exth, 16 + mobiHeaderLength);
+  record0.set(title, 16 + mobiHeaderLength + exth.length);
+
+  const records = options.cover ? [record0, options.cover] : [record0];
+  const header = new Uint8Array(78 + records.length * 8 + 2);
+  const hv = new DataView(header.buffer);
+  header.set(encoder.encode("BOOKMOBI"), 60);
+  hv.setUint16(76, records.length);
+  let offset = header.length;
+  records.forEach((record, i) => {
+    hv.setUint32(78 + i * 8, offset);
+    offset += record.length;
+  });
+  return concat([header, ...records]);
+}
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const SAMPLE_MOBI = buildMobi({
+  title: "ningen shikkaku",
+  exth: [
+    [100, "太宰治"],
+    [101, "新潮社"],
+    [103, "<p>恥の多い生涯を送って来ました。</p>"],
+    [104, "978-4-10-101001-4"],
+    [106, "1952-10-30T00:00:00+00:00"],
+    [108, "calibre (7.0.0)"],
+    [201, uint32(0)],
+    [503, "人間失格"],
+  ],
+  cover: JPEG_BYTES,
+});
+
+Deno.test("detectBookFormat - detects formats by magic bytes", () => {
+  const epub = buildZip([{ name: "mimetype", content: "application/epub+zip" }]);
+  const cbz = buildZip([{ name: "001.jpg", content: JPEG_BYTES }]);
+  const cases: [Uint8Array, string][] = [
+    [epub, "epub"],
+    [encoder.encode("%PDF-1.7\n"), "pdf"],
+    [SAMPLE_MOBI, "mobi"],
+    [buildMobi({ version: 8, title: "KF8", exth: [] }), "azw3"],
+    [cbz, "cbz"],
+    [encoder.encode("Rar!\x1a\x07\x00"), "cbr"],
+    [new Uint8Array([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c, 0, 4]), "cb7"],
+    [encoder.encode("AT&TFORM\x00\x00\x00\x10DJVM"), "djvu"],
+  ];
+  for (const [head, key] of cases) {
+    assertEquals(detectBookFormat(head, "book.bin")?.key, key);
+  }
+  // 先頭のバイト列が拡張子より優先される
+  assertEquals(detectBookFormat(epub, "wrong.pdf", "application/pdf")?.key, "epub");
+});
+
+Deno.test("detectBookFormat - rejects files whose content does not match the extension", () => {
+  assertEquals(detectBookFormat(encoder.encode("<html>"), "fake.pdf", "application/pdf"), null);
+  assertEquals(detectBookFormat(encoder.encode("x"), "fake.epub", "application/epub+zip"), null);
+  assertEquals(detectBookFormat(encoder.encode("x"), "old.AZW"), null);
+  assertEquals(detectBookFormat(encoder.encode("x"), "book.txt", "application/pdf")?.key, "txt");
+
+  // 画像のない ZIP は CBZ として受け付けない
+  const documents = buildZip([{ name: "word/document.xml", content: "<w:document/>" }]);
+  assertEquals(detectBookFormat(documents, "report.cbz"), null);
+  const withInfo = buildZip([
+    { name: "ComicInfo.xml", content: "<ComicInfo/>" },
+    { name: "pages/001.png", content: "png" },
+  ]);
+  assertEquals(detectBookFormat(withInfo, "book.zip")?.key, "cbz");
+});
+
+Deno.test("detectBookFormat - falls back to extension and declared type", () => {
+  assertEquals(detectBookFormat(encoder.encode("本文"), "novel.txt")?.mimeType, "text/plain");
+  assertEquals(detectBookFormat(encoder.encode("本文"), "novel", "text/plain")?.key, "txt");
+  assertEquals(detectBookFormat(encoder.encode("x"), "memo.docx"), null);
+  assertEquals(detectBookFormat(JPEG_BYTES, "photo.jpg", "image/jpeg"), null);
+
+  assertEquals(getExtension("application/vnd.amazon.mobi8-ebook"), "azw3");
+  assertEquals(getExtension("application/x-cbz"), "cbz");
+  assertEquals(findFormatForFile({ name: "a.cbr", mimeType: "application/octet-stream" })?.key, "cbr");
+});
+
+Deno.test("inspectMobi - reads EXTH metadata and the cover record", async () => {
+  const inspection = await inspectMobi(SAMPLE_MOBI);
+  assertEquals(inspection?.metadata.title, "人間失格");
+  assertEquals(inspection?.metadata.authors, "太宰治");
+  assertEquals(inspection?.metadata.contributors, [{ name: "太宰治", role: "author" }]);
+  assertEquals(inspection?.metadata.publisher, "新潮社");
+  assertEquals(inspection?.metadata.description, "恥の多い生涯を送って来ました。");
+  assertEquals(inspection?.metadata.isbn, "9784101010014");
+  assertEquals(inspection?.metadata.publishedDate, "1952-10-30");
+  assertEquals(inspection?.cover, { data: JPEG_BYTES, mimeType: "image/jpeg" });
+
+  assertEquals(await inspectMobi(encoder.encode("not a mobi")), null);
+});
+
+Deno.test("inspectComicArchive - reads ComicInfo.xml and uses the first page as cover", async () => {
+  const cbz = buildZip([
+    { name: "page10.png", content: PNG_BYTES },
+    { name: "page2.jpg", content: JPEG_BYTES },
+    {
+      name: "ComicInfo.xml",
+      content: `<?xml version="1.0"?>
+<ComicInfo>
+  <Series>鋼の錬金術師</Series>
+  <Number>3</Number>
+  <Writer>荒川弘</Writer>
+  <Penciller>荒川弘</Penciller>
+  <Publisher>スクウェア・エニックス</Publisher>
+  <Year>2002</Year>
+  <Month>12</Month>
+  <GTIN>9784757508340</GTIN>
+</ComicInfo>`,
+    },
+  ]);
+  const inspection = await inspectComicArchive(cbz);
+  assertEquals(inspection?.metadata.title, "鋼の錬金術師 3");
+  assertEquals(inspection?.metadata.series, "鋼の錬金術師");
+  assertEquals(inspection?.metadata.seriesIndex, "3");
+  assertEquals(inspection?.metadata.authors, "荒川弘、荒川弘（絵）");
+  assertEquals(inspection?.metadata.publishedDate, "2002-12");
+  assertEquals(inspection?.metadata.isbn, "9784757508340");
+  assertEquals(inspection?.cover, { data: JPEG_BYTES, mimeType: "image/jpeg" });
+
+  assertEquals(parseComicInfo("<ComicInfo><Title>単発</Title></ComicInfo>").title, "単発");
+});
+
+Deno.test("BookService - inspectors option replaces the reader for a format", async () => {
+  const bookService = new BookService(new MockGoogleDriveService(), new MockMetadataService(), new CacheService(), {
+    inspectors: {
+      "text/plain": (data) => Promise.resolve({ metadata: { title: new TextDecoder().decode(data).split("\n")[0] } }),
+    },
+  });
+  const inspection = await bookService.inspectBookFile(encoder.encode("吾輩は猫である\n夏目漱石"), "text/plain");
+  assertEquals(inspection?.metadata.title, "吾輩は猫である");
+  assertEquals(await bookService.inspectBookFile(encoder.encode("x"), "image/vnd.djvu"), null);
+});
+
+Deno.test("POST /books - stores the format detected from content and serves its type", async () => {
+  const drive = new MockGoogleDriveService();
+  const { app } = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+  });
+  const formData = new FormData();
+  formData.append("title", "人間失格");
+  formData.append("authors", "");
+  // 拡張子がなくても中身から MOBI と判定する
+  formData.append("file", new File([SAMPLE_MOBI], "download", { type: "application/octet-stream" }));
+
+  const res = await app.request("/books", { method: "POST", body: formData });
+  assertEquals(res.status, 200);
+
+  const [book] = [...drive.files.values()].filter((f) => f.properties?.app_type === "my_library_book");
+  assertEquals(book.mimeType, "application/x-mobipocket-ebook");
+  assertEquals(book.name, "[太宰治] 人間失格.mobi");
+
+  const download = await app.request(`/books/${book.id}/download`);
+  assertEquals(download.headers.get("Content-Type"), "application/x-mobipocket-ebook");
+  await download.body?.cancel();
+
+  const opds = await (await app.request("/opds/formats/mobi")).text();
+  assertEquals(opds.includes('type="application/x-mobipocket-ebook"'), true);
+});
@@ -0,0 +1,62 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  getETag,
+  getLastModified,
+  isIfRangeFresh,
+  matchesIfNoneMatch,
+  parseRange,
+} from "../../src/services/http_range.ts";
+import { DriveFile } from "../../src/types.ts";
+
+const file: DriveFile = {
+  id: "file_1",
+  name: "book.pdf",
+  mimeType: "application/pdf",
+  properties: {},
+  parents: [],
+  size: "1000",
+  modifiedTime: "2025-01-02T03:04:05.000Z",
+  md5Checksum: "abc123",
+};
+
+Deno.test("parseRange - parses single byte ranges", () => {
+  assertEquals(parseRange("bytes=0-99", 1000), { start: 0, end: 99 });
+  assertEquals(parseRange("bytes=900-", 1000), { start: 900, end: 999 });
+  assertEquals(parseRange("bytes=-100", 1000), { start: 900, end: 999 });
+  assertEquals(parseRange("bytes=-5000", 1000), { start: 0, end: 999 });
+  // 末尾を超える終了位置はファイルの末尾に切り詰める
+  assertEquals(parseRange("bytes=990-2000", 1000), { start: 990, end: 999 });
+});
+
+Deno.test("parseRange - ignores unsupported ranges and detects unsatisfiable ones", () => {
+  assertEquals(parseRange(null, 1000), null);
+  assertEquals(parseRange("bytes=0-1,5-6", 1000), null);
+  assertEquals(parseRange("items=0-1", 1000), null);
+  assertEquals(parseRange("bytes=50-10", 1000), null);
+  assertEquals(parseRange("bytes=1000-", 1000), "unsatisfiable");
+  assertEquals(parseRange("bytes=-0", 1000), "unsatisfiable");
+});
+
+Deno.test("getETag / getLastModified - derive validators from Drive metadata", () => {
+  assertEquals(getETag(file), '"abc123"');
+  assertEquals(getETag({ ...file, md5Checksum: undefined }), `W/"file_1-${Date.parse(file.modifiedTime!)}"`);
+  assertEquals(getETag({ ...file, md5Checksum: undefined, modifiedTime: undefined }), null);
+  assertEquals(getLastModified(file), "Thu, 02 Jan 2025 03:04:05 GMT");
+});
+
+Deno.test("isIfRangeFresh / matchesIfNoneMatch - compare validators", () => {
+  assert(isIfRangeFresh(null, file));
+  assert(isIfRangeFresh('"abc123"', file));
+  assert(!isIfRangeFresh('"other"', file));
+  assert(isIfRangeFresh("Thu, 02 Jan 2025 03:04:05 GMT", file));
+  assert(!isIfRangeFresh("Thu, 02 Jan 2025 00:00:00 GMT", file));
+  // 弱い ETag では Range を適用しない
+  const weak = { ...file, md5Checksum: undefined };
+  assert(!isIfRangeFresh(getETag(weak), weak));
+
+  assert(matchesIfNoneMatch('"x", "abc123"', '"abc123"'));
+  assert(matchesIfNoneMatch('W/"abc123"', '"abc123"'));
+  assert(matchesIfNoneMatch("*", '"abc123"'));
+  assert(!matchesIfNoneMatch('"x"', '"abc123"'));
+  assert(!matchesIfNoneMatch(null, '"abc123"'));
+});
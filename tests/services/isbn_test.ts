@@ -0,0 +1,21 @@
+import { assertEquals } from "@std/assert";
+import { findIsbn, isValidIsbn } from "../../src/services/isbn.ts";
+
+Deno.test("isValidIsbn - accepts valid ISBN-13 and ISBN-10", () => {
+  assertEquals(isValidIsbn("9784101010014"), true);
+  assertEquals(isValidIsbn("978-4-10-101001-4"), true);
+  assertEquals(isValidIsbn("4101010013"), true);
+  assertEquals(isValidIsbn("080442957X"), true);
+});
+
+Deno.test("isValidIsbn - rejects wrong check digits and lengths", () => {
+  assertEquals(isValidIsbn("9784101010015"), false);
+  assertEquals(isValidIsbn("4101010014"), false);
+  assertEquals(isValidIsbn("12345"), false);
+});
+
+Deno.test("findIsbn - finds the first valid ISBN in text", () => {
+  assertEquals(findIsbn("Printed 2020. ISBN 978-4-10-101001-4 (paperback)"), "9784101010014");
+  assertEquals(findIsbn("phone 0312345678, ISBN4101010013"), "4101010013");
+  assertEquals(findIsbn("no isbn here 1234567890123"), "");
+});
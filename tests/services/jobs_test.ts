@@ -0,0 +1,380 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { JobQueue } from "../../src/services/jobs.ts";
+import { JOB_TYPES } from "../../src/services/book_jobs.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { createApp } from "../../src/app.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+/** 先頭のバイト列で EPUB と判定される最小限の内容（ZIP の先頭に無圧縮の mimetype） */
+const EPUB_HEADER = "PK\x03\x04" + "\0".repeat(26) + "mimetypeapplication/epub+zip";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+Deno.test("JobQueue - runs queued jobs in order", async () => {
+  const queue = new JobQueue();
+  const seen: number[] = [];
+  queue.register<{ n: number }>("record", async (payload) => {
+    await Promise.resolve();
+    seen.push(payload.n);
+    return payload.n * 2;
+  });
+
+  await queue.enqueue("record", { n: 1 });
+  await queue.enqueue("record", { n: 2 }, { label: "2番目" });
+  await queue.start();
+  await queue.waitForIdle();
+  queue.stop();
+
+  assertEquals(seen, [1, 2]);
+  const jobs = queue.list();
+  assertEquals(jobs[0].label, "2番目");
+  assertEquals(jobs.map((j) => j.status), ["succeeded", "succeeded"]);
+  assertEquals(jobs[1].result, 2);
+});
+
+Deno.test("JobQueue - retries failures and marks job failed after max attempts", async () => {
+  const queue = new JobQueue({ maxAttempts: 3, retryDelayMs: 0 });
+  let calls = 0;
+  queue.register("flaky", async () => {
+    await Promise.resolve();
+    calls++;
+    throw new Error(`失敗${calls}`);
+  });
+
+  await queue.start();
+  const job = await queue.enqueue("flaky", {});
+  await queue.waitForIdle();
+
+  assertEquals(calls, 3);
+  assertEquals(job.status, "failed");
+  assertEquals(job.attempts, 3);
+  assertEquals(job.lastError, "失敗3");
+
+  // UIからの再試行では試行回数をリセットしてやり直す
+  let succeed = false;
+  queue.register("flaky", async () => {
+    await Promise.resolve();
+    succeed = true;
+  });
+  const retried = await queue.retry(job.id);
+  await queue.waitForIdle();
+  queue.stop();
+
+  assert(retried);
+  assert(succeed);
+  assertEquals(job.status, "succeeded");
+  assertEquals(job.attempts, 1);
+  assertEquals(await queue.retry(job.id), null);
+});
+
+Deno.test("JobQueue - schedules retries with backoff", async () => {
+  const queue = new JobQueue({ maxAttempts: 3, retryDelayMs: 60 * 1000 });
+  queue.register("fail", () => Promise.reject(new Error("一時的なエラー")));
+
+  await queue.start();
+  const job = await queue.enqueue("fail", {});
+  await queue.waitForIdle();
+  queue.stop();
+
+  assertEquals(job.status, "queued");
+  assertEquals(job.attempts, 1);
+  assert(job.nextRunAt);
+  const delay = Date.parse(job.nextRunAt) - Date.parse(job.updatedAt);
+  assert(delay >= 59 * 1000 && delay <= 61 * 1000);
+});
+
+Deno.test("JobQueue - resumes journaled jobs with attachments after restart", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const first = new JobQueue({ dir });
+    const job = await first.enqueue("upload", { name: "a.epub" }, {
+      attachment: new TextEncoder().encode("本文"),
+    });
+
+    const journal = JSON.parse(await Deno.readTextFile(`${dir}/jobs.json`));
+    assertEquals(journal.jobs[0].id, job.id);
+
+    // 再起動後のキューでハンドラを登録して実行する
+    const second = new JobQueue({ dir });
+    let content = "";
+    second.register("upload", async (_payload, context) => {
+      content = new TextDecoder().decode(await context.attachment());
+    });
+    await second.start();
+    await second.waitForIdle();
+    second.stop();
+
+    assertEquals(content, "本文");
+    assertEquals(second.get(job.id)?.status, "succeeded");
+    assertEquals([...Deno.readDirSync(`${dir}/attachments`)].length, 0);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("JobQueue - fails interrupted jobs without retries left after restart", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const first = new JobQueue({ dir });
+    const once = await first.enqueue("upload", {}, { maxAttempts: 1 });
+    const retryable = await first.enqueue("upload", {}, { maxAttempts: 3 });
+
+    // 実行中にサーバーが止まった状態のジャーナル
+    const journal = JSON.parse(await Deno.readTextFile(`${dir}/jobs.json`));
+    for (const job of journal.jobs) {
+      job.status = "running";
+      job.attempts = 1;
+    }
+    await Deno.writeTextFile(`${dir}/jobs.json`, JSON.stringify(journal));
+
+    const second = new JobQueue({ dir });
+    const ran: string[] = [];
+    second.register("upload", async (_payload, context) => {
+      await Promise.resolve();
+      ran.push(context.job.id);
+    });
+    await second.start();
+    await second.waitForIdle();
+    second.stop();
+
+    assertEquals(ran, [retryable.id]);
+    assertEquals(second.get(once.id)?.status, "failed");
+    assertStringIncludes(second.get(once.id)?.lastError ?? "", "再起動");
+    assertEquals(second.get(retryable.id)?.status, "succeeded");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("JobQueue - stores streamed attachments and reports progress", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const queue = new JobQueue({ dir });
+    const encoder = new TextEncoder();
+    const job = await queue.enqueue("upload", {}, {
+      attachment: new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode("前半"));
+          controller.enqueue(encoder.encode("後半"));
+          controller.close();
+        },
+      }),
+    });
+
+    let content = "";
+    const progress: (number | undefined)[] = [];
+    queue.register("upload", async (_payload, context) => {
+      content = await new Response(await context.attachmentStream()).text();
+      context.reportProgress(6, 12);
+      progress.push(context.job.progress?.done);
+    });
+    await queue.start();
+    await queue.waitForIdle();
+    queue.stop();
+
+    assertEquals(content, "前半後半");
+    assertEquals(progress, [6]);
+    // 進捗は完了後には残さず、ジャーナルにも書かない
+    assertEquals(job.progress, undefined);
+    const journal = await Deno.readTextFile(`${dir}/jobs.json`);
+    assertEquals(journal.includes("progress"), false);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("JobQueue - fails jobs without a registered handler", async () => {
+  const queue = new JobQueue({ maxAttempts: 1 });
+  await queue.start();
+  const job = await queue.enqueue("unknown", {});
+  await queue.waitForIdle();
+  queue.stop();
+
+  assertEquals(job.status, "failed");
+  assertStringIncludes(job.lastError!, "unknown");
+});
+
+Deno.test("JobQueue - prunes old failed jobs together with their attachments", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    // 保存期間を過ぎた失敗ジョブは再起動時に添付ごと削除する
+    const old = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+    const expired = {
+      id: "expired",
+      type: "upload",
+      label: "upload",
+      payload: {},
+      status: "failed",
+      attempts: 1,
+      maxAttempts: 1,
+      createdAt: old,
+      updatedAt: old,
+      nextRunAt: null,
+      lastError: "失敗",
+      hasAttachment: true,
+    };
+    await Deno.writeTextFile(`${dir}/jobs.json`, JSON.stringify({ jobs: [expired] }));
+    await Deno.mkdir(`${dir}/attachments`);
+    await Deno.writeTextFile(`${dir}/attachments/expired`, "本文");
+
+    const queue = new JobQueue({ dir, maxAttempts: 1, historyLimit: 1 });
+    queue.register("upload", () => Promise.reject(new Error("失敗")));
+    await queue.start();
+    assertEquals(queue.get("expired"), null);
+
+    // 件数の上限を超えた失敗ジョブも古いものから削除する
+    const first = await queue.enqueue("upload", {}, { attachment: new TextEncoder().encode("1") });
+    await queue.waitForIdle();
+    const second = await queue.enqueue("upload", {}, { attachment: new TextEncoder().encode("2") });
+    await queue.waitForIdle();
+    queue.stop();
+
+    assertEquals(queue.list().map((j) => j.id), [second.id]);
+    assertEquals([...Deno.readDirSync(`${dir}/attachments`)].map((e) => e.name), [second.id]);
+    assertEquals(first.status, "failed");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// --- Book jobs and routes ---
+
+function createTestApp() {
+  const drive = new MockGoogleDriveService();
+  const { app, bookService, jobQueue } = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+    jobs: { maxAttempts: 1 },
+  });
+  return { app, drive, bookService, jobQueue: jobQueue! };
+}
+
+Deno.test("POST /books - queues registration when job queue is enabled", async () => {
+  const { app, bookService, jobQueue } = createTestApp();
+  await jobQueue.start();
+
+  const formData = new FormData();
+  formData.append("title", "人間失格");
+  formData.append("authors", "太宰治");
+  formData.append("file", new File([EPUB_HEADER + "dummy epub content"], "test.epub"));
+  const res = await app.request("/books", { method: "POST", body: formData });
+
+  assertEquals(res.status, 200);
+  assertStringIncludes(await res.text(), "登録を受け付けました");
+
+  await jobQueue.waitForIdle();
+  jobQueue.stop();
+
+  const [job] = jobQueue.list();
+  assertEquals(job.type, JOB_TYPES.registerBook);
+  assertEquals(job.status, "succeeded");
+  const list = await bookService.listBooks();
+  assertEquals(list.files.length, 1);
+  assertEquals(list.files[0].properties?.title, "人間失格");
+});
+
+Deno.test("GET /jobs - shows job list and JSON status", async () => {
+  const { app, jobQueue } = createTestApp();
+  await jobQueue.start();
+  const job = await jobQueue.enqueue(JOB_TYPES.updateBook, {
+    fileId: "missing",
+    metadata: { title: "x" },
+  }, { label: "更新: 存在しない本" });
+  await jobQueue.waitForIdle();
+  jobQueue.stop();
+
+  const page = await (await app.request("/jobs")).text();
+  assertStringIncludes(page, "更新: 存在しない本");
+  assertStringIncludes(page, "失敗");
+  assertStringIncludes(page, `/jobs/${job.id}/retry`);
+
+  const json = await (await app.request("/api/jobs")).json();
+  assertEquals(json.jobs[0].id, job.id);
+  assertEquals(json.jobs[0].status, "failed");
+
+  const single = await app.request(`/api/jobs/${job.id}`);
+  assertEquals((await single.json()).type, JOB_TYPES.updateBook);
+  assertEquals((await app.request("/api/jobs/unknown")).status, 404);
+});
+
+Deno.test("POST /jobs/:id/retry - requeues a failed job", async () => {
+  const { app, jobQueue } = createTestApp();
+  await jobQueue.start();
+  const job = await jobQueue.enqueue(JOB_TYPES.updateBook, {
+    fileId: "missing",
+    metadata: {},
+  });
+  await jobQueue.waitForIdle();
+  assertEquals(job.status, "failed");
+
+  const res = await app.request(`/jobs/${job.id}/retry`, { method: "POST" });
+  assertEquals(res.status, 200);
+  await jobQueue.waitForIdle();
+  jobQueue.stop();
+
+  assertEquals(job.attempts, 1);
+  assertEquals(job.status, "failed");
+  assertStringIncludes(await res.text(), 'id="job-table"');
+});
+
+Deno.test("DELETE /jobs/:id - dismisses a failed job", async () => {
+  const { app, jobQueue } = createTestApp();
+  await jobQueue.start();
+  const failed = await jobQueue.enqueue(JOB_TYPES.updateBook, { fileId: "missing", metadata: {} }, {
+    attachment: new TextEncoder().encode("本文"),
+  });
+  await jobQueue.waitForIdle();
+  jobQueue.stop();
+  assertStringIncludes(await (await app.request("/jobs")).text(), `hx-delete="/jobs/${failed.id}"`);
+
+  const res = await app.request(`/jobs/${failed.id}`, { method: "DELETE" });
+  assertEquals(res.status, 200);
+  assertStringIncludes(await res.text(), "ジョブはありません");
+  assertEquals(jobQueue.get(failed.id), null);
+  assertEquals((await app.request(`/api/jobs/${failed.id}`, { method: "DELETE" })).status, 404);
+
+  // 待機中のジョブは削除できない
+  const queued = await jobQueue.enqueue(JOB_TYPES.updateBook, { fileId: "missing", metadata: {} });
+  assertEquals((await app.request(`/api/jobs/${queued.id}`, { method: "DELETE" })).status, 404);
+  assertEquals(jobQueue.get(queued.id)?.status, "queued");
+});
+
+Deno.test("POST /api/jobs/update-books - queues one job per book", async () => {
+  const { app, bookService, jobQueue } = createTestApp();
+  const book = await bookService.registerBook({
+    isbn: "",
+    title: "旧タイトル",
+    authors: "太宰治",
+    publisher: "",
+    publishedDate: "",
+    description: "",
+    coverImageUrl: "",
+  }, new TextEncoder().encode("content"), "application/epub+zip");
+  await jobQueue.start();
+
+  const res = await app.request("/api/jobs/update-books", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ updates: [{ fileId: book.id, metadata: { title: "新タイトル" } }] }),
+  });
+  assertEquals(res.status, 202);
+  await jobQueue.waitForIdle();
+  jobQueue.stop();
+
+  const updated = await bookService.getBook(book.id);
+  assertEquals(updated.properties?.title, "新タイトル");
+
+  const empty = await app.request("/api/jobs/update-books", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ updates: [] }),
+  });
+  assertEquals(empty.status, 400);
+});
@@ -0,0 +1,231 @@
+import { assert, assertEquals } from "@std/assert";
+import { md5 } from "../../src/services/md5.ts";
+import { documentHashOf, documentHashRanges, ReadingProgressService } from "../../src/services/kosync.ts";
+import { BookService } from "../../src/services/book.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { writeZip } from "../../src/services/zip.ts";
+import { createApp } from "../../src/app.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+const encoder = new TextEncoder();
+
+const sampleMetadata: BookMetadata = {
+  isbn: "9784101010014",
+  title: "吾輩は猫である",
+  authors: "夏目漱石",
+  publisher: "新潮社",
+  publishedDate: "1905-01-01",
+  description: "",
+  coverImageUrl: "",
+};
+
+function buildEpub(): Promise<Uint8Array> {
+  return writeZip([
+    { name: "mimetype", data: encoder.encode("application/epub+zip"), compress: false },
+    {
+      name: "META-INF/container.xml",
+      data: encoder.encode(`<container><rootfiles><rootfile full-path="content.opf"/></rootfiles></container>`),
+    },
+    {
+      name: "content.opf",
+      data: encoder.encode(
+        `<package><metadata><dc:title>猫</dc:title></metadata><manifest>` +
+          `<item id="c" href="c.xhtml" media-type="application/xhtml+xml"/></manifest>` +
+          `<spine><itemref idref="c"/></spine></package>`,
+      ),
+    },
+    { name: "c.xhtml", data: encoder.encode(`<html><body><p>${"吾輩は猫である。".repeat(500)}</p></body></html>`) },
+  ]);
+}
+
+function authHeaders(user = "satoru", key = md5("password")): Record<string, string> {
+  return {
+    "x-auth-user": user,
+    "x-auth-key": key,
+    "accept": "application/vnd.koreader.v1+json",
+    "content-type": "application/json",
+  };
+}
+
+Deno.test("md5 - matches RFC 1321 test vectors", () => {
+  assertEquals(md5(""), "d41d8cd98f00b204e9800998ecf8427e");
+  assertEquals(md5("abc"), "900150983cd24fb0d6963f7d28e17f72");
+  assertEquals(
+    md5("12345678901234567890123456789012345678901234567890123456789012345678901234567890"),
+    "57edf4a22be3c955ac49da2e2107b67a",
+  );
+});
+
+Deno.test("documentHashOf - hashes 1KB samples at KOReader's offsets", () => {
+  assertEquals(documentHashRanges(5000), [
+    { start: 0, end: 1023 },
+    { start: 1024, end: 2047 },
+    { start: 4096, end: 4999 },
+  ]);
+
+  const data = new Uint8Array(20000).map((_, i) => i % 251);
+  const samples = [0, 1024, 4096, 16384].map((offset) => data.subarray(offset, offset + 1024));
+  const joined = new Uint8Array(samples.reduce((n, s) => n + s.length, 0));
+  let pos = 0;
+  for (const sample of samples) {
+    joined.set(sample, pos);
+    pos += sample.length;
+  }
+  assertEquals(documentHashOf(data), md5(joined));
+});
+
+Deno.test("kosync API - registers users, authorizes and syncs progress", async () => {
+  const drive = new MockGoogleDriveService();
+  const { app } = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+    kosync: { registration: true },
+  });
+  const register = (username: string) =>
+    app.request("/kosync/users/create", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ username, password: md5("password") }),
+    });
+
+  assertEquals(await (await app.request("/kosync/healthcheck")).json(), { state: "OK" });
+  const created = await register("satoru");
+  assertEquals(created.status, 201);
+  assertEquals(await created.json(), { username: "satoru" });
+  const duplicate = await register("satoru");
+  assertEquals(duplicate.status, 402);
+  assertEquals((await duplicate.json()).code, 2002);
+
+  assertEquals((await app.request("/kosync/users/auth", { headers: authHeaders() })).status, 200);
+  const denied = await app.request("/kosync/users/auth", { headers: authHeaders("satoru", md5("wrong")) });
+  assertEquals(denied.status, 401);
+  assertEquals(await denied.json(), { code: 2001, message: "Unauthorized" });
+  const prefix = await app.request("/kosync/users/auth", { headers: authHeaders("satoru", md5("password").slice(0, 8)) });
+  assertEquals(prefix.status, 401);
+
+  const empty = await app.request("/kosync/syncs/progress/abc123", { headers: authHeaders() });
+  assertEquals(await empty.json(), {});
+
+  const put = await app.request("/kosync/syncs/progress", {
+    method: "PUT",
+    headers: authHeaders(),
+    body: JSON.stringify({
+      document: "abc123",
+      progress: "/body/DocFragment[3]/body/p[2]/text().0",
+      percentage: 0.25,
+      device: "Kobo Libra 2",
+      device_id: "device-1",
+    }),
+  });
+  assertEquals(put.status, 200);
+  const { timestamp } = await put.json();
+
+  const got = await (await app.request("/kosync/syncs/progress/abc123", { headers: authHeaders() })).json();
+  assertEquals(got, {
+    document: "abc123",
+    progress: "/body/DocFragment[3]/body/p[2]/text().0",
+    percentage: 0.25,
+    device: "Kobo Libra 2",
+    device_id: "device-1",
+    timestamp,
+  });
+
+  const missing = await app.request("/kosync/syncs/progress", {
+    method: "PUT",
+    headers: authHeaders(),
+    body: JSON.stringify({ progress: "1", percentage: 0.1, device: "x" }),
+  });
+  assertEquals(missing.status, 403);
+  assertEquals((await missing.json()).code, 2004);
+
+  // 利用者と読書位置は Drive の MyLibrary/reading_progress.json に保存する
+  const file = [...drive.files.values()].find((f) => f.name === "reading_progress.json")!;
+  const saved = JSON.parse(new TextDecoder().decode(await drive.getFileContent(file.id)));
+  assertEquals(saved.users, { satoru: md5("password") });
+  assertEquals(saved.progress.abc123.satoru.percentage, 0.25);
+
+  // 利用者の登録は既定では受け付けない
+  const closed = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+  });
+  const disabled = await closed.app.request("/kosync/users/create", {
+    method: "POST",
+    body: JSON.stringify({ username: "hanako", password: md5("x") }),
+  });
+  assertEquals(disabled.status, 402);
+  assertEquals((await disabled.json()).code, 2005);
+  assertEquals((await closed.app.request("/kosync/users/auth", { headers: authHeaders() })).status, 200);
+});
+
+Deno.test("ReadingProgressService - matches documents to books, including converted files", async () => {
+  const drive = new MockGoogleDriveService();
+  const bookService = new BookService(drive, new MockMetadataService(), new CacheService());
+  const service = new ReadingProgressService(drive, bookService);
+  const content = await buildEpub();
+  const book = await bookService.registerBook(sampleMetadata, content, "application/epub+zip");
+  const other = await bookService.registerBook(
+    { ...sampleMetadata, isbn: "", title: "坊っちゃん" },
+    encoder.encode("pdf"),
+    "application/pdf",
+  );
+  const kepub = await bookService.getFormatFile(book.id, "kepub");
+  await service.createUser("satoru", "key");
+  await service.createUser("hanako", "key");
+
+  await service.updateProgress("satoru", {
+    document: documentHashOf(await drive.getFileContent(kepub!.id)),
+    progress: "p2",
+    percentage: 0.42,
+    device: "Kobo",
+    device_id: "b",
+  });
+  await service.updateProgress("hanako", {
+    document: documentHashOf(content),
+    progress: "p3",
+    percentage: 1,
+    device: "KOReader",
+    device_id: "c",
+  });
+  await service.waitForIndexing();
+
+  const progress = await service.getBooksProgress([await bookService.getBook(book.id), other]);
+  assertEquals(progress.has(other.id), false);
+  assertEquals(progress.get(book.id)?.map((p) => [p.user, p.percentage]), [
+    ["hanako", 1],
+    ["satoru", 0.42],
+  ]);
+  // 計算済みのファイルは計算し直さない
+  assertEquals(await service.indexDocuments(), 0);
+});
+
+Deno.test("GET / - shows KOReader reading progress on book cards", async () => {
+  const { app, bookService, readingProgress } = createApp({
+    driveService: new MockGoogleDriveService(),
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+  });
+  const content = await buildEpub();
+  await bookService.registerBook(sampleMetadata, content, "application/epub+zip");
+  await readingProgress.createUser("satoru", md5("password"));
+
+  await app.request("/kosync/syncs/progress", {
+    method: "PUT",
+    headers: authHeaders(),
+    body: JSON.stringify({ document: documentHashOf(content), progress: "p", percentage: 0.375, device: "Kobo" }),
+  });
+  await readingProgress.waitForIndexing();
+
+  const page = await (await app.request("/")).text();
+  assert(page.includes('<progress class="progress progress-primary w-full" value="38" max="100">'));
+  assert(page.includes("38%"));
+});
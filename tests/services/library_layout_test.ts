@@ -0,0 +1,127 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { LibraryLayout, sanitizePathSegment } from "../../src/services/library_layout.ts";
+import { BookService } from "../../src/services/book.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+const SERIES_BOOK: Record<string, string> = {
+  title: "鋼の錬金術師 3",
+  authors: "荒川弘",
+  contributors: "aut:荒川弘",
+  series: "鋼の錬金術師",
+  series_index: "3",
+  publisher: "スクウェア・エニックス",
+  published_date: "2002-12-21",
+  isbn: "9784757508340",
+};
+
+function sample(title: string, authors: string, extra: Partial<BookMetadata> = {}): BookMetadata {
+  return {
+    isbn: "",
+    title,
+    authors,
+    publisher: "",
+    publishedDate: "",
+    description: "",
+    coverImageUrl: "",
+    ...extra,
+  };
+}
+
+Deno.test("LibraryLayout - default layout matches the original naming", () => {
+  const layout = new LibraryLayout();
+  assertEquals(layout.folderPath(SERIES_BOOK), ["荒川弘"]);
+  assertEquals(layout.fileName(SERIES_BOOK, "epub"), "[荒川弘] 鋼の錬金術師 3.epub");
+});
+
+Deno.test("LibraryLayout - renders every token and drops empty parts", () => {
+  const layout = new LibraryLayout({
+    folderTemplate: "{publisher}/{author}/{series}",
+    fileNameTemplate: "{series} {series_index} - {title} ({year}) [{isbn}]",
+  });
+  assertEquals(layout.folderPath(SERIES_BOOK), ["スクウェア・エニックス", "荒川弘", "鋼の錬金術師"]);
+  assertEquals(
+    layout.fileName(SERIES_BOOK, "pdf"),
+    "鋼の錬金術師 3 - 鋼の錬金術師 3 (2002) [9784757508340].pdf",
+  );
+
+  const single = { title: "人間失格", authors: "太宰治" };
+  assertEquals(layout.folderPath(single), ["太宰治"]);
+  assertEquals(layout.fileName(single, "epub"), "人間失格.epub");
+  assertEquals(layout.folderPath({ title: "著者なし" }), ["不明"]);
+});
+
+Deno.test("LibraryLayout - sanitizes characters sync clients reject", () => {
+  assertEquals(sanitizePathSegment('Re:ゼロ / 第1章 "序"?'), "Re_ゼロ _ 第1章 _序__");
+  assertEquals(sanitizePathSegment("..hidden. "), "hidden");
+  assertEquals([...sanitizePathSegment("長".repeat(300))].length, 120);
+
+  const layout = new LibraryLayout({ folderTemplate: "{series}" });
+  assertEquals(layout.folderPath({ series: "AC/DC" }), ["AC_DC"]);
+  assertThrows(() => new LibraryLayout({ fileNameTemplate: "{title} {volume}" }), Error, "{volume}");
+});
+
+Deno.test("BookService - registers and moves books using the folder template", async () => {
+  const drive = new MockGoogleDriveService();
+  const bookService = new BookService(drive, new MockMetadataService(), new CacheService(), {
+    layout: new LibraryLayout({ folderTemplate: "{author}/{series}", fileNameTemplate: "{title}" }),
+  });
+  const book = await bookService.registerBook(
+    sample("鋼の錬金術師 3", "荒川弘", { series: "鋼の錬金術師", seriesIndex: "3" }),
+    new TextEncoder().encode("content"),
+    "application/epub+zip",
+  );
+  const seriesFolder = drive.files.get(book.parents[0])!;
+  assertEquals([seriesFolder.name, drive.files.get(seriesFolder.parents[0])?.name], ["鋼の錬金術師", "荒川弘"]);
+  assertEquals(book.name, "鋼の錬金術師 3.epub");
+
+  // シリーズを外すと著者フォルダの直下へ移る
+  await bookService.updateBook(book.id, { series: "" });
+  assertEquals((await bookService.getBook(book.id)).parents, seriesFolder.parents);
+});
+
+Deno.test("BookService - planRelayout previews and applyRelayout moves books with covers", async () => {
+  const drive = new MockGoogleDriveService();
+  const cache = new CacheService();
+  const before = new BookService(drive, new MockMetadataService(), cache);
+  const book = await before.registerBook(
+    sample("坊っちゃん", "夏目漱石", { publisher: "新潮社" }),
+    new TextEncoder().encode("content"),
+    "application/pdf",
+  );
+  const oldFolderId = book.parents[0];
+  const cover = await drive.uploadCoverImage(oldFolderId, "cover.jpg", new Uint8Array([0xff, 0xd8, 0xff]), "image/jpeg");
+  await drive.updateFileProperties(book.id, { cover_file_id: cover.id });
+
+  const after = new BookService(drive, new MockMetadataService(), new CacheService(), {
+    layout: new LibraryLayout({ folderTemplate: "{publisher}", fileNameTemplate: "{title} - {authors}" }),
+  });
+  const changes = await after.planRelayout();
+  assertEquals(changes, [{
+    fileId: book.id,
+    title: "坊っちゃん",
+    fromName: "[夏目漱石] 坊っちゃん.pdf",
+    toName: "坊っちゃん - 夏目漱石.pdf",
+    fromFolder: "夏目漱石",
+    toFolder: "新潮社",
+  }]);
+  // プレビューでは変更しない
+  assertEquals((await drive.getFile(book.id)).name, "[夏目漱石] 坊っちゃん.pdf");
+
+  assertEquals(await after.applyRelayout(changes), 1);
+  const moved = await drive.getFile(book.id);
+  assertEquals(moved.name, "坊っちゃん - 夏目漱石.pdf");
+  assertEquals(drive.files.get(moved.parents[0])?.name, "新潮社");
+  assertEquals((await drive.getFile(cover.id)).parents, moved.parents);
+  // 空になった著者フォルダは削除する
+  assertEquals(drive.files.has(oldFolderId), false);
+  assertEquals(await after.planRelayout(), []);
+});
@@ -1,6 +1,10 @@
 import { assertEquals } from "@std/assert";
 import { BookMetadata, BookMetadataService } from "../../src/types.ts";
-import { CompositeMetadataService } from "../../src/services/metadata.ts";
+import {
+  CompositeMetadataService,
+  GoogleBooksService,
+  OpenBDService,
+} from "../../src/services/metadata.ts";
 
 // Mock metadata services for testing
 class MockOpenBDService implements BookMetadataService {
@@ -383,4 +387,49 @@ Deno.test("CompositeMetadata - AC-META-10: authors field is supplemented as stri
   assertEquals(result!.coverImageUrl, "https://openbd.com/cover.jpg");
 });
 
+/** fetch を差し替えて fn を実行する */
+async function withFetchResponse<T>(body: unknown, fn: () => Promise<T>): Promise<T> {
+  const original = globalThis.fetch;
+  globalThis.fetch = () => Promise.resolve(Response.json(body));
+  try {
+    return await fn();
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+Deno.test("OpenBDService - reads contributors and roles from ONIX", async () => {
+  const result = await withFetchResponse([{
+    summary: {
+      isbn: "9784102100011",
+      title: "ライ麦畑でつかまえて",
+      author: "サリンジャー，J．D．／著 野崎孝／訳",
+      publisher: "白水社",
+    },
+    onix: {
+      DescriptiveDetail: {
+        Contributor: [
+          { PersonName: { content: "J.D.サリンジャー" }, ContributorRole: ["A01"] },
+          { PersonName: { content: "野崎 孝" }, ContributorRole: ["B06"] },
+        ],
+      },
+    },
+  }], () => new OpenBDService().fetchByIsbn("9784102100011"));
+
+  assertEquals(result!.authors, "J.D.サリンジャー、野崎 孝（訳）");
+  assertEquals(result!.contributors, [
+    { name: "J.D.サリンジャー", role: "author" },
+    { name: "野崎 孝", role: "translator" },
+  ]);
+});
+
+Deno.test("GoogleBooksService - keeps hyphenated names as one author", async () => {
+  const result = await withFetchResponse({
+    items: [{ volumeInfo: { title: "L'Être et le néant", authors: ["Jean-Paul Sartre", "Arlette Elkaïm-Sartre"] } }],
+  }, () => new GoogleBooksService().fetchByIsbn("9782070293889"));
+
+  assertEquals(result!.authors, "Jean-Paul Sartre、Arlette Elkaïm-Sartre");
+  assertEquals(result!.contributors!.length, 2);
+});
+
 export { MockOpenBDService, MockGoogleBooksService };
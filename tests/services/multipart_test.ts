@@ -0,0 +1,86 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { getBoundary, readMultipart } from "../../src/services/multipart.ts";
+
+/** FormData を multipart のボディにして、指定したバイト数ずつに分けて流す */
+async function encodeForm(
+  formData: FormData,
+  chunkSize: number,
+): Promise<{ body: ReadableStream<Uint8Array>; boundary: string }> {
+  const req = new Request("http://localhost/", { method: "POST", body: formData });
+  const boundary = getBoundary(req.headers.get("Content-Type"))!;
+  const bytes = new Uint8Array(await req.arrayBuffer());
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        controller.enqueue(bytes.slice(i, i + chunkSize));
+      }
+      controller.close();
+    },
+  });
+  return { body, boundary };
+}
+
+Deno.test("getBoundary - extracts boundary from multipart content type", () => {
+  assertEquals(getBoundary("multipart/form-data; boundary=abc123"), "abc123");
+  assertEquals(getBoundary('multipart/form-data; boundary="a b"'), "a b");
+  assertEquals(getBoundary("application/x-www-form-urlencoded"), null);
+  assertEquals(getBoundary(null), null);
+});
+
+Deno.test("readMultipart - reads fields and file parts across chunk boundaries", async () => {
+  const formData = new FormData();
+  formData.append("title", "人間失格");
+  formData.append("empty", "");
+  formData.append("file", new File(["line1\r\nline2\r\n--not-a-boundary"], "a.epub", {
+    type: "application/epub+zip",
+  }));
+  formData.append("after", "後ろの項目");
+
+  for (const chunkSize of [1, 7, 1024]) {
+    const { body, boundary } = await encodeForm(formData, chunkSize);
+    const parts: [string, string | null, string, string][] = [];
+    for await (const part of readMultipart(body, boundary)) {
+      parts.push([part.name, part.filename, part.contentType, await part.text()]);
+    }
+
+    assertEquals(parts, [
+      ["title", null, "text/plain", "人間失格"],
+      ["empty", null, "text/plain", ""],
+      ["file", "a.epub", "application/epub+zip", "line1\r\nline2\r\n--not-a-boundary"],
+      ["after", null, "text/plain", "後ろの項目"],
+    ]);
+  }
+});
+
+Deno.test("readMultipart - skips unread part bodies", async () => {
+  const formData = new FormData();
+  formData.append("file", new File(["x".repeat(10000)], "big.pdf"));
+  formData.append("title", "次の項目");
+
+  const { body, boundary } = await encodeForm(formData, 512);
+  const names: string[] = [];
+  let title = "";
+  for await (const part of readMultipart(body, boundary)) {
+    names.push(part.name);
+    if (part.name === "title") title = await part.text();
+  }
+
+  assertEquals(names, ["file", "title"]);
+  assertEquals(title, "次の項目");
+});
+
+Deno.test("readMultipart - rejects truncated bodies", async () => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(
+        '--b\r\nContent-Disposition: form-data; name="file"; filename="a.pdf"\r\n\r\npartial',
+      ));
+      controller.close();
+    },
+  });
+
+  await assertRejects(async () => {
+    for await (const part of readMultipart(body, "b")) await part.text();
+  });
+});
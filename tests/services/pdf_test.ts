@@ -0,0 +1,188 @@
+import { assertEquals } from "@std/assert";
+import { decodePdfString, inspectPdf } from "../../src/services/pdf.ts";
+import { BookService } from "../../src/services/book.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+type PdfPart = string | Uint8Array<ArrayBuffer>;
+
+function concat(parts: PdfPart[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const chunks = parts.map((p) => typeof p === "string" ? encoder.encode(p) : p);
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let pos = 0;
+  for (const c of chunks) {
+    out.set(c, pos);
+    pos += c.length;
+  }
+  return out;
+}
+
+/**
+ * オブジェクト番号順に並べた最小限のPDFを組み立てる（xrefは解析側で使わないため省略）。
+ * null の番号はオブジェクトストリーム側に格納されている想定で出力しない。
+ */
+function buildPdf(objects: (PdfPart[] | null)[], trailer: string): Uint8Array<ArrayBuffer> {
+  const parts: PdfPart[] = ["%PDF-1.7\n%\xe2\xe3\xcf\xd3\n"];
+  objects.forEach((body, i) => {
+    if (body) parts.push(`${i + 1} 0 obj\n`, ...body, "\nendobj\n");
+  });
+  parts.push(`trailer\n${trailer}\n%%EOF\n`);
+  return concat(parts);
+}
+
+function stream(dict: string, data: Uint8Array<ArrayBuffer>): PdfPart[] {
+  return [`<< ${dict} /Length ${data.length} >>\nstream\n`, data, "\nendstream"];
+}
+
+async function deflate(text: string): Promise<Uint8Array<ArrayBuffer>> {
+  const s = ReadableStream.from([new TextEncoder().encode(text)])
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(s).arrayBuffer());
+}
+
+function utf16Hex(text: string): string {
+  let hex = "FEFF";
+  for (const ch of text) {
+    hex += ch.charCodeAt(0).toString(16).padStart(4, "0").toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+const SMALL_JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x01, 0xff, 0xd9]);
+const LARGE_JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x02, 0x02, 0x02, 0xff, 0xd9]);
+
+function scannedPdf(info: string): Uint8Array<ArrayBuffer> {
+  return buildPdf([
+    ["<< /Type /Catalog /Pages 2 0 R >>"],
+    ["<< /Type /Pages /Kids [3 0 R] /Count 1 /Resources << /XObject << /Im1 4 0 R /Im2 5 0 R >> >> >>"],
+    ["<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] >>"],
+    stream("/Type /XObject /Subtype /Image /Width 10 /Height 10 /Filter /DCTDecode", SMALL_JPEG),
+    stream("/Type /XObject /Subtype /Image /Width 1200 /Height 1800 /Filter [/DCTDecode]", LARGE_JPEG),
+    [info],
+  ], "<< /Root 1 0 R /Info 6 0 R /Size 7 >>");
+}
+
+// --- decodePdfString ---
+
+Deno.test("decodePdfString - decodes UTF-16BE with BOM", () => {
+  assertEquals(decodePdfString("\xfe\xff\x30\x42\x30\x44"), "あい");
+});
+
+Deno.test("decodePdfString - falls back to Shift_JIS", () => {
+  // 「本」の Shift_JIS
+  assertEquals(decodePdfString("\x96\x7b"), "本");
+});
+
+Deno.test("decodePdfString - keeps ASCII as is", () => {
+  assertEquals(decodePdfString("Hello"), "Hello");
+});
+
+// --- inspectPdf ---
+
+Deno.test("inspectPdf - reads Info dictionary", async () => {
+  const pdf = scannedPdf(
+    `<< /Title ${utf16Hex("吾輩は猫である")} /Author (Natsume Soseki; Someone \\(Ed.\\)) /Subject (ISBN 978-4-10-101001-4) >>`,
+  );
+  const result = await inspectPdf(pdf);
+  assertEquals(result?.metadata.title, "吾輩は猫である");
+  assertEquals(result?.metadata.authors, "Natsume Soseki、Someone (Ed.)");
+  assertEquals(result?.metadata.isbn, "9784101010014");
+});
+
+Deno.test("inspectPdf - ignores numbers that are not valid ISBNs", async () => {
+  const result = await inspectPdf(scannedPdf("<< /Title (T) /Keywords (1234567890123) >>"));
+  assertEquals(result?.metadata.isbn, "");
+});
+
+Deno.test("inspectPdf - uses the largest JPEG on the first page as cover", async () => {
+  const result = await inspectPdf(scannedPdf("<< /Title (T) >>"));
+  assertEquals(result?.cover?.mimeType, "image/jpeg");
+  assertEquals(result?.cover?.data, LARGE_JPEG);
+});
+
+Deno.test("inspectPdf - prefers XMP metadata and reads compressed object streams", async () => {
+  const xmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:prism="http://prismstandard.org/namespaces/basic/2.0/">
+    <dc:title><rdf:Alt><rdf:li xml:lang="x-default">こころ &amp; 門</rdf:li></rdf:Alt></dc:title>
+    <dc:creator><rdf:Seq><rdf:li>夏目漱石</rdf:li><rdf:li>編集者</rdf:li></rdf:Seq></dc:creator>
+    <dc:publisher><rdf:Bag><rdf:li>岩波書店</rdf:li></rdf:Bag></dc:publisher>
+    <prism:isbn>4-00-310101-4</prism:isbn>
+  </rdf:Description></rdf:RDF></x:xmpmeta>`;
+
+  // 1: Catalog, 2: Pages, 3: Page はオブジェクトストリーム(4)内に格納
+  const compressed = [
+    "<< /Type /Catalog /Pages 2 0 R /Metadata 5 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /Resources << /XObject << /X0 6 0 R >> >> >>",
+  ];
+  let offset = 0;
+  const header = compressed.map((body, i) => {
+    const entry = `${i + 1} ${offset}`;
+    offset += body.length + 1;
+    return entry;
+  }).join(" ") + "\n";
+  const objStmBody = header + compressed.join(" ");
+  const first = header.length;
+
+  const pdf = buildPdf([
+    null,
+    null,
+    null,
+    stream(`/Type /ObjStm /N 3 /First ${first} /Filter /FlateDecode`, await deflate(objStmBody)),
+    stream("/Type /Metadata /Subtype /XML /Filter /FlateDecode", await deflate(xmp)),
+    stream("/Subtype /Image /Width 100 /Height 150 /Filter /DCTDecode", SMALL_JPEG),
+    ["<< /Title (Old title) /Author (Old author) >>"],
+  ], "<< /Root 1 0 R /Info 7 0 R >>");
+
+  const result = await inspectPdf(pdf);
+  assertEquals(result?.metadata.title, "こころ & 門");
+  assertEquals(result?.metadata.authors, "夏目漱石、編集者");
+  assertEquals(result?.metadata.publisher, "岩波書店");
+  assertEquals(result?.metadata.isbn, "4003101014");
+  assertEquals(result?.cover?.data, SMALL_JPEG);
+});
+
+Deno.test("inspectPdf - no cover when first page has no JPEG", async () => {
+  const pdf = buildPdf([
+    ["<< /Type /Catalog /Pages 2 0 R >>"],
+    ["<< /Type /Pages /Kids [3 0 R] /Count 1 >>"],
+    ["<< /Type /Page /Parent 2 0 R >>"],
+  ], "<< /Root 1 0 R >>");
+  const result = await inspectPdf(pdf);
+  assertEquals(result?.metadata.title, "");
+  assertEquals(result?.cover, undefined);
+});
+
+Deno.test("inspectPdf - returns null for non-PDF data", async () => {
+  assertEquals(await inspectPdf(new TextEncoder().encode("PK not a pdf")), null);
+});
+
+// --- BookService ---
+
+Deno.test("BookService - registerBook uses PDF cover and fills blank fields", async () => {
+  const drive = new MockGoogleDriveService();
+  const bookService = new BookService(drive, new MockMetadataService(), new CacheService());
+
+  const file = await bookService.registerBook(
+    {
+      isbn: "", title: "入力したタイトル", authors: "", publisher: "",
+      publishedDate: "", description: "", coverImageUrl: "",
+    },
+    scannedPdf("<< /Title (Embedded) /Author (Author A) /Keywords (ISBN4101010013) >>"),
+    "application/pdf",
+  );
+
+  assertEquals(file.properties.title, "入力したタイトル");
+  assertEquals(file.properties.authors, "Author A");
+  assertEquals(file.properties.isbn, "4101010013");
+  assertEquals(await drive.getFileContent(file.properties.cover_file_id), LARGE_JPEG);
+});
@@ -0,0 +1,98 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { fetchRemoteImage, isPrivateAddress } from "../../src/services/remote_image.ts";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+function stubFetch(respond: (url: string) => Response) {
+  const requested: string[] = [];
+  const fetch = ((input: string | URL | Request) => {
+    requested.push(String(input));
+    return Promise.resolve(respond(String(input)));
+  }) as typeof globalThis.fetch;
+  return { fetch, requested };
+}
+
+const publicHost = () => Promise.resolve(["93.184.215.14"]);
+
+Deno.test("isPrivateAddress - detects loopback, private and link-local addresses", () => {
+  for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "0.0.0.0"]) {
+    assert(isPrivateAddress(address), address);
+  }
+  for (const address of ["::1", "::ffff:7f00:1", "fd00::1", "fe80::1"]) {
+    assert(isPrivateAddress(address), address);
+  }
+  assert(!isPrivateAddress("93.184.215.14"));
+  assert(!isPrivateAddress("2606:2800:21f:cb07:6820:80da:af6b:8b2c"));
+});
+
+Deno.test("fetchRemoteImage - fetches images from public hosts", async () => {
+  const { fetch, requested } = stubFetch(() => new Response(PNG.slice(), { headers: { "content-type": "image/png" } }));
+  const image = await fetchRemoteImage("https://covers.example/a.png", { fetch, resolveHost: publicHost });
+  assertEquals(image.mimeType, "image/png");
+  assertEquals(image.data, PNG);
+  assertEquals(requested, ["https://covers.example/a.png"]);
+});
+
+Deno.test("fetchRemoteImage - rejects non-http URLs and internal hosts", async () => {
+  const { fetch, requested } = stubFetch(() => new Response(PNG.slice(), { headers: { "content-type": "image/png" } }));
+  const options = { fetch, resolveHost: publicHost };
+
+  await assertRejects(() => fetchRemoteImage("file:///etc/passwd", options), Error, "http:// または https://");
+  await assertRejects(() => fetchRemoteImage("ftp://93.184.215.14/a.png", options), Error, "http:// または https://");
+  for (const url of ["http://127.0.0.1/", "http://[::1]/", "http://169.254.169.254/latest", "http://localhost:8000/"]) {
+    await assertRejects(() => fetchRemoteImage(url, options), Error, "内部ネットワーク");
+  }
+  // 名前解決した結果が内部のアドレスでも取得しない
+  await assertRejects(
+    () => fetchRemoteImage("http://router.example/", { fetch, resolveHost: () => Promise.resolve(["192.168.0.1"]) }),
+    Error,
+    "内部ネットワーク",
+  );
+  assertEquals(requested, []);
+});
+
+Deno.test("fetchRemoteImage - checks redirect targets", async () => {
+  const { fetch, requested } = stubFetch(() =>
+    new Response(null, { status: 302, headers: { location: "http://10.0.0.1/admin" } })
+  );
+  await assertRejects(
+    () => fetchRemoteImage("https://covers.example/a.png", { fetch, resolveHost: publicHost }),
+    Error,
+    "内部ネットワーク",
+  );
+  assertEquals(requested, ["https://covers.example/a.png"]);
+});
+
+Deno.test("fetchRemoteImage - rejects non-image responses and oversized bodies", async () => {
+  const html = stubFetch(() => new Response("<html>", { headers: { "content-type": "text/html" } }));
+  await assertRejects(
+    () => fetchRemoteImage("https://covers.example/", { fetch: html.fetch, resolveHost: publicHost }),
+    Error,
+    "画像ではない応答です",
+  );
+
+  // Content-Length がなくても上限を超えたところで読むのをやめる
+  let pulled = 0;
+  const endless = stubFetch(() =>
+    new Response(
+      new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulled++;
+          controller.enqueue(new Uint8Array(64 * 1024));
+        },
+      }),
+      { headers: { "content-type": "image/png" } },
+    )
+  );
+  await assertRejects(
+    () =>
+      fetchRemoteImage("https://covers.example/", {
+        fetch: endless.fetch,
+        resolveHost: publicHost,
+        maxBytes: 1024 * 1024,
+      }),
+    Error,
+    "画像が大きすぎます",
+  );
+  assert(pulled <= 20);
+});
@@ -0,0 +1,232 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { ResumableUpload } from "../../src/services/resumable_upload.ts";
+import { DriveCallExecutor } from "../../src/services/drive_resilience.ts";
+
+const CHUNK = 256 * 1024;
+const SESSION_URL = "https://upload.example/session/1";
+
+interface RecordedRequest {
+  method: string;
+  contentRange: string | null;
+  length: number;
+}
+
+/**
+ * Drive の再開可能アップロードを模したサーバー。
+ * 受信したバイトを保持し、308 と Range で受信済みの位置を返す。
+ */
+function createFakeDrive(
+  options: { failPut?: (index: number) => Response | Error | null } = {},
+) {
+  const chunks: Uint8Array[] = [];
+  let receivedLength = 0;
+  const requests: RecordedRequest[] = [];
+  let putCount = 0;
+
+  const rangeHeader = (): Record<string, string> =>
+    receivedLength > 0 ? { Range: `bytes=0-${receivedLength - 1}` } : {};
+
+  const fakeFetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const headers = new Headers(init?.headers);
+    const body = init?.body ? new Uint8Array(await new Response(init.body).arrayBuffer()) : null;
+    requests.push({
+      method: init?.method || "GET",
+      contentRange: headers.get("Content-Range"),
+      length: body?.length ?? 0,
+    });
+
+    if (init?.method === "POST") {
+      assertEquals(String(input).includes("uploadType=resumable"), true);
+      return new Response(null, { status: 200, headers: { Location: SESSION_URL } });
+    }
+
+    const failure = options.failPut?.(putCount++);
+    if (failure instanceof Error) throw failure;
+    if (failure) return failure;
+
+    const range = headers.get("Content-Range")!;
+    const match = range.match(/^bytes (\d+)-(\d+)\/(\d+|\*)$/);
+    if (match && body) {
+      // 受信済みより先の位置からの送信は受け付けない
+      if (Number(match[1]) === receivedLength) {
+        chunks.push(body);
+        receivedLength += body.length;
+      }
+    }
+    const total = range.split("/")[1];
+    if (total !== "*" && receivedLength === Number(total)) {
+      return Response.json({ id: "uploaded-id", name: "book.pdf", size: total });
+    }
+    return new Response(null, { status: 308, headers: rangeHeader() });
+  };
+
+  const received = () => {
+    const data = new Uint8Array(receivedLength);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return data;
+  };
+
+  return { fetch: fakeFetch as typeof fetch, received, requests };
+}
+
+function createContent(length: number, streamChunk = 100 * 1024): {
+  bytes: Uint8Array;
+  stream: ReadableStream<Uint8Array>;
+} {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = i % 251;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < length; i += streamChunk) {
+        controller.enqueue(bytes.slice(i, i + streamChunk));
+      }
+      controller.close();
+    },
+  });
+  return { bytes, stream };
+}
+
+function request(content: ReadableStream<Uint8Array>) {
+  return {
+    metadata: { name: "book.pdf", parents: ["folder"], properties: {} },
+    mimeType: "application/pdf",
+    content,
+    fields: "id,name,size",
+  };
+}
+
+Deno.test("ResumableUpload - uploads in chunks and reports progress", async () => {
+  const drive = createFakeDrive();
+  const { bytes, stream } = createContent(CHUNK * 2 + 1000);
+  const progress: number[] = [];
+
+  const upload = new ResumableUpload({
+    accessToken: () => Promise.resolve("token"),
+    chunkSize: CHUNK,
+    fetch: drive.fetch,
+    onProgress: (uploaded) => progress.push(uploaded),
+  });
+  const file = await upload.upload(request(stream));
+
+  assertEquals(file.id, "uploaded-id");
+  assertEquals(drive.received(), bytes);
+  assertEquals(drive.requests.map((r) => r.contentRange), [
+    null,
+    `bytes 0-${CHUNK - 1}/*`,
+    `bytes ${CHUNK}-${CHUNK * 2 - 1}/*`,
+    `bytes ${CHUNK * 2}-${CHUNK * 2 + 999}/${CHUNK * 2 + 1000}`,
+  ]);
+  assertEquals(progress, [CHUNK, CHUNK * 2, CHUNK * 2 + 1000]);
+});
+
+Deno.test("ResumableUpload - shares the Drive executor's concurrency limit", async () => {
+  const executor = new DriveCallExecutor({ maxConcurrency: 1 });
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const uploads = [1, 2].map(() => {
+    const drive = createFakeDrive();
+    const slowFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      try {
+        return await drive.fetch(input, init);
+      } finally {
+        inFlight--;
+      }
+    }) as typeof fetch;
+    return new ResumableUpload({
+      accessToken: () => Promise.resolve("token"),
+      chunkSize: CHUNK,
+      fetch: slowFetch,
+      withSlot: (task) => executor.withSlot(task),
+    }).upload(request(createContent(CHUNK * 2).stream));
+  });
+
+  const files = await Promise.all(uploads);
+  assertEquals(files.map((f) => f.id), ["uploaded-id", "uploaded-id"]);
+  assertEquals(maxInFlight, 1);
+});
+
+Deno.test("ResumableUpload - resumes from the committed offset after an interruption", async () => {
+  const sleeps: number[] = [];
+  const drive = createFakeDrive({
+    failPut: (index) =>
+      index === 1 ? Object.assign(new Error("connection reset"), { code: "ECONNRESET" }) : null,
+  });
+  const { bytes, stream } = createContent(CHUNK * 3);
+
+  const upload = new ResumableUpload({
+    accessToken: () => Promise.resolve("token"),
+    chunkSize: CHUNK,
+    fetch: drive.fetch,
+    random: () => 0.5,
+    sleep: (ms) => {
+      sleeps.push(ms);
+      return Promise.resolve();
+    },
+  });
+  await upload.upload(request(stream));
+
+  assertEquals(drive.received(), bytes);
+  // 中断後は受信済みの位置を問い合わせてから同じチャンクを送り直す
+  assertEquals(drive.requests.slice(2, 5).map((r) => r.contentRange), [
+    `bytes ${CHUNK}-${CHUNK * 2 - 1}/*`,
+    "bytes */*",
+    `bytes ${CHUNK}-${CHUNK * 2 - 1}/*`,
+  ]);
+  assertEquals(sleeps, [500]);
+});
+
+Deno.test("ResumableUpload - honors Retry-After and gives up on permanent errors", async () => {
+  const sleeps: number[] = [];
+  const drive = createFakeDrive({
+    failPut: (index) =>
+      index === 0 ? new Response("busy", { status: 503, headers: { "Retry-After": "2" } }) : null,
+  });
+  const { stream } = createContent(1000);
+
+  const upload = new ResumableUpload({
+    accessToken: () => Promise.resolve("token"),
+    fetch: drive.fetch,
+    sleep: (ms) => {
+      sleeps.push(ms);
+      return Promise.resolve();
+    },
+  });
+  const file = await upload.upload(request(stream));
+  assertEquals(file.id, "uploaded-id");
+  assertEquals(sleeps, [2000]);
+
+  // Retry-After が長すぎるときは maxDelayMs で抑える
+  const slow = createFakeDrive({
+    failPut: (index) =>
+      index === 0 ? new Response("busy", { status: 503, headers: { "Retry-After": "3600" } }) : null,
+  });
+  const capped = new ResumableUpload({
+    accessToken: () => Promise.resolve("token"),
+    fetch: slow.fetch,
+    maxDelayMs: 5000,
+    sleep: (ms) => {
+      sleeps.push(ms);
+      return Promise.resolve();
+    },
+  });
+  await capped.upload(request(createContent(1000).stream));
+  assertEquals(sleeps, [2000, 5000]);
+
+  const forbidden = createFakeDrive({
+    failPut: () => new Response("forbidden", { status: 403 }),
+  });
+  const failing = new ResumableUpload({
+    accessToken: () => Promise.resolve("token"),
+    fetch: forbidden.fetch,
+    sleep: () => Promise.resolve(),
+  });
+  await assertRejects(() => failing.upload(request(createContent(1000).stream)), Error, "403");
+  assertEquals(forbidden.requests.length, 2);
+});
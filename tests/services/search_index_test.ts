@@ -0,0 +1,262 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  normalizeForSearch,
+  parseSearchQuery,
+  SearchIndex,
+} from "../../src/services/search_index.ts";
+import { BookService } from "../../src/services/book.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { BookMetadata, BookMetadataService, DriveFile } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+function book(
+  id: string,
+  title: string,
+  authors: string,
+  extra: Record<string, string> = {},
+): DriveFile {
+  return {
+    id,
+    name: `[${authors}] ${title}.epub`,
+    mimeType: "application/epub+zip",
+    properties: { app_type: "my_library_book", title, authors, ...extra },
+    parents: ["folder"],
+  };
+}
+
+function createTestServices() {
+  const drive = new MockGoogleDriveService();
+  const searchIndex = new SearchIndex();
+  const bookService = new BookService(
+    drive,
+    new MockMetadataService(),
+    new CacheService(),
+    { searchIndex },
+  );
+  return { drive, searchIndex, bookService };
+}
+
+const sampleMetadata: BookMetadata = {
+  isbn: "9784101010014",
+  title: "人間失格",
+  authors: "太宰治",
+  publisher: "新潮社",
+  publishedDate: "1952-01-01",
+  description: "",
+  coverImageUrl: "",
+};
+
+// --- Normalization ---
+
+Deno.test("normalizeForSearch - katakana and hiragana are equivalent", () => {
+  assertEquals(normalizeForSearch("ノルウェイ"), normalizeForSearch("のるうぇい"));
+});
+
+Deno.test("normalizeForSearch - full-width and half-width are equivalent", () => {
+  assertEquals(normalizeForSearch("ＡＢＣ１２３"), "abc123");
+  assertEquals(normalizeForSearch("ｶﾀｶﾅ"), normalizeForSearch("カタカナ"));
+});
+
+Deno.test("normalizeForSearch - old kanji forms map to standard forms", () => {
+  assertEquals(normalizeForSearch("渡邊"), normalizeForSearch("渡辺"));
+  assertEquals(normalizeForSearch("齋藤"), normalizeForSearch("斎藤"));
+});
+
+Deno.test("normalizeForSearch - strips separators", () => {
+  assertEquals(normalizeForSearch("太宰 治"), "太宰治");
+  assertEquals(normalizeForSearch("978-4-10-101001-4"), "9784101010014");
+});
+
+Deno.test("parseSearchQuery - splits terms on full-width spaces", () => {
+  const parsed = parseSearchQuery("太宰　人間");
+  assertEquals(parsed.terms, ["太宰", "人間"]);
+  assertEquals(parsed.fieldTerms, []);
+});
+
+Deno.test("parseSearchQuery - recognizes field prefixes", () => {
+  const parsed = parseSearchQuery("author:太宰 タイトル:斜陽 foo:bar");
+  assertEquals(parsed.fieldTerms, [
+    { field: "authors", term: "太宰" },
+    { field: "title", term: "斜陽" },
+  ]);
+  assertEquals(parsed.terms, ["foobar"]);
+});
+
+// --- SearchIndex ---
+
+Deno.test("SearchIndex - substring match on author", () => {
+  const index = new SearchIndex();
+  index.upsert(book("1", "人間失格", "太宰治"));
+  index.upsert(book("2", "坊っちゃん", "夏目漱石"));
+
+  const result = index.search("太宰");
+  assertEquals(result.files.map((f) => f.id), ["1"]);
+});
+
+Deno.test("SearchIndex - kana-insensitive title match", () => {
+  const index = new SearchIndex();
+  index.upsert(book("1", "ノルウェイの森", "村上春樹"));
+
+  assertEquals(index.search("のるうぇい").files.length, 1);
+});
+
+Deno.test("SearchIndex - old kanji form matches standard form", () => {
+  const index = new SearchIndex();
+  index.upsert(book("1", "テスト", "渡邊淳一"));
+
+  assertEquals(index.search("渡辺").files.length, 1);
+});
+
+Deno.test("SearchIndex - multiple terms are ANDed across fields", () => {
+  const index = new SearchIndex();
+  index.upsert(book("1", "人間失格", "太宰治"));
+  index.upsert(book("2", "斜陽", "太宰治"));
+
+  const result = index.search("太宰 斜陽");
+  assertEquals(result.files.map((f) => f.id), ["2"]);
+});
+
+Deno.test("SearchIndex - field prefix limits matching field", () => {
+  const index = new SearchIndex();
+  index.upsert(book("1", "夏目漱石論", "江藤淳"));
+  index.upsert(book("2", "こころ", "夏目漱石"));
+
+  const result = index.search("author:夏目");
+  assertEquals(result.files.map((f) => f.id), ["2"]);
+});
+
+Deno.test("SearchIndex - matches publisher and ISBN", () => {
+  const index = new SearchIndex();
+  index.upsert(book("1", "人間失格", "太宰治", { publisher: "新潮社", isbn: "9784101006017" }));
+
+  assertEquals(index.search("新潮").files.length, 1);
+  assertEquals(index.search("978-4-10-100601").files.length, 1);
+});
+
+Deno.test("SearchIndex - empty query returns no results", () => {
+  const index = new SearchIndex();
+  index.upsert(book("1", "人間失格", "太宰治"));
+  assertEquals(index.search("   ").files.length, 0);
+});
+
+Deno.test("SearchIndex - paginates results", () => {
+  const index = new SearchIndex();
+  for (let i = 0; i < 25; i++) {
+    index.upsert(book(`id${i}`, `テスト${String(i).padStart(2, "0")}`, "著者"));
+  }
+
+  const page1 = index.search("テスト");
+  assertEquals(page1.files.length, 20);
+  assertEquals(page1.nextPageToken, "20");
+
+  const page2 = index.search("テスト", page1.nextPageToken);
+  assertEquals(page2.files.length, 5);
+  assertEquals(page2.nextPageToken, undefined);
+});
+
+Deno.test("SearchIndex - remove drops entry", () => {
+  const index = new SearchIndex();
+  index.upsert(book("1", "人間失格", "太宰治"));
+  index.remove("1");
+  assertEquals(index.search("人間").files.length, 0);
+  assertEquals(index.size, 0);
+});
+
+Deno.test("SearchIndex - rebuild reads all books from Drive", async () => {
+  const drive = new MockGoogleDriveService();
+  const folderId = await drive.ensureAuthorFolder(await drive.ensureMyLibraryFolder(), "著者");
+  for (let i = 0; i < 120; i++) {
+    drive.addFile({ ...book(`b${i}`, `本${i}`, "著者"), parents: [folderId] });
+  }
+  drive.addFile({
+    id: "other",
+    name: "other.txt",
+    mimeType: "text/plain",
+    properties: {},
+    parents: [],
+  });
+
+  const index = new SearchIndex();
+  assertEquals(index.isReady, false);
+  await index.rebuild(drive);
+  assertEquals(index.isReady, true);
+  assertEquals(index.size, 120);
+});
+
+Deno.test("SearchIndex - save and load snapshot", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  try {
+    const index = new SearchIndex({ path });
+    index.upsert(book("1", "人間失格", "太宰治"));
+    await index.flush();
+
+    const loaded = new SearchIndex({ path });
+    assertEquals(await loaded.load(), true);
+    assertEquals(loaded.isReady, true);
+    assertEquals(loaded.search("太宰").files.map((f) => f.id), ["1"]);
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("SearchIndex - load returns false for missing file", async () => {
+  const index = new SearchIndex({ path: "./nonexistent_index.json" });
+  assertEquals(await index.load(), false);
+  assertEquals(index.isReady, false);
+});
+
+// --- BookService integration ---
+
+Deno.test("BookService - search uses index without Drive round trip", async () => {
+  const { drive, bookService } = createTestServices();
+  await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+  await bookService.rebuildSearchIndex();
+
+  drive.shouldFail = true;
+  const result = await bookService.searchBooks("太宰 失格");
+  assertEquals(result.files.length, 1);
+});
+
+Deno.test("BookService - registerBook adds to index", async () => {
+  const { searchIndex, bookService } = createTestServices();
+  await bookService.rebuildSearchIndex();
+  const file = await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+
+  assertEquals(searchIndex.get(file.id)?.properties.title, "人間失格");
+});
+
+Deno.test("BookService - updateBook refreshes index entry", async () => {
+  const { searchIndex, bookService } = createTestServices();
+  await bookService.rebuildSearchIndex();
+  const file = await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+
+  await bookService.updateBook(file.id, { title: "斜陽" });
+
+  assertEquals(searchIndex.get(file.id)?.name, "[太宰治] 斜陽.epub");
+  assertEquals((await bookService.searchBooks("斜陽")).files.length, 1);
+  assertEquals((await bookService.searchBooks("失格")).files.length, 0);
+});
+
+Deno.test("BookService - deleteBook removes from index", async () => {
+  const { searchIndex, bookService } = createTestServices();
+  await bookService.rebuildSearchIndex();
+  const file = await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+
+  await bookService.deleteBook(file.id);
+  assertEquals(searchIndex.get(file.id), null);
+});
+
+Deno.test("BookService - falls back to Drive search until index is ready", async () => {
+  const { drive, bookService } = createTestServices();
+  await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+
+  drive.shouldFail = true;
+  await assertRejects(() => bookService.searchBooks("人間"));
+});
@@ -0,0 +1,207 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { SyncService } from "../../src/services/sync.ts";
+import { SearchIndex } from "../../src/services/search_index.ts";
+import { BookService } from "../../src/services/book.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { createApp } from "../../src/app.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+function createTestServices() {
+  const drive = new MockGoogleDriveService();
+  const searchIndex = new SearchIndex();
+  const cache = new CacheService();
+  const bookService = new BookService(drive, new MockMetadataService(), cache, {
+    searchIndex,
+  });
+  const syncService = new SyncService(drive, bookService);
+  return { drive, searchIndex, cache, bookService, syncService };
+}
+
+const sampleMetadata: BookMetadata = {
+  isbn: "9784101010014",
+  title: "人間失格",
+  authors: "太宰治",
+  publisher: "新潮社",
+  publishedDate: "1952-01-01",
+  description: "",
+  coverImageUrl: "",
+};
+
+Deno.test("SyncService - initialize builds catalog and stores token", async () => {
+  const { searchIndex, bookService, syncService } = createTestServices();
+  await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+
+  await syncService.initialize(false);
+
+  assertEquals(searchIndex.isReady, true);
+  assertEquals(searchIndex.size, 1);
+  const status = syncService.getStatus();
+  assertEquals(status.startPageToken !== null, true);
+  assertEquals(status.lastSyncAt !== null, true);
+});
+
+Deno.test("SyncService - applies edits made directly in Drive", async () => {
+  const { drive, bookService, syncService } = createTestServices();
+  const file = await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+  await syncService.initialize(false);
+
+  // BookService を経由しない編集（Drive Web UI 相当）
+  await drive.updateFileProperties(file.id, { title: "斜陽" });
+  assertEquals((await bookService.searchBooks("斜陽")).files.length, 0);
+
+  const applied = await syncService.syncOnce();
+  assertEquals(applied, 1);
+  assertEquals((await bookService.searchBooks("斜陽")).files.length, 1);
+  assertEquals(syncService.getStatus().changesApplied, 1);
+});
+
+Deno.test("SyncService - removes books deleted in Drive", async () => {
+  const { drive, searchIndex, bookService, syncService } = createTestServices();
+  const file = await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+  await syncService.initialize(false);
+
+  await drive.deleteFile(file.id);
+  await syncService.syncOnce();
+
+  assertEquals(searchIndex.get(file.id), null);
+  assertEquals((await bookService.listBooks()).files.length, 0);
+});
+
+Deno.test("SyncService - picks up books added in Drive", async () => {
+  const { drive, bookService, syncService } = createTestServices();
+  await syncService.initialize(false);
+
+  drive.addFile({
+    id: "external",
+    name: "[著者] 外部追加.pdf",
+    mimeType: "application/pdf",
+    properties: { app_type: "my_library_book", title: "外部追加", authors: "著者" },
+    parents: ["folder"],
+  });
+  await syncService.syncOnce();
+
+  const list = await bookService.listBooks();
+  assertEquals(list.files.map((f) => f.id), ["external"]);
+});
+
+Deno.test("SyncService - ignores non-book changes", async () => {
+  const { drive, searchIndex, syncService } = createTestServices();
+  await syncService.initialize(false);
+
+  await drive.uploadCoverImage("folder", "cover.jpg", new Uint8Array(), "image/jpeg");
+  const applied = await syncService.syncOnce();
+
+  assertEquals(applied, 0);
+  assertEquals(searchIndex.size, 0);
+});
+
+Deno.test("SyncService - does not reapply changes already consumed", async () => {
+  const { drive, bookService, syncService } = createTestServices();
+  const file = await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+  await syncService.initialize(false);
+
+  await drive.renameFile(file.id, "renamed.epub");
+  assertEquals(await syncService.syncOnce(), 1);
+  assertEquals(await syncService.syncOnce(), 0);
+});
+
+Deno.test("SyncService - records error and keeps token on failure", async () => {
+  const { drive, syncService } = createTestServices();
+  await syncService.initialize(false);
+  const token = syncService.getStatus().startPageToken;
+
+  drive.shouldFail = true;
+  await assertRejects(() => syncService.syncOnce());
+
+  const status = syncService.getStatus();
+  assertEquals(status.lastError?.includes("Drive API error"), true);
+  assertEquals(status.startPageToken, token);
+});
+
+Deno.test("SyncService - resumes from persisted token without full rebuild", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const drive = new MockGoogleDriveService();
+    const indexPath = `${dir}/index.json`;
+    const statePath = `${dir}/state.json`;
+
+    const index1 = new SearchIndex({ path: indexPath });
+    const books1 = new BookService(drive, new MockMetadataService(), new CacheService(), {
+      searchIndex: index1,
+    });
+    const sync1 = new SyncService(drive, books1, { statePath });
+    const file = await books1.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+    await sync1.initialize(false);
+    await index1.flush();
+
+    // 停止中にDrive側で変更
+    await drive.updateFileProperties(file.id, { title: "斜陽" });
+
+    const index2 = new SearchIndex({ path: indexPath });
+    const books2 = new BookService(drive, new MockMetadataService(), new CacheService(), {
+      searchIndex: index2,
+    });
+    const sync2 = new SyncService(drive, books2, { statePath });
+    await sync2.initialize(await index2.load());
+
+    assertEquals(index2.get(file.id)?.properties.title, "斜陽");
+    assertEquals(sync2.getStatus().changesApplied, 1);
+    await index2.flush();
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("SyncService - start and stop polling", () => {
+  const { syncService } = createTestServices();
+  syncService.start();
+  assertEquals(syncService.getStatus().polling, true);
+  syncService.stop();
+  assertEquals(syncService.getStatus().polling, false);
+});
+
+Deno.test("GET /api/sync/status - returns sync status", async () => {
+  const drive = new MockGoogleDriveService();
+  const { app, syncService } = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+    searchIndex: new SearchIndex(),
+    sync: {},
+  });
+  await syncService!.initialize(false);
+
+  const res = await app.request("/api/sync/status");
+  assertEquals(res.status, 200);
+  const body = await res.json();
+  assertEquals(typeof body.lastSyncAt, "string");
+  assertEquals(body.lastError, null);
+  assertEquals(body.polling, false);
+});
+
+Deno.test("POST /api/sync - runs a sync immediately", async () => {
+  const drive = new MockGoogleDriveService();
+  const { app, bookService, syncService } = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+    searchIndex: new SearchIndex(),
+    sync: {},
+  });
+  await syncService!.initialize(false);
+  const file = await bookService.registerBook(sampleMetadata, new Uint8Array(), "application/epub+zip");
+  await drive.renameFile(file.id, "renamed.epub");
+
+  const res = await app.request("/api/sync", { method: "POST" });
+  assertEquals(res.status, 200);
+  const body = await res.json();
+  assertEquals(body.applied, 2);
+});
@@ -0,0 +1,178 @@
+import { assert, assertEquals } from "@std/assert";
+import jpeg from "jpeg-js";
+import { decodeImage, encodeJpeg, resizeImage } from "../../src/services/image.ts";
+import { createCoverRenditions } from "../../src/services/thumbnail.ts";
+import { MockGoogleDriveService } from "../../src/services/drive_mock.ts";
+import { CacheService } from "../../src/services/cache.ts";
+import { createApp } from "../../src/app.ts";
+import { BookMetadata, BookMetadataService } from "../../src/types.ts";
+
+class MockMetadataService implements BookMetadataService {
+  async fetchByIsbn(_isbn: string): Promise<BookMetadata | null> {
+    await Promise.resolve();
+    return null;
+  }
+}
+
+/** 単色の JPEG を作る */
+function solidJpeg(width: number, height: number, rgb: [number, number, number]): Uint8Array {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([...rgb, 255], i);
+  }
+  return encodeJpeg({ width, height, data }, 90);
+}
+
+/** 8ビット RGBA の PNG を作る（CRC は検証しないので 0 のまま） */
+async function rgbaPng(width: number, height: number, pixel: (x: number, y: number) => number[]) {
+  const raw = new Uint8Array((width * 4 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (width * 4 + 1)] = y % 2 === 0 ? 0 : 2; // None / Up フィルタ
+    for (let x = 0; x < width; x++) {
+      const value = pixel(x, y);
+      for (let c = 0; c < 4; c++) {
+        const above = y > 0 ? pixel(x, y - 1)[c] : 0;
+        raw[y * (width * 4 + 1) + 1 + x * 4 + c] = y % 2 === 0 ? value[c] : (value[c] - above) & 0xff;
+      }
+    }
+  }
+  const idat = new Uint8Array(
+    await new Response(new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate")))
+      .arrayBuffer(),
+  );
+
+  const chunk = (type: string, body: Uint8Array) => {
+    const out = new Uint8Array(12 + body.length);
+    new DataView(out.buffer).setUint32(0, body.length);
+    out.set(new TextEncoder().encode(type), 4);
+    out.set(body, 8);
+    return out;
+  };
+  const ihdr = new Uint8Array(13);
+  new DataView(ihdr.buffer).setUint32(0, width);
+  new DataView(ihdr.buffer).setUint32(4, height);
+  ihdr.set([8, 6, 0, 0, 0], 8);
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", ihdr),
+    chunk("IDAT", idat),
+    chunk("IEND", new Uint8Array()),
+  ];
+  return new Uint8Array(await new Blob(parts).arrayBuffer());
+}
+
+Deno.test("decodeImage - decodes JPEG and PNG covers", async () => {
+  const fromJpeg = await decodeImage(solidJpeg(8, 6, [200, 30, 30]));
+  assertEquals([fromJpeg?.width, fromJpeg?.height], [8, 6]);
+  assert(Math.abs(fromJpeg!.data[0] - 200) < 8);
+
+  const png = await rgbaPng(3, 4, (x, y) => [x * 50, y * 40, 100, 255]);
+  const fromPng = await decodeImage(png);
+  assertEquals([fromPng?.width, fromPng?.height], [3, 4]);
+  // (2, 3) の画素
+  const i = (3 * 3 + 2) * 4;
+  assertEquals([...fromPng!.data.subarray(i, i + 4)], [100, 120, 100, 255]);
+
+  assertEquals(await decodeImage(new TextEncoder().encode("not an image")), null);
+});
+
+Deno.test("resizeImage - keeps aspect ratio and averages pixels", () => {
+  const data = new Uint8Array(4 * 2 * 4);
+  // 左半分が黒、右半分が白
+  for (let y = 0; y < 2; y++) {
+    for (let x = 0; x < 4; x++) data.set(x < 2 ? [0, 0, 0, 255] : [255, 255, 255, 255], (y * 4 + x) * 4);
+  }
+  const image = { width: 4, height: 2, data };
+
+  const half = resizeImage(image, 2, 100);
+  assertEquals([half.width, half.height], [2, 1]);
+  assertEquals([...half.data], [0, 0, 0, 255, 255, 255, 255, 255]);
+
+  const single = resizeImage(image, 1, 1);
+  assertEquals(single.data[0], 128);
+  // 拡大はしない
+  assertEquals(resizeImage(image, 100, 100), image);
+});
+
+Deno.test("createCoverRenditions - produces thumb and medium JPEGs", async () => {
+  const renditions = await createCoverRenditions(solidJpeg(800, 1200, [10, 120, 200]));
+
+  const medium = jpeg.decode(renditions!.medium!, { useTArray: true });
+  const thumb = jpeg.decode(renditions!.thumb!, { useTArray: true });
+  assertEquals([medium.width, medium.height], [341, 512]);
+  assertEquals([thumb.width, thumb.height], [160, 240]);
+  assertEquals(await createCoverRenditions(new Uint8Array([1, 2, 3])), null);
+});
+
+Deno.test("GET /books/:id/cover?size=thumb - serves renditions stored with the cover", async () => {
+  const drive = new MockGoogleDriveService();
+  const { app, bookService } = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+  });
+  const cover = solidJpeg(600, 900, [0, 0, 0]);
+  const fetchStub = globalThis.fetch;
+  globalThis.fetch = () => Promise.resolve(new Response(cover.slice(), { headers: { "content-type": "image/jpeg" } }));
+  let book;
+  try {
+    book = await bookService.registerBook({
+      isbn: "",
+      title: "表紙のある本",
+      authors: "著者",
+      publisher: "",
+      publishedDate: "",
+      description: "",
+      // 名前解決しないよう公開アドレスで指定する
+      coverImageUrl: "https://93.184.215.14/cover.jpg",
+    }, new TextEncoder().encode("content"), "application/pdf");
+  } finally {
+    globalThis.fetch = fetchStub;
+  }
+
+  assert(book.properties.cover_thumb_file_id);
+  assert(book.properties.cover_medium_file_id);
+
+  const thumb = await app.request(`/books/${book.id}/cover?size=thumb`);
+  assertEquals(thumb.status, 200);
+  const decoded = jpeg.decode(new Uint8Array(await thumb.arrayBuffer()), { useTArray: true });
+  assertEquals([decoded.width, decoded.height], [160, 240]);
+
+  const original = await app.request(`/books/${book.id}/cover`);
+  assertEquals(new Uint8Array(await original.arrayBuffer()), cover);
+
+  assertEquals((await app.request(`/books/${book.id}/cover?size=huge`)).status, 400);
+
+  const opds = await (await app.request("/opds/all")).text();
+  assert(opds.includes(`/books/${book.id}/cover?size=thumb`));
+
+  // 削除すると縮小版も消す
+  await bookService.deleteBook(book.id);
+  assertEquals((await drive.findFilesByParent(book.parents[0])).length, 0);
+});
+
+Deno.test("GET /books/:id/cover?size=medium - creates renditions for older covers", async () => {
+  const drive = new MockGoogleDriveService();
+  const { app, bookService } = createApp({
+    driveService: drive,
+    metadataService: new MockMetadataService(),
+    cache: new CacheService(),
+  });
+  const book = await bookService.registerBook({
+    isbn: "",
+    title: "古い本",
+    authors: "著者",
+    publisher: "",
+    publishedDate: "",
+    description: "",
+    coverImageUrl: "",
+  }, new TextEncoder().encode("content"), "application/pdf");
+  // 縮小版の機能より前に登録された表紙
+  const cover = await drive.uploadCoverImage("folder", "cover.jpg", solidJpeg(700, 1000, [255, 255, 255]), "image/jpeg");
+  await drive.updateFileProperties(book.id, { ...book.properties, cover_file_id: cover.id });
+
+  const res = await app.request(`/books/${book.id}/cover?size=medium`);
+  const decoded = jpeg.decode(new Uint8Array(await res.arrayBuffer()), { useTArray: true });
+  assertEquals([decoded.width, decoded.height], [352, 503]);
+});